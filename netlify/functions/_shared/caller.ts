@@ -0,0 +1,141 @@
+// Request plumbing shared by the platform functions: CORS, JSON responses and
+// resolving the signed-in caller to their organization and role.
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { CredentialVault } from '../../../src/services/credentialVault';
+import { refreshAccessToken, tokenNeedsRefresh, tokenUpdates } from '../../../src/services/platformOAuth';
+import type { VendorConfig } from '../../../src/services/platformVendors';
+import type { PlatformResponse } from '../../../src/types/platform.types';
+
+export interface FunctionEvent {
+  httpMethod: string;
+  headers: Record<string, string | undefined>;
+  body: string | null;
+}
+
+export interface FunctionResult {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface Caller {
+  supabase: SupabaseClient;
+  userId: string;
+  organizationId: string;
+  role: string;
+}
+
+// Roles allowed to change platform settings
+export const ADMIN_ROLES = ['owner', 'admin'];
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json',
+};
+
+export const respond = (statusCode: number, body: PlatformResponse): FunctionResult => ({
+  statusCode,
+  headers,
+  body: JSON.stringify(body),
+});
+
+export const reject = (statusCode: number, error: string) =>
+  respond(statusCode, { success: false, error, details: { status: statusCode } });
+
+// Answers preflight and non-POST requests; undefined means carry on
+export function preflight(event: FunctionEvent): FunctionResult | undefined {
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+  if (event.httpMethod !== 'POST') {
+    return reject(405, 'Method not allowed');
+  }
+  return undefined;
+}
+
+// Service-role client for requests that are authorized some other way
+export function serviceClient(): SupabaseClient | FunctionResult {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !serviceKey) {
+    return reject(500, 'Platform functions are not configured');
+  }
+  return createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } });
+}
+
+export async function resolveCaller(event: FunctionEvent): Promise<Caller | FunctionResult> {
+  const supabase = serviceClient();
+  if (isFunctionResult(supabase)) return supabase;
+
+  const token = (event.headers.authorization || event.headers.Authorization || '').replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return reject(401, 'Sign in to use platform integrations');
+  }
+
+  const { data: authData, error: authError } = await supabase.auth.getUser(token);
+  if (authError || !authData.user) {
+    return reject(401, 'Session expired, sign in again');
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('users')
+    .select('organization_id, role')
+    .eq('id', authData.user.id)
+    .single();
+  if (profileError || !profile) {
+    return reject(403, 'No organization for this user');
+  }
+
+  return {
+    supabase,
+    userId: authData.user.id,
+    organizationId: profile.organization_id,
+    role: profile.role,
+  };
+}
+
+export const isFunctionResult = (value: object): value is FunctionResult =>
+  'statusCode' in value;
+
+export function openVault(caller: Pick<Caller, 'supabase'>): CredentialVault | FunctionResult {
+  const masterKey = process.env.CREDENTIAL_MASTER_KEY;
+  if (!masterKey) {
+    return reject(500, 'Credential vault is not configured');
+  }
+  try {
+    return new CredentialVault(caller.supabase, masterKey);
+  } catch (error) {
+    return reject(500, error instanceof Error ? error.message : 'Credential vault is not configured');
+  }
+}
+
+/**
+ * Decrypt a platform's stored config, renewing an expiring OAuth token first.
+ * If the refresh fails the old token is used and the vendor decides whether
+ * it still works. Throws when the secrets cannot be decrypted.
+ */
+export async function revealStoredConfig(
+  vault: CredentialVault,
+  stored: { id: string; organizationId: string; platformId: string; config: VendorConfig },
+  userId: string
+): Promise<VendorConfig> {
+  const config = await vault.revealConfig(stored.organizationId, stored.platformId, stored.config);
+  if (!config.oAuthRefreshToken || !tokenNeedsRefresh(config)) return config;
+
+  try {
+    const updates = tokenUpdates(await refreshAccessToken(stored.platformId, config));
+    await vault.saveSecrets(
+      { organizationId: stored.organizationId, platformRowId: stored.id, platformId: stored.platformId },
+      updates.secrets,
+      userId,
+      updates.config
+    );
+    return { ...config, ...updates.secrets };
+  } catch (error) {
+    console.error(`Could not refresh the ${stored.platformId} token: ${error instanceof Error ? error.message : error}`);
+    return config;
+  }
+}
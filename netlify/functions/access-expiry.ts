@@ -0,0 +1,131 @@
+// Scheduled hourly (see netlify.toml). For every organization it revokes
+// platform access whose end date has passed and queues expiry reminders, so
+// expiry does not depend on an admin having the app open. Platform modules run
+// here with the organization's decrypted config and call vendors directly.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CredentialVault } from '../../src/services/credentialVault';
+import { runExpirySweep, type ExpirySweepResult } from '../../src/services/accessExpirySweep';
+import { setPlatformTransport } from '../../src/services/platformTransport';
+import { executePlatformRequest, type VendorConfig } from '../../src/services/platformVendors';
+import type { FreelancerPlatform, Freelancer, Organization } from '../../src/types/database.types';
+import type { PlatformConfig, PlatformModuleManifest } from '../../src/types/platform.types';
+import { manifest as amove } from '../../src/modules/file-sharing/amove.manifest';
+import { manifest as monday } from '../../src/modules/collaboration/monday.manifest';
+import { manifest as parsec } from '../../src/modules/screen-sharing/parsec.manifest';
+import { manifest as truenas } from '../../src/modules/file-sharing/truenas.manifest';
+import {
+  isFunctionResult,
+  openVault,
+  respond,
+  revealStoredConfig,
+  serviceClient,
+  type FunctionResult
+} from './_shared/caller';
+
+const MANIFESTS: Record<string, PlatformModuleManifest> = Object.fromEntries(
+  [amove, monday, parsec, truenas].map(manifest => [manifest.id, manifest])
+);
+
+// Keep one slow vendor from using up the whole run
+const VENDOR_TIMEOUT_MS = 9000;
+
+// Modules send the config they were initialized with, which here is the
+// decrypted stored config
+setPlatformTransport({
+  send: request => executePlatformRequest(
+    request.platformId,
+    request.action,
+    request.payload,
+    (request.config || {}) as VendorConfig,
+    { timeoutMs: VENDOR_TIMEOUT_MS }
+  ) as ReturnType<typeof executePlatformRequest>
+});
+
+async function revokeOnPlatform(
+  supabase: SupabaseClient,
+  vault: CredentialVault,
+  organizationId: string,
+  grant: FreelancerPlatform,
+  freelancer: Freelancer
+): Promise<'deleted' | 'revoked'> {
+  // Never provisioned, so there is no account to remove
+  if (!grant.platform_user_id) return 'revoked';
+
+  const manifest = MANIFESTS[grant.platform_id];
+  if (!manifest) throw new Error(`Platform module ${grant.platform_id} not found`);
+
+  const { data: stored, error } = await supabase
+    .from('platforms')
+    .select('id, config, is_enabled')
+    .eq('organization_id', organizationId)
+    .eq('platform_id', grant.platform_id)
+    .maybeSingle();
+  if (error) throw new Error(`Could not load ${grant.platform_id} settings`);
+  if (!stored?.is_enabled) throw new Error(`Platform ${grant.platform_id} is not enabled`);
+
+  const config = await revealStoredConfig(
+    vault,
+    { id: stored.id, organizationId, platformId: grant.platform_id, config: (stored.config || {}) as VendorConfig },
+    // A refreshed OAuth token is recorded against whoever added the freelancer
+    freelancer.created_by
+  );
+
+  const platformModule = await manifest.load();
+  const initResult = await platformModule.initialize(config as PlatformConfig);
+  if (!initResult.success) {
+    throw new Error(initResult.error || `Failed to initialize ${grant.platform_id}`);
+  }
+
+  const response = await platformModule.deleteUser(grant.platform_user_id);
+  if (!response.success) {
+    throw new Error(response.error || 'Platform rejected the request');
+  }
+  return 'deleted';
+}
+
+export const handler = async (): Promise<FunctionResult> => {
+  const supabase = serviceClient();
+  if (isFunctionResult(supabase)) return supabase;
+
+  const vault = openVault({ supabase });
+  if (isFunctionResult(vault)) return vault;
+
+  const { data: organizations, error } = await supabase
+    .from('organizations')
+    .select('id, settings');
+  if (error) {
+    console.error(`Access expiry could not load organizations: ${error.message}`);
+    return respond(500, { success: false, error: 'Could not load organizations' });
+  }
+
+  const results: ExpirySweepResult[] = [];
+  for (const organization of (organizations || []) as Array<Pick<Organization, 'id' | 'settings'>>) {
+    try {
+      results.push(await runExpirySweep(
+        supabase,
+        organization,
+        (grant, freelancer) => revokeOnPlatform(supabase, vault, organization.id, grant, freelancer)
+      ));
+    } catch (error) {
+      // One organization's failure should not stop the others
+      console.error(`Access expiry sweep for ${organization.id} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const failed = results.flatMap(result => result.expiredGrants.filter(grant => !grant.success));
+  failed.forEach(grant => {
+    console.error(`Could not revoke expired ${grant.platformId} access ${grant.freelancerPlatformId}: ${grant.error}`);
+  });
+
+  return respond(200, {
+    success: true,
+    data: {
+      organizations: results.length,
+      expiredGrants: results.reduce((sum, result) => sum + result.expiredGrants.length, 0),
+      failedGrants: failed.length,
+      expiredFreelancers: results.reduce((sum, result) => sum + result.expiredFreelancers.length, 0),
+      remindersQueued: results.reduce((sum, result) => sum + result.remindersQueued, 0)
+    }
+  });
+};
@@ -0,0 +1,302 @@
+// Backend for the freelancer self-service portal. Signed-in users send
+// { action: 'invite', freelancerId } to get a signed link on the site's own
+// URL, which is also queued as an email to the freelancer. The freelancer has
+// no account: { action: 'load', token } returns what the portal shows and
+// { action: 'complete', token, details } saves their details and terms
+// acceptance, using up the link. Only the token authorizes the last two.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createInviteNonce,
+  portalInviteUrl,
+  signPortalInvite,
+  USERNAME_PATTERN,
+  verifyPortalInvite,
+  type PortalDetails,
+  type PortalView
+} from '../../src/services/portalInvites';
+import {
+  isFunctionResult,
+  preflight,
+  reject,
+  resolveCaller,
+  respond,
+  serviceClient,
+  type FunctionEvent,
+  type FunctionResult
+} from './_shared/caller';
+
+interface PortalRequest {
+  action?: unknown;
+  freelancerId?: unknown;
+  token?: unknown;
+  details?: unknown;
+}
+
+interface FreelancerRow {
+  id: string;
+  organization_id: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  phone?: string | null;
+  username?: string | null;
+  created_by: string;
+  portal_invite_nonce?: string | null;
+  portal_completed_at?: string | null;
+  terms_accepted_at?: string | null;
+}
+
+const DEFAULT_TERMS =
+  'I confirm the details above are correct and agree to follow the organization\'s policies for the tools I am given access to.';
+
+const MAX_FIELD_LENGTH = 255;
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+function parseDetails(value: unknown): PortalDetails | string {
+  if (!value || typeof value !== 'object') return 'details are required';
+  const details = value as Record<string, unknown>;
+
+  const parsed: PortalDetails = {
+    firstName: text(details.firstName),
+    lastName: text(details.lastName),
+    phone: text(details.phone) || undefined,
+    username: text(details.username).toLowerCase(),
+    acceptTerms: details.acceptTerms === true
+  };
+
+  if (!parsed.firstName || !parsed.lastName) return 'First and last name are required';
+  if ([parsed.firstName, parsed.lastName, parsed.phone || ''].some(field => field.length > MAX_FIELD_LENGTH)) {
+    return 'Details are too long';
+  }
+  if (!USERNAME_PATTERN.test(parsed.username)) {
+    return 'Usernames are 3-32 lowercase letters, numbers, dots, dashes or underscores';
+  }
+  if (!parsed.acceptTerms) return 'Accept the terms to continue';
+  return parsed;
+}
+
+// Freelancer behind a token, as long as it is the latest invite sent to them
+async function resolveInvite(supabase: SupabaseClient, token: unknown): Promise<FreelancerRow | FunctionResult> {
+  const inviteKey = process.env.CREDENTIAL_MASTER_KEY;
+  if (!inviteKey) return reject(500, 'Portal invites are not configured');
+  if (typeof token !== 'string') return reject(400, 'token is required');
+
+  const expired = reject(401, 'This invite link is invalid or has expired; ask for a new one');
+  const invite = await verifyPortalInvite(inviteKey, token);
+  if (!invite) return expired;
+
+  const { data, error } = await supabase
+    .from('freelancers')
+    .select('*')
+    .eq('id', invite.freelancerId)
+    .eq('organization_id', invite.organizationId)
+    .maybeSingle();
+  if (error) return reject(500, 'Could not load your invite');
+
+  const freelancer = data as FreelancerRow | null;
+  if (freelancer && !freelancer.portal_invite_nonce && freelancer.portal_completed_at) {
+    return reject(410, 'Your details have already been confirmed; ask for a new invite to change them');
+  }
+  if (!freelancer || freelancer.portal_invite_nonce !== invite.nonce) return expired;
+  return freelancer;
+}
+
+async function loadView(supabase: SupabaseClient, freelancer: FreelancerRow): Promise<PortalView> {
+  const [{ data: organization }, { data: grants }] = await Promise.all([
+    supabase
+      .from('organizations')
+      .select('name, branding, settings')
+      .eq('id', freelancer.organization_id)
+      .single(),
+    supabase
+      .from('freelancer_platforms')
+      .select('status, platforms(platform_id, display_name)')
+      .eq('freelancer_id', freelancer.id)
+  ]);
+
+  const settings = (organization?.settings || {}) as Record<string, unknown>;
+  const portal = (settings.portal || {}) as Record<string, unknown>;
+
+  return {
+    organization: {
+      name: organization?.name || '',
+      branding: organization?.branding || null
+    },
+    freelancer: {
+      email: freelancer.email,
+      firstName: freelancer.first_name,
+      lastName: freelancer.last_name,
+      phone: freelancer.phone || null,
+      username: freelancer.username || null
+    },
+    terms: typeof portal.terms === 'string' && portal.terms.trim() ? portal.terms : DEFAULT_TERMS,
+    completedAt: freelancer.portal_completed_at || null,
+    termsAcceptedAt: freelancer.terms_accepted_at || null,
+    platforms: ((grants || []) as unknown as Array<{
+      status: PortalView['platforms'][number]['status'];
+      platforms: { platform_id: string; display_name: string } | null;
+    }>)
+      .filter(grant => grant.platforms)
+      .map(grant => ({
+        platformId: grant.platforms!.platform_id,
+        name: grant.platforms!.display_name,
+        status: grant.status
+      }))
+  };
+}
+
+async function invite(event: FunctionEvent, request: PortalRequest): Promise<FunctionResult> {
+  if (typeof request.freelancerId !== 'string') return reject(400, 'freelancerId is required');
+
+  const caller = await resolveCaller(event);
+  if (isFunctionResult(caller)) return caller;
+
+  // Links always point at the deployed site (Netlify sets URL), never at an
+  // address the browser sends
+  const inviteKey = process.env.CREDENTIAL_MASTER_KEY;
+  const siteUrl = process.env.URL;
+  if (!inviteKey || !siteUrl) return reject(500, 'Portal invites are not configured');
+
+  const { data: freelancer, error } = await caller.supabase
+    .from('freelancers')
+    .select('id, email, first_name, last_name')
+    .eq('id', request.freelancerId)
+    .eq('organization_id', caller.organizationId)
+    .maybeSingle();
+  if (error) return reject(500, 'Could not load the freelancer');
+  if (!freelancer) return reject(404, 'Freelancer not found');
+
+  const nonce = createInviteNonce();
+  const invitedAt = new Date().toISOString();
+  const { error: updateError } = await caller.supabase
+    .from('freelancers')
+    .update({ portal_invite_nonce: nonce, portal_invited_at: invitedAt, updated_at: invitedAt })
+    .eq('id', freelancer.id);
+  if (updateError) return reject(500, 'Could not create the invite');
+
+  const token = await signPortalInvite(inviteKey, {
+    organizationId: caller.organizationId,
+    freelancerId: freelancer.id,
+    nonce
+  });
+  const url = portalInviteUrl(new URL(siteUrl).origin, token);
+
+  const { error: notificationError } = await caller.supabase.from('notifications').insert({
+    organization_id: caller.organizationId,
+    type: 'portal_invite',
+    recipient_email: freelancer.email,
+    subject: 'Complete your onboarding',
+    body: `Hi ${freelancer.first_name},\n\nPlease confirm your details and accept the terms to finish onboarding:\n${url}\n\nThe link is personal to you and expires in 14 days.`,
+    entity_type: 'freelancer',
+    entity_id: freelancer.id,
+    status: 'pending'
+  });
+  // The operator still gets the link to share by hand
+  if (notificationError) console.error(`Queueing the portal invite for ${freelancer.id} failed: ${notificationError.message}`);
+
+  await caller.supabase.from('audit_logs').insert({
+    organization_id: caller.organizationId,
+    user_id: caller.userId,
+    action: 'portal_invite',
+    entity_type: 'freelancer',
+    entity_id: freelancer.id,
+    changes: { invited_at: invitedAt, queued: !notificationError }
+  });
+
+  return respond(200, { success: true, data: { url, invitedAt, queued: !notificationError } });
+}
+
+async function complete(supabase: SupabaseClient, freelancer: FreelancerRow, value: unknown): Promise<FunctionResult> {
+  const details = parseDetails(value);
+  if (typeof details === 'string') return reject(400, details);
+
+  const { data: taken, error: takenError } = await supabase
+    .from('freelancers')
+    .select('id')
+    .eq('organization_id', freelancer.organization_id)
+    .eq('username', details.username)
+    .neq('id', freelancer.id)
+    .limit(1);
+  if (takenError) return reject(500, 'Could not check the username');
+  if ((taken || []).length > 0) return reject(409, 'That username is taken, pick another');
+
+  // Completing uses up the invite, so the link cannot rewrite the details
+  // again; only the run that still finds the nonce saves them
+  const now = new Date().toISOString();
+  const { data: saved, error } = await supabase
+    .from('freelancers')
+    .update({
+      first_name: details.firstName,
+      last_name: details.lastName,
+      phone: details.phone || null,
+      username: details.username,
+      terms_accepted_at: freelancer.terms_accepted_at || now,
+      portal_completed_at: now,
+      portal_invite_nonce: null,
+      updated_at: now
+    })
+    .eq('id', freelancer.id)
+    .eq('portal_invite_nonce', freelancer.portal_invite_nonce)
+    .select('id');
+  if (error) return reject(500, 'Could not save your details');
+  if ((saved || []).length === 0) {
+    return reject(410, 'Your details have already been confirmed; ask for a new invite to change them');
+  }
+
+  // Freelancers have no user row; the change is recorded against whoever added them
+  await supabase.from('audit_logs').insert({
+    organization_id: freelancer.organization_id,
+    user_id: freelancer.created_by,
+    action: 'portal_completed',
+    entity_type: 'freelancer',
+    entity_id: freelancer.id,
+    changes: { username: details.username, terms_accepted_at: freelancer.terms_accepted_at || now, via: 'portal' }
+  });
+
+  const view = await loadView(supabase, {
+    ...freelancer,
+    first_name: details.firstName,
+    last_name: details.lastName,
+    phone: details.phone || null,
+    username: details.username,
+    terms_accepted_at: freelancer.terms_accepted_at || now,
+    portal_completed_at: now,
+    portal_invite_nonce: null
+  });
+  return respond(200, { success: true, data: view });
+}
+
+export const handler = async (event: FunctionEvent): Promise<FunctionResult> => {
+  const early = preflight(event);
+  if (early) return early;
+
+  let request: PortalRequest;
+  try {
+    request = JSON.parse(event.body || '{}');
+  } catch {
+    return reject(400, 'Request body must be JSON');
+  }
+
+  if (request.action === 'invite') return invite(event, request);
+  if (request.action !== 'load' && request.action !== 'complete') {
+    return reject(400, 'action must be invite, load or complete');
+  }
+
+  const supabase = serviceClient();
+  if (isFunctionResult(supabase)) return supabase;
+
+  const freelancer = await resolveInvite(supabase, request.token);
+  if (isFunctionResult(freelancer)) return freelancer;
+
+  try {
+    if (request.action === 'load') {
+      return respond(200, { success: true, data: await loadView(supabase, freelancer) });
+    }
+    return await complete(supabase, freelancer, request.details);
+  } catch (error) {
+    console.error(`Freelancer portal ${request.action} failed: ${error instanceof Error ? error.message : error}`);
+    return reject(500, 'Something went wrong, try again');
+  }
+};
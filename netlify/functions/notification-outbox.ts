@@ -0,0 +1,98 @@
+// Scheduled every five minutes (see netlify.toml). Sends the emails waiting in
+// the notifications table, such as expiry reminders and portal invites,
+// through Resend. Each row is claimed before it is sent so overlapping runs
+// never send it twice; failed sends go back to pending for a later run until
+// they have used up their attempts.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Notification } from '../../src/types/database.types';
+import { isFunctionResult, respond, serviceClient, type FunctionResult } from './_shared/caller';
+
+const RESEND_URL = 'https://api.resend.com/emails';
+
+const MAX_SEND_ATTEMPTS = 5;
+
+// Keeps a run short; anything left waits for the next one
+const BATCH_SIZE = 20;
+const SEND_TIMEOUT_MS = 9000;
+
+async function claim(supabase: SupabaseClient, notification: Notification): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .update({ status: 'sending' })
+    .eq('id', notification.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+async function send(apiKey: string, from: string, notification: Notification): Promise<void> {
+  const response = await fetch(RESEND_URL, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      from,
+      to: [notification.recipient_email],
+      subject: notification.subject,
+      text: notification.body
+    }),
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`Resend returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+}
+
+export const handler = async (): Promise<FunctionResult> => {
+  const apiKey = process.env.RESEND_API_KEY;
+  const from = process.env.NOTIFICATION_FROM_EMAIL;
+  if (!apiKey || !from) {
+    // Notifications stay queued until delivery is configured
+    console.error('Notification delivery is not configured; set RESEND_API_KEY and NOTIFICATION_FROM_EMAIL');
+    return respond(500, { success: false, error: 'Notification delivery is not configured' });
+  }
+
+  const supabase = serviceClient();
+  if (isFunctionResult(supabase)) return supabase;
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE);
+  if (error) {
+    console.error(`Could not load queued notifications: ${error.message}`);
+    return respond(500, { success: false, error: 'Could not load queued notifications' });
+  }
+
+  let sent = 0;
+  let failed = 0;
+  for (const notification of (data || []) as Notification[]) {
+    if (!(await claim(supabase, notification))) continue;
+
+    try {
+      await send(apiKey, from, notification);
+      await supabase
+        .from('notifications')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), last_error: null })
+        .eq('id', notification.id);
+      sent++;
+    } catch (sendError) {
+      const attempts = (notification.attempts || 0) + 1;
+      const message = sendError instanceof Error ? sendError.message : 'Unknown error';
+      console.error(`Sending notification ${notification.id} failed (attempt ${attempts}): ${message}`);
+      await supabase
+        .from('notifications')
+        .update({ status: attempts >= MAX_SEND_ATTEMPTS ? 'failed' : 'pending', attempts, last_error: message })
+        .eq('id', notification.id);
+      failed++;
+    }
+  }
+
+  return respond(200, { success: true, data: { sent, failed } });
+};
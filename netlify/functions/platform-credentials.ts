@@ -0,0 +1,79 @@
+// Write-only endpoint for platform secrets. Owners and admins send
+// { platformId, secrets: { field: value | null } }; values are encrypted into
+// the credential vault, platforms.config gets a reference per field and every
+// set, rotation and removal lands in the audit log. Nothing is ever read back.
+
+import {
+  ADMIN_ROLES,
+  isFunctionResult,
+  openVault,
+  preflight,
+  reject,
+  resolveCaller,
+  respond,
+  type FunctionEvent,
+  type FunctionResult
+} from './_shared/caller';
+
+const FIELD_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,99}$/;
+const MAX_SECRET_LENGTH = 8192;
+
+export const handler = async (event: FunctionEvent): Promise<FunctionResult> => {
+  const early = preflight(event);
+  if (early) return early;
+
+  let request: { platformId?: unknown; secrets?: unknown };
+  try {
+    request = JSON.parse(event.body || '{}');
+  } catch {
+    return reject(400, 'Request body must be JSON');
+  }
+
+  const { platformId, secrets } = request;
+  if (typeof platformId !== 'string' || !secrets || typeof secrets !== 'object' || Array.isArray(secrets)) {
+    return reject(400, 'platformId and secrets are required');
+  }
+
+  const entries = Object.entries(secrets as Record<string, unknown>);
+  const invalid = entries.find(([field, value]) =>
+    !FIELD_PATTERN.test(field) ||
+    !(value === null || (typeof value === 'string' && value !== '' && value.length <= MAX_SECRET_LENGTH))
+  );
+  if (entries.length === 0 || invalid) {
+    return reject(400, invalid ? `Invalid value for ${invalid[0]}` : 'No secrets to save');
+  }
+
+  const caller = await resolveCaller(event);
+  if (isFunctionResult(caller)) return caller;
+  if (!ADMIN_ROLES.includes(caller.role)) {
+    return reject(403, 'Only owners and admins can change platform credentials');
+  }
+
+  const { data: platform, error: platformError } = await caller.supabase
+    .from('platforms')
+    .select('id')
+    .eq('organization_id', caller.organizationId)
+    .eq('platform_id', platformId)
+    .maybeSingle();
+  if (platformError) {
+    return reject(500, 'Could not load platform settings');
+  }
+  if (!platform) {
+    return reject(404, `Platform ${platformId} is not configured`);
+  }
+
+  const vault = openVault(caller);
+  if (isFunctionResult(vault)) return vault;
+
+  try {
+    const refs = await vault.saveSecrets(
+      { organizationId: caller.organizationId, platformRowId: platform.id, platformId },
+      secrets as Record<string, string | null>,
+      caller.userId
+    );
+    return respond(200, { success: true, data: refs });
+  } catch (error) {
+    console.error(`Saving ${platformId} credentials failed: ${error instanceof Error ? error.message : error}`);
+    return reject(500, 'Could not save platform credentials');
+  }
+};
@@ -0,0 +1,128 @@
+// Single entry point for vendor API calls. The browser sends
+// { platformId, action, payload } with its Supabase session; the function
+// resolves the caller's organization, loads that organization's stored
+// platform config, decrypts its secrets and performs the call, so credentials
+// stay server-side.
+
+import {
+  applyConfigOverride,
+  executePlatformRequest,
+  gatewayOperationAccess,
+  isGatewayAction,
+  type VendorConfig
+} from '../../src/services/platformVendors';
+import { isSecretRef } from '../../src/services/credentialRefs';
+import {
+  ADMIN_ROLES,
+  isFunctionResult,
+  openVault,
+  preflight,
+  reject,
+  resolveCaller,
+  respond,
+  revealStoredConfig,
+  type FunctionEvent,
+  type FunctionResult
+} from './_shared/caller';
+
+// Netlify stops synchronous functions at 10 seconds
+const VENDOR_TIMEOUT_MS = 9000;
+
+export const handler = async (event: FunctionEvent): Promise<FunctionResult> => {
+  const early = preflight(event);
+  if (early) return early;
+
+  let request: { platformId?: unknown; action?: unknown; payload?: unknown; config?: unknown };
+  try {
+    request = JSON.parse(event.body || '{}');
+  } catch {
+    return reject(400, 'Request body must be JSON');
+  }
+
+  const { platformId, action, payload, config } = request;
+  if (typeof platformId !== 'string' || !isGatewayAction(action) || !payload || typeof payload !== 'object') {
+    return reject(400, 'platformId, action and payload are required');
+  }
+
+  const caller = await resolveCaller(event);
+  if (isFunctionResult(caller)) return caller;
+
+  const { data: stored, error: storedError } = await caller.supabase
+    .from('platforms')
+    .select('id, config, is_enabled')
+    .eq('organization_id', caller.organizationId)
+    .eq('platform_id', platformId)
+    .maybeSingle();
+  if (storedError) {
+    return reject(500, 'Could not load platform settings');
+  }
+
+  // Owners and admins may try settings that have not been saved yet
+  const canOverride = ADMIN_ROLES.includes(caller.role) && !!config && typeof config === 'object';
+  if (!canOverride && !stored) {
+    return reject(404, `Platform ${platformId} is not configured`);
+  }
+  if (!canOverride && stored && !stored.is_enabled) {
+    return reject(403, `Platform ${platformId} is not enabled`);
+  }
+
+  let storedConfig = (stored?.config || {}) as VendorConfig;
+  const applied = applyConfigOverride(platformId, storedConfig, canOverride ? (config as Record<string, unknown>) : {});
+  if ('error' in applied) {
+    return reject(400, applied.error);
+  }
+
+  // The stored credentials are the organization's admin keys, so only the
+  // calls the modules make go through, and management calls need an admin
+  const access = gatewayOperationAccess(
+    platformId,
+    action,
+    payload as Parameters<typeof gatewayOperationAccess>[2],
+    { ...storedConfig, ...applied.override } as VendorConfig
+  );
+  if (!access) {
+    return reject(403, `This ${platformId} operation is not available through the gateway`);
+  }
+  if (access === 'admin' && !ADMIN_ROLES.includes(caller.role)) {
+    return reject(403, `Only owners and admins can make this ${platformId} call`);
+  }
+
+  // Only decrypt stored secrets when they will go to the host they were saved
+  // for, renewing an expiring OAuth token on the way
+  if (stored && applied.usesStoredSecrets && Object.values(storedConfig).some(isSecretRef)) {
+    const vault = openVault(caller);
+    if (isFunctionResult(vault)) return vault;
+    try {
+      storedConfig = await revealStoredConfig(
+        vault,
+        { id: stored.id, organizationId: caller.organizationId, platformId, config: storedConfig },
+        caller.userId
+      );
+    } catch (error) {
+      console.error(`Platform gateway could not decrypt ${platformId} secrets: ${error instanceof Error ? error.message : error}`);
+      return reject(500, 'Could not decrypt platform credentials');
+    }
+  }
+
+  // With a moved host the stored secrets stay out of the call entirely
+  const baseConfig = applied.usesStoredSecrets
+    ? storedConfig
+    : Object.fromEntries(Object.entries(storedConfig).filter(([, value]) => !isSecretRef(value)));
+
+  const result = await executePlatformRequest(
+    platformId,
+    action,
+    payload as Parameters<typeof executePlatformRequest>[2],
+    { ...baseConfig, ...applied.override } as VendorConfig,
+    { timeoutMs: VENDOR_TIMEOUT_MS }
+  );
+
+  if (!result.success) {
+    // Log the outcome only; payloads and configs may carry secrets
+    console.error(`Platform gateway ${platformId}/${action} failed: ${result.error}`);
+    const status = typeof result.details?.status === 'number' && result.details.status > 0 ? result.details.status : 502;
+    return respond(status, result);
+  }
+
+  return respond(200, result);
+};
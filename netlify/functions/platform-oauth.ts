@@ -0,0 +1,153 @@
+// OAuth connect flow for platforms that support it. Owners and admins ask for
+// an authorize URL ({ action: 'authorize', platformId, redirectUri }), the
+// vendor sends the browser back with a code that is exchanged here
+// ({ action: 'exchange', code, state }) and the tokens go straight into the
+// credential vault. { action: 'refresh', platformId } renews the access token.
+
+import {
+  buildAuthorizeUrl,
+  exchangeAuthorizationCode,
+  OAuthError,
+  refreshAccessToken,
+  signOAuthState,
+  tokenUpdates,
+  verifyOAuthState
+} from '../../src/services/platformOAuth';
+import type { VendorConfig } from '../../src/services/platformVendors';
+import {
+  ADMIN_ROLES,
+  isFunctionResult,
+  openVault,
+  preflight,
+  reject,
+  resolveCaller,
+  respond,
+  type Caller,
+  type FunctionEvent,
+  type FunctionResult
+} from './_shared/caller';
+
+interface OAuthRequest {
+  action?: unknown;
+  platformId?: unknown;
+  redirectUri?: unknown;
+  code?: unknown;
+  state?: unknown;
+}
+
+const isHttpUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+async function loadPlatform(caller: Caller, platformId: string) {
+  const { data, error } = await caller.supabase
+    .from('platforms')
+    .select('id, config')
+    .eq('organization_id', caller.organizationId)
+    .eq('platform_id', platformId)
+    .maybeSingle();
+  if (error) return reject(500, 'Could not load platform settings');
+  if (!data) return reject(404, `Platform ${platformId} is not configured`);
+  return data as { id: string; config: VendorConfig | null };
+}
+
+const failed = (platformId: string, error: unknown) => {
+  if (error instanceof OAuthError) {
+    return reject(error.status > 0 ? error.status : 502, error.message);
+  }
+  console.error(`OAuth for ${platformId} failed: ${error instanceof Error ? error.message : error}`);
+  return reject(500, 'Could not complete the platform connection');
+};
+
+export const handler = async (event: FunctionEvent): Promise<FunctionResult> => {
+  const early = preflight(event);
+  if (early) return early;
+
+  let request: OAuthRequest;
+  try {
+    request = JSON.parse(event.body || '{}');
+  } catch {
+    return reject(400, 'Request body must be JSON');
+  }
+
+  const caller = await resolveCaller(event);
+  if (isFunctionResult(caller)) return caller;
+  if (!ADMIN_ROLES.includes(caller.role)) {
+    return reject(403, 'Only owners and admins can connect platforms');
+  }
+
+  const vault = openVault(caller);
+  if (isFunctionResult(vault)) return vault;
+  // Present whenever openVault succeeded
+  const stateKey = process.env.CREDENTIAL_MASTER_KEY as string;
+
+  let platformId: string;
+  let exchange: { code: string; redirectUri: string } | undefined;
+  if (request.action === 'exchange') {
+    if (typeof request.code !== 'string' || typeof request.state !== 'string') {
+      return reject(400, 'code and state are required');
+    }
+    const state = await verifyOAuthState(stateKey, request.state);
+    // The user who started the flow has to be the one finishing it
+    if (!state || state.organizationId !== caller.organizationId || state.userId !== caller.userId) {
+      return reject(400, 'This connection link is invalid or has expired; start again');
+    }
+    platformId = state.platformId;
+    exchange = { code: request.code, redirectUri: state.redirectUri };
+  } else if (typeof request.platformId === 'string') {
+    platformId = request.platformId;
+  } else {
+    return reject(400, 'platformId is required');
+  }
+
+  const platform = await loadPlatform(caller, platformId);
+  if (isFunctionResult(platform)) return platform;
+  const target = { organizationId: caller.organizationId, platformRowId: platform.id, platformId };
+
+  try {
+    const config = await vault.revealConfig(caller.organizationId, platformId, platform.config || {});
+
+    switch (request.action) {
+      case 'authorize': {
+        const redirectUri = isHttpUrl(config.redirectUri) ? config.redirectUri : request.redirectUri;
+        if (!isHttpUrl(redirectUri)) {
+          return reject(400, 'redirectUri must be an http(s) URL');
+        }
+        const state = await signOAuthState(stateKey, {
+          platformId,
+          organizationId: caller.organizationId,
+          userId: caller.userId,
+          redirectUri
+        });
+        return respond(200, { success: true, data: { url: buildAuthorizeUrl(platformId, config, redirectUri, state) } });
+      }
+
+      case 'exchange': {
+        if (!exchange) break;
+        const tokens = await exchangeAuthorizationCode(platformId, config, exchange.code, exchange.redirectUri);
+        const updates = tokenUpdates(tokens);
+        await vault.saveSecrets(target, updates.secrets, caller.userId, {
+          ...updates.config,
+          oAuthConnectedAt: new Date().toISOString()
+        });
+        return respond(200, { success: true, data: { platformId, expiresAt: tokens.expiresAt || null } });
+      }
+
+      case 'refresh': {
+        const tokens = await refreshAccessToken(platformId, config);
+        const updates = tokenUpdates(tokens);
+        await vault.saveSecrets(target, updates.secrets, caller.userId, updates.config);
+        return respond(200, { success: true, data: { platformId, expiresAt: tokens.expiresAt || null } });
+      }
+    }
+  } catch (error) {
+    return failed(platformId, error);
+  }
+
+  return reject(400, 'action must be authorize, exchange or refresh');
+};
@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Check, Inbox, X } from 'lucide-react';
+import { getFreelancerFullName, useFreelancers, type Freelancer } from '../../contexts/FreelancerContext';
+import { usePlatforms } from '../../contexts/PlatformContext';
+import { useTenant } from '../../contexts/TenantContext';
+import { useToast } from '../../contexts/ToastContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { approvals, type ApprovalRequestWithRequester } from '../../services/ApprovalService';
+import { freelancerSearch } from '../../services/FreelancerSearchService';
+
+// Decided requests stay listed for context, up to this many
+const RECENT_DECISIONS = 5;
+
+/**
+ * Onboarding requests waiting on an admin for platforms that require
+ * approval. Admins approve (which provisions) or reject with a comment;
+ * members see what they are waiting on.
+ */
+export function ApprovalsInbox() {
+  const { organization } = useTenant();
+  const { decideApprovalRequest } = useFreelancers();
+  const { platforms } = usePlatforms();
+  const { hasPermission } = usePermissions();
+  const { showToast } = useToast();
+
+  const [requests, setRequests] = useState<ApprovalRequestWithRequester[]>([]);
+  const [requestFreelancers, setRequestFreelancers] = useState<Map<string, Freelancer>>(new Map());
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [deciding, setDeciding] = useState<string | null>(null);
+
+  const canDecide = hasPermission('approvals.decide');
+
+  const load = useCallback(async () => {
+    if (!organization?.id) return;
+
+    try {
+      const loaded = await approvals.listRequests(organization.id);
+      const freelancers = await freelancerSearch.getByIds(loaded.map(request => request.freelancer_id));
+      setRequestFreelancers(new Map(freelancers.map(freelancer => [freelancer.id, freelancer])));
+      setRequests(loaded);
+    } catch (error) {
+      console.error('Failed to load approval requests:', error);
+    }
+  }, [organization?.id]);
+
+  useEffect(() => {
+    load();
+    return approvals.subscribe(() => {
+      load();
+    });
+  }, [load]);
+
+  const pending = requests.filter(request => request.status === 'pending');
+  const recent = requests.filter(request => request.status !== 'pending').slice(0, RECENT_DECISIONS);
+
+  if (pending.length === 0 && recent.length === 0) return null;
+
+  const platformName = (platformId: string) => platforms.get(platformId)?.metadata?.name || platformId;
+
+  const freelancerName = (freelancerId: string) => {
+    const freelancer = requestFreelancers.get(freelancerId);
+    return freelancer ? getFreelancerFullName(freelancer) : 'Removed freelancer';
+  };
+
+  const handleDecide = async (request: ApprovalRequestWithRequester, approved: boolean) => {
+    const comment = comments[request.id]?.trim();
+    if (!approved && !comment) {
+      showToast('Add a comment saying why the request is rejected', 'warning');
+      return;
+    }
+
+    setDeciding(request.id);
+    try {
+      await decideApprovalRequest(request, approved, comment);
+      setComments(prev => {
+        const next = { ...prev };
+        delete next[request.id];
+        return next;
+      });
+    } catch (error) {
+      console.error('Failed to decide approval request:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to record the decision', 'error');
+      await load();
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg mb-6">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+          <Inbox className="h-5 w-5 mr-2 text-gray-500" />
+          Approvals
+          {pending.length > 0 && (
+            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+              {pending.length} pending
+            </span>
+          )}
+        </h3>
+        <p className="mt-1 text-sm text-gray-500">
+          {canDecide
+            ? 'Onboarding to these platforms waits for your decision'
+            : 'Onboarding to these platforms waits for an admin'}
+        </p>
+
+        {pending.length > 0 && (
+          <ul className="mt-4 divide-y divide-gray-200 border rounded-lg">
+            {pending.map(request => (
+              <li key={request.id} className="px-4 py-3">
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900">
+                      {freelancerName(request.freelancer_id)} → {platformName(request.platform_id)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Requested by {request.requester?.full_name || request.requester?.email || 'a team member'} on{' '}
+                      {new Date(request.created_at).toLocaleString()}
+                    </div>
+                  </div>
+                </div>
+                {canDecide && (
+                  <div className="mt-2 flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={comments[request.id] || ''}
+                      onChange={(e) => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+                      placeholder="Comment (required to reject)"
+                      className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <button
+                      onClick={() => handleDecide(request, true)}
+                      disabled={deciding !== null}
+                      className="inline-flex items-center px-3 py-1 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleDecide(request, false)}
+                      disabled={deciding !== null}
+                      className="inline-flex items-center px-3 py-1 text-sm font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50"
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {recent.length > 0 && (
+          <div className="mt-4">
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Recent decisions</h4>
+            <ul className="space-y-1">
+              {recent.map(request => (
+                <li key={request.id} className="text-xs text-gray-600">
+                  <span className={request.status === 'approved' ? 'text-green-700' : 'text-red-700'}>
+                    {request.status === 'approved' ? 'Approved' : 'Rejected'}
+                  </span>
+                  {' '}{freelancerName(request.freelancer_id)} → {platformName(request.platform_id)}
+                  {request.decided_at && <span className="text-gray-400"> · {new Date(request.decided_at).toLocaleDateString()}</span>}
+                  {request.decision_comment && <span className="italic"> · “{request.decision_comment}”</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,354 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Edit, Trash2, Save, X, ChevronUp, ChevronDown } from 'lucide-react';
+import { useTenant } from '../../contexts/TenantContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { LoadingSpinner } from '../ui/Loading';
+import { customFields } from '../../services/CustomFieldService';
+import { CUSTOM_FIELD_TYPES } from '../../services/freelancerProfile';
+import type { CustomFieldDefinition, CustomFieldType } from '../../types/database.types';
+
+interface FieldDraft {
+  id?: string;
+  key: string;
+  label: string;
+  fieldType: CustomFieldType;
+  // One option per line
+  options: string;
+  isRequired: boolean;
+  pattern: string;
+  minValue: string;
+  maxValue: string;
+}
+
+const emptyDraft: FieldDraft = {
+  key: '',
+  label: '',
+  fieldType: 'text',
+  options: '',
+  isRequired: false,
+  pattern: '',
+  minValue: '',
+  maxValue: ''
+};
+
+const toDraft = (field: CustomFieldDefinition): FieldDraft => ({
+  id: field.id,
+  key: field.key,
+  label: field.label,
+  fieldType: field.field_type,
+  options: field.options.join('\n'),
+  isRequired: field.is_required,
+  pattern: field.pattern || '',
+  minValue: field.min_value != null ? String(field.min_value) : '',
+  maxValue: field.max_value != null ? String(field.max_value) : ''
+});
+
+// "Security clearance" -> "security_clearance"
+const suggestKey = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '').slice(0, 64);
+
+const typeLabel = (type: CustomFieldType) => CUSTOM_FIELD_TYPES.find(entry => entry.type === type)?.label || type;
+
+export function CustomFieldManager() {
+  const { organization } = useTenant();
+  const { dbUser } = useAuth();
+  const { showToast } = useToast();
+
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<FieldDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadFields = useCallback(async () => {
+    if (!organization?.id) return;
+
+    try {
+      setFields(await customFields.listFields(organization.id));
+    } catch (error) {
+      console.error('Failed to load custom fields:', error);
+      showToast('Failed to load custom fields', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [organization?.id, showToast]);
+
+  useEffect(() => {
+    loadFields();
+  }, [loadFields]);
+
+  const handleLabelChange = (label: string) => {
+    if (!draft) return;
+    // The key follows the label until the field is saved
+    setDraft({ ...draft, label, key: draft.id ? draft.key : suggestKey(label) });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !organization?.id || !dbUser?.id) return;
+
+    setIsSaving(true);
+    try {
+      const input = {
+        key: draft.key.trim(),
+        label: draft.label,
+        field_type: draft.fieldType,
+        options: draft.options.split('\n'),
+        is_required: draft.isRequired,
+        pattern: draft.pattern,
+        min_value: draft.minValue.trim() ? Number(draft.minValue) : null,
+        max_value: draft.maxValue.trim() ? Number(draft.maxValue) : null
+      };
+      if (draft.id) {
+        await customFields.updateField(draft.id, input);
+      } else {
+        await customFields.createField(organization.id, input, dbUser.id);
+      }
+      showToast(`Field "${draft.label.trim()}" saved`, 'success');
+      setDraft(null);
+      await loadFields();
+    } catch (error) {
+      console.error('Failed to save custom field:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to save field', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (field: CustomFieldDefinition) => {
+    if (!confirm(`Delete the "${field.label}" field? Values already entered are hidden, not erased.`)) return;
+
+    try {
+      await customFields.deleteField(field.id);
+      showToast('Field deleted', 'success');
+      await loadFields();
+    } catch (error) {
+      console.error('Failed to delete custom field:', error);
+      showToast('Failed to delete field', 'error');
+    }
+  };
+
+  const handleMove = async (field: CustomFieldDefinition, direction: -1 | 1) => {
+    try {
+      await customFields.moveField(fields, field.id, direction);
+      await loadFields();
+    } catch (error) {
+      console.error('Failed to reorder custom fields:', error);
+      showToast('Failed to reorder fields', 'error');
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              Freelancer Custom Fields
+            </h3>
+            <div className="mt-2 max-w-xl text-sm text-gray-500">
+              <p>Extra profile fields shown when editing freelancers and included in filters and exports</p>
+            </div>
+          </div>
+          {!draft && (
+            <button
+              onClick={() => setDraft(emptyDraft)}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Field
+            </button>
+          )}
+        </div>
+
+        {draft && (
+          <div className="mt-5 border rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Label *</label>
+                <input
+                  type="text"
+                  value={draft.label}
+                  onChange={(e) => handleLabelChange(e.target.value)}
+                  placeholder="e.g. Security clearance"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Key *</label>
+                <input
+                  type="text"
+                  value={draft.key}
+                  disabled={!!draft.id}
+                  onChange={(e) => setDraft({ ...draft, key: e.target.value.toLowerCase() })}
+                  className={`${inputClass} font-mono disabled:bg-gray-50 disabled:text-gray-500`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                <select
+                  value={draft.fieldType}
+                  onChange={(e) => setDraft({ ...draft, fieldType: e.target.value as CustomFieldType })}
+                  className={inputClass}
+                >
+                  {CUSTOM_FIELD_TYPES.map(entry => (
+                    <option key={entry.type} value={entry.type}>{entry.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {draft.fieldType === 'select' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Choices (one per line) *</label>
+                <textarea
+                  value={draft.options}
+                  onChange={(e) => setDraft({ ...draft, options: e.target.value })}
+                  rows={3}
+                  className={inputClass}
+                />
+              </div>
+            )}
+
+            {draft.fieldType === 'text' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Format (regular expression)</label>
+                <input
+                  type="text"
+                  value={draft.pattern}
+                  onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                  placeholder="e.g. ^[A-Z]{2}-\d{4}$"
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+            )}
+
+            {draft.fieldType === 'number' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Minimum</label>
+                  <input
+                    type="number"
+                    value={draft.minValue}
+                    onChange={(e) => setDraft({ ...draft, minValue: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Maximum</label>
+                  <input
+                    type="number"
+                    value={draft.maxValue}
+                    onChange={(e) => setDraft({ ...draft, maxValue: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            )}
+
+            {draft.fieldType !== 'boolean' && (
+              <label className="flex items-center text-sm text-gray-900">
+                <input
+                  type="checkbox"
+                  checked={draft.isRequired}
+                  onChange={(e) => setDraft({ ...draft, isRequired: e.target.checked })}
+                  className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Required
+              </label>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setDraft(null)}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !draft.label.trim() || !draft.key.trim()}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? <LoadingSpinner size="sm" className="mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Field
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="mt-5">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <LoadingSpinner size="sm" />
+            </div>
+          ) : fields.length === 0 ? (
+            <p className="text-sm text-gray-500">No custom fields yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border rounded-lg">
+              {fields.map((field, index) => (
+                <li key={field.id} className="px-4 py-3 flex items-start justify-between">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900">
+                      {field.label}
+                      <span className="ml-2 font-mono text-xs text-gray-400">{field.key}</span>
+                    </div>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                        {typeLabel(field.field_type)}
+                      </span>
+                      {field.is_required && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                          Required
+                        </span>
+                      )}
+                      {field.field_type === 'select' && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                          {field.options.length} choice{field.options.length === 1 ? '' : 's'}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="ml-4 flex flex-shrink-0 space-x-2">
+                    <button
+                      onClick={() => handleMove(field, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ChevronUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleMove(field, 1)}
+                      disabled={index === fields.length - 1}
+                      className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ChevronDown className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setDraft(toDraft(field))}
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                      title="Edit field"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(field)}
+                      className="p-1 text-red-400 hover:text-red-600"
+                      title="Delete field"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
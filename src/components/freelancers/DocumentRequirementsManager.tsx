@@ -0,0 +1,281 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Edit, Trash2, Save, X } from 'lucide-react';
+import { useTenant } from '../../contexts/TenantContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { LoadingSpinner } from '../ui/Loading';
+import { DOCUMENT_KINDS, documentKindLabel, documents, type DocumentKind } from '../../services/DocumentService';
+import type { DocumentRequirement } from '../../types/database.types';
+
+interface RequirementDraft {
+  id?: string;
+  name: string;
+  description: string;
+  kind: DocumentKind;
+  isRequired: boolean;
+  blocksProvisioning: boolean;
+  // Kept as text so the field can be cleared; blank means it never expires
+  validForDays: string;
+}
+
+const emptyDraft: RequirementDraft = {
+  name: '',
+  description: '',
+  kind: 'nda',
+  isRequired: true,
+  blocksProvisioning: false,
+  validForDays: ''
+};
+
+const toDraft = (requirement: DocumentRequirement): RequirementDraft => ({
+  id: requirement.id,
+  name: requirement.name,
+  description: requirement.description || '',
+  kind: requirement.kind as DocumentKind,
+  isRequired: requirement.is_required,
+  blocksProvisioning: requirement.blocks_provisioning,
+  validForDays: requirement.valid_for_days ? String(requirement.valid_for_days) : ''
+});
+
+export function DocumentRequirementsManager() {
+  const { organization } = useTenant();
+  const { dbUser } = useAuth();
+  const { showToast } = useToast();
+
+  const [requirements, setRequirements] = useState<DocumentRequirement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<RequirementDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadRequirements = useCallback(async () => {
+    if (!organization?.id) return;
+
+    try {
+      setRequirements(await documents.listRequirements(organization.id));
+    } catch (error) {
+      console.error('Failed to load document requirements:', error);
+      showToast('Failed to load document requirements', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [organization?.id, showToast]);
+
+  useEffect(() => {
+    loadRequirements();
+  }, [loadRequirements]);
+
+  const handleSave = async () => {
+    if (!draft || !organization?.id || !dbUser?.id) return;
+
+    setIsSaving(true);
+    try {
+      const input = {
+        name: draft.name,
+        description: draft.description,
+        kind: draft.kind,
+        is_required: draft.isRequired,
+        blocks_provisioning: draft.blocksProvisioning,
+        valid_for_days: draft.validForDays.trim() ? Number(draft.validForDays) : null
+      };
+      if (draft.id) {
+        await documents.updateRequirement(draft.id, input);
+      } else {
+        await documents.createRequirement(organization.id, input, dbUser.id);
+      }
+      showToast(`Requirement "${draft.name.trim()}" saved`, 'success');
+      setDraft(null);
+      await loadRequirements();
+    } catch (error) {
+      console.error('Failed to save document requirement:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to save requirement', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (requirement: DocumentRequirement) => {
+    if (!confirm(`Delete the "${requirement.name}" requirement? Documents collected for it are deleted too.`)) return;
+
+    try {
+      await documents.deleteRequirement(requirement.id);
+      showToast('Requirement deleted', 'success');
+      await loadRequirements();
+    } catch (error) {
+      console.error('Failed to delete document requirement:', error);
+      showToast('Failed to delete requirement', 'error');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              Onboarding Documents
+            </h3>
+            <div className="mt-2 max-w-xl text-sm text-gray-500">
+              <p>Paperwork collected from every freelancer, such as NDAs, tax forms and contracts</p>
+            </div>
+          </div>
+          {!draft && (
+            <button
+              onClick={() => setDraft(emptyDraft)}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Requirement
+            </button>
+          )}
+        </div>
+
+        {draft && (
+          <div className="mt-5 border rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Mutual NDA"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                <select
+                  value={draft.kind}
+                  onChange={(e) => setDraft({ ...draft, kind: e.target.value as DocumentKind })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {DOCUMENT_KINDS.map(entry => (
+                    <option key={entry.kind} value={entry.kind}>{entry.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Valid for (days)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.validForDays}
+                  onChange={(e) => setDraft({ ...draft, validForDays: e.target.value })}
+                  placeholder="Never expires"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center text-sm text-gray-900">
+                <input
+                  type="checkbox"
+                  checked={draft.isRequired}
+                  onChange={(e) => setDraft({ ...draft, isRequired: e.target.checked })}
+                  className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Required from every freelancer
+              </label>
+              <label className={`flex items-center text-sm ${draft.isRequired ? 'text-gray-900' : 'text-gray-400'}`}>
+                <input
+                  type="checkbox"
+                  checked={draft.isRequired && draft.blocksProvisioning}
+                  disabled={!draft.isRequired}
+                  onChange={(e) => setDraft({ ...draft, blocksProvisioning: e.target.checked })}
+                  className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Hold platform access until this document is approved
+              </label>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setDraft(null)}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !draft.name.trim()}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? <LoadingSpinner size="sm" className="mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Requirement
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="mt-5">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <LoadingSpinner size="sm" />
+            </div>
+          ) : requirements.length === 0 ? (
+            <p className="text-sm text-gray-500">No document requirements yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border rounded-lg">
+              {requirements.map(requirement => (
+                <li key={requirement.id} className="px-4 py-3 flex items-start justify-between">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900">{requirement.name}</div>
+                    {requirement.description && (
+                      <div className="text-xs text-gray-500">{requirement.description}</div>
+                    )}
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                        {documentKindLabel(requirement.kind)}
+                      </span>
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                        {requirement.is_required ? 'Required' : 'Optional'}
+                      </span>
+                      {requirement.blocks_provisioning && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+                          Holds platform access
+                        </span>
+                      )}
+                      {requirement.valid_for_days && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                          Valid {requirement.valid_for_days} days
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="ml-4 flex flex-shrink-0 space-x-2">
+                    <button
+                      onClick={() => setDraft(toDraft(requirement))}
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                      title="Edit requirement"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(requirement)}
+                      className="p-1 text-red-400 hover:text-red-600"
+                      title="Delete requirement"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
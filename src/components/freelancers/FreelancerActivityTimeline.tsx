@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Activity, RefreshCw } from 'lucide-react';
+import { usePlatforms } from '../../contexts/PlatformContext';
+import { activityIngestion } from '../../services/ActivityIngestionService';
+import type { PlatformActivity } from '../../types/database.types';
+
+interface FreelancerActivityTimelineProps {
+  freelancerId: string;
+  className?: string;
+}
+
+// "file_upload" -> "File upload"
+const formatAction = (action: string) => {
+  const words = action.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Platform activity ingested for one freelancer, newest first, with the last
+ * time they were seen on each platform.
+ */
+export function FreelancerActivityTimeline({ freelancerId, className = '' }: FreelancerActivityTimelineProps) {
+  const { platforms } = usePlatforms();
+  const [activity, setActivity] = useState<PlatformActivity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setActivity(await activityIngestion.listFreelancerActivity(freelancerId));
+    } catch (loadError) {
+      console.error('Failed to load freelancer activity:', loadError);
+      setError('Could not load activity');
+    } finally {
+      setLoading(false);
+    }
+  }, [freelancerId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const platformName = (platformId: string) => platforms.get(platformId)?.metadata?.displayName || platformId;
+
+  // Rows are newest first, so the first row per platform is the latest
+  const lastSeen = new Map<string, string>();
+  activity.forEach(event => {
+    if (!lastSeen.has(event.platform_id)) lastSeen.set(event.platform_id, event.occurred_at);
+  });
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-900 flex items-center">
+          <Activity className="w-4 h-4 mr-2 text-gray-500" />
+          Activity
+        </h3>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+          title="Reload activity"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : !loading && activity.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No activity recorded yet. Activity is collected from platforms that report it.
+        </p>
+      ) : (
+        <>
+          {lastSeen.size > 0 && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              {Array.from(lastSeen.entries()).map(([platformId, occurredAt]) => (
+                <span
+                  key={platformId}
+                  className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800"
+                >
+                  {platformName(platformId)}
+                  <span className="ml-1 text-gray-500">· last seen {new Date(occurredAt).toLocaleDateString()}</span>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+            {activity.map(event => (
+              <li key={event.id} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-500" />
+                <div className="text-sm text-gray-900">
+                  {formatAction(event.action)}
+                  <span className="ml-2 text-xs text-gray-500">{platformName(event.platform_id)}</span>
+                </div>
+                <time className="text-xs text-gray-400">{new Date(event.occurred_at).toLocaleString()}</time>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Check, Eye, FileText, RefreshCw, Send, Upload, X } from 'lucide-react';
+import { useTenant } from '../../contexts/TenantContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { onboardingJobs } from '../../services/OnboardingJobService';
+import { documentKindLabel, documents, type FreelancerDocumentEntry } from '../../services/DocumentService';
+
+interface FreelancerDocumentsProps {
+  freelancerId: string;
+  className?: string;
+}
+
+const statusLabels: Record<FreelancerDocumentEntry['status'], { label: string; className: string }> = {
+  missing: { label: 'Not requested', className: 'bg-gray-100 text-gray-700' },
+  requested: { label: 'Requested', className: 'bg-blue-50 text-blue-700' },
+  submitted: { label: 'Awaiting review', className: 'bg-amber-50 text-amber-700' },
+  approved: { label: 'Approved', className: 'bg-green-50 text-green-700' },
+  expired: { label: 'Expired', className: 'bg-red-50 text-red-700' }
+};
+
+/**
+ * Documents the organization requires from one freelancer: request them,
+ * upload what the freelancer sent and approve or send it back.
+ */
+export function FreelancerDocuments({ freelancerId, className = '' }: FreelancerDocumentsProps) {
+  const { organization } = useTenant();
+  const { dbUser } = useAuth();
+  const { showToast } = useToast();
+  const { hasPermission } = usePermissions();
+  // Reviewing is the same sign-off as approving a request, so the same people may do it
+  const canReview = hasPermission('approvals.decide');
+  const [entries, setEntries] = useState<FreelancerDocumentEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!organization?.id) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setEntries(await documents.listFreelancerDocuments(organization.id, freelancerId));
+    } catch (loadError) {
+      console.error('Failed to load freelancer documents:', loadError);
+      setError('Could not load documents');
+    } finally {
+      setLoading(false);
+    }
+  }, [organization?.id, freelancerId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Run an action for one requirement (or 'all'), then reload the list
+  const withBusy = async (key: string, action: () => Promise<void>, failure: string) => {
+    setBusy(key);
+    try {
+      await action();
+      await load();
+    } catch (actionError) {
+      console.error(`${failure}:`, actionError);
+      showToast(actionError instanceof Error ? actionError.message : failure, 'error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const requestable = entries.filter(entry => entry.status === 'missing' || entry.status === 'expired');
+
+  const handleRequest = (requirementIds: string[], key: string) => withBusy(key, async () => {
+    if (!organization?.id) return;
+    const requested = await documents.requestDocuments(organization.id, freelancerId, requirementIds);
+    showToast(`${requested} document(s) requested`, 'success');
+  }, 'Failed to request documents');
+
+  const handleUpload = (entry: FreelancerDocumentEntry, file: File) => withBusy(entry.requirement.id, async () => {
+    if (!organization?.id) return;
+    await documents.uploadDocument(organization.id, freelancerId, entry.requirement.id, file);
+    showToast(`${entry.requirement.name} uploaded`, 'success');
+  }, 'Failed to upload document');
+
+  const handleReview = (entry: FreelancerDocumentEntry, approved: boolean) => {
+    if (!entry.document || !dbUser?.id || !canReview) return;
+
+    const notes = approved ? undefined : prompt(`Why is "${entry.requirement.name}" being sent back?`);
+    if (notes === null) return;
+
+    return withBusy(entry.requirement.id, async () => {
+      await documents.reviewDocument(entry.document!, entry.requirement, approved, dbUser.id, notes);
+      showToast(`${entry.requirement.name} ${approved ? 'approved' : 'sent back'}`, approved ? 'success' : 'info');
+      // An approval may be the last thing holding this freelancer's provisioning
+      if (approved) await onboardingJobs.releaseHeldJobs(freelancerId);
+    }, 'Failed to review document');
+  };
+
+  const handleView = (entry: FreelancerDocumentEntry) => withBusy(entry.requirement.id, async () => {
+    if (!entry.document) return;
+    const blob = await documents.downloadDocument(entry.document);
+    const url = URL.createObjectURL(blob);
+    window.open(url, '_blank', 'noopener');
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  }, 'Failed to open document');
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-900 flex items-center">
+          <FileText className="w-4 h-4 mr-2 text-gray-500" />
+          Documents
+        </h3>
+        <div className="flex items-center space-x-2">
+          {requestable.length > 0 && (
+            <button
+              onClick={() => handleRequest(requestable.map(entry => entry.requirement.id), 'all')}
+              disabled={busy !== null}
+              className="inline-flex items-center px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 rounded hover:bg-blue-100 disabled:opacity-50"
+            >
+              <Send className="w-3 h-3 mr-1" />
+              Request all
+            </button>
+          )}
+          <button
+            onClick={load}
+            disabled={loading}
+            className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            title="Reload documents"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : !loading && entries.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No documents are required. Add requirements under Platform Management.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border rounded-md">
+          {entries.map(entry => {
+            const { requirement, document } = entry;
+            const status = statusLabels[entry.status];
+            const disabled = busy !== null;
+            return (
+              <li key={requirement.id} className="px-3 py-2">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <div className="text-sm text-gray-900">
+                      {requirement.name}
+                      {!requirement.is_required && <span className="ml-1 text-xs text-gray-500">(optional)</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {documentKindLabel(requirement.kind)}
+                      {requirement.blocks_provisioning && ' · holds platform access'}
+                      {document?.expires_at && entry.status === 'approved' &&
+                        ` · expires ${new Date(document.expires_at).toLocaleDateString()}`}
+                    </div>
+                  </div>
+                  <div className="ml-3 flex flex-shrink-0 items-center space-x-1">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${status.className}`}>
+                      {status.label}
+                    </span>
+                    {(entry.status === 'missing' || entry.status === 'expired') && (
+                      <button
+                        onClick={() => handleRequest([requirement.id], requirement.id)}
+                        disabled={disabled}
+                        className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-50"
+                        title="Request from freelancer"
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                    )}
+                    <label
+                      className={`p-1 text-gray-400 hover:text-gray-600 ${disabled ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+                      title="Upload document"
+                    >
+                      <Upload className="w-4 h-4" />
+                      <input
+                        type="file"
+                        className="hidden"
+                        disabled={disabled}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = '';
+                          if (file) handleUpload(entry, file);
+                        }}
+                      />
+                    </label>
+                    {document?.file_path && (
+                      <button
+                        onClick={() => handleView(entry)}
+                        disabled={disabled}
+                        className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                        title={`View ${document.file_name || 'document'}`}
+                      >
+                        <Eye className="w-4 h-4" />
+                      </button>
+                    )}
+                    {entry.status === 'submitted' && canReview && (
+                      <>
+                        <button
+                          onClick={() => handleReview(entry, true)}
+                          disabled={disabled}
+                          className="p-1 text-green-500 hover:text-green-700 disabled:opacity-50"
+                          title="Approve"
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleReview(entry, false)}
+                          disabled={disabled}
+                          className="p-1 text-red-400 hover:text-red-600 disabled:opacity-50"
+                          title="Send back"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {document?.review_notes && entry.status === 'requested' && (
+                  <p className="mt-1 text-xs text-red-600">Sent back: {document.review_notes}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,23 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { X, Save, Loader2 } from 'lucide-react';
 import { useFreelancers, type Freelancer, getFreelancerFullName } from '../../contexts/FreelancerContext';
+import { useTenant } from '../../contexts/TenantContext';
 import { useToast } from '../../contexts/ToastContext';
+import { toDateInputValue, fromDateInputValue } from '../../utils/date';
+import { db } from '../../services/database.service';
+import { customFields } from '../../services/CustomFieldService';
+import {
+  COMMON_CURRENCIES,
+  RATE_UNITS,
+  listTimezones,
+  parseSkills,
+  toCustomFieldValue,
+  validateCustomFields,
+  validateProfile,
+  type CustomFieldValue,
+  type FreelancerProfile
+} from '../../services/freelancerProfile';
+import { getUserFullName, type CustomFieldDefinition, type RateUnit, type User } from '../../types/database.types';
 
 interface FreelancerEditModalProps {
   freelancer: Freelancer;
@@ -11,6 +27,7 @@ interface FreelancerEditModalProps {
 
 export function FreelancerEditModal({ freelancer, isOpen, onClose }: FreelancerEditModalProps) {
   const { updateFreelancer } = useFreelancers();
+  const { organization } = useTenant();
   const { showToast } = useToast();
   
   const [formData, setFormData] = useState({
@@ -18,10 +35,37 @@ export function FreelancerEditModal({ freelancer, isOpen, onClose }: FreelancerE
     last_name: freelancer.last_name,
     email: freelancer.email,
     phone: freelancer.phone || '',
-    status: freelancer.status
+    status: freelancer.status,
+    expires_on: freelancer.expires_at ? toDateInputValue(freelancer.expires_at) : '',
+    skills: (freelancer.skills || []).join(', '),
+    rate_amount: freelancer.rate_amount != null ? String(freelancer.rate_amount) : '',
+    rate_unit: freelancer.rate_unit || 'hour',
+    rate_currency: freelancer.rate_currency || '',
+    timezone: freelancer.timezone || '',
+    location: freelancer.location || '',
+    contract_start: freelancer.contract_start || '',
+    contract_end: freelancer.contract_end || '',
+    manager_id: freelancer.manager_id || ''
   });
+  const [customValues, setCustomValues] = useState<Record<string, CustomFieldValue>>(freelancer.custom_fields || {});
+  const [fieldDefinitions, setFieldDefinitions] = useState<CustomFieldDefinition[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [managers, setManagers] = useState<User[]>([]);
   const [loading, setLoading] = useState(false);
 
+  useEffect(() => {
+    if (!isOpen || !organization?.id) return;
+
+    Promise.all([customFields.listFields(organization.id), db.users.listByOrganization(organization.id)])
+      .then(([definitions, users]) => {
+        setFieldDefinitions(definitions);
+        setManagers(users);
+      })
+      .catch(error => {
+        console.error('Failed to load profile fields:', error);
+      });
+  }, [isOpen, organization?.id]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -30,14 +74,45 @@ export function FreelancerEditModal({ freelancer, isOpen, onClose }: FreelancerE
       return;
     }
 
+    const profile: FreelancerProfile = {
+      skills: parseSkills(formData.skills),
+      rate_amount: formData.rate_amount.trim() ? Number(formData.rate_amount) : null,
+      rate_unit: formData.rate_amount.trim() ? formData.rate_unit : null,
+      rate_currency: formData.rate_currency.trim().toUpperCase() || null,
+      timezone: formData.timezone.trim() || null,
+      location: formData.location.trim() || null,
+      contract_start: formData.contract_start || null,
+      contract_end: formData.contract_end || null,
+      manager_id: formData.manager_id || null,
+      // Values of deleted fields are kept as they were
+      custom_fields: { ...(freelancer.custom_fields || {}), ...customValues }
+    };
+
+    const profileError = validateProfile(profile);
+    if (profileError) {
+      showToast(profileError, 'error');
+      return;
+    }
+    const errors = validateCustomFields(fieldDefinitions, customValues);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      showToast('Some custom fields need attention', 'error');
+      return;
+    }
+
     setLoading(true);
     try {
+      const expiresAt = formData.expires_on ? fromDateInputValue(formData.expires_on) : null;
+      const expiryChanged = expiresAt !== (freelancer.expires_at || null);
+
       await updateFreelancer(freelancer.id, {
         first_name: formData.first_name.trim(),
         last_name: formData.last_name.trim(),
         email: formData.email.trim(),
         phone: formData.phone.trim() || undefined,
-        status: formData.status
+        status: formData.status,
+        ...profile,
+        ...(expiryChanged ? { expires_at: expiresAt, expiry_reminder_sent_at: null } : {})
       });
       showToast('Freelancer updated successfully', 'success');
       onClose();
@@ -49,11 +124,75 @@ export function FreelancerEditModal({ freelancer, isOpen, onClose }: FreelancerE
     }
   };
 
+  const setCustomValue = (definition: CustomFieldDefinition, input: string | boolean) => {
+    setCustomValues(prev => ({ ...prev, [definition.key]: toCustomFieldValue(definition, input) }));
+    setFieldErrors(prev => {
+      const next = { ...prev };
+      delete next[definition.key];
+      return next;
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  const renderCustomField = (definition: CustomFieldDefinition) => {
+    const value = customValues[definition.key];
+    const id = `custom_${definition.key}`;
+
+    if (definition.field_type === 'boolean') {
+      return (
+        <label key={definition.id} className="flex items-center text-sm text-gray-900">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => setCustomValue(definition, e.target.checked)}
+            className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          {definition.label}
+        </label>
+      );
+    }
+
+    return (
+      <div key={definition.id}>
+        <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+          {definition.label}{definition.is_required && ' *'}
+        </label>
+        {definition.field_type === 'select' ? (
+          <select
+            id={id}
+            value={value == null ? '' : String(value)}
+            onChange={(e) => setCustomValue(definition, e.target.value)}
+            className={inputClass}
+          >
+            <option value="">—</option>
+            {definition.options.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            id={id}
+            type={({ number: 'number', date: 'date', url: 'url', email: 'email' } as Record<string, string>)[definition.field_type] || 'text'}
+            value={value == null ? '' : String(value)}
+            min={definition.min_value ?? undefined}
+            max={definition.max_value ?? undefined}
+            onChange={(e) => setCustomValue(definition, e.target.value)}
+            className={inputClass}
+          />
+        )}
+        {fieldErrors[definition.key] && (
+          <p className="mt-1 text-xs text-red-600">{fieldErrors[definition.key]}</p>
+        )}
+      </div>
+    );
+  };
+
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <h2 className="text-lg font-medium text-gray-900">Edit Freelancer Details</h2>
           <button
@@ -138,6 +277,175 @@ export function FreelancerEditModal({ freelancer, isOpen, onClose }: FreelancerE
             </select>
           </div>
 
+          <div>
+            <label htmlFor="expires_on" className="block text-sm font-medium text-gray-700 mb-1">
+              Access Ends
+            </label>
+            <input
+              type="date"
+              id="expires_on"
+              value={formData.expires_on}
+              onChange={(e) => setFormData({ ...formData, expires_on: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Platform access is revoked automatically after this date. Leave empty for no end date.
+            </p>
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 space-y-4">
+            <h3 className="text-sm font-medium text-gray-900">Profile</h3>
+
+            <div>
+              <label htmlFor="skills" className="block text-sm font-medium text-gray-700 mb-1">
+                Skills
+              </label>
+              <input
+                type="text"
+                id="skills"
+                value={formData.skills}
+                onChange={(e) => setFormData({ ...formData, skills: e.target.value })}
+                className={inputClass}
+                placeholder="Video editing, Color grading"
+              />
+              <p className="mt-1 text-xs text-gray-500">Separate skills or tags with commas.</p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label htmlFor="rate_amount" className="block text-sm font-medium text-gray-700 mb-1">
+                  Rate
+                </label>
+                <input
+                  type="number"
+                  id="rate_amount"
+                  min="0"
+                  step="0.01"
+                  value={formData.rate_amount}
+                  onChange={(e) => setFormData({ ...formData, rate_amount: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="rate_unit" className="block text-sm font-medium text-gray-700 mb-1">
+                  Per
+                </label>
+                <select
+                  id="rate_unit"
+                  value={formData.rate_unit}
+                  onChange={(e) => setFormData({ ...formData, rate_unit: e.target.value as RateUnit })}
+                  className={inputClass}
+                >
+                  {RATE_UNITS.map(entry => (
+                    <option key={entry.unit} value={entry.unit}>{entry.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="rate_currency" className="block text-sm font-medium text-gray-700 mb-1">
+                  Currency
+                </label>
+                <input
+                  type="text"
+                  id="rate_currency"
+                  list="rate-currencies"
+                  maxLength={3}
+                  value={formData.rate_currency}
+                  onChange={(e) => setFormData({ ...formData, rate_currency: e.target.value.toUpperCase() })}
+                  className={inputClass}
+                  placeholder="USD"
+                />
+                <datalist id="rate-currencies">
+                  {COMMON_CURRENCIES.map(currency => <option key={currency} value={currency} />)}
+                </datalist>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 mb-1">
+                  Timezone
+                </label>
+                <input
+                  type="text"
+                  id="timezone"
+                  list="profile-timezones"
+                  value={formData.timezone}
+                  onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                  className={inputClass}
+                  placeholder="Europe/Berlin"
+                />
+                <datalist id="profile-timezones">
+                  {listTimezones().map(timezone => <option key={timezone} value={timezone} />)}
+                </datalist>
+              </div>
+              <div>
+                <label htmlFor="location" className="block text-sm font-medium text-gray-700 mb-1">
+                  Location
+                </label>
+                <input
+                  type="text"
+                  id="location"
+                  value={formData.location}
+                  onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                  className={inputClass}
+                  placeholder="Berlin, Germany"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="contract_start" className="block text-sm font-medium text-gray-700 mb-1">
+                  Contract Start
+                </label>
+                <input
+                  type="date"
+                  id="contract_start"
+                  value={formData.contract_start}
+                  onChange={(e) => setFormData({ ...formData, contract_start: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="contract_end" className="block text-sm font-medium text-gray-700 mb-1">
+                  Contract End
+                </label>
+                <input
+                  type="date"
+                  id="contract_end"
+                  value={formData.contract_end}
+                  onChange={(e) => setFormData({ ...formData, contract_end: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="manager_id" className="block text-sm font-medium text-gray-700 mb-1">
+                Manager
+              </label>
+              <select
+                id="manager_id"
+                value={formData.manager_id}
+                onChange={(e) => setFormData({ ...formData, manager_id: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">No manager</option>
+                {managers.map(user => (
+                  <option key={user.id} value={user.id}>{getUserFullName(user) || user.email}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {fieldDefinitions.length > 0 && (
+            <div className="pt-4 border-t border-gray-200 space-y-4">
+              <h3 className="text-sm font-medium text-gray-900">Custom Fields</h3>
+              {fieldDefinitions.map(renderCustomField)}
+            </div>
+          )}
+
           <div className="flex justify-end space-x-3 pt-4">
             <button
               type="button"
@@ -0,0 +1,410 @@
+import { useState, useEffect } from 'react';
+import { X, Upload, FileSpreadsheet, CheckCircle2, XCircle, AlertTriangle, Loader2 } from 'lucide-react';
+import { useFreelancers } from '../../contexts/FreelancerContext';
+import { usePlatforms } from '../../contexts/PlatformContext';
+import { useTenant } from '../../contexts/TenantContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { readSpreadsheetFile, type SpreadsheetData } from '../../utils/spreadsheet';
+import {
+  freelancerImport,
+  IMPORT_FIELDS,
+  type ColumnMapping,
+  type ImportField,
+  type ImportPreview,
+  type ImportResult
+} from '../../services/FreelancerImportService';
+import { describeSeatWarnings, seatUsage } from '../../services/SeatUsageService';
+import {
+  onboardingTemplates,
+  toStepOptions,
+  type OnboardingTemplateWithPlatforms
+} from '../../services/OnboardingTemplateService';
+
+interface FreelancerImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type WizardStep = 'upload' | 'mapping' | 'preview' | 'importing' | 'done';
+
+const statusStyles = {
+  valid: 'text-green-700',
+  invalid: 'text-red-700',
+  duplicate: 'text-yellow-700'
+};
+
+export function FreelancerImportWizard({ isOpen, onClose }: FreelancerImportWizardProps) {
+  const { refreshFreelancers } = useFreelancers();
+  const { platforms, platformStatuses, platformConfigs } = usePlatforms();
+  const { organization } = useTenant();
+  const { dbUser } = useAuth();
+  const { showToast } = useToast();
+
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [platformIds, setPlatformIds] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<OnboardingTemplateWithPlatforms[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !organization?.id) return;
+
+    onboardingTemplates.listTemplates(organization.id)
+      .then(setTemplates)
+      .catch(error => {
+        console.error('Failed to load onboarding templates:', error);
+      });
+  }, [isOpen, organization?.id]);
+
+  if (!isOpen) return null;
+
+  const enabledPlatformIds = Array.from(platforms.keys()).filter(platformId => {
+    const status = platformStatuses.get(platformId);
+    const config = platformConfigs.find(c => c.platform_id === platformId);
+    return status?.enabled && config;
+  });
+
+  const handleFile = async (file: File) => {
+    setBusy(true);
+    try {
+      const data = await readSpreadsheetFile(file);
+      if (data.rows.length === 0) {
+        showToast('The file has a header row but no data', 'warning');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(freelancerImport.guessMapping(data.headers));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to read file', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handlePreview = async () => {
+    if (!sheet || !organization?.id) return;
+
+    setBusy(true);
+    try {
+      setPreview(await freelancerImport.preview(organization.id, sheet.headers, sheet.rows, sheet.rowNumbers, mapping));
+      setStep('preview');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to validate rows', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find(t => t.id === id);
+    if (template) {
+      setPlatformIds(template.platforms.map(p => p.platform_id).filter(p => enabledPlatformIds.includes(p)));
+    }
+  };
+
+  const togglePlatform = (platformId: string) => {
+    setTemplateId('');
+    setPlatformIds(prev => prev.includes(platformId) ? prev.filter(id => id !== platformId) : [...prev, platformId]);
+  };
+
+  const handleImport = async () => {
+    if (!preview || !organization?.id || !dbUser?.id) return;
+
+    if (platformIds.length > 0 && preview.valid > 0) {
+      const warnings = await seatUsage.checkSeats(organization.id, platformIds, preview.valid).catch(error => {
+        console.error('Failed to check seat limits:', error);
+        return [];
+      });
+      if (warnings.length > 0) {
+        const summary = describeSeatWarnings(warnings, id => platforms.get(id)?.metadata?.name || id);
+        if (!window.confirm(`This import will exceed the seat limit on:\n${summary}\n\nContinue anyway?`)) return;
+      }
+    }
+
+    const template = templates.find(t => t.id === templateId);
+    setStep('importing');
+    setProgress({ done: 0, total: preview.valid });
+    try {
+      const importResult = await freelancerImport.importRows(
+        preview.rows,
+        {
+          organizationId: organization.id,
+          createdBy: dbUser.id,
+          platformIds,
+          stepOptions: template ? toStepOptions(template.platforms) : undefined
+        },
+        (done, total) => setProgress({ done, total })
+      );
+      setResult(importResult);
+      setStep('done');
+      await refreshFreelancers();
+
+      if (importResult.failed.length === 0) {
+        showToast(`Imported ${importResult.created.length} freelancer(s)`, 'success');
+      } else {
+        showToast(`Imported ${importResult.created.length} freelancer(s), ${importResult.failed.length} failed`, 'warning');
+      }
+    } catch (error) {
+      console.error('Import failed:', error);
+      showToast('Import failed', 'error');
+      setStep('preview');
+    }
+  };
+
+  const renderUpload = () => (
+    <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-10 cursor-pointer hover:bg-gray-50">
+      {busy ? (
+        <Loader2 className="w-10 h-10 text-blue-600 animate-spin" />
+      ) : (
+        <Upload className="w-10 h-10 text-gray-400" />
+      )}
+      <span className="mt-3 text-sm font-medium text-gray-900">Choose a CSV or XLSX file</span>
+      <span className="mt-1 text-xs text-gray-500">The first row must contain column headers</span>
+      <input
+        type="file"
+        accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        className="hidden"
+        disabled={busy}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+        }}
+      />
+    </label>
+  );
+
+  const renderMapping = () => (
+    <div className="space-y-4">
+      <div className="flex items-center text-sm text-gray-600">
+        <FileSpreadsheet className="w-4 h-4 mr-2" />
+        {fileName} · {sheet?.rows.length} row(s)
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {IMPORT_FIELDS.map(({ field, label, required }) => (
+          <div key={field}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {label}{required ? ' *' : ''}
+            </label>
+            <select
+              value={mapping[field] ?? ''}
+              onChange={(e) => handleMappingChange(field, e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Not mapped</option>
+              {sheet?.headers.map((header, index) => (
+                <option key={index} value={index}>{header}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        Map either First name/Last name or Full name. Full name is split at the first space.
+      </p>
+    </div>
+  );
+
+  const renderPreview = () => preview && (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="p-3 rounded-lg bg-green-50 text-green-800">
+          <div className="text-xl font-semibold">{preview.valid}</div>
+          <div className="text-xs">Ready to import</div>
+        </div>
+        <div className="p-3 rounded-lg bg-yellow-50 text-yellow-800">
+          <div className="text-xl font-semibold">{preview.duplicates}</div>
+          <div className="text-xs">Duplicates (skipped)</div>
+        </div>
+        <div className="p-3 rounded-lg bg-red-50 text-red-800">
+          <div className="text-xl font-semibold">{preview.invalid}</div>
+          <div className="text-xs">Invalid (skipped)</div>
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto border rounded-lg">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Row</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Email</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Name</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Result</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {preview.rows.map((row, index) => (
+              <tr key={row.rowNumber}>
+                <td className="px-3 py-1.5 text-gray-500">{row.rowNumber}</td>
+                <td className="px-3 py-1.5">{row.data?.email || (mapping.email !== undefined ? sheet?.rows[index]?.[mapping.email] : '')}</td>
+                <td className="px-3 py-1.5">{row.data ? `${row.data.first_name} ${row.data.last_name}`.trim() : ''}</td>
+                <td className={`px-3 py-1.5 ${statusStyles[row.status]}`}>
+                  {row.status === 'valid' ? 'OK' : row.errors.join('; ')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {enabledPlatformIds.length > 0 && (
+        <div className="border rounded-lg p-3 space-y-2">
+          <p className="text-sm font-medium text-gray-700">Queue platform onboarding (optional)</p>
+          {templates.length > 0 && (
+            <select
+              value={templateId}
+              onChange={(e) => handleTemplateChange(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">No template</option>
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+          )}
+          <div className="flex flex-wrap gap-3">
+            {enabledPlatformIds.map(platformId => (
+              <label key={platformId} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={platformIds.includes(platformId)}
+                  onChange={() => togglePlatform(platformId)}
+                  className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                {platforms.get(platformId)?.metadata?.name || platformId}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderDone = () => result && (
+    <div className="space-y-3">
+      <div className="flex items-center text-sm text-green-700">
+        <CheckCircle2 className="w-4 h-4 mr-2" />
+        {result.created.length} freelancer(s) created
+        {platformIds.length > 0 && result.created.length > 0 && ' · onboarding queued'}
+      </div>
+      {result.failed.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center text-sm text-red-700">
+            <XCircle className="w-4 h-4 mr-2" />
+            {result.failed.length} row(s) failed
+          </div>
+          {result.failed.map(failure => (
+            <div key={failure.rowNumber} className="ml-6 text-xs text-red-600">
+              Row {failure.rowNumber}: {failure.error}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[85vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Import Freelancers</h2>
+            <p className="text-sm text-gray-600">
+              {step === 'upload' && 'Upload a spreadsheet'}
+              {step === 'mapping' && 'Match columns to freelancer fields'}
+              {step === 'preview' && 'Review before anything is created'}
+              {step === 'importing' && 'Creating freelancers...'}
+              {step === 'done' && 'Import finished'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={step === 'importing'}
+            className="text-gray-400 hover:text-gray-600 p-1 disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {step === 'upload' && renderUpload()}
+          {step === 'mapping' && renderMapping()}
+          {step === 'preview' && renderPreview()}
+          {step === 'importing' && (
+            <div className="py-8 text-center">
+              <Loader2 className="w-10 h-10 text-blue-600 mx-auto animate-spin mb-3" />
+              <p className="text-sm text-gray-600">{progress.done} of {progress.total} created</p>
+            </div>
+          )}
+          {step === 'done' && renderDone()}
+        </div>
+
+        <div className="sticky bottom-0 bg-gray-50 px-6 py-3 border-t border-gray-200">
+          <div className="flex justify-between">
+            <div>
+              {(step === 'mapping' || step === 'preview') && (
+                <button
+                  onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Back
+                </button>
+              )}
+            </div>
+            <div className="flex space-x-3">
+              {step === 'mapping' && (
+                <button
+                  onClick={handlePreview}
+                  disabled={busy || mapping.email === undefined}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Preview Import
+                </button>
+              )}
+              {step === 'preview' && preview && (
+                <button
+                  onClick={handleImport}
+                  disabled={preview.valid === 0}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+                >
+                  {preview.valid < preview.rows.length && <AlertTriangle className="w-4 h-4 mr-2" />}
+                  Import {preview.valid} Freelancer(s)
+                </button>
+              )}
+              {step === 'done' && (
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                >
+                  Done
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
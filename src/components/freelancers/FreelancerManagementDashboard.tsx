@@ -1,12 +1,35 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Plus, Search, MoreHorizontal, UserPlus, UserMinus, RotateCcw, Trash2, Eye, Edit, Mail, Phone, Settings } from 'lucide-react';
-import { useFreelancers, getFreelancerFullName } from '../../contexts/FreelancerContext';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Plus, Search, MoreHorizontal, UserPlus, UserMinus, RotateCcw, Trash2, Eye, Edit, Mail, Phone, Settings, CalendarPlus, Upload, Download, FileText, Send, ChevronUp, ChevronDown, Bookmark, Link } from 'lucide-react';
+import { useFreelancers, getFreelancerFullName, type Freelancer } from '../../contexts/FreelancerContext';
 import { usePlatforms } from '../../contexts/PlatformContext';
+import { useTenant } from '../../contexts/TenantContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useAuth } from '../../contexts/AuthContext';
 import { usePermissions } from '../../hooks/usePermissions';
 import { FreelancerOnboardingForm } from './FreelancerOnboardingForm';
 import { OnboardingProgressTracker } from './OnboardingProgressTracker';
 import { FreelancerEditModal } from './FreelancerEditModal';
 import { FreelancerPlatformModal } from './FreelancerPlatformModal';
+import { FreelancerOffboardingModal } from './FreelancerOffboardingModal';
+import { FreelancerImportWizard } from './FreelancerImportWizard';
+import { getAccessExpiry, getReminderDays } from '../../services/accessExpirySweep';
+import { buildExportRecords, exportFreelancers, printAccessReport } from '../../services/freelancerExport';
+import { sendPortalInvite } from '../../services/freelancerPortal';
+import { customFields } from '../../services/CustomFieldService';
+import { db } from '../../services/database.service';
+import {
+  PAGE_SIZES,
+  freelancerSearch,
+  hasActiveFilters,
+  parseListQuery,
+  sameView,
+  toSearchParams,
+  viewQuery,
+  type FreelancerListQuery,
+  type FreelancerSortField
+} from '../../services/FreelancerSearchService';
+import { getUserFullName, type CustomFieldDefinition, type SavedFreelancerView, type User } from '../../types/database.types';
 
 interface FreelancerManagementDashboardProps {
   className?: string;
@@ -14,24 +37,42 @@ interface FreelancerManagementDashboardProps {
 
 export function FreelancerManagementDashboard({ className = '' }: FreelancerManagementDashboardProps) {
   const { 
-    freelancers, 
     loading, 
+    changeCount,
     deleteFreelancer, 
-    bulkDeactivateFreelancers,
     bulkReactivateFreelancers,
-    getFreelancerPlatforms
+    extendFreelancerAccess,
+    getFreelancer,
+    getFreelancerPlatforms,
+    refreshFreelancers,
+    showFreelancers,
+    ensureFreelancers
   } = useFreelancers();
   const { platforms, platformStatuses, platformConfigs } = usePlatforms();
+  const { organization } = useTenant();
+  const { dbUser } = useAuth();
+  const { showToast } = useToast();
   const { canManagePlatforms } = usePermissions();
   
   const [showOnboardingForm, setShowOnboardingForm] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
   const [selectedFreelancers, setSelectedFreelancers] = useState<string[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
+  // Filters, sorting and paging live in the URL so a list view can be shared as a link
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseListQuery(searchParams), [searchParams]);
+  const [searchInput, setSearchInput] = useState(query.search);
+  const [pageFreelancers, setPageFreelancers] = useState<Freelancer[]>([]);
+  const [totalFreelancers, setTotalFreelancers] = useState(0);
+  const [pageLoading, setPageLoading] = useState(true);
+  const [savedViews, setSavedViews] = useState<SavedFreelancerView[]>([]);
+  const [fieldDefinitions, setFieldDefinitions] = useState<CustomFieldDefinition[]>([]);
+  const [teamMembers, setTeamMembers] = useState<User[]>([]);
+  const [allSkills, setAllSkills] = useState<string[]>([]);
   const [showProgressFor, setShowProgressFor] = useState<string | null>(null);
   const [openDropdownId, setOpenDropdownId] = useState<string | null>(null);
   const [editingFreelancer, setEditingFreelancer] = useState<string | null>(null);
   const [managingPlatformsFor, setManagingPlatformsFor] = useState<string | null>(null);
+  const [offboardingIds, setOffboardingIds] = useState<string[] | null>(null);
   const dropdownRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
   const [dropdownPositions, setDropdownPositions] = useState<{ [key: string]: { x: number; y: number; align: 'up' | 'down' } }>({});
 
@@ -74,22 +115,146 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
     };
   }, [openDropdownId]);
 
-  const filteredFreelancers = freelancers.filter(freelancer => {
-    const fullName = getFreelancerFullName(freelancer);
-    const matchesSearch = 
-      fullName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      freelancer.email.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesStatus = statusFilter === 'all' || freelancer.status === statusFilter;
-    
-    return matchesSearch && matchesStatus;
-  });
+  // Custom field definitions and team members feed the profile filters and exports
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    Promise.all([customFields.listFields(organization.id), db.users.listByOrganization(organization.id)])
+      .then(([definitions, users]) => {
+        setFieldDefinitions(definitions);
+        setTeamMembers(users);
+      })
+      .catch(error => {
+        console.error('Failed to load profile filters:', error);
+      });
+  }, [organization?.id]);
+
+  // Skills for the tag filter come from every freelancer, not just this page
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    freelancerSearch.listSkills(organization.id)
+      .then(setAllSkills)
+      .catch(error => {
+        console.error('Failed to load skills:', error);
+      });
+  }, [organization?.id, changeCount]);
 
+  const managerName = (userId: string) => {
+    const user = teamMembers.find(member => member.id === userId);
+    return user ? getUserFullName(user) || user.email : null;
+  };
+
+  // Any change other than paging starts again from the first page
+  const updateQuery = useCallback((changes: Partial<FreelancerListQuery>) => {
+    setSearchParams(toSearchParams({ ...query, page: 1, ...changes }), { replace: true });
+  }, [query, setSearchParams]);
+
+  const applyQuery = (next: FreelancerListQuery) => {
+    setSearchInput(next.search);
+    setSearchParams(toSearchParams(next), { replace: true });
+  };
+
+  // Search runs once typing pauses
+  useEffect(() => {
+    const term = searchInput.trim();
+    if (term === query.search) return;
+    const timer = setTimeout(() => updateQuery({ search: term }), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput, query.search, updateQuery]);
+
+  const loadPage = useCallback(async () => {
+    if (!organization?.id) return;
+
+    setPageLoading(true);
+    try {
+      const result = await freelancerSearch.search(organization.id, query);
+      if (result.freelancers.length === 0 && query.page > 1) {
+        // The page ran past the end, e.g. after deletes; go back to the start
+        setSearchParams(toSearchParams({ ...query, page: 1 }), { replace: true });
+        return;
+      }
+      await showFreelancers(result.freelancers);
+      setPageFreelancers(result.freelancers);
+      setTotalFreelancers(result.total);
+    } catch (error) {
+      console.error('Failed to search freelancers:', error);
+      showToast('Failed to load freelancers', 'error');
+    } finally {
+      setPageLoading(false);
+    }
+  }, [organization?.id, query, setSearchParams, showFreelancers, showToast]);
+
+  // The context counts every change, which is the cue to refresh this page
+  useEffect(() => {
+    loadPage();
+  }, [loadPage, changeCount]);
+
+  const loadSavedViews = useCallback(async () => {
+    if (!organization?.id || !dbUser?.id) return;
+
+    try {
+      setSavedViews(await freelancerSearch.listViews(organization.id, dbUser.id));
+    } catch (error) {
+      console.error('Failed to load saved views:', error);
+    }
+  }, [organization?.id, dbUser?.id]);
+
+  useEffect(() => {
+    loadSavedViews();
+  }, [loadSavedViews]);
+
+  const currentView = savedViews.find(view => sameView(viewQuery(view), query));
+
+  const handleSaveView = async () => {
+    if (!organization?.id || !dbUser?.id) return;
+
+    const name = prompt('Name this view', currentView?.name || '');
+    if (name === null) return;
+
+    try {
+      const view = await freelancerSearch.saveView(organization.id, dbUser.id, name, query);
+      showToast(`View "${view.name}" saved`, 'success');
+      await loadSavedViews();
+    } catch (error) {
+      console.error('Failed to save view:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to save view', 'error');
+    }
+  };
+
+  const handleDeleteView = async (view: SavedFreelancerView) => {
+    if (!confirm(`Delete the saved view "${view.name}"?`)) return;
+
+    try {
+      await freelancerSearch.deleteView(view.id);
+      showToast('View deleted', 'success');
+      await loadSavedViews();
+    } catch (error) {
+      console.error('Failed to delete view:', error);
+      showToast('Failed to delete view', 'error');
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const copied = await navigator.clipboard.writeText(window.location.href).then(() => true, () => false);
+    showToast(copied ? 'Link to this view copied' : 'Copy the address bar to share this view', copied ? 'success' : 'warning');
+  };
+
+  const handleSort = (field: FreelancerSortField) => {
+    const sortDir = query.sortBy === field && query.sortDir === 'desc' ? 'asc' : 'desc';
+    updateQuery({ sortBy: field, sortDir });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(totalFreelancers / query.pageSize));
+  const pageIds = pageFreelancers.map(f => f.id);
+  const allOnPageSelected = pageIds.length > 0 && pageIds.every(id => selectedFreelancers.includes(id));
+
+  // Selection can span pages; this toggles the rows on the current one
   const handleSelectAll = () => {
-    if (selectedFreelancers.length === filteredFreelancers.length) {
-      setSelectedFreelancers([]);
+    if (allOnPageSelected) {
+      setSelectedFreelancers(prev => prev.filter(id => !pageIds.includes(id)));
     } else {
-      setSelectedFreelancers(filteredFreelancers.map(f => f.id));
+      setSelectedFreelancers(prev => [...prev, ...pageIds.filter(id => !prev.includes(id))]);
     }
   };
 
@@ -107,11 +272,17 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
     try {
       switch (action) {
         case 'deactivate':
-          await bulkDeactivateFreelancers(selectedFreelancers);
-          break;
+          // Offboarding collects a reason and clears the selection once it finishes.
+          // The selection can span pages, so load it before the modal reads its grants.
+          await ensureFreelancers(selectedFreelancers);
+          setOffboardingIds(selectedFreelancers);
+          return;
         case 'reactivate':
           await bulkReactivateFreelancers(selectedFreelancers);
           break;
+        case 'extend':
+          await extendFreelancerAccess(selectedFreelancers, 30);
+          break;
         case 'delete':
           if (confirm(`Are you sure you want to delete ${selectedFreelancers.length} freelancer(s)?`)) {
             for (const id of selectedFreelancers) {
@@ -126,6 +297,65 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
     }
   };
 
+  const platformName = (platformId: string) => platforms.get(platformId)?.metadata?.name || platformId;
+
+  const exportProfileContext = { customFields: fieldDefinitions, managerName };
+
+  // Exports the selection when there is one, otherwise every page matching the current filters
+  const handleExport = async (format: 'csv' | 'json') => {
+    if (!organization?.id) return;
+
+    try {
+      const toExport = selectedFreelancers.length > 0
+        ? await freelancerSearch.getByIds(selectedFreelancers)
+        : await freelancerSearch.searchAll(organization.id, query);
+      const grants = await freelancerSearch.loadGrants(toExport.map(f => f.id));
+
+      exportFreelancers(
+        buildExportRecords(toExport, freelancerId => grants.get(freelancerId) || [], platformName, exportProfileContext),
+        format
+      );
+    } catch (error) {
+      console.error('Export failed:', error);
+      showToast('Failed to export freelancers', 'error');
+    }
+  };
+
+  const handleAccessReport = (freelancerId: string) => {
+    const freelancer = getFreelancer(freelancerId);
+    if (!freelancer) return;
+
+    const [record] = buildExportRecords([freelancer], getFreelancerPlatforms, platformName, exportProfileContext);
+    try {
+      printAccessReport(record, {
+        organizationName: organization?.name || '',
+        generatedBy: dbUser?.email,
+        platformName
+      });
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to open access report', 'error');
+    }
+  };
+
+  const handlePortalInvite = async (freelancerId: string) => {
+    const result = await sendPortalInvite(freelancerId);
+    if (!result.success || !result.data) {
+      showToast(result.error || 'Failed to create the portal invite', 'error');
+      return;
+    }
+
+    const copied = await navigator.clipboard.writeText(result.data.url).then(() => true, () => false);
+    if (!copied) {
+      // The email is only queued, so the operator always gets the link itself
+      window.prompt('Copy the portal invite link', result.data.url);
+    }
+    showToast(
+      `${result.data.queued ? 'Portal invite queued' : 'Portal invite created'}${copied ? '; link copied' : ''}`,
+      result.data.queued ? 'success' : 'warning'
+    );
+    await refreshFreelancers();
+  };
+
   const getStatusBadgeColor = (status: string) => {
     switch (status) {
       case 'active':
@@ -150,6 +380,34 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
     return { active, failed, total };
   };
 
+  const getExpiryInfo = (freelancerId: string) => {
+    const freelancer = getFreelancer(freelancerId);
+    if (!freelancer) return null;
+
+    const expiresAt = getAccessExpiry(freelancer, getFreelancerPlatforms(freelancerId));
+    if (!expiresAt) return null;
+
+    const daysLeft = Math.ceil((new Date(expiresAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+    return {
+      expiresAt,
+      daysLeft,
+      isExpired: daysLeft <= 0,
+      isExpiringSoon: daysLeft > 0 && daysLeft <= getReminderDays(organization)
+    };
+  };
+
+  const renderSortHeader = (field: FreelancerSortField, label: string) => (
+    <button
+      onClick={() => handleSort(field)}
+      className="inline-flex items-center uppercase tracking-wider hover:text-gray-700"
+    >
+      {label}
+      {query.sortBy === field && (
+        query.sortDir === 'asc' ? <ChevronUp className="w-3 h-3 ml-1" /> : <ChevronDown className="w-3 h-3 ml-1" />
+      )}
+    </button>
+  );
+
   const getStatusDot = (status: any, config: any) => {
     if (!config) {
       return <div className="w-2 h-2 rounded-full bg-gray-400" />;
@@ -190,13 +448,40 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
             <h2 className="text-xl font-semibold text-gray-900">Freelancer Management</h2>
             <p className="text-sm text-gray-600">Manage freelancers and their platform access</p>
           </div>
-          <button
-            onClick={() => setShowOnboardingForm(true)}
-            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Add Freelancer
-          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => handleExport('csv')}
+              disabled={totalFreelancers === 0}
+              className="inline-flex items-center px-4 py-2 bg-white text-gray-700 text-sm font-medium border border-gray-300 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+              title={selectedFreelancers.length > 0 ? 'Export selected freelancers' : 'Export filtered freelancers'}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </button>
+            <button
+              onClick={() => handleExport('json')}
+              disabled={totalFreelancers === 0}
+              className="inline-flex items-center px-4 py-2 bg-white text-gray-700 text-sm font-medium border border-gray-300 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+              title={selectedFreelancers.length > 0 ? 'Export selected freelancers' : 'Export filtered freelancers'}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              JSON
+            </button>
+            <button
+              onClick={() => setShowImportWizard(true)}
+              className="inline-flex items-center px-4 py-2 bg-white text-gray-700 text-sm font-medium border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </button>
+            <button
+              onClick={() => setShowOnboardingForm(true)}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Freelancer
+            </button>
+          </div>
         </div>
 
         {/* Platform Status for Members */}
@@ -226,24 +511,72 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
           </div>
         )}
 
+        <div className="flex items-center space-x-2 mb-3">
+          <Bookmark className="h-4 w-4 text-gray-400" />
+          <select
+            value={currentView?.id || ''}
+            onChange={(e) => {
+              const view = savedViews.find(v => v.id === e.target.value);
+              applyQuery(view ? viewQuery(view) : parseListQuery(new URLSearchParams()));
+            }}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">{savedViews.length > 0 ? 'Saved views…' : 'No saved views'}</option>
+            {savedViews.map(view => (
+              <option key={view.id} value={view.id}>{view.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleSaveView}
+            className="px-2 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded-md"
+          >
+            {currentView ? 'Update view' : 'Save view'}
+          </button>
+          {currentView && (
+            <button
+              onClick={() => handleDeleteView(currentView)}
+              className="p-1 text-red-400 hover:text-red-600"
+              title="Delete saved view"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={handleCopyLink}
+            className="inline-flex items-center px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-md"
+            title="Copy a link to this view"
+          >
+            <Link className="w-4 h-4 mr-1" />
+            Copy link
+          </button>
+          {hasActiveFilters(query) && (
+            <button
+              onClick={() => applyQuery({ ...parseListQuery(new URLSearchParams()), sortBy: query.sortBy, sortDir: query.sortDir, pageSize: query.pageSize })}
+              className="px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-md"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
         <div className="flex items-center space-x-4">
           <div className="flex-1 relative">
             <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
             <input
               type="text"
-              placeholder="Search freelancers..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search name, email, skills or location..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
               className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
           </div>
           
           <select
-            value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value)}
+            value={query.status}
+            onChange={(e) => updateQuery({ status: e.target.value })}
             className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
-            <option value="all">All Status</option>
+            <option value="">All Status</option>
             <option value="active">Active</option>
             <option value="pending">Pending</option>
             <option value="inactive">Inactive</option>
@@ -263,6 +596,13 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
                 >
                   <UserPlus className="w-4 h-4" />
                 </button>
+                <button
+                  onClick={() => handleBulkAction('extend')}
+                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-md"
+                  title="Extend access by 30 days"
+                >
+                  <CalendarPlus className="w-4 h-4" />
+                </button>
                 <button
                   onClick={() => handleBulkAction('deactivate')}
                   className="p-2 text-yellow-600 hover:bg-yellow-50 rounded-md"
@@ -281,6 +621,112 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
             </div>
           )}
         </div>
+
+        <div className="flex flex-wrap items-center gap-3 mt-3">
+          <select
+            value={query.platform}
+            onChange={(e) => updateQuery({ platform: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All Platforms</option>
+            {Array.from(platforms.entries()).map(([platformId, platformInfo]) => (
+              <option key={platformId} value={platformId}>{platformInfo?.metadata?.name || platformId}</option>
+            ))}
+          </select>
+
+          <select
+            value={query.grantStatus}
+            onChange={(e) => updateQuery({ grantStatus: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            title="Status of the freelancer's access on the platform"
+          >
+            <option value="">Any Access Status</option>
+            <option value="active">Access Active</option>
+            <option value="pending">Access Pending</option>
+            <option value="inactive">Access Removed</option>
+            <option value="error">Access Failed</option>
+          </select>
+
+          {allSkills.length > 0 && (
+            <select
+              value={query.tag}
+              onChange={(e) => updateQuery({ tag: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All Skills</option>
+              {allSkills.map(skill => (
+                <option key={skill} value={skill}>{skill}</option>
+              ))}
+            </select>
+          )}
+
+          <select
+            value={query.manager}
+            onChange={(e) => updateQuery({ manager: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All Managers</option>
+            <option value="none">No manager</option>
+            {teamMembers.map(member => (
+              <option key={member.id} value={member.id}>{getUserFullName(member) || member.email}</option>
+            ))}
+          </select>
+
+          <select
+            value={query.createdBy}
+            onChange={(e) => updateQuery({ createdBy: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Added by Anyone</option>
+            {teamMembers.map(member => (
+              <option key={member.id} value={member.id}>Added by {getUserFullName(member) || member.email}</option>
+            ))}
+          </select>
+
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <span>Added</span>
+            <input
+              type="date"
+              value={query.createdFrom}
+              max={query.createdTo || undefined}
+              onChange={(e) => updateQuery({ createdFrom: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              aria-label="Added on or after"
+            />
+            <span>to</span>
+            <input
+              type="date"
+              value={query.createdTo}
+              min={query.createdFrom || undefined}
+              onChange={(e) => updateQuery({ createdTo: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              aria-label="Added on or before"
+            />
+          </div>
+
+          {fieldDefinitions.length > 0 && (
+            <div className="flex items-center">
+              <select
+                value={query.customFieldKey}
+                onChange={(e) => updateQuery({ customFieldKey: e.target.value, customFieldValue: '' })}
+                className="px-3 py-2 border border-gray-300 rounded-l-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Custom field…</option>
+                {fieldDefinitions.map(definition => (
+                  <option key={definition.id} value={definition.key}>{definition.label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={query.customFieldValue}
+                disabled={!query.customFieldKey}
+                onChange={(e) => updateQuery({ customFieldValue: e.target.value })}
+                placeholder="contains…"
+                className="w-32 px-3 py-2 border border-l-0 border-gray-300 rounded-r-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+              />
+            </div>
+          )}
+        </div>
       </div>
 
       <div className="overflow-x-auto pb-4">
@@ -290,31 +736,32 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
               <th className="px-6 py-3 text-left">
                 <input
                   type="checkbox"
-                  checked={selectedFreelancers.length === filteredFreelancers.length && filteredFreelancers.length > 0}
+                  checked={allOnPageSelected}
                   onChange={handleSelectAll}
                   className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                 />
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Freelancer
+                {renderSortHeader('name', 'Freelancer')}
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Status
+                {renderSortHeader('status', 'Status')}
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Platforms
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Created
+                {renderSortHeader('created_at', 'Created')}
               </th>
               <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Actions
               </th>
             </tr>
           </thead>
-          <tbody className="bg-white divide-y divide-gray-200">
-            {filteredFreelancers.map((freelancer) => {
+          <tbody className={`bg-white divide-y divide-gray-200 ${pageLoading ? 'opacity-60' : ''}`}>
+            {pageFreelancers.map((freelancer) => {
               const platformStats = getPlatformStats(freelancer.id);
+              const expiry = freelancer.status !== 'inactive' ? getExpiryInfo(freelancer.id) : null;
               
               return (
                 <React.Fragment key={freelancer.id}>
@@ -340,12 +787,26 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
                             {freelancer.phone}
                           </div>
                         )}
+                        {freelancer.portal_invited_at && !freelancer.portal_completed_at && (
+                          <div className="text-xs text-amber-600">
+                            Awaiting their details
+                          </div>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4">
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(freelancer.status)}`}>
                         {freelancer.status.charAt(0).toUpperCase() + freelancer.status.slice(1)}
                       </span>
+                      {expiry && (
+                        <div className={`mt-1 text-xs ${
+                          expiry.isExpired ? 'text-red-600' : expiry.isExpiringSoon ? 'text-orange-600' : 'text-gray-500'
+                        }`}>
+                          {expiry.isExpired
+                            ? 'Access expired'
+                            : `Access ends ${new Date(expiry.expiresAt).toLocaleDateString()}`}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4">
                       <div className="text-sm text-gray-900">
@@ -438,12 +899,12 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
           </tbody>
         </table>
 
-        {filteredFreelancers.length === 0 && (
+        {!pageLoading && pageFreelancers.length === 0 && (
           <div className="text-center py-12">
             <UserPlus className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <div className="text-lg font-medium text-gray-900 mb-2">No freelancers found</div>
             <div className="text-gray-500 mb-6">
-              {searchTerm || statusFilter !== 'all' 
+              {hasActiveFilters(query) 
                 ? 'No freelancers match your current filters.'
                 : 'Get started by adding your first freelancer.'
               }
@@ -457,6 +918,40 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
             </button>
           </div>
         )}
+
+        {totalFreelancers > 0 && (
+          <div className="flex items-center justify-between px-6 pt-4 border-t border-gray-200 text-sm text-gray-600">
+            <div>
+              Showing {(query.page - 1) * query.pageSize + 1}–{Math.min(query.page * query.pageSize, totalFreelancers)} of {totalFreelancers}
+            </div>
+            <div className="flex items-center space-x-3">
+              <select
+                value={query.pageSize}
+                onChange={(e) => updateQuery({ pageSize: Number(e.target.value) })}
+                className="px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {PAGE_SIZES.map(size => (
+                  <option key={size} value={size}>{size} per page</option>
+                ))}
+              </select>
+              <button
+                onClick={() => updateQuery({ page: query.page - 1 })}
+                disabled={query.page <= 1 || pageLoading}
+                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span>Page {query.page} of {pageCount}</span>
+              <button
+                onClick={() => updateQuery({ page: query.page + 1 })}
+                disabled={query.page >= pageCount || pageLoading}
+                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Global Dropdown Menus - Fixed positioned overlays */}
@@ -481,7 +976,7 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
           >
           <div className="py-1" role="menu">
             {(() => {
-              const freelancer = freelancers.find(f => f.id === openDropdownId);
+              const freelancer = getFreelancer(openDropdownId);
               if (!freelancer) return null;
               
               return (
@@ -520,6 +1015,17 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
                     Resend Invites
                   </button>
                   
+                  <button
+                    className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                    onClick={async () => {
+                      setOpenDropdownId(null);
+                      await handlePortalInvite(freelancer.id);
+                    }}
+                  >
+                    <Send className="w-4 h-4 mr-2" />
+                    {freelancer.portal_invited_at ? 'Resend Portal Invite' : 'Send Portal Invite'}
+                  </button>
+                  
                   <button
                     className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
                     onClick={() => {
@@ -532,13 +1038,37 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
                     Contact
                   </button>
                   
+                  <button
+                    className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                    onClick={() => {
+                      handleAccessReport(freelancer.id);
+                      setOpenDropdownId(null);
+                    }}
+                  >
+                    <FileText className="w-4 h-4 mr-2" />
+                    Access Report
+                  </button>
+                  
+                  {getExpiryInfo(freelancer.id) && (
+                    <button
+                      className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                      onClick={async () => {
+                        await extendFreelancerAccess([freelancer.id], 30);
+                        setOpenDropdownId(null);
+                      }}
+                    >
+                      <CalendarPlus className="w-4 h-4 mr-2" />
+                      Extend by 30 Days
+                    </button>
+                  )}
+                  
                   <hr className="my-1" />
                   
                   {freelancer.status === 'active' ? (
                     <button
                       className="flex items-center w-full px-4 py-2 text-sm text-yellow-700 hover:bg-yellow-50"
-                      onClick={async () => {
-                        await bulkDeactivateFreelancers([freelancer.id]);
+                      onClick={() => {
+                        setOffboardingIds([freelancer.id]);
                         setOpenDropdownId(null);
                       }}
                     >
@@ -587,9 +1117,16 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
         />
       )}
 
+      {showImportWizard && (
+        <FreelancerImportWizard
+          isOpen={showImportWizard}
+          onClose={() => setShowImportWizard(false)}
+        />
+      )}
+
       {editingFreelancer && (
         <FreelancerEditModal
-          freelancer={freelancers.find(f => f.id === editingFreelancer)!}
+          freelancer={getFreelancer(editingFreelancer)!}
           isOpen={!!editingFreelancer}
           onClose={() => setEditingFreelancer(null)}
         />
@@ -597,11 +1134,20 @@ export function FreelancerManagementDashboard({ className = '' }: FreelancerMana
 
       {managingPlatformsFor && (
         <FreelancerPlatformModal
-          freelancer={freelancers.find(f => f.id === managingPlatformsFor)!}
+          freelancer={getFreelancer(managingPlatformsFor)!}
           isOpen={!!managingPlatformsFor}
           onClose={() => setManagingPlatformsFor(null)}
         />
       )}
+
+      {offboardingIds && (
+        <FreelancerOffboardingModal
+          freelancers={offboardingIds.map(getFreelancer).filter((f): f is Freelancer => !!f)}
+          isOpen={!!offboardingIds}
+          onClose={() => setOffboardingIds(null)}
+          onComplete={() => setSelectedFreelancers(prev => prev.filter(id => !offboardingIds.includes(id)))}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { X, CheckCircle2, XCircle, Clock, Download, UserMinus } from 'lucide-react';
+import { useFreelancers, getFreelancerFullName, type Freelancer } from '../../contexts/FreelancerContext';
+import { usePlatforms } from '../../contexts/PlatformContext';
+import { useToast } from '../../contexts/ToastContext';
+import {
+  exportOffboardingSummaries,
+  type OffboardingMode,
+  type OffboardingPlatformResult,
+  type OffboardingSummary
+} from '../../services/OffboardingService';
+
+interface FreelancerOffboardingModalProps {
+  freelancers: Freelancer[];
+  isOpen: boolean;
+  onClose: () => void;
+  onComplete?: (summaries: OffboardingSummary[]) => void;
+}
+
+export function FreelancerOffboardingModal({ freelancers, isOpen, onClose, onComplete }: FreelancerOffboardingModalProps) {
+  const { getFreelancerPlatforms, offboardFreelancers } = useFreelancers();
+  const { platforms } = usePlatforms();
+  const { showToast } = useToast();
+
+  const [reason, setReason] = useState('');
+  const [mode, setMode] = useState<OffboardingMode>('delete');
+  const [phase, setPhase] = useState<'confirm' | 'running' | 'done'>('confirm');
+  const [progress, setProgress] = useState<Map<string, OffboardingPlatformResult[]>>(new Map());
+  const [summaries, setSummaries] = useState<OffboardingSummary[]>([]);
+  // Snapshot the grants up front; revoked ones drop out of the context once it reloads
+  const [grantsByFreelancer] = useState(() => new Map(
+    freelancers.map(f => [f.id, getFreelancerPlatforms(f.id).filter(grant => grant.status !== 'inactive')])
+  ));
+
+  if (!isOpen) return null;
+
+  const platformName = (platformId: string) => platforms.get(platformId)?.metadata?.name || platformId;
+
+  const handleOffboard = async () => {
+    if (!reason.trim()) {
+      showToast('Please provide a reason for offboarding', 'warning');
+      return;
+    }
+
+    setPhase('running');
+    try {
+      const results = await offboardFreelancers(
+        freelancers.map(f => f.id),
+        { reason: reason.trim(), mode },
+        (freelancerId, platformResults) => {
+          setProgress(prev => new Map(prev).set(freelancerId, platformResults));
+        }
+      );
+      setSummaries(results);
+      setPhase('done');
+      onComplete?.(results);
+
+      const incomplete = results.filter(summary => !summary.allRevoked).length;
+      if (incomplete === 0) {
+        showToast('Access revoked on all platforms', 'success');
+      } else {
+        showToast(`${incomplete} freelancer(s) still have platform access to revoke`, 'warning');
+      }
+    } catch (error) {
+      console.error('Offboarding failed:', error);
+      showToast('Offboarding failed', 'error');
+      setPhase('confirm');
+    }
+  };
+
+  const renderResultIcon = (result?: OffboardingPlatformResult) => {
+    if (!result) {
+      return phase === 'running'
+        ? <Clock className="w-4 h-4 text-gray-400 animate-pulse" />
+        : <Clock className="w-4 h-4 text-gray-400" />;
+    }
+    return result.success
+      ? <CheckCircle2 className="w-4 h-4 text-green-500" />
+      : <XCircle className="w-4 h-4 text-red-500" />;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Offboard Freelancer{freelancers.length > 1 ? 's' : ''}</h2>
+            <p className="text-sm text-gray-600">
+              {freelancers.length === 1 ? getFreelancerFullName(freelancers[0]) : `${freelancers.length} freelancers selected`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={phase === 'running'}
+            className="text-gray-400 hover:text-gray-600 p-1 disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {phase === 'confirm' && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason *
+                </label>
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={3}
+                  placeholder="e.g. Contract ended on 30 June"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Platform accounts
+                </label>
+                <div className="space-y-1">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      checked={mode === 'delete'}
+                      onChange={() => setMode('delete')}
+                      className="mr-2"
+                    />
+                    Remove accounts from each platform
+                  </label>
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      checked={mode === 'suspend'}
+                      onChange={() => setMode('suspend')}
+                      className="mr-2"
+                    />
+                    Suspend where supported (remove elsewhere)
+                  </label>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Deprovisioning checklist */}
+          <div className="space-y-4">
+            {freelancers.map(freelancer => {
+              const grants = grantsByFreelancer.get(freelancer.id) || [];
+              const results = progress.get(freelancer.id) || [];
+
+              return (
+                <div key={freelancer.id} className="border rounded-lg">
+                  <div className="px-4 py-2 bg-gray-50 rounded-t-lg text-sm font-medium text-gray-900">
+                    {getFreelancerFullName(freelancer)}
+                    <span className="ml-2 text-xs font-normal text-gray-500">{freelancer.email}</span>
+                  </div>
+                  {grants.length === 0 ? (
+                    <div className="px-4 py-3 text-xs text-gray-500">No active platform access</div>
+                  ) : (
+                    <ul className="divide-y divide-gray-100">
+                      {grants.map(grant => {
+                        const result = results.find(r => r.freelancerPlatformId === grant.id);
+                        return (
+                          <li key={grant.id} className="px-4 py-2 flex items-center justify-between text-sm">
+                            <div className="flex items-center space-x-2">
+                              {renderResultIcon(result)}
+                              <span>{platformName(grant.platform_id)}</span>
+                            </div>
+                            <span className={`text-xs ${result && !result.success ? 'text-red-600' : 'text-gray-500'}`}>
+                              {result
+                                ? result.success
+                                  ? result.action.charAt(0).toUpperCase() + result.action.slice(1)
+                                  : result.error
+                                : 'Pending'}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {phase === 'done' && (
+            <div className={`p-3 rounded-lg border text-sm ${
+              summaries.every(summary => summary.allRevoked)
+                ? 'bg-green-50 border-green-200 text-green-700'
+                : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+            }`}>
+              {summaries.every(summary => summary.allRevoked)
+                ? 'Access revoked on all platforms. Export the summary to keep as evidence.'
+                : 'Some platforms could not be revoked. Resolve them manually and keep the summary as a record.'}
+            </div>
+          )}
+        </div>
+
+        <div className="sticky bottom-0 bg-gray-50 px-6 py-3 border-t border-gray-200">
+          <div className="flex justify-end space-x-3">
+            {phase === 'done' ? (
+              <>
+                <button
+                  onClick={() => exportOffboardingSummaries(summaries, 'csv')}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Export CSV
+                </button>
+                <button
+                  onClick={() => exportOffboardingSummaries(summaries, 'json')}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Export JSON
+                </button>
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                >
+                  Done
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={onClose}
+                  disabled={phase === 'running'}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleOffboard}
+                  disabled={phase === 'running' || !reason.trim()}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                >
+                  <UserMinus className="w-4 h-4 mr-2" />
+                  {phase === 'running' ? 'Revoking access...' : 'Revoke Access'}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
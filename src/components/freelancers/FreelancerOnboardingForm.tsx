@@ -1,8 +1,18 @@
-import { useState } from 'react';
-import { Plus, User, Mail, Phone, Building2, AlertCircle, Loader2 } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Plus, User, Mail, Phone, Calendar, Building2, AlertCircle, Loader2, LayoutTemplate, Send, Copy } from 'lucide-react';
 import { useFreelancers, getFreelancerFullName } from '../../contexts/FreelancerContext';
 import { usePlatforms } from '../../contexts/PlatformContext';
 import { useToast } from '../../contexts/ToastContext';
+import { useTenant } from '../../contexts/TenantContext';
+import { fromDateInputValue } from '../../utils/date';
+import {
+  onboardingTemplates,
+  toStepOptions,
+  type OnboardingTemplatePlatform,
+  type OnboardingTemplateWithPlatforms
+} from '../../services/OnboardingTemplateService';
+import { describeSeatWarnings, seatUsage, type SeatUsage } from '../../services/SeatUsageService';
+import { sendPortalInvite, type PortalInviteResult } from '../../services/freelancerPortal';
 
 interface FreelancerOnboardingFormProps {
   onClose: () => void;
@@ -13,7 +23,10 @@ interface FormData {
   email: string;
   full_name: string;
   phone: string;
+  expires_on: string;
   selectedPlatforms: string[];
+  // Per-platform createUser defaults, pre-filled from the chosen template
+  platformDefaults: Record<string, OnboardingTemplatePlatform>;
   metadata: Record<string, any>;
 }
 
@@ -21,18 +34,42 @@ export function FreelancerOnboardingForm({ onClose, onSuccess }: FreelancerOnboa
   const { createFreelancer, onboardFreelancerToPlatforms } = useFreelancers();
   const { platforms, platformConfigs, platformStatuses } = usePlatforms();
   const { showToast } = useToast();
+  const { organization } = useTenant();
   
   const [formData, setFormData] = useState<FormData>({
     email: '',
     full_name: '',
     phone: '',
+    expires_on: '',
     selectedPlatforms: [],
+    platformDefaults: {},
     metadata: {}
   });
   
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [step, setStep] = useState<'details' | 'platforms' | 'onboarding'>('details');
   const [createdFreelancer, setCreatedFreelancer] = useState<any>(null);
+  const [templates, setTemplates] = useState<OnboardingTemplateWithPlatforms[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [seats, setSeats] = useState<SeatUsage[]>([]);
+  // Invite the freelancer to fill in the rest of their details themselves
+  const [selfService, setSelfService] = useState(true);
+  const [portalInvite, setPortalInvite] = useState<PortalInviteResult | null>(null);
+
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    onboardingTemplates.listTemplates(organization.id)
+      .then(setTemplates)
+      .catch(error => {
+        console.error('Failed to load onboarding templates:', error);
+      });
+    seatUsage.getSeatUsage(organization.id)
+      .then(setSeats)
+      .catch(error => {
+        console.error('Failed to load seat usage:', error);
+      });
+  }, [organization?.id]);
 
   const handleInputChange = (field: keyof FormData, value: string) => {
     console.log(`[FreelancerForm] Input change: ${field} = "${value}"`);
@@ -53,6 +90,38 @@ export function FreelancerOnboardingForm({ onClose, onSuccess }: FreelancerOnboa
     }));
   };
 
+  const handleTemplateChange = (templateId: string) => {
+    setSelectedTemplateId(templateId);
+    const template = templates.find(t => t.id === templateId);
+    if (!template) {
+      setFormData(prev => ({ ...prev, selectedPlatforms: [], platformDefaults: {} }));
+      return;
+    }
+
+    const enabledIds = new Set(getEnabledPlatforms().map(platform => platform.id));
+    const available = template.platforms.filter(platform => enabledIds.has(platform.platform_id));
+    const unavailable = template.platforms.length - available.length;
+    if (unavailable > 0) {
+      showToast(`${unavailable} platform(s) in "${template.name}" are not enabled and were skipped`, 'warning');
+    }
+
+    setFormData(prev => ({
+      ...prev,
+      selectedPlatforms: available.map(platform => platform.platform_id),
+      platformDefaults: Object.fromEntries(available.map(platform => [platform.platform_id, platform]))
+    }));
+  };
+
+  const handleDefaultChange = (platformId: string, field: 'role' | 'permissions', value: string) => {
+    setFormData(prev => {
+      const current = prev.platformDefaults[platformId] || { platform_id: platformId };
+      const updated: OnboardingTemplatePlatform = field === 'role'
+        ? { ...current, role: value }
+        : { ...current, permissions: value.split(',') }; // trimmed when the job is created
+      return { ...prev, platformDefaults: { ...prev.platformDefaults, [platformId]: updated } };
+    });
+  };
+
   const handleSubmitDetails = async () => {
     if (!formData.email || !formData.full_name) {
       showToast('Please fill in all required fields', 'error');
@@ -68,11 +137,21 @@ export function FreelancerOnboardingForm({ onClose, onSuccess }: FreelancerOnboa
         email: formData.email,
         first_name: firstName,
         last_name: lastName,
-        phone: formData.phone || undefined,
+        phone: selfService ? undefined : formData.phone || undefined,
+        expires_at: formData.expires_on ? fromDateInputValue(formData.expires_on) : null,
         metadata: formData.metadata
       });
       
       setCreatedFreelancer(freelancer);
+      if (selfService) {
+        const invite = await sendPortalInvite(freelancer.id);
+        if (invite.success && invite.data) {
+          setPortalInvite(invite.data);
+          showToast(invite.data.queued ? 'Portal invite queued' : 'Portal invite created; share the link by hand', invite.data.queued ? 'success' : 'warning');
+        } else {
+          showToast(invite.error || 'Failed to create the portal invite', 'error');
+        }
+      }
       setStep('platforms');
     } catch (error) {
       showToast('Failed to create freelancer', 'error');
@@ -87,11 +166,28 @@ export function FreelancerOnboardingForm({ onClose, onSuccess }: FreelancerOnboa
       return;
     }
 
+    if (organization?.id) {
+      // Counts are re-read here since other admins may have used seats meanwhile
+      const warnings = await seatUsage.checkSeats(organization.id, formData.selectedPlatforms).catch(error => {
+        console.error('Failed to check seat limits:', error);
+        return [];
+      });
+      if (warnings.length > 0) {
+        const summary = describeSeatWarnings(warnings, id => platforms.get(id)?.metadata?.name || id);
+        if (!window.confirm(`Onboarding will exceed the seat limit on:\n${summary}\n\nContinue anyway?`)) return;
+      }
+    }
+
     setStep('onboarding');
     setIsSubmitting(true);
     
     try {
-      await onboardFreelancerToPlatforms(createdFreelancer.id, formData.selectedPlatforms);
+      const stepOptions = toStepOptions(
+        formData.selectedPlatforms.map(platformId =>
+          formData.platformDefaults[platformId] || { platform_id: platformId }
+        )
+      );
+      await onboardFreelancerToPlatforms(createdFreelancer.id, formData.selectedPlatforms, stepOptions);
       showToast('Freelancer onboarded successfully', 'success');
       onSuccess?.(createdFreelancer);
       onClose();
@@ -118,6 +214,13 @@ export function FreelancerOnboardingForm({ onClose, onSuccess }: FreelancerOnboa
       }));
   };
 
+  const seatsFor = (platformId: string) => seats.find(entry => entry.platformId === platformId);
+
+  const isAtSeatLimit = (platformId: string) => {
+    const entry = seatsFor(platformId);
+    return entry?.seatLimit !== undefined && entry.used >= entry.seatLimit;
+  };
+
   const renderDetailsStep = () => (
     <div className="space-y-6">
       <div className="flex items-center space-x-3 mb-6">
@@ -165,20 +268,53 @@ export function FreelancerOnboardingForm({ onClose, onSuccess }: FreelancerOnboa
           </div>
         </div>
 
+        <label className="flex items-start text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={selfService}
+            onChange={(e) => setSelfService(e.target.checked)}
+            className="h-4 w-4 mt-0.5 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span>
+            Let the freelancer complete their details
+            <span className="block text-xs text-gray-500">
+              They get an invite link to confirm their details, pick a username and accept the terms.
+            </span>
+          </span>
+        </label>
+
+        {!selfService && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Phone Number
+            </label>
+            <div className="relative">
+              <input
+                type="tel"
+                value={formData.phone}
+                onChange={(e) => handleInputChange('phone', e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="+1 (555) 123-4567"
+              />
+              <Phone className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+            </div>
+          </div>
+        )}
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
-            Phone Number
+            Access Ends
           </label>
           <div className="relative">
             <input
-              type="tel"
-              value={formData.phone}
-              onChange={(e) => handleInputChange('phone', e.target.value)}
+              type="date"
+              value={formData.expires_on}
+              onChange={(e) => handleInputChange('expires_on', e.target.value)}
               className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="+1 (555) 123-4567"
             />
-            <Phone className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+            <Calendar className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
           </div>
+          <p className="mt-1 text-xs text-gray-500">Optional. Platform access is revoked after this date.</p>
         </div>
       </div>
 
@@ -216,6 +352,40 @@ export function FreelancerOnboardingForm({ onClose, onSuccess }: FreelancerOnboa
           </div>
         </div>
 
+        {portalInvite && (
+          <div className="flex items-start p-3 bg-blue-50 border border-blue-200 rounded-lg">
+            <Send className="w-4 h-4 mt-0.5 mr-2 text-blue-600 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-blue-800">
+                {portalInvite.queued
+                  ? 'An invite email is queued. Share this link too so they can complete their details:'
+                  : 'The invite email could not be queued. Share this link so they can complete their details:'}
+              </p>
+              <div className="mt-1 flex items-center space-x-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={portalInvite.url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 px-2 py-1 text-xs border border-blue-200 rounded-md bg-white text-gray-700"
+                />
+                <button
+                  type="button"
+                  onClick={() => {
+                    navigator.clipboard.writeText(portalInvite.url)
+                      .then(() => showToast('Invite link copied', 'success'))
+                      .catch(() => showToast('Could not copy the link', 'error'));
+                  }}
+                  className="p-1 text-blue-600 hover:text-blue-800"
+                  title="Copy invite link"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {enabledPlatforms.length === 0 ? (
           <div className="text-center py-8">
             <AlertCircle className="w-12 h-12 text-gray-400 mx-auto mb-4" />
@@ -224,34 +394,92 @@ export function FreelancerOnboardingForm({ onClose, onSuccess }: FreelancerOnboa
           </div>
         ) : (
           <div className="space-y-3">
+            {templates.length > 0 && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Onboarding Template
+                </label>
+                <div className="relative">
+                  <select
+                    value={selectedTemplateId}
+                    onChange={(e) => handleTemplateChange(e.target.value)}
+                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">No template (choose platforms manually)</option>
+                    {templates.map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                  <LayoutTemplate className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                </div>
+                {templates.find(t => t.id === selectedTemplateId)?.description && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    {templates.find(t => t.id === selectedTemplateId)?.description}
+                  </p>
+                )}
+              </div>
+            )}
+
             <p className="text-sm font-medium text-gray-700 mb-3">
               Select platforms to onboard (multiple selections allowed):
             </p>
             {enabledPlatforms.map((platform) => (
-              <label
-                key={platform.id}
-                className="flex items-center p-3 border rounded-lg cursor-pointer hover:bg-gray-50 transition-colors"
-              >
-                <input
-                  type="checkbox"
-                  checked={formData.selectedPlatforms.includes(platform.id)}
-                  onChange={() => handlePlatformToggle(platform.id)}
-                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-                />
-                <div className="ml-3 flex-1">
-                  <div className="flex items-center space-x-3">
-                    {platform.icon && (
-                      <img src={platform.icon} alt={platform.name} className="w-6 h-6 flex-shrink-0" />
-                    )}
-                    <div>
-                      <h4 className="text-sm font-medium text-gray-900">{platform.name}</h4>
-                      {platform.description && (
-                        <p className="text-xs text-gray-500">{platform.description}</p>
+              <div key={platform.id}>
+                <label
+                  className="flex items-center p-3 border rounded-lg cursor-pointer hover:bg-gray-50 transition-colors"
+                >
+                  <input
+                    type="checkbox"
+                    checked={formData.selectedPlatforms.includes(platform.id)}
+                    onChange={() => handlePlatformToggle(platform.id)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <div className="ml-3 flex-1">
+                    <div className="flex items-center space-x-3">
+                      {platform.icon && (
+                        <img src={platform.icon} alt={platform.name} className="w-6 h-6 flex-shrink-0" />
                       )}
+                      <div>
+                        <h4 className="text-sm font-medium text-gray-900">{platform.name}</h4>
+                        {platform.description && (
+                          <p className="text-xs text-gray-500">{platform.description}</p>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
-              </label>
+                </label>
+                {formData.selectedPlatforms.includes(platform.id) && isAtSeatLimit(platform.id) && (
+                  <p className="ml-7 mt-2 flex items-center text-xs text-amber-700">
+                    <AlertCircle className="w-3 h-3 mr-1 flex-shrink-0" />
+                    All {seatsFor(platform.id)?.seatLimit} seats are in use; onboarding will exceed the limit.
+                  </p>
+                )}
+                {formData.selectedPlatforms.includes(platform.id) && (
+                  <div className="ml-7 mt-2 mb-1 grid grid-cols-2 gap-2">
+                    <input
+                      type="text"
+                      value={formData.platformDefaults[platform.id]?.role || ''}
+                      onChange={(e) => handleDefaultChange(platform.id, 'role', e.target.value)}
+                      placeholder="Role (optional)"
+                      className="px-2 py-1 text-xs border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input
+                      type="text"
+                      value={(formData.platformDefaults[platform.id]?.permissions || []).join(',')}
+                      onChange={(e) => handleDefaultChange(platform.id, 'permissions', e.target.value)}
+                      placeholder="Permissions, comma separated"
+                      className="px-2 py-1 text-xs border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    {Object.entries(formData.platformDefaults[platform.id]?.metadata || {}).length > 0 && (
+                      <p className="col-span-2 text-xs text-gray-500">
+                        {Object.entries(formData.platformDefaults[platform.id]?.metadata || {})
+                          .map(([key, value]) => `${key}: ${value}`)
+                          .join(' · ')}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
             ))}
           </div>
         )}
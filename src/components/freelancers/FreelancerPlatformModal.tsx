@@ -1,8 +1,14 @@
 import React, { useState } from 'react';
-import { X, Plus, Minus, CheckCircle2 as CheckCircle, XCircle, Clock, AlertTriangle } from 'lucide-react';
+import { X, Plus, Minus, CheckCircle2 as CheckCircle, XCircle, Clock, AlertTriangle, KeyRound, RefreshCw } from 'lucide-react';
 import { useFreelancers, getFreelancerFullName, type Freelancer } from '../../contexts/FreelancerContext';
 import { usePlatforms } from '../../contexts/PlatformContext';
 import { useToast } from '../../contexts/ToastContext';
+import { toDateInputValue, fromDateInputValue } from '../../utils/date';
+import { supportsCapability } from '../../services/platformCapabilities';
+import { ACTION_CAPABILITIES, type PlatformUserAction } from '../../services/PlatformUserActionService';
+import type { IPlatformModule } from '../../types/platform.types';
+import { FreelancerActivityTimeline } from './FreelancerActivityTimeline';
+import { FreelancerDocuments } from './FreelancerDocuments';
 
 interface FreelancerPlatformModalProps {
   freelancer: Freelancer;
@@ -14,11 +20,17 @@ export function FreelancerPlatformModal({ freelancer, isOpen, onClose }: Freelan
   const { 
     getFreelancerPlatforms, 
     onboardFreelancerToPlatforms,
-    deactivateFreelancerFromPlatform 
+    deactivateFreelancerFromPlatform,
+    setPlatformAccessExpiry,
+    runPlatformAction
   } = useFreelancers();
   const { platforms, platformStatuses, platformConfigs } = usePlatforms();
   const { showToast } = useToast();
   const [loading, setLoading] = useState<string | null>(null);
+  const [roleInputs, setRoleInputs] = useState<Record<string, string>>({});
+  const [permissionInputs, setPermissionInputs] = useState<Record<string, string>>({});
+  // A reset password is shown once, for the admin to hand over
+  const [newPassword, setNewPassword] = useState<{ platformId: string; password: string } | null>(null);
 
   const freelancerPlatforms = getFreelancerPlatforms(freelancer.id);
   
@@ -84,6 +96,50 @@ export function FreelancerPlatformModal({ freelancer, isOpen, onClose }: Freelan
     }
   };
 
+  const handleExpiryChange = async (platformId: string, value: string) => {
+    setLoading(platformId);
+    try {
+      await setPlatformAccessExpiry(freelancer.id, platformId, value ? fromDateInputValue(value) : null);
+      showToast(value ? 'Access end date updated' : 'Access end date cleared', 'success');
+    } catch (error) {
+      showToast('Failed to update access end date', 'error');
+      console.error('Error updating access expiry:', error);
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const canRun = (platform: IPlatformModule | undefined, type: PlatformUserAction['type']) =>
+    supportsCapability(platform, ACTION_CAPABILITIES[type]);
+
+  const handlePlatformAction = async (platformId: string, action: PlatformUserAction, successMessage: string) => {
+    setLoading(platformId);
+    try {
+      const result = await runPlatformAction(freelancer.id, platformId, action);
+      if (!result.success) {
+        showToast(result.error || 'Platform action failed', 'error');
+        return;
+      }
+      const password = (result.data as { password?: unknown } | undefined)?.password;
+      if (action.type === 'reset_password' && typeof password === 'string') {
+        setNewPassword({ platformId, password });
+      }
+      showToast(successMessage, 'success');
+    } catch (error) {
+      showToast('Platform action failed', 'error');
+      console.error('Error running platform action:', error);
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleResetPassword = (platformId: string) => {
+    if (!confirm(`Reset ${getFreelancerFullName(freelancer)}'s password on ${platforms.get(platformId)?.metadata?.name || platformId}?`)) {
+      return;
+    }
+    handlePlatformAction(platformId, { type: 'reset_password' }, 'Password reset');
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-y-auto">
@@ -185,6 +241,102 @@ export function FreelancerPlatformModal({ freelancer, isOpen, onClose }: Freelan
                       </div>
                     </div>
 
+                    {freelancerPlatform && freelancerPlatform.status !== 'inactive' && (
+                      <div className="mt-2 flex items-center space-x-2 text-xs text-gray-600">
+                        <label htmlFor={`expires-${platformId}`}>Access ends</label>
+                        <input
+                          type="date"
+                          id={`expires-${platformId}`}
+                          value={freelancerPlatform.expires_at ? toDateInputValue(freelancerPlatform.expires_at) : ''}
+                          onChange={(e) => handleExpiryChange(platformId, e.target.value)}
+                          disabled={isProcessing}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        {freelancer.expires_at && (
+                          <span className="text-gray-400">
+                            (all access ends {new Date(freelancer.expires_at).toLocaleDateString()})
+                          </span>
+                        )}
+                      </div>
+                    )}
+
+                    {isActive && freelancerPlatform.platform_user_id && (
+                      <div className="mt-2 space-y-2">
+                        {(canRun(platformInfo, 'reset_password') || canRun(platformInfo, 'sync_user')) && (
+                          <div className="flex items-center space-x-2">
+                            {canRun(platformInfo, 'reset_password') && (
+                              <button
+                                onClick={() => handleResetPassword(platformId)}
+                                disabled={isProcessing}
+                                className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                <KeyRound className="w-3 h-3 mr-1" />
+                                Reset password
+                              </button>
+                            )}
+                            {canRun(platformInfo, 'sync_user') && (
+                              <button
+                                onClick={() => handlePlatformAction(platformId, { type: 'sync_user' }, 'Account synced')}
+                                disabled={isProcessing}
+                                className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                <RefreshCw className="w-3 h-3 mr-1" />
+                                Sync
+                              </button>
+                            )}
+                          </div>
+                        )}
+
+                        {canRun(platformInfo, 'assign_role') && (
+                          <div className="flex items-center space-x-2 text-xs">
+                            <input
+                              type="text"
+                              value={roleInputs[platformId] || ''}
+                              onChange={(e) => setRoleInputs(prev => ({ ...prev, [platformId]: e.target.value }))}
+                              placeholder="Role or group"
+                              className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <button
+                              onClick={() => handlePlatformAction(platformId, { type: 'assign_role', role: roleInputs[platformId].trim() }, 'Role assigned')}
+                              disabled={isProcessing || !roleInputs[platformId]?.trim()}
+                              className="px-2 py-1 font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Set role
+                            </button>
+                          </div>
+                        )}
+
+                        {canRun(platformInfo, 'assign_permissions') && (
+                          <div className="flex items-center space-x-2 text-xs">
+                            <input
+                              type="text"
+                              value={permissionInputs[platformId] || ''}
+                              onChange={(e) => setPermissionInputs(prev => ({ ...prev, [platformId]: e.target.value }))}
+                              placeholder="Permissions, comma-separated"
+                              className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <button
+                              onClick={() => handlePlatformAction(platformId, {
+                                type: 'assign_permissions',
+                                permissions: permissionInputs[platformId].split(',').map(p => p.trim()).filter(Boolean)
+                              }, 'Permissions updated')}
+                              disabled={isProcessing || !permissionInputs[platformId]?.trim()}
+                              className="px-2 py-1 font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Set permissions
+                            </button>
+                          </div>
+                        )}
+
+                        {newPassword?.platformId === platformId && (
+                          <div className="p-2 bg-yellow-50 border border-yellow-200 rounded text-xs text-yellow-800">
+                            New password: <code className="font-mono">{newPassword.password}</code>
+                            <span className="ml-1 text-yellow-700">(shown once; share it securely)</span>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {freelancerPlatform?.platform_user_id && (
                       <div className="mt-2 p-2 bg-gray-50 rounded text-xs text-gray-600">
                         Platform User ID: {freelancerPlatform.platform_user_id}
@@ -208,6 +360,10 @@ export function FreelancerPlatformModal({ freelancer, isOpen, onClose }: Freelan
               </div>
             )}
           </div>
+
+          <FreelancerDocuments freelancerId={freelancer.id} className="mt-6 pt-6 border-t border-gray-200" />
+
+          <FreelancerActivityTimeline freelancerId={freelancer.id} className="mt-6 pt-6 border-t border-gray-200" />
         </div>
 
         <div className="sticky bottom-0 bg-gray-50 px-6 py-3 border-t border-gray-200">
@@ -1,17 +1,64 @@
+import { useEffect, useState } from 'react';
 import { CheckCircle2, XCircle, Clock, AlertCircle, Loader2 } from 'lucide-react';
 import { useFreelancers } from '../../contexts/FreelancerContext';
 import { usePlatforms } from '../../contexts/PlatformContext';
+import { onboardingJobs } from '../../services/OnboardingJobService';
 
 interface OnboardingProgressTrackerProps {
   freelancerId: string;
+  // Reattach to a specific persisted onboarding job; defaults to the freelancer's latest
+  jobId?: string;
   className?: string;
 }
 
-export function OnboardingProgressTracker({ freelancerId, className = '' }: OnboardingProgressTrackerProps) {
-  const { getOnboardingProgress, getFreelancerPlatforms, toggleFreelancerPlatformAccess } = useFreelancers();
+export function OnboardingProgressTracker({ freelancerId, jobId, className = '' }: OnboardingProgressTrackerProps) {
+  const {
+    getOnboardingProgress,
+    getOnboardingJobProgress,
+    attachOnboardingJob,
+    getFreelancerPlatforms,
+    toggleFreelancerPlatformAccess,
+    ensureFreelancers
+  } = useFreelancers();
   const { platforms, platformStatuses, platformConfigs } = usePlatforms();
+
+  const [latestJobId, setLatestJobId] = useState<string | null>(null);
+
+  // The freelancer may not be on the list page, so load their grants
+  useEffect(() => {
+    ensureFreelancers([freelancerId]).catch(error => {
+      console.error('Failed to load freelancer platforms:', error);
+    });
+  }, [freelancerId, ensureFreelancers]);
+
+  // Without an explicit job, follow the freelancer's most recent one so its
+  // progress survives a reload
+  useEffect(() => {
+    if (jobId) return;
+
+    let cancelled = false;
+    onboardingJobs.getLatestJobId(freelancerId)
+      .then(id => {
+        if (!cancelled) setLatestJobId(id);
+      })
+      .catch(error => {
+        console.error('Failed to look up onboarding job:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, freelancerId]);
+
+  const activeJobId = jobId || latestJobId;
+
+  useEffect(() => {
+    if (!activeJobId) return;
+    attachOnboardingJob(activeJobId).catch(error => {
+      console.error('Failed to attach to onboarding job:', error);
+    });
+  }, [activeJobId, attachOnboardingJob]);
   
-  const progress = getOnboardingProgress(freelancerId);
+  const progress = (activeJobId && getOnboardingJobProgress(activeJobId)) || getOnboardingProgress(freelancerId);
   const freelancerPlatforms = getFreelancerPlatforms(freelancerId);
 
   if (!progress && freelancerPlatforms.length === 0) {
@@ -89,6 +136,7 @@ export function OnboardingProgressTracker({ freelancerId, className = '' }: Onbo
             className={`h-2 rounded-full transition-all duration-300 ${
               progress.status === 'failed' ? 'bg-red-500' :
               progress.status === 'completed' ? 'bg-green-500' :
+              progress.status === 'held' ? 'bg-amber-500' :
               'bg-blue-500'
             }`}
             style={{ width: `${progressPercentage}%` }}
@@ -100,6 +148,7 @@ export function OnboardingProgressTracker({ freelancerId, className = '' }: Onbo
             {progress.status === 'processing' ? 'In Progress...' :
              progress.status === 'completed' ? 'Completed' :
              progress.status === 'failed' ? `${progress.failedPlatforms} Failed` :
+             progress.status === 'held' ? 'On Hold' :
              'Pending'}
           </span>
           {progress.currentPlatform && (
@@ -109,37 +158,56 @@ export function OnboardingProgressTracker({ freelancerId, className = '' }: Onbo
           )}
         </div>
 
-        {progress.errors.length > 0 && (
-          <div className="mt-2 space-y-2">
-            {/* Manual invitation messages */}
-            {progress.errors.filter(error => error.error.includes('Manual invitation required')).length > 0 && (
-              <div className="p-2 bg-blue-50 rounded border border-blue-200">
-                <div className="text-xs font-medium text-blue-700 mb-1">Manual Setup Required:</div>
-                {progress.errors.filter(error => error.error.includes('Manual invitation required')).slice(0, 2).map((error, index) => (
-                  <div key={`manual-${index}`} className="text-xs text-blue-600">
-                    • {platforms.get(error.platform)?.metadata?.name || error.platform}: Manual invitation required
-                  </div>
-                ))}
-                <div className="text-xs text-blue-500 mt-1 italic">
-                  Users must be invited through the platform's admin interface
-                </div>
+        {progress.holdReason && (
+          <div className="mt-2 p-2 bg-amber-50 rounded border border-amber-200 text-xs text-amber-700">
+            {progress.holdReason}
+          </div>
+        )}
+
+        {progress.invitations.length > 0 && (
+          <div className="mt-2 p-2 bg-blue-50 rounded border border-blue-200">
+            <div className="text-xs font-medium text-blue-700 mb-1">Awaiting Acceptance:</div>
+            {progress.invitations.map(invitation => (
+              <div key={invitation.platform} className="text-xs text-blue-600">
+                • {platforms.get(invitation.platform)?.metadata?.name || invitation.platform}: {invitation.manual ? 'Manual invitation required' : 'Invitation sent'}
+              </div>
+            ))}
+            {progress.invitations.some(invitation => invitation.manual) && (
+              <div className="text-xs text-blue-500 mt-1 italic">
+                Users must be invited through the platform's admin interface
               </div>
             )}
-            
-            {/* Actual errors */}
-            {progress.errors.filter(error => !error.error.includes('Manual invitation required')).length > 0 && (
-              <div className="p-2 bg-red-50 rounded border border-red-200">
-                <div className="text-xs font-medium text-red-700 mb-1">Errors:</div>
-                {progress.errors.filter(error => !error.error.includes('Manual invitation required')).slice(0, 2).map((error, index) => (
-                  <div key={`error-${index}`} className="text-xs text-red-600">
-                    • {platforms.get(error.platform)?.metadata?.name || error.platform}: {error.error.replace('Manual invitation required: ', '')}
-                  </div>
-                ))}
-                {progress.errors.filter(error => !error.error.includes('Manual invitation required')).length > 2 && (
-                  <div className="text-xs text-red-500 mt-1">
-                    +{progress.errors.filter(error => !error.error.includes('Manual invitation required')).length - 2} more errors
-                  </div>
-                )}
+          </div>
+        )}
+
+        {progress.awaitingApproval.length > 0 && (
+          <div className="mt-2 p-2 bg-gray-50 rounded border border-gray-200 text-xs text-gray-700">
+            Waiting for admin approval: {progress.awaitingApproval.map(platformId => platforms.get(platformId)?.metadata?.name || platformId).join(', ')}
+          </div>
+        )}
+
+        {progress.passwords.length > 0 && (
+          <div className="mt-2 p-2 bg-yellow-50 rounded border border-yellow-200">
+            <div className="text-xs font-medium text-yellow-800 mb-1">Passwords to hand over (not stored, copy them now):</div>
+            {progress.passwords.map(entry => (
+              <div key={entry.platform} className="text-xs text-yellow-800">
+                • {platforms.get(entry.platform)?.metadata?.name || entry.platform}: <code className="font-mono">{entry.password}</code>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {progress.errors.length > 0 && (
+          <div className="mt-2 p-2 bg-red-50 rounded border border-red-200">
+            <div className="text-xs font-medium text-red-700 mb-1">Errors:</div>
+            {progress.errors.slice(0, 2).map((error, index) => (
+              <div key={`error-${index}`} className="text-xs text-red-600">
+                • {platforms.get(error.platform)?.metadata?.name || error.platform}: {error.error}
+              </div>
+            ))}
+            {progress.errors.length > 2 && (
+              <div className="text-xs text-red-500 mt-1">
+                +{progress.errors.length - 2} more errors
               </div>
             )}
           </div>
@@ -188,6 +256,16 @@ export function OnboardingProgressTracker({ freelancerId, className = '' }: Onbo
                         Provisioned: {new Date(freelancerPlatform.provisioned_at).toLocaleDateString()}
                       </div>
                     )}
+                    {freelancerPlatform?.sync_status?.state === 'retrying' && (
+                      <div className="text-xs text-amber-600 mt-1">
+                        Retrying (attempt {freelancerPlatform.sync_status.attempts}/{freelancerPlatform.sync_status.max_attempts} failed)
+                      </div>
+                    )}
+                    {freelancerPlatform?.sync_status?.state === 'dead_letter' && (
+                      <div className="text-xs text-red-600 mt-1" title={freelancerPlatform.sync_status.last_error}>
+                        Gave up after {freelancerPlatform.sync_status.attempts} attempts
+                      </div>
+                    )}
                   </div>
                 </div>
                 
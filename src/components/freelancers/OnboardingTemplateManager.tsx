@@ -0,0 +1,312 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Edit, Trash2, Save, X } from 'lucide-react';
+import { usePlatforms } from '../../contexts/PlatformContext';
+import { useTenant } from '../../contexts/TenantContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { LoadingSpinner } from '../ui/Loading';
+import {
+  onboardingTemplates,
+  type OnboardingTemplatePlatform,
+  type OnboardingTemplateWithPlatforms
+} from '../../services/OnboardingTemplateService';
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  description: string;
+  // Groups are mapped from the platform's settings and carried through unchanged
+  platforms: Record<string, { role: string; permissions: string; metadata: string; groups: string[] }>;
+}
+
+const emptyDraft: TemplateDraft = { name: '', description: '', platforms: {} };
+
+// Metadata is edited as one "key=value" pair per line
+const parseMetadata = (text: string): Record<string, string> => {
+  const metadata: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const [key, ...rest] = line.split('=');
+    if (key?.trim() && rest.length > 0) {
+      metadata[key.trim()] = rest.join('=').trim();
+    }
+  });
+  return metadata;
+};
+
+const formatMetadata = (metadata?: Record<string, string>) =>
+  Object.entries(metadata || {}).map(([key, value]) => `${key}=${value}`).join('\n');
+
+const toDraft = (template: OnboardingTemplateWithPlatforms): TemplateDraft => ({
+  id: template.id,
+  name: template.name,
+  description: template.description || '',
+  platforms: Object.fromEntries(template.platforms.map(platform => [platform.platform_id, {
+    role: platform.role || '',
+    permissions: (platform.permissions || []).join(', '),
+    metadata: formatMetadata(platform.metadata),
+    groups: platform.groups || []
+  }]))
+});
+
+export function OnboardingTemplateManager() {
+  const { platforms } = usePlatforms();
+  const { organization } = useTenant();
+  const { dbUser } = useAuth();
+  const { showToast } = useToast();
+
+  const [templates, setTemplates] = useState<OnboardingTemplateWithPlatforms[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadTemplates = useCallback(async () => {
+    if (!organization?.id) return;
+
+    try {
+      setTemplates(await onboardingTemplates.listTemplates(organization.id));
+    } catch (error) {
+      console.error('Failed to load onboarding templates:', error);
+      showToast('Failed to load onboarding templates', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [organization?.id, showToast]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const platformName = (platformId: string) => platforms.get(platformId)?.metadata?.name || platformId;
+
+  const togglePlatform = (platformId: string) => {
+    if (!draft) return;
+    const next = { ...draft.platforms };
+    if (next[platformId]) {
+      delete next[platformId];
+    } else {
+      next[platformId] = { role: '', permissions: '', metadata: '', groups: [] };
+    }
+    setDraft({ ...draft, platforms: next });
+  };
+
+  const updatePlatformField = (platformId: string, field: 'role' | 'permissions' | 'metadata', value: string) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      platforms: { ...draft.platforms, [platformId]: { ...draft.platforms[platformId], [field]: value } }
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !organization?.id || !dbUser?.id) return;
+
+    const templatePlatforms: OnboardingTemplatePlatform[] = Object.entries(draft.platforms).map(([platformId, fields]) => ({
+      platform_id: platformId,
+      role: fields.role.trim() || undefined,
+      permissions: fields.permissions.split(',').map(p => p.trim()).filter(Boolean),
+      metadata: parseMetadata(fields.metadata),
+      groups: fields.groups
+    }));
+
+    setIsSaving(true);
+    try {
+      const input = { name: draft.name, description: draft.description, platforms: templatePlatforms };
+      if (draft.id) {
+        await onboardingTemplates.updateTemplate(draft.id, input);
+      } else {
+        await onboardingTemplates.createTemplate(organization.id, input, dbUser.id);
+      }
+      showToast(`Template "${draft.name.trim()}" saved`, 'success');
+      setDraft(null);
+      await loadTemplates();
+    } catch (error) {
+      console.error('Failed to save onboarding template:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to save template', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: OnboardingTemplateWithPlatforms) => {
+    if (!confirm(`Delete the "${template.name}" template?`)) return;
+
+    try {
+      await onboardingTemplates.deleteTemplate(template.id);
+      showToast('Template deleted', 'success');
+      await loadTemplates();
+    } catch (error) {
+      console.error('Failed to delete onboarding template:', error);
+      showToast('Failed to delete template', 'error');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              Onboarding Templates
+            </h3>
+            <div className="mt-2 max-w-xl text-sm text-gray-500">
+              <p>Named platform bundles with the role and settings to provision on each platform</p>
+            </div>
+          </div>
+          {!draft && (
+            <button
+              onClick={() => setDraft(emptyDraft)}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Template
+            </button>
+          )}
+        </div>
+
+        {draft && (
+          <div className="mt-5 border rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Video Editor"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <input
+                  type="text"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">Platforms</p>
+              {Array.from(platforms.keys()).map(platformId => {
+                const fields = draft.platforms[platformId];
+                return (
+                  <div key={platformId} className="border rounded-md p-3">
+                    <label className="flex items-center text-sm text-gray-900">
+                      <input
+                        type="checkbox"
+                        checked={!!fields}
+                        onChange={() => togglePlatform(platformId)}
+                        className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      {platformName(platformId)}
+                    </label>
+                    {fields && (
+                      <div className="mt-2 ml-6 grid grid-cols-1 md:grid-cols-3 gap-2">
+                        <input
+                          type="text"
+                          value={fields.role}
+                          onChange={(e) => updatePlatformField(platformId, 'role', e.target.value)}
+                          placeholder="Role"
+                          className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <input
+                          type="text"
+                          value={fields.permissions}
+                          onChange={(e) => updatePlatformField(platformId, 'permissions', e.target.value)}
+                          placeholder="Permissions, comma separated"
+                          className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <textarea
+                          value={fields.metadata}
+                          onChange={(e) => updatePlatformField(platformId, 'metadata', e.target.value)}
+                          placeholder={'workspaceId=123\ngroupId=editors'}
+                          rows={2}
+                          className="px-2 py-1 text-sm font-mono border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setDraft(null)}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !draft.name.trim() || Object.keys(draft.platforms).length === 0}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? <LoadingSpinner size="sm" className="mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Template
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="mt-5">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <LoadingSpinner size="sm" />
+            </div>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-gray-500">No templates yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border rounded-lg">
+              {templates.map(template => (
+                <li key={template.id} className="px-4 py-3 flex items-start justify-between">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900">{template.name}</div>
+                    {template.description && (
+                      <div className="text-xs text-gray-500">{template.description}</div>
+                    )}
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {template.platforms.map(platform => (
+                        <span
+                          key={platform.platform_id}
+                          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800"
+                        >
+                          {platformName(platform.platform_id)}
+                          {platform.role && <span className="ml-1 text-gray-500">· {platform.role}</span>}
+                          {!!platform.groups?.length && (
+                            <span className="ml-1 text-gray-500">
+                              · {platform.groups.length} group{platform.groups.length === 1 ? '' : 's'}
+                            </span>
+                          )}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="ml-4 flex flex-shrink-0 space-x-2">
+                    <button
+                      onClick={() => setDraft(toDraft(template))}
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                      title="Edit template"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(template)}
+                      className="p-1 text-red-400 hover:text-red-600"
+                      title="Delete template"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
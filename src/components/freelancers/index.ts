@@ -2,4 +2,12 @@ export { FreelancerOnboardingForm } from './FreelancerOnboardingForm';
 export { OnboardingProgressTracker } from './OnboardingProgressTracker';
 export { FreelancerManagementDashboard } from './FreelancerManagementDashboard';
 export { FreelancerEditModal } from './FreelancerEditModal';
-export { FreelancerPlatformModal } from './FreelancerPlatformModal';
\ No newline at end of file
+export { FreelancerPlatformModal } from './FreelancerPlatformModal';
+export { FreelancerOffboardingModal } from './FreelancerOffboardingModal';
+export { OnboardingTemplateManager } from './OnboardingTemplateManager';
+export { FreelancerImportWizard } from './FreelancerImportWizard';
+export { FreelancerActivityTimeline } from './FreelancerActivityTimeline';
+export { DocumentRequirementsManager } from './DocumentRequirementsManager';
+export { FreelancerDocuments } from './FreelancerDocuments';
+export { ApprovalsInbox } from './ApprovalsInbox';
+export { CustomFieldManager } from './CustomFieldManager';
@@ -1,10 +1,14 @@
 import { useState, useEffect } from 'react';
-import { X, Eye, EyeOff, TestTube, Save } from 'lucide-react';
+import { X, Eye, EyeOff, TestTube, Save, KeyRound, RotateCw, Link2 } from 'lucide-react';
 import { usePlatforms } from '../../contexts/PlatformContext';
 import { useToast } from '../../contexts/ToastContext';
-import type { IPlatformModule } from '../../types/platform.types';
+import { PlatformCapability, type IPlatformModule } from '../../types/platform.types';
 import { z } from 'zod';
 import { DebugLogger, debugGroup } from '../../utils/debugLogger';
+import { getSecretFields, isSecretRef, withSecretPlaceholders, type SecretRef } from '../../services/credentialRefs';
+import { startPlatformOAuth } from '../../services/platformCredentials';
+import { supportsCapability } from '../../services/platformCapabilities';
+import { PlatformGroupMapping } from './PlatformGroupMapping';
 
 interface PlatformConfigModalProps {
   isOpen: boolean;
@@ -25,7 +29,10 @@ export function PlatformConfigModal({
   const [showSecrets, setShowSecrets] = useState<Record<string, boolean>>({});
   const [testing, setTesting] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [connecting, setConnecting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Stored secret references, kept so a cancelled rotation can restore them
+  const [storedSecrets, setStoredSecrets] = useState<Record<string, SecretRef>>({});
 
   // Load existing configuration
   useEffect(() => {
@@ -40,6 +47,9 @@ export function PlatformConfigModal({
         configKeys: Object.keys(existingConfig.config) 
       });
       setConfig(existingConfig.config);
+      setStoredSecrets(Object.fromEntries(
+        Object.entries(existingConfig.config).filter(([, value]) => isSecretRef(value))
+      ) as Record<string, SecretRef>);
     } else {
       DebugLogger.log('PlatformConfigModal', 'No existing config found', { platformId });
     }
@@ -63,12 +73,13 @@ export function PlatformConfigModal({
   }
   
   const schemaShape = schema.shape;
+  const secretFields = getSecretFields(platform.metadata);
 
   const handleInputChange = (field: string, value: any) => {
     DebugLogger.log('PlatformConfigModal', 'Input changed', { 
       platformId, 
       field, 
-      value: field.toLowerCase().includes('key') || field.toLowerCase().includes('password') ? '[REDACTED]' : value 
+      value: secretFields.includes(field) ? '[REDACTED]' : value 
     });
     
     setConfig(prev => ({ ...prev, [field]: value }));
@@ -87,6 +98,16 @@ export function PlatformConfigModal({
     setShowSecrets(prev => ({ ...prev, [field]: !prev[field] }));
   };
 
+  // Rotating swaps the stored reference for an empty input; the new value is
+  // only sent to the vault on save
+  const startRotation = (field: string) => {
+    setConfig(prev => ({ ...prev, [field]: '' }));
+  };
+
+  const cancelRotation = (field: string) => {
+    handleInputChange(field, storedSecrets[field]);
+  };
+
   const validateConfig = (): boolean => {
     DebugLogger.log('PlatformConfigModal', 'Validating configuration', { 
       platformId,
@@ -94,7 +115,8 @@ export function PlatformConfigModal({
     });
     
     try {
-      schema.parse(config);
+      // Stored secrets stay in the vault, so validate placeholders in their place
+      schema.parse(withSecretPlaceholders(config));
       setErrors({});
       DebugLogger.success('PlatformConfigModal', 'Configuration validation passed', { platformId });
       return true;
@@ -187,12 +209,106 @@ export function PlatformConfigModal({
     }
   };
 
+  const handleConnect = async () => {
+    DebugLogger.log('PlatformConfigModal', 'Starting OAuth connection', { platformId });
+    setConnecting(true);
+    // On success the browser leaves for the vendor's consent screen
+    const result = await startPlatformOAuth(platformId);
+    if (!result.success) {
+      DebugLogger.error('PlatformConfigModal', 'Could not start OAuth connection', { platformId, error: result.error });
+      showToast({ type: 'error', title: result.error || 'Could not start the connection' });
+      setConnecting(false);
+    }
+  };
+
+  // The server builds the authorize URL from saved settings, so connecting
+  // needs the client ID and secret stored first
+  const renderOAuthSection = () => {
+    const saved = (getPlatformConfig(platformId)?.config || {}) as Record<string, unknown>;
+    const canConnect = !!saved.clientId && isSecretRef(saved.clientSecret);
+    const connected = isSecretRef(saved.oAuthToken);
+    const expiresAt = typeof saved.oAuthExpiresAt === 'string' ? new Date(saved.oAuthExpiresAt) : undefined;
+
+    return (
+      <div className="border border-gray-200 rounded-md p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-gray-900">Connect with OAuth</h3>
+            <p className="text-sm text-gray-500">
+              {connected
+                ? <>Connected{typeof saved.oAuthConnectedAt === 'string' && <> on {new Date(saved.oAuthConnectedAt).toLocaleDateString()}</>}
+                  {expiresAt && <> · token {expiresAt.getTime() > Date.now() ? 'expires' : 'expired'} {expiresAt.toLocaleString()}</>}</>
+                : canConnect
+                  ? `Approve access in ${platform.metadata.displayName} instead of pasting an API token.`
+                  : 'Save a client ID and client secret first.'}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleConnect}
+            disabled={!canConnect || connecting || saving || testing}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Link2 className="h-4 w-4 mr-2" />
+            {connecting ? 'Redirecting...' : connected ? 'Reconnect' : `Connect with ${platform.metadata.displayName}`}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // Seat settings are ours rather than the vendor's, so they sit outside the module schema
+  const renderSeatSection = () => (
+    <div className="border border-gray-200 rounded-md p-4 space-y-3">
+      <div>
+        <h3 className="text-sm font-medium text-gray-900">Seats &amp; Cost</h3>
+        <p className="text-sm text-gray-500">
+          Onboarding warns before going over the seat limit. The cost feeds the cost report.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        {([['seatLimit', 'Seat limit', '1'], ['seatCost', 'Cost per seat / month', '0.01']] as const).map(([field, label, step]) => (
+          <div key={field} className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700">{label}</label>
+            <input
+              type="number"
+              min="0"
+              step={step}
+              value={config[field] ?? ''}
+              onChange={(e) => handleInputChange(field, e.target.value === '' ? undefined : Number(e.target.value))}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder="Not set"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderApprovalSection = () => (
+    <div className="border border-gray-200 rounded-md p-4">
+      <label className="flex items-start">
+        <input
+          type="checkbox"
+          checked={config.requiresApproval === true}
+          onChange={(e) => handleInputChange('requiresApproval', e.target.checked || undefined)}
+          className="h-4 w-4 mt-0.5 mr-3 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <span>
+          <span className="block text-sm font-medium text-gray-900">Require admin approval</span>
+          <span className="block text-sm text-gray-500">
+            Members' onboarding to this platform waits in the approvals inbox until an admin approves it.
+          </span>
+        </span>
+      </label>
+    </div>
+  );
+
   const renderField = (fieldName: string, fieldSchema: z.ZodTypeAny) => {
     const isOptional = fieldSchema.isOptional();
     const description = (fieldSchema as any)._def?.description;
-    const isSecret = fieldName.toLowerCase().includes('key') || 
-                    fieldName.toLowerCase().includes('password') ||
-                    fieldName.toLowerCase().includes('secret');
+    const isSecret = secretFields.includes(fieldName);
+    const storedSecret = isSecret && isSecretRef(config[fieldName]) ? config[fieldName] as SecretRef : undefined;
     
     DebugLogger.log('PlatformConfigModal', 'Rendering form field', { 
       platformId, 
@@ -231,7 +347,25 @@ export function PlatformConfigModal({
         )}
 
         <div className="relative">
-          {inputType === 'checkbox' ? (
+          {storedSecret ? (
+            <div className="flex items-center justify-between px-3 py-2 border border-gray-300 rounded-md bg-gray-50">
+              <span className="inline-flex items-center text-sm text-gray-700">
+                <KeyRound className="h-4 w-4 mr-2 text-green-600" />
+                Set {new Date(storedSecret.setAt).toLocaleDateString()}
+                {storedSecret.rotatedAt !== storedSecret.setAt && (
+                  <> · last rotated {new Date(storedSecret.rotatedAt).toLocaleDateString()}</>
+                )}
+              </span>
+              <button
+                type="button"
+                onClick={() => startRotation(fieldName)}
+                className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-700"
+              >
+                <RotateCw className="h-4 w-4 mr-1" />
+                Rotate
+              </button>
+            </div>
+          ) : inputType === 'checkbox' ? (
             <input
               type="checkbox"
               checked={config[fieldName] || false}
@@ -273,6 +407,19 @@ export function PlatformConfigModal({
           )}
         </div>
 
+        {isSecret && !storedSecret && storedSecrets[fieldName] && (
+          <p className="text-sm text-gray-500">
+            Enter the new value; the current one stays active until you save.{' '}
+            <button
+              type="button"
+              onClick={() => cancelRotation(fieldName)}
+              className="font-medium text-blue-600 hover:text-blue-700"
+            >
+              Keep current
+            </button>
+          </p>
+        )}
+
         {errors[fieldName] && (
           <p className="text-sm text-red-600">{errors[fieldName]}</p>
         )}
@@ -331,6 +478,17 @@ export function PlatformConfigModal({
               renderField(fieldName, fieldSchema as z.ZodTypeAny)
             )}
           </div>
+
+          {platform.metadata.supportsOAuth && renderOAuthSection()}
+
+          {renderSeatSection()}
+
+          {renderApprovalSection()}
+
+          {/* Groups are read from the live platform, so only once it is saved and enabled */}
+          {supportsCapability(platform, PlatformCapability.GROUP_MANAGEMENT) && getPlatformConfig(platformId)?.is_enabled && (
+            <PlatformGroupMapping platformId={platformId} platform={platform} />
+          )}
         </div>
 
         <div className="flex items-center justify-between p-6 border-t bg-gray-50">
@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, DollarSign, RefreshCw } from 'lucide-react';
+import { usePlatforms } from '../../contexts/PlatformContext';
+import { getFreelancerFullName, type Freelancer } from '../../contexts/FreelancerContext';
+import { useTenant } from '../../contexts/TenantContext';
+import { LoadingSpinner } from '../ui/Loading';
+import { freelancerSearch } from '../../services/FreelancerSearchService';
+import { seatUsage, type CostReport, type SeatUsage } from '../../services/SeatUsageService';
+
+const MONTH_OPTIONS = [1, 3, 6, 12];
+
+const formatCost = (amount: number) =>
+  amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Whole calendar months (UTC), ending with the current one
+const monthRange = (months: number) => {
+  const now = new Date();
+  return {
+    from: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months + 1, 1)),
+    to: now
+  };
+};
+
+// Largest first, or by key for months
+const sortedEntries = (totals: Record<string, number>, byKey = false) =>
+  Object.entries(totals).sort(([keyA, a], [keyB, b]) => byKey ? keyA.localeCompare(keyB) : b - a);
+
+export function PlatformCostReport() {
+  const { platforms } = usePlatforms();
+  const { organization } = useTenant();
+
+  const [months, setMonths] = useState(6);
+  const [report, setReport] = useState<CostReport | null>(null);
+  const [seats, setSeats] = useState<SeatUsage[]>([]);
+  const [reportFreelancers, setReportFreelancers] = useState<Map<string, Freelancer>>(new Map());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!organization?.id) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const [costReport, usage] = await Promise.all([
+        seatUsage.getCostReport(organization.id, monthRange(months)),
+        seatUsage.getSeatUsage(organization.id)
+      ]);
+      const freelancers = await freelancerSearch.getByIds(Object.keys(costReport.byFreelancer));
+      setReportFreelancers(new Map(freelancers.map(freelancer => [freelancer.id, freelancer])));
+      setReport(costReport);
+      setSeats(usage);
+    } catch (loadError) {
+      console.error('Failed to load cost report:', loadError);
+      setError('Could not load the cost report');
+    } finally {
+      setLoading(false);
+    }
+  }, [organization?.id, months]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const platformName = (platformId: string) => platforms.get(platformId)?.metadata?.name || platformId;
+
+  const freelancerName = (freelancerId: string) => {
+    const freelancer = reportFreelancers.get(freelancerId);
+    return freelancer ? getFreelancerFullName(freelancer) : freelancerId;
+  };
+
+  const renderTotals = (title: string, totals: Record<string, number>, label: (key: string) => string, byKey = false) => (
+    <div className="border rounded-lg">
+      <div className="px-4 py-2 bg-gray-50 rounded-t-lg text-sm font-medium text-gray-900">{title}</div>
+      {Object.keys(totals).length === 0 ? (
+        <p className="px-4 py-3 text-sm text-gray-500">No seat costs in this period</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 max-h-64 overflow-y-auto">
+          {sortedEntries(totals, byKey).map(([key, amount]) => (
+            <li key={key} className="px-4 py-2 flex justify-between text-sm">
+              <span className="text-gray-700 truncate mr-2">{label(key)}</span>
+              <span className="font-medium text-gray-900">{formatCost(amount)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  const limitedSeats = seats.filter(entry => entry.seatLimit !== undefined || entry.used > 0);
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              Seats &amp; Costs
+            </h3>
+            <div className="mt-2 max-w-xl text-sm text-gray-500">
+              <p>Seat usage against each platform's limit and the spend on provisioned seats</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={months}
+              onChange={(e) => setMonths(Number(e.target.value))}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {MONTH_OPTIONS.map(option => (
+                <option key={option} value={option}>
+                  {option === 1 ? 'This month' : `Last ${option} months`}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={load}
+              disabled={loading}
+              className="p-2 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+              title="Reload report"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+
+        {loading && !report ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner size="sm" />
+          </div>
+        ) : error ? (
+          <p className="mt-5 text-sm text-red-600">{error}</p>
+        ) : report && (
+          <div className="mt-5 space-y-4">
+            {limitedSeats.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {limitedSeats.map(entry => {
+                  const full = entry.seatLimit !== undefined && entry.used >= entry.seatLimit;
+                  return (
+                    <span
+                      key={entry.platformId}
+                      className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${
+                        full ? 'bg-amber-100 text-amber-800' : 'bg-gray-100 text-gray-800'
+                      }`}
+                    >
+                      {platformName(entry.platformId)}
+                      <span className="ml-1">
+                        · {entry.used}{entry.seatLimit !== undefined ? ` / ${entry.seatLimit}` : ''} seats
+                      </span>
+                    </span>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex items-center text-sm text-gray-700">
+              <DollarSign className="h-4 w-4 mr-1 text-gray-500" />
+              Total for the period:
+              <span className="ml-1 font-semibold text-gray-900">{formatCost(report.total)}</span>
+            </div>
+
+            {report.unpriced.length > 0 && (
+              <div className="flex items-center text-xs text-amber-700">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                No seat cost set for {report.unpriced.map(platformName).join(', ')}; their seats are not included.
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {renderTotals('By platform', report.byPlatform, platformName)}
+              {renderTotals('By month', report.byMonth, month => month, true)}
+              {renderTotals('By freelancer', report.byFreelancer, freelancerName)}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
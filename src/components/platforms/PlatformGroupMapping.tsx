@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Plus, Save, Users } from 'lucide-react';
+import { useTenant } from '../../contexts/TenantContext';
+import { useToast } from '../../contexts/ToastContext';
+import { LoadingSpinner } from '../ui/Loading';
+import { loadPlatformModule } from '../../services/platformLoader';
+import {
+  onboardingTemplates,
+  type OnboardingTemplateWithPlatforms
+} from '../../services/OnboardingTemplateService';
+import type { IPlatformModule, PlatformGroup } from '../../types/platform.types';
+
+interface PlatformGroupMappingProps {
+  platformId: string;
+  platform: IPlatformModule;
+}
+
+const templateGroups = (template: OnboardingTemplateWithPlatforms, platformId: string) =>
+  template.platforms.find(platform => platform.platform_id === platformId)?.groups || [];
+
+/**
+ * Maps onboarding templates to groups on one platform. Freelancers onboarded
+ * with a template are added to its groups once their account exists.
+ */
+export function PlatformGroupMapping({ platformId, platform }: PlatformGroupMappingProps) {
+  const { organization } = useTenant();
+  const { showToast } = useToast();
+
+  const [groups, setGroups] = useState<PlatformGroup[]>([]);
+  const [templates, setTemplates] = useState<OnboardingTemplateWithPlatforms[]>([]);
+  // Unsaved selections, keyed by template ID
+  const [selections, setSelections] = useState<Record<string, string[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [savingTemplateId, setSavingTemplateId] = useState<string | null>(null);
+  const [newGroupName, setNewGroupName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!organization?.id) return;
+
+    setLoading(true);
+    setLoadError(null);
+    try {
+      const [platformModule, allTemplates] = await Promise.all([
+        loadPlatformModule(organization.id, platformId),
+        onboardingTemplates.listTemplates(organization.id)
+      ]);
+      const result = await platformModule.groups!.listGroups();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Could not list groups');
+      }
+
+      const withPlatform = allTemplates.filter(template =>
+        template.platforms.some(entry => entry.platform_id === platformId)
+      );
+      setGroups(result.data);
+      setTemplates(withPlatform);
+      setSelections(Object.fromEntries(withPlatform.map(template => [template.id, templateGroups(template, platformId)])));
+    } catch (error) {
+      console.error(`Failed to load ${platformId} groups:`, error);
+      setLoadError(error instanceof Error ? error.message : 'Could not load groups');
+    } finally {
+      setLoading(false);
+    }
+  }, [organization?.id, platformId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const toggleGroup = (templateId: string, groupId: string) => {
+    setSelections(prev => {
+      const current = prev[templateId] || [];
+      return {
+        ...prev,
+        [templateId]: current.includes(groupId) ? current.filter(id => id !== groupId) : [...current, groupId]
+      };
+    });
+  };
+
+  const isDirty = (template: OnboardingTemplateWithPlatforms) => {
+    const saved = templateGroups(template, platformId);
+    const selected = selections[template.id] || [];
+    return saved.length !== selected.length || selected.some(id => !saved.includes(id));
+  };
+
+  const handleSave = async (template: OnboardingTemplateWithPlatforms) => {
+    setSavingTemplateId(template.id);
+    try {
+      const selected = selections[template.id] || [];
+      await onboardingTemplates.setPlatformGroups(template, platformId, selected);
+      setTemplates(prev => prev.map(t => t.id !== template.id ? t : {
+        ...t,
+        platforms: t.platforms.map(entry => entry.platform_id === platformId ? { ...entry, groups: selected } : entry)
+      }));
+      showToast({ type: 'success', title: `Groups for "${template.name}" saved` });
+    } catch (error) {
+      console.error('Failed to save group mapping:', error);
+      showToast({ type: 'error', title: 'Failed to save group mapping' });
+    } finally {
+      setSavingTemplateId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!organization?.id || !newGroupName.trim()) return;
+
+    setCreating(true);
+    try {
+      const platformModule = await loadPlatformModule(organization.id, platformId);
+      const result = await platformModule.groups!.createGroup(newGroupName.trim());
+      if (!result.success || !result.data) {
+        showToast({ type: 'error', title: result.error || 'Failed to create group' });
+        return;
+      }
+      setGroups(prev => [...prev, result.data!]);
+      setNewGroupName('');
+      showToast({ type: 'success', title: `Group "${result.data.name}" created` });
+    } catch (error) {
+      console.error('Failed to create group:', error);
+      showToast({ type: 'error', title: error instanceof Error ? error.message : 'Failed to create group' });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-md p-4 space-y-3">
+      <div>
+        <h3 className="text-sm font-medium text-gray-900">Group Mapping</h3>
+        <p className="text-sm text-gray-500">
+          Freelancers onboarded with a template are added to the {platform.metadata.displayName} groups selected for it.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : loadError ? (
+        <p className="text-sm text-red-600">{loadError}</p>
+      ) : (
+        <>
+          {templates.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No onboarding templates include {platform.metadata.displayName} yet.
+            </p>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-gray-500">No groups on {platform.metadata.displayName} yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border rounded-md">
+              {templates.map(template => (
+                <li key={template.id} className="px-3 py-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900">{template.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => handleSave(template)}
+                      disabled={!isDirty(template) || savingTemplateId === template.id}
+                      className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Save className="h-4 w-4 mr-1" />
+                      {savingTemplateId === template.id ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-3">
+                    {groups.map(group => (
+                      <label key={group.id} className="inline-flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={(selections[template.id] || []).includes(group.id)}
+                          onChange={() => toggleGroup(template.id, group.id)}
+                          className="h-4 w-4 mr-1 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        {group.name}
+                        {group.memberCount !== undefined && (
+                          <span className="ml-1 inline-flex items-center text-xs text-gray-400">
+                            <Users className="h-3 w-3 mr-0.5" />
+                            {group.memberCount}
+                          </span>
+                        )}
+                      </label>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={newGroupName}
+              onChange={(e) => setNewGroupName(e.target.value)}
+              placeholder="New group name"
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={creating || !newGroupName.trim()}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {creating ? 'Creating...' : 'Create Group'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
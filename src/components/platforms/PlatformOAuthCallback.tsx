@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Loader2, CheckCircle, XCircle } from 'lucide-react';
+import { completePlatformOAuth } from '../../services/platformCredentials';
+import { PlatformRegistryService } from '../../services/PlatformRegistry';
+
+export const PlatformOAuthCallback: React.FC = () => {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [platformName, setPlatformName] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Codes are single use; StrictMode would otherwise exchange twice
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    const handleCallback = async () => {
+      const code = searchParams.get('code');
+      const state = searchParams.get('state');
+      const vendorError = searchParams.get('error');
+
+      if (vendorError) {
+        setError(searchParams.get('error_description') || `Authorization was declined (${vendorError})`);
+        setLoading(false);
+        return;
+      }
+      if (!code || !state) {
+        navigate('/platforms', { replace: true });
+        return;
+      }
+
+      const result = await completePlatformOAuth(code, state);
+      if (!result.success || !result.data) {
+        setError(result.error || 'Could not connect the platform');
+        setLoading(false);
+        return;
+      }
+
+      const manifest = PlatformRegistryService.getInstance().getManifest(result.data.platformId);
+      setPlatformName(manifest?.displayName || result.data.platformId);
+      setLoading(false);
+
+      setTimeout(() => {
+        navigate('/platforms', { replace: true });
+      }, 2000);
+    };
+
+    handleCallback();
+  }, [searchParams, navigate]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col justify-center items-center px-4">
+        <div className="max-w-md w-full text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-indigo-600 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            Connecting platform...
+          </h2>
+          <p className="text-gray-600">
+            Please wait while we finish the authorization.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col justify-center items-center px-4">
+        <div className="max-w-md w-full text-center">
+          <XCircle className="h-12 w-12 text-red-600 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            Connection Failed
+          </h2>
+          <p className="text-gray-600 mb-6">
+            {error}
+          </p>
+          <button
+            onClick={() => navigate('/platforms')}
+            className="w-full bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+          >
+            Back to Platforms
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center items-center px-4">
+      <div className="max-w-md w-full text-center">
+        <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">
+          {platformName} Connected
+        </h2>
+        <p className="text-gray-600 mb-6">
+          The access token is stored securely. Redirecting you to platforms...
+        </p>
+        <div className="w-full bg-gray-200 rounded-full h-2">
+          <div className="bg-indigo-600 h-2 rounded-full animate-pulse" style={{ width: '100%' }}></div>
+        </div>
+      </div>
+    </div>
+  );
+};
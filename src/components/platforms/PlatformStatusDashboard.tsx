@@ -4,9 +4,13 @@ import {
   RefreshCw,
   Settings,
   Activity,
-  FolderSync
+  FolderSync,
+  KeyRound
 } from 'lucide-react';
 import { usePlatforms } from '../../contexts/PlatformContext';
+import { isSecretRef } from '../../services/credentialRefs';
+import { refreshPlatformOAuth } from '../../services/platformCredentials';
+import { formatCapability } from '../../services/platformCapabilities';
 import { PlatformConfigModal } from './PlatformConfigModal';
 import { LoadingSpinner } from '../ui/Loading';
 import { DebugLogger, debugGroup } from '../../utils/debugLogger';
@@ -26,6 +30,7 @@ export function PlatformStatusDashboard() {
   const [selectedPlatform, setSelectedPlatform] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [testingPlatform, setTestingPlatform] = useState<string | null>(null);
+  const [refreshingToken, setRefreshingToken] = useState<string | null>(null);
 
   useEffect(() => {
     // Only proceed if platforms data is available
@@ -84,6 +89,22 @@ export function PlatformStatusDashboard() {
     }
   };
 
+  const handleRefreshToken = async (platformId: string) => {
+    DebugLogger.log('PlatformStatusDashboard', 'Refreshing OAuth token', { platformId });
+    setRefreshingToken(platformId);
+    try {
+      // The new expiry arrives through the platforms subscription
+      const result = await refreshPlatformOAuth(platformId);
+      if (result.success) {
+        DebugLogger.success('PlatformStatusDashboard', 'OAuth token refreshed', { platformId });
+      } else {
+        DebugLogger.error('PlatformStatusDashboard', 'OAuth token refresh failed', { platformId, error: result.error });
+      }
+    } finally {
+      setRefreshingToken(null);
+    }
+  };
+
   const handleTogglePlatform = async (platformId: string, currentlyEnabled: boolean) => {
     const action = currentlyEnabled ? 'disable' : 'enable';
     debugGroup(`Toggle Platform: ${platformId}`, () => {
@@ -165,6 +186,15 @@ export function PlatformStatusDashboard() {
     return new Date(date).toLocaleDateString();
   };
 
+  const formatTokenExpiry = (expiresAt: string) => {
+    const minutes = Math.floor((new Date(expiresAt).getTime() - Date.now()) / 60000);
+    if (minutes < 0) return 'Token expired';
+    if (minutes < 60) return `Token expires in ${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 48) return `Token expires in ${hours}h`;
+    return `Token expires ${new Date(expiresAt).toLocaleDateString()}`;
+  };
+
   // Show loading state while data is being fetched
   if (loading || !platforms || platforms.size === 0) {
     DebugLogger.log('PlatformStatusDashboard', 'Showing loading state', {
@@ -249,6 +279,10 @@ export function PlatformStatusDashboard() {
             hasConfig: !!config
           });
           const isTesting = testingPlatform === platformId;
+          const storedConfig = (config?.config || {}) as Record<string, unknown>;
+          const tokenExpiresAt = isSecretRef(storedConfig.oAuthToken) && typeof storedConfig.oAuthExpiresAt === 'string'
+            ? storedConfig.oAuthExpiresAt
+            : undefined;
           
           DebugLogger.log('PlatformStatusDashboard', 'Rendering platform card', {
             platformId,
@@ -336,6 +370,26 @@ export function PlatformStatusDashboard() {
                     </div>
                   )}
 
+                  {tokenExpiresAt && (
+                    <div className={`flex items-center justify-between text-xs px-2 py-1 rounded mb-2 ${
+                      new Date(tokenExpiresAt).getTime() < Date.now() ? 'text-red-600 bg-red-50' : 'text-gray-600 bg-gray-50'
+                    }`}>
+                      <span className="inline-flex items-center">
+                        <KeyRound className="h-3 w-3 mr-1" />
+                        {formatTokenExpiry(tokenExpiresAt)}
+                      </span>
+                      {isSecretRef(storedConfig.oAuthRefreshToken) && (
+                        <button
+                          onClick={() => handleRefreshToken(platformId)}
+                          disabled={refreshingToken === platformId}
+                          className="font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                        >
+                          {refreshingToken === platformId ? 'Refreshing...' : 'Refresh'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+
                   {status?.metadata && status.connected && (
                     <div className="text-xs text-gray-500 space-y-1">
                       {status.metadata.accountName && (
@@ -391,7 +445,7 @@ export function PlatformStatusDashboard() {
                       key={capability}
                       className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
                     >
-                      {capability.replace(/-/g, ' ')}
+                      {formatCapability(capability)}
                     </span>
                   ))}
                 </div>
@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { RefreshCw, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+import { usePlatforms } from '../../contexts/PlatformContext';
+import { useTenant } from '../../contexts/TenantContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { LoadingSpinner } from '../ui/Loading';
+import {
+  reconciliation,
+  type ReconciliationFixAction,
+  type ReconciliationIssue,
+  type ReconciliationIssueType,
+  type ReconciliationReport
+} from '../../services/ReconciliationService';
+
+const issueLabels: Record<ReconciliationIssueType, string> = {
+  orphaned_account: 'Orphaned account',
+  missing_account: 'Missing account',
+  stale_link: 'Stale link',
+  drift: 'Drift'
+};
+
+const issueColors: Record<ReconciliationIssueType, string> = {
+  orphaned_account: 'bg-orange-100 text-orange-800',
+  missing_account: 'bg-red-100 text-red-800',
+  stale_link: 'bg-yellow-100 text-yellow-800',
+  drift: 'bg-blue-100 text-blue-800'
+};
+
+const fixLabels: Record<ReconciliationFixAction, string> = {
+  link: 'Link to freelancer',
+  import: 'Import as freelancer',
+  deprovision: 'Remove from platform',
+  relink: 'Relink',
+  unlink: 'Mark revoked',
+  reprovision: 'Reprovision',
+  push_profile: 'Push our profile'
+};
+
+export function ReconciliationPanel() {
+  const { platforms } = usePlatforms();
+  const { organization } = useTenant();
+  const { dbUser } = useAuth();
+  const { showToast } = useToast();
+
+  const [reports, setReports] = useState<ReconciliationReport[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [fixingIssueId, setFixingIssueId] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    if (!organization?.id) return;
+
+    setIsRunning(true);
+    try {
+      const results = await reconciliation.reconcileAll(organization.id);
+      setReports(results);
+
+      const issueCount = results.reduce((sum, report) => sum + report.issues.length, 0);
+      if (results.length === 0) {
+        showToast('No enabled platforms to reconcile', 'info');
+      } else if (issueCount === 0) {
+        showToast('All platforms are in sync', 'success');
+      } else {
+        showToast(`Found ${issueCount} issue(s) across ${results.length} platform(s)`, 'warning');
+      }
+    } catch (error) {
+      console.error('Reconciliation failed:', error);
+      showToast('Failed to run reconciliation', 'error');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleFix = async (report: ReconciliationReport, issue: ReconciliationIssue, action: ReconciliationFixAction) => {
+    if (!organization?.id || !dbUser?.id) return;
+
+    if (action === 'deprovision' && !window.confirm(`Remove ${issue.platformUser?.email} from ${report.platformId}? This cannot be undone.`)) {
+      return;
+    }
+
+    setFixingIssueId(issue.id);
+    try {
+      const updated = await reconciliation.applyFix(issue, action, {
+        organizationId: organization.id,
+        userId: dbUser.id
+      });
+
+      setReports(prev => prev.map(r => r.platformId !== report.platformId ? r : {
+        ...r,
+        issues: r.issues.map(i => i.id === issue.id ? updated : i)
+      }));
+
+      if (updated.resolution?.success) {
+        showToast(`${fixLabels[action]} applied`, 'success');
+      } else {
+        showToast(updated.resolution?.error || 'Fix failed', 'error');
+      }
+    } finally {
+      setFixingIssueId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              Reconciliation
+            </h3>
+            <div className="mt-2 max-w-xl text-sm text-gray-500">
+              <p>Compare freelancer access records with the accounts each platform reports</p>
+            </div>
+          </div>
+          <button
+            onClick={handleRun}
+            disabled={isRunning}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isRunning ? (
+              <LoadingSpinner size="sm" className="mr-2" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Run Reconciliation
+          </button>
+        </div>
+
+        {reports.length > 0 && (
+          <div className="mt-5 space-y-4">
+            {reports.map(report => (
+              <div key={report.platformId} className="border rounded-lg">
+                <div className="flex items-center justify-between px-4 py-3 bg-gray-50 rounded-t-lg">
+                  <div className="text-sm font-medium text-gray-900">
+                    {platforms.get(report.platformId)?.metadata?.name || report.platformId}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {report.matched} matched · {report.localCount} local · {report.remoteCount} on platform
+                  </div>
+                </div>
+
+                {report.error ? (
+                  <div className="px-4 py-3 flex items-center text-sm text-red-600">
+                    <XCircle className="h-4 w-4 mr-2" />
+                    {report.error}
+                  </div>
+                ) : report.issues.length === 0 ? (
+                  <div className="px-4 py-3 flex items-center text-sm text-green-600">
+                    <CheckCircle2 className="h-4 w-4 mr-2" />
+                    In sync
+                  </div>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {report.issues.map(issue => (
+                      <li key={issue.id} className="px-4 py-3">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1 min-w-0">
+                            <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${issueColors[issue.type]}`}>
+                              {issueLabels[issue.type]}
+                            </span>
+                            <p className="mt-1 text-sm text-gray-700">{issue.details}</p>
+                            {issue.drift && (
+                              <div className="mt-1 space-y-0.5">
+                                {issue.drift.map(d => (
+                                  <div key={d.field} className="text-xs text-gray-500">
+                                    {d.field}: <span className="font-medium">{d.local}</span> here vs <span className="font-medium">{d.remote}</span> on platform
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                            {issue.resolution && (
+                              <div className={`mt-1 flex items-center text-xs ${issue.resolution.success ? 'text-green-600' : 'text-red-600'}`}>
+                                {issue.resolution.success ? (
+                                  <CheckCircle2 className="h-3 w-3 mr-1" />
+                                ) : (
+                                  <AlertTriangle className="h-3 w-3 mr-1" />
+                                )}
+                                {issue.resolution.success
+                                  ? `${fixLabels[issue.resolution.action]} applied`
+                                  : issue.resolution.error}
+                              </div>
+                            )}
+                          </div>
+
+                          {!issue.resolution?.success && (
+                            <div className="ml-4 flex flex-shrink-0 space-x-2">
+                              {issue.fixes.map(action => (
+                                <button
+                                  key={action}
+                                  onClick={() => handleFix(report, issue, action)}
+                                  disabled={fixingIssueId === issue.id}
+                                  className={`px-3 py-1 text-xs font-medium rounded-md border disabled:opacity-50 ${
+                                    action === 'deprovision'
+                                      ? 'border-red-300 text-red-700 hover:bg-red-50'
+                                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                                  }`}
+                                >
+                                  {fixLabels[action]}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,8 @@
 export { PlatformStatusDashboard } from './PlatformStatusDashboard';
 export { PlatformConfigModal } from './PlatformConfigModal';
-export { BulkPlatformOperations } from './BulkPlatformOperations';
\ No newline at end of file
+export { BulkPlatformOperations } from './BulkPlatformOperations';
+export { ReconciliationPanel } from './ReconciliationPanel';
+export { PlatformOAuthCallback } from './PlatformOAuthCallback';
+export { PlatformGroupMapping } from './PlatformGroupMapping';
+export { PlatformCostReport } from './PlatformCostReport';
+
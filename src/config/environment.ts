@@ -1,26 +1,41 @@
 // Environment configuration for development vs production
+
+// Vite fills this in; shared code bundled into a Netlify function has no
+// import.meta.env and falls back to an empty environment
+const env: Partial<ImportMetaEnv> = import.meta.env ?? {};
+
 export const config = {
   // Toggle this to switch between mock and real data
   // VITE_USE_MOCK can be 'true', 'false', or undefined
   // If undefined, defaults to true in development mode
-  USE_MOCK_DATA: import.meta.env.VITE_USE_MOCK === 'true' || 
-                 (import.meta.env.VITE_USE_MOCK !== 'false' && import.meta.env.MODE === 'development'),
+  USE_MOCK_DATA: env.VITE_USE_MOCK === 'true' || 
+                 (env.VITE_USE_MOCK !== 'false' && env.MODE === 'development'),
   
   // Supabase configuration (only used when not using mock data)
-  SUPABASE_URL: import.meta.env.VITE_SUPABASE_URL || '',
-  SUPABASE_ANON_KEY: import.meta.env.VITE_SUPABASE_ANON_KEY || '',
+  SUPABASE_URL: env.VITE_SUPABASE_URL || '',
+  SUPABASE_ANON_KEY: env.VITE_SUPABASE_ANON_KEY || '',
   
   // Helper to check if Supabase credentials are configured
-  HAS_SUPABASE_CREDENTIALS: !!import.meta.env.VITE_SUPABASE_URL && !!import.meta.env.VITE_SUPABASE_ANON_KEY,
+  HAS_SUPABASE_CREDENTIALS: !!env.VITE_SUPABASE_URL && !!env.VITE_SUPABASE_ANON_KEY,
   
   // API endpoints
-  API_BASE_URL: import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api',
+  API_BASE_URL: env.VITE_API_BASE_URL || 'http://localhost:3000/api',
+  PLATFORM_GATEWAY_URL: env.VITE_PLATFORM_GATEWAY_URL || '/.netlify/functions/platform-gateway',
+  PLATFORM_CREDENTIALS_URL: env.VITE_PLATFORM_CREDENTIALS_URL || '/.netlify/functions/platform-credentials',
+  PLATFORM_OAUTH_URL: env.VITE_PLATFORM_OAUTH_URL || '/.netlify/functions/platform-oauth',
+  FREELANCER_PORTAL_URL: env.VITE_FREELANCER_PORTAL_URL || '/.netlify/functions/freelancer-portal',
+  
+  // Platform modules to leave out of the registry, e.g. "amove,truenas"
+  DISABLED_PLATFORMS: (env.VITE_DISABLED_PLATFORMS || '')
+    .split(',')
+    .map((id: string) => id.trim())
+    .filter(Boolean) as string[],
   
   // Feature flags
   FEATURES: {
-    ENABLE_ANALYTICS: import.meta.env.VITE_ENABLE_ANALYTICS === 'true',
-    ENABLE_DEBUG_LOGGING: import.meta.env.MODE === 'development',
-    ENABLE_MOCK_DELAYS: import.meta.env.VITE_ENABLE_MOCK_DELAYS !== 'false', // Enabled by default in dev
+    ENABLE_ANALYTICS: env.VITE_ENABLE_ANALYTICS === 'true',
+    ENABLE_DEBUG_LOGGING: env.MODE === 'development',
+    ENABLE_MOCK_DELAYS: env.VITE_ENABLE_MOCK_DELAYS !== 'false', // Enabled by default in dev
   },
   
   // Mock configuration
@@ -33,9 +48,10 @@ export const config = {
 };
 
 // Environment helpers
-export const isDevelopment = () => import.meta.env.MODE === 'development';
-export const isProduction = () => import.meta.env.MODE === 'production';
-export const useMockData = () => config.USE_MOCK_DATA || (window as any).__FORCE_MOCK_DATA === true;
+export const isDevelopment = () => env.MODE === 'development';
+export const isProduction = () => env.MODE === 'production';
+export const useMockData = () =>
+  config.USE_MOCK_DATA || (typeof window !== 'undefined' && (window as any).__FORCE_MOCK_DATA === true);
 export const hasSupabaseCredentials = () => config.HAS_SUPABASE_CREDENTIALS;
 
 // Console logging helper that respects debug settings
@@ -91,8 +107,8 @@ if (isDevelopment()) {
   
   // Log current configuration on startup
   console.log('📋 Environment Configuration:');
-  console.log(`   - Mode: ${import.meta.env.MODE}`);
-  console.log(`   - VITE_USE_MOCK: ${import.meta.env.VITE_USE_MOCK || 'undefined'}`);
+  console.log(`   - Mode: ${env.MODE}`);
+  console.log(`   - VITE_USE_MOCK: ${env.VITE_USE_MOCK || 'undefined'}`);
   console.log(`   - USE_MOCK_DATA: ${config.USE_MOCK_DATA}`);
   console.log(`   - Supabase URL: ${config.SUPABASE_URL ? '✅ Set' : '❌ Not set'}`);
   console.log(`   - Supabase Key: ${config.SUPABASE_ANON_KEY ? '✅ Set' : '❌ Not set'}`);
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useCallback, useContext, useState, useEffect } from 'react';
 
 interface BrandingState {
   companyName: string;
@@ -19,6 +19,14 @@ interface BrandingContextType {
   branding: BrandingState;
   updateBranding: (newBranding: Partial<BrandingState>) => void;
   resetBranding: () => void;
+  applyOrganizationBranding: (organizationBranding: OrganizationBranding | null | undefined, fallbackName?: string) => void;
+}
+
+// Shape of organizations.branding, as stored by the tenant settings
+export interface OrganizationBranding {
+  company_name?: string;
+  logo_url?: string | null;
+  colors?: { primary?: string; secondary?: string; accent?: string };
 }
 
 const DEFAULT_BRANDING: BrandingState = {
@@ -36,6 +44,78 @@ const DEFAULT_BRANDING: BrandingState = {
   enableShadows: true
 };
 
+// Apply branding styles to DOM
+function applyBrandingStyles(brandingData: any) {
+  const root = document.documentElement;
+  
+  // Apply colors
+  if (brandingData.primaryColor) {
+    root.style.setProperty('--primary-color', brandingData.primaryColor);
+  }
+  if (brandingData.secondaryColor) {
+    root.style.setProperty('--secondary-color', brandingData.secondaryColor);
+  }
+  if (brandingData.accentColor) {
+    root.style.setProperty('--accent-color', brandingData.accentColor);
+  }
+  
+  // Apply fonts
+  if (brandingData.primaryFont) {
+    root.style.setProperty('--primary-font', brandingData.primaryFont);
+    // Apply to body for immediate effect
+    document.body.style.fontFamily = `"${brandingData.primaryFont}", system-ui, -apple-system, sans-serif`;
+  }
+  if (brandingData.headingFont) {
+    root.style.setProperty('--heading-font', brandingData.headingFont);
+    // Apply to all headings
+    const headings = document.querySelectorAll('h1, h2, h3, h4, h5, h6');
+    headings.forEach((heading) => {
+      (heading as HTMLElement).style.fontFamily = `"${brandingData.headingFont}", system-ui, -apple-system, sans-serif`;
+    });
+  }
+  
+  // Apply font size scale
+  if (brandingData.fontSizeScale) {
+    const scales = {
+      Small: '0.9',
+      Medium: '1.0',
+      Large: '1.1'
+    };
+    const scale = scales[brandingData.fontSizeScale as keyof typeof scales] || '1.0';
+    root.style.setProperty('--font-scale', scale);
+    document.body.style.fontSize = `calc(1rem * ${scale})`;
+  }
+  
+  // Apply rounded corners
+  if (brandingData.enableRoundedCorners !== undefined) {
+    const borderRadius = brandingData.enableRoundedCorners ? '0.375rem' : '0px';
+    root.style.setProperty('--border-radius', borderRadius);
+    // Apply to common UI elements
+    const elements = document.querySelectorAll('button, input, select, textarea, .rounded, .rounded-md, .rounded-lg');
+    elements.forEach((element) => {
+      (element as HTMLElement).style.borderRadius = borderRadius;
+    });
+  }
+  
+  // Apply shadows
+  if (brandingData.enableShadows !== undefined) {
+    const boxShadow = brandingData.enableShadows 
+      ? '0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)' 
+      : 'none';
+    root.style.setProperty('--box-shadow', boxShadow);
+    // Apply to common shadow elements
+    const shadowElements = document.querySelectorAll('.shadow, .shadow-md, .shadow-lg, .shadow-sm');
+    shadowElements.forEach((element) => {
+      (element as HTMLElement).style.boxShadow = boxShadow;
+    });
+  }
+  
+  // Apply company name to title
+  if (brandingData.companyName) {
+    document.title = `${brandingData.companyName} - Freelancer Onboarding`;
+  }
+}
+
 const BrandingContext = createContext<BrandingContextType | undefined>(undefined);
 
 export function BrandingProvider({ children }: { children: React.ReactNode }) {
@@ -63,78 +143,6 @@ export function BrandingProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
-  // Apply branding styles to DOM
-  const applyBrandingStyles = (brandingData: any) => {
-    const root = document.documentElement;
-    
-    // Apply colors
-    if (brandingData.primaryColor) {
-      root.style.setProperty('--primary-color', brandingData.primaryColor);
-    }
-    if (brandingData.secondaryColor) {
-      root.style.setProperty('--secondary-color', brandingData.secondaryColor);
-    }
-    if (brandingData.accentColor) {
-      root.style.setProperty('--accent-color', brandingData.accentColor);
-    }
-    
-    // Apply fonts
-    if (brandingData.primaryFont) {
-      root.style.setProperty('--primary-font', brandingData.primaryFont);
-      // Apply to body for immediate effect
-      document.body.style.fontFamily = `"${brandingData.primaryFont}", system-ui, -apple-system, sans-serif`;
-    }
-    if (brandingData.headingFont) {
-      root.style.setProperty('--heading-font', brandingData.headingFont);
-      // Apply to all headings
-      const headings = document.querySelectorAll('h1, h2, h3, h4, h5, h6');
-      headings.forEach((heading) => {
-        (heading as HTMLElement).style.fontFamily = `"${brandingData.headingFont}", system-ui, -apple-system, sans-serif`;
-      });
-    }
-    
-    // Apply font size scale
-    if (brandingData.fontSizeScale) {
-      const scales = {
-        Small: '0.9',
-        Medium: '1.0',
-        Large: '1.1'
-      };
-      const scale = scales[brandingData.fontSizeScale as keyof typeof scales] || '1.0';
-      root.style.setProperty('--font-scale', scale);
-      document.body.style.fontSize = `calc(1rem * ${scale})`;
-    }
-    
-    // Apply rounded corners
-    if (brandingData.enableRoundedCorners !== undefined) {
-      const borderRadius = brandingData.enableRoundedCorners ? '0.375rem' : '0px';
-      root.style.setProperty('--border-radius', borderRadius);
-      // Apply to common UI elements
-      const elements = document.querySelectorAll('button, input, select, textarea, .rounded, .rounded-md, .rounded-lg');
-      elements.forEach((element) => {
-        (element as HTMLElement).style.borderRadius = borderRadius;
-      });
-    }
-    
-    // Apply shadows
-    if (brandingData.enableShadows !== undefined) {
-      const boxShadow = brandingData.enableShadows 
-        ? '0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)' 
-        : 'none';
-      root.style.setProperty('--box-shadow', boxShadow);
-      // Apply to common shadow elements
-      const shadowElements = document.querySelectorAll('.shadow, .shadow-md, .shadow-lg, .shadow-sm');
-      shadowElements.forEach((element) => {
-        (element as HTMLElement).style.boxShadow = boxShadow;
-      });
-    }
-    
-    // Apply company name to title
-    if (brandingData.companyName) {
-      document.title = `${brandingData.companyName} - Freelancer Onboarding`;
-    }
-  };
-
   const updateBranding = (newBranding: Partial<BrandingState>) => {
     const updatedBranding = { ...branding, ...newBranding };
     setBranding(updatedBranding);
@@ -190,10 +198,27 @@ export function BrandingProvider({ children }: { children: React.ReactNode }) {
     console.log('BrandingContext: Reset branding to defaults');
   };
 
+  // Show an organization's branding without touching this browser's saved
+  // settings, e.g. on the public freelancer portal
+  const applyOrganizationBranding = useCallback((organizationBranding: OrganizationBranding | null | undefined, fallbackName = '') => {
+    const colors = organizationBranding?.colors || {};
+    const applied: BrandingState = {
+      ...DEFAULT_BRANDING,
+      companyName: organizationBranding?.company_name || fallbackName,
+      logoUrl: organizationBranding?.logo_url || '',
+      primaryColor: colors.primary || DEFAULT_BRANDING.primaryColor,
+      secondaryColor: colors.secondary || DEFAULT_BRANDING.secondaryColor,
+      accentColor: colors.accent || DEFAULT_BRANDING.accentColor
+    };
+    setBranding(applied);
+    applyBrandingStyles(applied);
+  }, []);
+
   const value: BrandingContextType = {
     branding,
     updateBranding,
-    resetBranding
+    resetBranding,
+    applyOrganizationBranding
   };
 
   return (
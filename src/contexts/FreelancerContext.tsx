@@ -1,11 +1,28 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '../services/supabase';
 import { useTenant } from './TenantContext';
 import { useToast } from './ToastContext';
 import { usePlatforms } from './PlatformContext';
 import { useAuth } from './AuthContext';
-
-export interface Freelancer {
+import { onboardingJobs, type OnboardingJobWithSteps } from '../services/OnboardingJobService';
+import {
+  offboarding,
+  type OffboardingMode,
+  type OffboardingPlatformResult,
+  type OffboardingSummary
+} from '../services/OffboardingService';
+import { accessExpiry } from '../services/AccessExpiryService';
+import { freelancerSearch } from '../services/FreelancerSearchService';
+import { invitationSync } from '../services/InvitationSyncService';
+import { activityIngestion } from '../services/ActivityIngestionService';
+import { platformUserActions, type PlatformUserAction } from '../services/PlatformUserActionService';
+import { approvals, requiresApproval } from '../services/ApprovalService';
+import { roleHasPermission } from '../hooks/usePermissions';
+import type { ApprovalRequest } from '../types/database.types';
+import type { FreelancerProfile } from '../services/freelancerProfile';
+import type { PlatformCredentials, PlatformResponse } from '../types/platform.types';
+
+export interface Freelancer extends FreelancerProfile {
   id: string;
   organization_id: string;
   email: string;
@@ -18,6 +35,11 @@ export interface Freelancer {
   updated_at: string;
   created_by: string;
   metadata?: Record<string, any>;
+  expires_at?: string | null;
+  expiry_reminder_sent_at?: string | null;
+  portal_invited_at?: string | null;
+  portal_completed_at?: string | null;
+  terms_accepted_at?: string | null;
 }
 
 // Helper function to get full name from freelancer
@@ -33,6 +55,7 @@ export interface FreelancerCreateInput {
   phone?: string;
   username?: string;
   metadata?: Record<string, any>;
+  expires_at?: string | null;
 }
 
 export interface FreelancerPlatform {
@@ -45,23 +68,88 @@ export interface FreelancerPlatform {
   last_sync_at?: string | null;
   sync_status?: Record<string, any>;
   platform_metadata?: Record<string, any>;
+  expires_at?: string | null;
+  expiry_reminder_sent_at?: string | null;
 }
 
 export interface OnboardingProgress {
   freelancerId: string;
+  jobId?: string;
   totalPlatforms: number;
   completedPlatforms: number;
   failedPlatforms: number;
   currentPlatform?: string;
-  status: 'idle' | 'processing' | 'completed' | 'failed';
+  status: 'idle' | 'processing' | 'held' | 'completed' | 'failed';
+  // Set while provisioning waits on required documents or the self-service portal
+  holdReason?: string;
   errors: Array<{ platform: string; error: string }>;
+  // Provisioned platforms waiting for the freelancer to accept an invite
+  invitations: Array<{ platform: string; manual: boolean; instructions?: string }>;
+  // Passwords generated for new accounts in this session, for the operator to hand over
+  passwords: Array<{ platform: string; password: string }>;
+  // Platforms skipped until an admin approves them
+  awaitingApproval: string[];
 }
 
+// Derive the UI progress shape from a persisted onboarding job
+const toOnboardingProgress = (job: OnboardingJobWithSteps): OnboardingProgress => {
+  const errors: OnboardingProgress['errors'] = [];
+  const invitations: OnboardingProgress['invitations'] = [];
+  const awaitingApproval = job.steps
+    .filter(step => step.status === 'skipped' && ((step.result || {}) as Record<string, unknown>).awaiting_approval)
+    .map(step => step.platform_id);
+  const passwords = Object.entries(onboardingJobs.getIssuedPasswords(job.id))
+    .map(([platform, password]) => ({ platform, password }));
+  job.steps.forEach(step => {
+    const result = (step.result || {}) as Record<string, unknown>;
+    // Provisioned, but not every group membership could be added
+    if (Array.isArray(result.group_errors)) {
+      result.group_errors.forEach(error => errors.push({ platform: step.platform_id, error: String(error) }));
+    }
+    if (step.status === 'failed') {
+      errors.push({ platform: step.platform_id, error: step.last_error || 'Unknown error' });
+    } else if (step.status === 'dead_letter') {
+      errors.push({
+        platform: step.platform_id,
+        error: `${step.last_error || 'Unknown error'} (gave up after ${step.attempts} attempts)`
+      });
+    } else if (step.status === 'completed' && (result.awaiting_acceptance || result.requires_manual_invitation)) {
+      invitations.push({
+        platform: step.platform_id,
+        manual: !!result.requires_manual_invitation,
+        instructions: typeof result.invitation_instructions === 'string' ? result.invitation_instructions : undefined
+      });
+    }
+  });
+
+  return {
+    freelancerId: job.freelancer_id,
+    jobId: job.id,
+    totalPlatforms: job.total_steps || job.steps.length,
+    completedPlatforms: job.steps.filter(step => step.status === 'completed').length,
+    failedPlatforms: job.steps.filter(step => step.status === 'failed' || step.status === 'dead_letter').length,
+    currentPlatform: job.steps.find(step => step.status === 'running')?.platform_id,
+    status: job.status === 'completed' ? 'completed' :
+            job.status === 'failed' || job.status === 'cancelled' ? 'failed' :
+            job.status === 'held' ? 'held' :
+            'processing',
+    holdReason: job.status === 'held' ? job.last_error || undefined : undefined,
+    errors,
+    invitations,
+    passwords,
+    awaitingApproval
+  };
+};
+
 interface FreelancerContextType {
+  // Only the freelancers loaded so far: the list page on screen plus any
+  // asked for through ensureFreelancers. There is no organization-wide list.
   freelancers: Freelancer[];
   freelancerPlatforms: Map<string, FreelancerPlatform[]>;
   loading: boolean;
   onboardingProgress: Map<string, OnboardingProgress>;
+  // Bumped after every reload so views built on a search can run it again
+  changeCount: number;
   
   // Freelancer management
   createFreelancer: (data: FreelancerCreateInput) => Promise<Freelancer>;
@@ -70,20 +158,39 @@ interface FreelancerContextType {
   getFreelancer: (id: string) => Freelancer | undefined;
   
   // Platform operations
-  onboardFreelancerToPlatforms: (freelancerId: string, platformIds: string[]) => Promise<void>;
+  onboardFreelancerToPlatforms: (
+    freelancerId: string,
+    platformIds: string[],
+    stepOptions?: Record<string, Partial<PlatformCredentials>>
+  ) => Promise<void>;
   deactivateFreelancerFromPlatform: (freelancerId: string, platformId: string) => Promise<void>;
   retryFailedPlatform: (freelancerId: string, platformId: string) => Promise<void>;
   toggleFreelancerPlatformAccess: (freelancerId: string, platformId: string, enabled: boolean) => Promise<void>;
   
   // Bulk operations
   bulkOnboardFreelancers: (freelancerIds: string[], platformIds: string[]) => Promise<void>;
-  bulkDeactivateFreelancers: (freelancerIds: string[]) => Promise<void>;
+  bulkDeactivateFreelancers: (freelancerIds: string[], reason?: string) => Promise<void>;
+  offboardFreelancers: (
+    freelancerIds: string[],
+    options: { reason: string; mode?: OffboardingMode },
+    onProgress?: (freelancerId: string, results: OffboardingPlatformResult[]) => void
+  ) => Promise<OffboardingSummary[]>;
   bulkReactivateFreelancers: (freelancerIds: string[]) => Promise<void>;
+  extendFreelancerAccess: (freelancerIds: string[], days?: number) => Promise<void>;
+  setPlatformAccessExpiry: (freelancerId: string, platformId: string, expiresAt: string | null) => Promise<void>;
+  runPlatformAction: (freelancerId: string, platformId: string, action: PlatformUserAction) => Promise<PlatformResponse>;
+  decideApprovalRequest: (request: ApprovalRequest, approved: boolean, comment?: string) => Promise<void>;
   
   // Utility functions
   getFreelancerPlatforms: (freelancerId: string) => FreelancerPlatform[];
   getOnboardingProgress: (freelancerId: string) => OnboardingProgress | undefined;
+  getOnboardingJobProgress: (jobId: string) => OnboardingProgress | undefined;
+  attachOnboardingJob: (jobId: string) => Promise<void>;
   refreshFreelancers: () => Promise<void>;
+  // Load a page of search results and its grants as the freelancers on screen
+  showFreelancers: (freelancers: Freelancer[]) => Promise<void>;
+  // Load specific freelancers and their grants and keep them current
+  ensureFreelancers: (freelancerIds: string[]) => Promise<Freelancer[]>;
 }
 
 const FreelancerContext = createContext<FreelancerContextType | undefined>(undefined);
@@ -91,63 +198,68 @@ const FreelancerContext = createContext<FreelancerContextType | undefined>(undef
 export function FreelancerProvider({ children }: { children: React.ReactNode }) {
   const { organization } = useTenant();
   const { showToast } = useToast();
-  const { platforms, getPlatformConfig } = usePlatforms();
+  const { platforms, platformConfigs } = usePlatforms();
   const { dbUser } = useAuth();
   
   const [freelancers, setFreelancers] = useState<Freelancer[]>([]);
   const [freelancerPlatforms, setFreelancerPlatforms] = useState<Map<string, FreelancerPlatform[]>>(new Map());
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(false);
   const [onboardingProgress, setOnboardingProgress] = useState<Map<string, OnboardingProgress>>(new Map());
-
-  // Load freelancers and their platform associations
+  const [changeCount, setChangeCount] = useState(0);
+  // Reloads cover the page on screen and the freelancers other views asked for
+  const visibleIds = useRef<string[]>([]);
+  const pinnedIds = useRef<Set<string>>(new Set());
+
+  // Replace what is loaded for these ids, where ids missing from the rows were
+  // deleted, and drop freelancers that are neither on screen nor asked for
+  const storeFreelancers = useCallback((ids: string[], rows: Freelancer[], grants: Map<string, FreelancerPlatform[]>) => {
+    const isKept = (id: string) => !ids.includes(id) && (visibleIds.current.includes(id) || pinnedIds.current.has(id));
+    setFreelancers(prev => [...prev.filter(f => isKept(f.id)), ...rows]);
+    setFreelancerPlatforms(prev => {
+      const next = new Map(Array.from(prev).filter(([id]) => isKept(id)));
+      ids.forEach(id => next.set(id, grants.get(id) || []));
+      return next;
+    });
+  }, []);
+
+  // Reload the loaded freelancers and their platform associations
   const loadFreelancers = useCallback(async () => {
     if (!organization?.id) {
       console.log('No current organization, skipping freelancer load');
-      setLoading(false);
       return;
     }
 
     try {
-      console.log('Loading freelancers for organization:', organization.id);
-      // Load freelancers
-      const { data: freelancersData, error: freelancersError } = await supabase
-        .from('freelancers')
-        .select('*')
-        .eq('organization_id', organization.id)
-        .order('created_at', { ascending: false });
-
-      if (freelancersError) {
-        console.error('Error loading freelancers:', freelancersError);
-        throw freelancersError;
-      }
-
-      console.log('Loaded freelancers:', freelancersData);
-      setFreelancers(freelancersData || []);
-
-      // Load platform associations
-      if (freelancersData && freelancersData.length > 0) {
-        const freelancerIds = freelancersData.map((f: any) => f.id);
-        const { data: platformsData, error: platformsError } = await supabase
-          .from('freelancer_platforms')
-          .select('*')
-          .in('freelancer_id', freelancerIds);
-
-        if (platformsError) throw platformsError;
-
-        // Group platforms by freelancer
-        const platformsMap = new Map<string, FreelancerPlatform[]>();
-        freelancersData.forEach((freelancer: any) => {
-          const platforms = platformsData?.filter((p: any) => p.freelancer_id === freelancer.id) || [];
-          platformsMap.set(freelancer.id, platforms);
-        });
-
-        setFreelancerPlatforms(platformsMap);
+      const ids = Array.from(new Set([...visibleIds.current, ...pinnedIds.current]));
+      if (ids.length > 0) {
+        const [rows, grants] = await Promise.all([
+          freelancerSearch.getByIds(ids),
+          freelancerSearch.loadGrants(ids)
+        ]);
+        storeFreelancers(ids, rows, grants);
       }
+      setChangeCount(count => count + 1);
     } catch (error) {
       console.error('Error loading freelancers:', error);
       showToast('Failed to load freelancers', 'error');
     }
-  }, [organization?.id, showToast]);
+  }, [organization?.id, storeFreelancers, showToast]);
+
+  const showFreelancers = useCallback(async (page: Freelancer[]) => {
+    const ids = page.map(f => f.id);
+    visibleIds.current = ids;
+    storeFreelancers(ids, page, await freelancerSearch.loadGrants(ids));
+  }, [storeFreelancers]);
+
+  const ensureFreelancers = useCallback(async (freelancerIds: string[]) => {
+    freelancerIds.forEach(id => pinnedIds.current.add(id));
+    const [rows, grants] = await Promise.all([
+      freelancerSearch.getByIds(freelancerIds),
+      freelancerSearch.loadGrants(freelancerIds)
+    ]);
+    storeFreelancers(freelancerIds, rows, grants);
+    return rows;
+  }, [storeFreelancers]);
 
   // Create a new freelancer
   const createFreelancer = useCallback(async (data: FreelancerCreateInput) => {
@@ -168,10 +280,9 @@ export function FreelancerProvider({ children }: { children: React.ReactNode })
 
     if (error) throw error;
 
-    // Update state immediately to prevent race conditions
+    // Keep the new freelancer loaded for the onboarding that follows
+    pinnedIds.current.add(freelancer.id);
     setFreelancers(prev => [...prev, freelancer]);
-    
-    // Also reload freelancers to ensure consistency
     await loadFreelancers();
     showToast('Freelancer created successfully', 'success');
     return freelancer;
@@ -199,8 +310,8 @@ export function FreelancerProvider({ children }: { children: React.ReactNode })
 
   // Delete freelancer
   const deleteFreelancer = useCallback(async (id: string) => {
-    // First deactivate from all platforms
-    const platforms = freelancerPlatforms.get(id) || [];
+    // First deactivate from all platforms; the freelancer may not be loaded
+    const platforms = (await freelancerSearch.loadGrants([id])).get(id) || [];
     for (const platform of platforms) {
       if (platform.status === 'active') {
         await deactivateFreelancerFromPlatform(id, platform.platform_id);
@@ -217,10 +328,62 @@ export function FreelancerProvider({ children }: { children: React.ReactNode })
 
     await loadFreelancers();
     showToast('Freelancer deleted successfully', 'success');
-  }, [freelancerPlatforms, showToast]);
+  }, [showToast]);
+
+  // Create and run an onboarding job, then report how it went
+  const runOnboardingJob = useCallback(async (
+    freelancerId: string,
+    platformIds: string[],
+    stepOptions?: Record<string, Partial<PlatformCredentials>>,
+    approvalRequestIds: string[] = []
+  ) => {
+    if (!organization?.id) {
+      throw new Error('No organization selected');
+    }
+    if (!dbUser?.id) {
+      throw new Error('You must be signed in to onboard freelancers');
+    }
+
+    // Persist the job first so it can be resumed if this tab goes away
+    const job = await onboardingJobs.createJob({
+      organizationId: organization.id,
+      freelancerId,
+      platformIds,
+      createdBy: dbUser.id,
+      stepOptions
+    });
+    if (approvalRequestIds.length > 0) {
+      await approvals.linkJob(approvalRequestIds, job.id);
+    }
+    setOnboardingProgress(prev => new Map(prev).set(freelancerId, toOnboardingProgress(job)));
+
+    const finishedJob = await onboardingJobs.runJob(job.id);
+    const progress = toOnboardingProgress(finishedJob);
+
+    await loadFreelancers();
+
+    const manualInvitations = progress.invitations.filter(invitation => invitation.manual).length;
+    const pendingInvitations = progress.invitations.length - manualInvitations;
+
+    if (progress.status === 'held') {
+      showToast(`Platform access is on hold. ${progress.holdReason || 'Provisioning has not started yet.'}`, 'info');
+    } else if (progress.errors.length > 0) {
+      showToast(`Onboarding completed with ${progress.errors.length} error(s)${manualInvitations > 0 ? ` and ${manualInvitations} manual invitation(s) required` : ''}`, 'warning');
+    } else if (manualInvitations > 0) {
+      showToast(`Freelancer added to system. ${manualInvitations} platform(s) require manual invitation.`, 'info');
+    } else if (pendingInvitations > 0) {
+      showToast(`Freelancer onboarded. Waiting for ${pendingInvitations} invitation(s) to be accepted.`, 'success');
+    } else {
+      showToast('Freelancer onboarded successfully', 'success');
+    }
+  }, [organization?.id, dbUser?.id, loadFreelancers, showToast]);
 
   // Onboard freelancer to platforms
-  const onboardFreelancerToPlatforms = useCallback(async (freelancerId: string, platformIds: string[]) => {
+  const onboardFreelancerToPlatforms = useCallback(async (
+    freelancerId: string,
+    platformIds: string[],
+    stepOptions?: Record<string, Partial<PlatformCredentials>>
+  ) => {
     console.log('Starting onboarding for freelancer:', freelancerId, 'to platforms:', platformIds);
     
     // Validate freelancer ID
@@ -261,204 +424,66 @@ export function FreelancerProvider({ children }: { children: React.ReactNode })
       }
     }
 
-    // Initialize progress tracking
-    const progress: OnboardingProgress = {
-      freelancerId,
-      totalPlatforms: platformIds.length,
-      completedPlatforms: 0,
-      failedPlatforms: 0,
-      status: 'processing',
-      errors: []
-    };
-    setOnboardingProgress(prev => new Map(prev).set(freelancerId, progress));
-
-    for (const platformId of platformIds) {
-      progress.currentPlatform = platformId;
-      setOnboardingProgress(prev => new Map(prev).set(freelancerId, { ...progress }));
-
-      try {
-        // Check if platform is enabled
-        const platformConfig = getPlatformConfig(platformId);
-        if (!platformConfig?.is_enabled) {
-          throw new Error(`Platform ${platformId} is not enabled`);
-        }
-
-        // Create platform association record first (always)
-        const insertData = {
-          freelancer_id: freelancerId,
-          platform_id: platformId,
-          status: 'pending' as const,
-          platform_user_id: null // Explicitly set to null since it's populated later
-          // Note: No metadata field - it doesn't exist in the table
-        };
-        
-        console.log('Creating platform association with data:', insertData);
-        console.log('Data types:', {
-          freelancer_id: typeof freelancerId,
-          platform_id: typeof platformId,
-          freelancer_id_value: freelancerId,
-          platform_id_value: platformId
-        });
-        
-        const { data: platformAssoc, error: assocError } = await supabase
-          .from('freelancer_platforms')
-          .insert(insertData)
-          .select()
-          .single();
-
-        if (assocError) {
-          console.error('Platform association error:', assocError);
-          console.error('Error details:', {
-            code: assocError.code,
-            message: assocError.message,
-            details: assocError.details,
-            hint: assocError.hint
-          });
-          
-          // Check for specific error types
-          if (assocError.message?.includes('violates foreign key constraint')) {
-            throw new Error(`Invalid freelancer or platform ID. Please ensure both exist.`);
-          }
-          if (assocError.message?.includes('duplicate key')) {
-            throw new Error(`This freelancer is already associated with this platform.`);
-          }
-          if (assocError.code === '23502') {
-            throw new Error(`Missing required field. Check database constraints.`);
-          }
-          
-          throw assocError;
-        }
-
-        // Get platform module (check if available)
-        const platformModule = platforms.get(platformId);
-        if (!platformModule) {
-          // Update association to indicate platform module not available
-          await supabase
-            .from('freelancer_platforms')
-            .update({
-              status: 'error'
-            })
-            .eq('id', platformAssoc.id);
-          
-          progress.failedPlatforms++;
-          progress.errors.push({
-            platform: platformId,
-            error: `Platform module ${platformId} not found or not initialized`
-          });
-          continue; // Move to next platform
-        }
+    if (!organization?.id) {
+      throw new Error('No organization selected');
+    }
 
-        // Create user on platform
-        let result;
-        try {
-          result = await platformModule.createUser({
-            email: freelancer!.email,
-            fullName: `${freelancer!.first_name} ${freelancer!.last_name}`.trim(),
-            ...freelancer!.metadata?.[platformId] // Platform-specific metadata
-          });
-        } catch (platformError) {
-          // If platform module fails, still keep the association with error status
-          console.error(`Platform ${platformId} createUser failed:`, platformError);
-          result = {
-            success: false,
-            error: `Platform ${platformId} is not available: ${platformError instanceof Error ? platformError.message : 'Unknown error'}`
-          };
-        }
+    // Approvers' own onboarding needs no one else's sign-off
+    const canApprove = !!dbUser && roleHasPermission(dbUser.role, 'approvals.decide');
+    const needsApproval = canApprove ? [] : platformIds.filter(platformId =>
+      requiresApproval(platformConfigs.find(config => config.platform_id === platformId)?.config)
+    );
 
-        if (result.success && result.data) {
-          // Check if this is a manual invitation scenario (Monday.com)
-          if (result.data.requiresManualInvitation) {
-            // Update platform association with pending status for manual invitation
-            await supabase
-              .from('freelancer_platforms')
-              .update({
-                status: 'pending',
-                platform_user_id: result.data.id,
-                provisioned_at: new Date().toISOString()
-                // Note: metadata field doesn't exist in table, but we store invitation instructions in platform_metadata
-              })
-              .eq('id', platformAssoc.id);
-
-            progress.completedPlatforms++;
-            
-            // Add special handling for manual invitation message
-            if (result.data.invitationInstructions) {
-              progress.errors.push({
-                platform: platformId,
-                error: `Manual invitation required: ${result.data.invitationInstructions}`
-              });
-            }
-          } else {
-            // Standard successful platform user creation
-            await supabase
-              .from('freelancer_platforms')
-              .update({
-                status: 'active',
-                platform_user_id: result.data.id,
-                provisioned_at: new Date().toISOString()
-                // Note: metadata field doesn't exist in table
-              })
-              .eq('id', platformAssoc.id);
-
-            progress.completedPlatforms++;
-          }
-        } else {
-          // Update platform association with failure
-          await supabase
-            .from('freelancer_platforms')
-            .update({
-              status: 'error'
-              // Note: error_message column doesn't exist, store error in metadata instead
-            })
-            .eq('id', platformAssoc.id);
-
-          progress.failedPlatforms++;
-          progress.errors.push({
-            platform: platformId,
-            error: result.error || 'Unknown error'
-          });
-        }
-      } catch (error) {
-        progress.failedPlatforms++;
-        progress.errors.push({
-          platform: platformId,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
+    if (needsApproval.length > 0) {
+      if (!dbUser?.id) {
+        throw new Error('Sign in to request approval');
       }
+      const requested = await approvals.requestApproval({
+        organizationId: organization.id,
+        freelancerId,
+        platformIds: needsApproval,
+        requestedBy: dbUser.id,
+        stepOptions
+      });
+      showToast(
+        requested.length > 0
+          ? `${requested.length} platform(s) need admin approval. The request is in the approvals inbox.`
+          : 'Already waiting for admin approval on these platforms',
+        'info'
+      );
     }
 
-    // Update final progress
-    progress.status = progress.failedPlatforms === 0 ? 'completed' : 'failed';
-    progress.currentPlatform = undefined;
-    setOnboardingProgress(prev => new Map(prev).set(freelancerId, progress));
+    const approvedPlatformIds = platformIds.filter(platformId => !needsApproval.includes(platformId));
+    if (approvedPlatformIds.length === 0) return;
 
-    // Update freelancer status (without showing toast)
-    const newStatus = progress.failedPlatforms === 0 ? 'active' : 
-                     progress.completedPlatforms > 0 ? 'active' : 'error';
-    await updateFreelancerInternal(freelancerId, { status: newStatus });
-
-    await loadFreelancers();
+    await runOnboardingJob(freelancerId, approvedPlatformIds, stepOptions);
+  }, [freelancers, organization?.id, dbUser, platformConfigs, runOnboardingJob, showToast]);
 
-    // Check for manual invitation requirements
-    const manualInvitationErrors = progress.errors.filter(error => 
-      error.error.includes('Manual invitation required')
-    );
-    const actualErrors = progress.errors.filter(error => 
-      !error.error.includes('Manual invitation required')
-    );
+  // Approving a request provisions the platform with the options it was requested with
+  const decideApprovalRequest = useCallback(async (request: ApprovalRequest, approved: boolean, comment?: string) => {
+    if (!dbUser?.id) {
+      throw new Error('Not signed in');
+    }
 
-    if (actualErrors.length === 0 && manualInvitationErrors.length === 0) {
-      showToast('Freelancer onboarded successfully', 'success');
-    } else if (actualErrors.length === 0 && manualInvitationErrors.length > 0) {
-      showToast(`Freelancer added to system. ${manualInvitationErrors.length} platform(s) require manual invitation.`, 'info');
-    } else if (actualErrors.length > 0) {
-      showToast(`Onboarding completed with ${actualErrors.length} error(s)${manualInvitationErrors.length > 0 ? ` and ${manualInvitationErrors.length} manual invitation(s) required` : ''}`, 'warning');
+    await approvals.decide(request, approved, dbUser.id, comment);
+    if (!approved) {
+      showToast('Request rejected', 'info');
+      return;
     }
-  }, [freelancers, platforms, getPlatformConfig, updateFreelancerInternal, loadFreelancers, showToast]);
+
+    await runOnboardingJob(
+      request.freelancer_id,
+      [request.platform_id],
+      { [request.platform_id]: (request.step_options || {}) as Partial<PlatformCredentials> },
+      [request.id]
+    );
+  }, [dbUser?.id, runOnboardingJob, showToast]);
 
   // Deactivate freelancer from platform
   const deactivateFreelancerFromPlatform = useCallback(async (freelancerId: string, platformId: string) => {
-    const platformAssoc = freelancerPlatforms.get(freelancerId)?.find(p => p.platform_id === platformId);
+    // Read the grant fresh; bulk actions reach freelancers that are not loaded
+    const grants = (await freelancerSearch.loadGrants([freelancerId])).get(freelancerId) || [];
+    const platformAssoc = grants.find(p => p.platform_id === platformId);
     if (!platformAssoc || platformAssoc.status !== 'active') {
       return;
     }
@@ -482,6 +507,7 @@ export function FreelancerProvider({ children }: { children: React.ReactNode })
         .from('freelancer_platforms')
         .update({
           status: 'inactive',
+          deprovisioned_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         })
         .eq('id', platformAssoc.id);
@@ -492,7 +518,7 @@ export function FreelancerProvider({ children }: { children: React.ReactNode })
       showToast('Failed to deactivate freelancer', 'error');
       throw error;
     }
-  }, [freelancerPlatforms, platforms, loadFreelancers, showToast]);
+  }, [platforms, loadFreelancers, showToast]);
 
   // Retry failed or reactivate deactivated platform
   const retryFailedPlatform = useCallback(async (freelancerId: string, platformId: string) => {
@@ -532,12 +558,44 @@ export function FreelancerProvider({ children }: { children: React.ReactNode })
     }
   }, [onboardFreelancerToPlatforms]);
 
-  const bulkDeactivateFreelancers = useCallback(async (freelancerIds: string[]) => {
+  // Revoke platform access and mark freelancers inactive, with audit evidence
+  const offboardFreelancers = useCallback(async (
+    freelancerIds: string[],
+    options: { reason: string; mode?: OffboardingMode },
+    onProgress?: (freelancerId: string, results: OffboardingPlatformResult[]) => void
+  ) => {
+    if (!organization?.id || !dbUser?.id) {
+      throw new Error('No organization selected');
+    }
+
+    const summaries: OffboardingSummary[] = [];
     for (const freelancerId of freelancerIds) {
-      await updateFreelancerInternal(freelancerId, { status: 'inactive' });
+      summaries.push(await offboarding.offboardFreelancer(
+        {
+          organizationId: organization.id,
+          freelancerId,
+          reason: options.reason,
+          mode: options.mode,
+          performedBy: dbUser.id,
+          performedByEmail: dbUser.email
+        },
+        results => onProgress?.(freelancerId, results)
+      ));
     }
-    showToast(`${freelancerIds.length} freelancer(s) deactivated successfully`, 'success');
-  }, [updateFreelancerInternal, showToast]);
+
+    await loadFreelancers();
+    return summaries;
+  }, [organization?.id, dbUser?.id, dbUser?.email, loadFreelancers]);
+
+  const bulkDeactivateFreelancers = useCallback(async (freelancerIds: string[], reason: string = 'Deactivated by administrator') => {
+    const summaries = await offboardFreelancers(freelancerIds, { reason });
+    const failures = summaries.filter(summary => !summary.allRevoked).length;
+    if (failures === 0) {
+      showToast(`${freelancerIds.length} freelancer(s) deactivated successfully`, 'success');
+    } else {
+      showToast(`${freelancerIds.length} freelancer(s) deactivated, ${failures} with platform access still to revoke`, 'warning');
+    }
+  }, [offboardFreelancers, showToast]);
 
   const bulkReactivateFreelancers = useCallback(async (freelancerIds: string[]) => {
     for (const freelancerId of freelancerIds) {
@@ -546,6 +604,54 @@ export function FreelancerProvider({ children }: { children: React.ReactNode })
     showToast(`${freelancerIds.length} freelancer(s) reactivated successfully`, 'success');
   }, [updateFreelancerInternal, showToast]);
 
+  // Push out access end dates, e.g. when an engagement is renewed
+  const extendFreelancerAccess = useCallback(async (freelancerIds: string[], days: number = 30) => {
+    if (!organization?.id || !dbUser?.id) {
+      throw new Error('No organization selected');
+    }
+
+    let extended = 0;
+    for (const freelancerId of freelancerIds) {
+      const expiresAt = await accessExpiry.extendAccess(organization.id, freelancerId, days, dbUser.id);
+      if (expiresAt) extended++;
+    }
+
+    await loadFreelancers();
+    if (extended === 0) {
+      showToast('No expiry date set to extend', 'info');
+    } else {
+      showToast(`Access extended by ${days} days for ${extended} freelancer(s)`, 'success');
+    }
+  }, [organization?.id, dbUser?.id, loadFreelancers, showToast]);
+
+  const setPlatformAccessExpiry = useCallback(async (freelancerId: string, platformId: string, expiresAt: string | null) => {
+    const platformAssoc = freelancerPlatforms.get(freelancerId)?.find(p => p.platform_id === platformId);
+    if (!platformAssoc || !organization?.id || !dbUser?.id) {
+      return;
+    }
+
+    await accessExpiry.setGrantExpiry(organization.id, platformAssoc, expiresAt, dbUser.id);
+    await loadFreelancers();
+  }, [freelancerPlatforms, organization?.id, dbUser?.id, loadFreelancers]);
+
+  // Role, permission, password and sync operations on an existing account
+  const runPlatformAction = useCallback(async (
+    freelancerId: string,
+    platformId: string,
+    action: PlatformUserAction
+  ): Promise<PlatformResponse> => {
+    const platformAssoc = freelancerPlatforms.get(freelancerId)?.find(p => p.platform_id === platformId);
+    if (!platformAssoc || !organization?.id || !dbUser?.id) {
+      return { success: false, error: 'Freelancer is not assigned to this platform' };
+    }
+
+    const result = await platformUserActions.run(organization.id, platformAssoc, action, dbUser.id);
+    if (action.type === 'sync_user' && result.success) {
+      await loadFreelancers();
+    }
+    return result;
+  }, [freelancerPlatforms, organization?.id, dbUser?.id, loadFreelancers]);
+
   // Utility functions
   const getFreelancer = useCallback((id: string) => {
     return freelancers.find(f => f.id === id);
@@ -559,6 +665,25 @@ export function FreelancerProvider({ children }: { children: React.ReactNode })
     return onboardingProgress.get(freelancerId);
   }, [onboardingProgress]);
 
+  const getOnboardingJobProgress = useCallback((jobId: string) => {
+    return Array.from(onboardingProgress.values()).find(progress => progress.jobId === jobId);
+  }, [onboardingProgress]);
+
+  // Reattach to a persisted job, resuming it if nobody else is running it
+  const attachOnboardingJob = useCallback(async (jobId: string) => {
+    const job = await onboardingJobs.getJob(jobId);
+    if (!job) {
+      throw new Error(`Onboarding job ${jobId} not found`);
+    }
+
+    setOnboardingProgress(prev => new Map(prev).set(job.freelancer_id, toOnboardingProgress(job)));
+
+    if (onboardingJobs.isResumable(job) && !onboardingJobs.isRunningLocally(jobId)) {
+      await onboardingJobs.runJob(jobId);
+      await loadFreelancers();
+    }
+  }, [loadFreelancers]);
+
   const refreshFreelancers = useCallback(async () => {
     setLoading(true);
     await loadFreelancers();
@@ -610,19 +735,65 @@ export function FreelancerProvider({ children }: { children: React.ReactNode })
     };
   }, [organization?.id, loadFreelancers]);
 
-  // Initial load
+  // Mirror persisted onboarding jobs into progress state
   useEffect(() => {
-    if (organization?.id) {
-      setLoading(true);
-      loadFreelancers().finally(() => setLoading(false));
-    }
-  }, [organization?.id, loadFreelancers]);
+    if (!organization?.id) return;
+
+    return onboardingJobs.subscribe(job => {
+      if (job.organization_id !== organization.id) return;
+      setOnboardingProgress(prev => new Map(prev).set(job.freelancer_id, toOnboardingProgress(job)));
+    });
+  }, [organization?.id]);
+
+  // Resume jobs interrupted by a reload or closed tab, now and whenever a lease runs out
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    return onboardingJobs.scheduleResume(organization.id, jobIds => {
+      showToast(`Resuming ${jobIds.length} interrupted onboarding job(s)`, 'info');
+    });
+  }, [organization?.id, showToast]);
+
+  // Activate grants once freelancers accept their platform invitations
+  useEffect(() => {
+    if (!organization?.id || !dbUser?.id) return;
+    if (dbUser.role !== 'owner' && dbUser.role !== 'admin') return;
+
+    return invitationSync.schedule(organization.id, dbUser.id, result => {
+      if (result.accepted.length === 0) return;
+
+      showToast(`${result.accepted.length} platform invitation(s) accepted`, 'success');
+      loadFreelancers();
+    });
+  }, [organization?.id, dbUser?.id, dbUser?.role, loadFreelancers, showToast]);
+
+  // Keep platform activity current for the freelancer timelines
+  useEffect(() => {
+    if (!organization?.id || !dbUser?.id) return;
+    if (dbUser.role !== 'owner' && dbUser.role !== 'admin') return;
+
+    return activityIngestion.schedule(organization.id, result => {
+      if (result.failed.length > 0) {
+        console.warn(`Activity could not be read for ${result.failed.length} platform grant(s)`, result.failed);
+      }
+    });
+  }, [organization?.id, dbUser?.id, dbUser?.role]);
+
+  // Nothing loads up front; the list loads its page and other views ask for
+  // the freelancers they show. Start empty for another organization.
+  useEffect(() => {
+    visibleIds.current = [];
+    pinnedIds.current = new Set();
+    setFreelancers([]);
+    setFreelancerPlatforms(new Map());
+  }, [organization?.id]);
 
   const value: FreelancerContextType = {
     freelancers,
     freelancerPlatforms,
     loading,
     onboardingProgress,
+    changeCount,
     createFreelancer,
     updateFreelancer,
     deleteFreelancer,
@@ -634,9 +805,18 @@ export function FreelancerProvider({ children }: { children: React.ReactNode })
     bulkOnboardFreelancers,
     bulkDeactivateFreelancers,
     bulkReactivateFreelancers,
+    extendFreelancerAccess,
+    setPlatformAccessExpiry,
+    runPlatformAction,
+    decideApprovalRequest,
+    offboardFreelancers,
     getFreelancerPlatforms,
     getOnboardingProgress,
-    refreshFreelancers
+    getOnboardingJobProgress,
+    attachOnboardingJob,
+    refreshFreelancers,
+    showFreelancers,
+    ensureFreelancers
   };
 
   return (
@@ -5,6 +5,9 @@ import { useToast } from './ToastContext';
 import { PlatformRegistryService } from '../services/PlatformRegistry';
 import type { PlatformResponse, IPlatformModule } from '../types/platform.types';
 import { DebugLogger, debugGroup } from '../utils/debugLogger';
+import { isUsingRealSupabase } from '../services/serviceFactory';
+import { getSecretFields, splitSecrets, withSecretPlaceholders } from '../services/credentialRefs';
+import { savePlatformSecrets } from '../services/platformCredentials';
 
 interface PlatformConfig {
   id: string;
@@ -73,7 +76,7 @@ let platformRegistry: PlatformRegistryService | null = null;
 try {
   platformRegistry = PlatformRegistryService.getInstance();
   DebugLogger.log('PlatformContext', 'Platform registry initialized', {
-    platformCount: platformRegistry?.getPlatformCount() || 0
+    manifestCount: platformRegistry?.getManifests().length || 0
   });
 } catch (error) {
   DebugLogger.error('PlatformContext', 'Failed to initialize platform registry', error);
@@ -86,6 +89,8 @@ export function PlatformProvider({ children }: { children: React.ReactNode }) {
   const [platformConfigs, setPlatformConfigs] = useState<PlatformConfig[]>([]);
   const [platformStatuses, setPlatformStatuses] = useState<Map<string, PlatformStatus>>(new Map());
   const [loading, setLoading] = useState(true);
+  // Modules load lazily from their manifests; the map below fills in once they have
+  const [modulesLoaded, setModulesLoaded] = useState(false);
 
   // Load platform configurations
   const loadPlatformConfigs = useCallback(async () => {
@@ -135,7 +140,7 @@ export function PlatformProvider({ children }: { children: React.ReactNode }) {
       let allPlatforms: IPlatformModule[] = [];
       
       try {
-        allPlatforms = platformRegistry?.getAllPlatforms() || [];
+        allPlatforms = await platformRegistry?.loadAll() || [];
         DebugLogger.log('PlatformContext', 'Retrieved platforms for status initialization', {
           count: allPlatforms.length
         });
@@ -341,7 +346,7 @@ export function PlatformProvider({ children }: { children: React.ReactNode }) {
     debugGroup(`Configure Platform: ${platformId}`, () => {
       DebugLogger.log('PlatformContext', 'configurePlatform called', { 
         platformId, 
-        config,
+        configKeys: Object.keys(config),
         organizationId: dbUser?.organization_id,
         hasSupabase: !!supabase
       });
@@ -363,6 +368,14 @@ export function PlatformProvider({ children }: { children: React.ReactNode }) {
     }
 
     try {
+      // Secret values go to the credential vault; the row only keeps references.
+      // The mock database has no vault behind it, so its row keeps everything.
+      const platformMetadata = platformsMap.get(platformId)?.metadata;
+      const { config: storedConfig, secrets } = !isUsingRealSupabase()
+        ? { config, secrets: {} }
+        : splitSecrets(config, platformMetadata ? getSecretFields(platformMetadata) : []);
+      let insertedRowId: string | null = null;
+
       const existingConfig = platformConfigs.find(c => c.platform_id === platformId);
       DebugLogger.log('PlatformContext', 'Existing config search result', { 
         platformId,
@@ -372,10 +385,10 @@ export function PlatformProvider({ children }: { children: React.ReactNode }) {
       });
       
       if (existingConfig) {
-        DebugLogger.api('PlatformContext', 'PATCH', `platforms/${existingConfig.id}`, { config });
+        DebugLogger.api('PlatformContext', 'PATCH', `platforms/${existingConfig.id}`, { config: storedConfig });
         
         const updateData = {
-          config,
+          config: storedConfig,
           is_enabled: true, // Auto-enable when configuration is updated
           updated_at: new Date().toISOString()
         };
@@ -421,7 +434,7 @@ export function PlatformProvider({ children }: { children: React.ReactNode }) {
           display_name: platform?.metadata?.name || platformId,
           category: platform?.metadata?.category || 'collaboration',
           is_enabled: true, // Auto-enable when configuration is saved
-          config
+          config: storedConfig
         };
         
         DebugLogger.api('PlatformContext', 'POST', 'platforms', insertData);
@@ -434,6 +447,7 @@ export function PlatformProvider({ children }: { children: React.ReactNode }) {
           .from('platforms')
           .insert(insertData)
           .select(); // Return inserted data
+        insertedRowId = data?.[0]?.id || null;
 
         if (error) {
           DebugLogger.error('PlatformContext', 'Failed to create platform config', {
@@ -457,6 +471,33 @@ export function PlatformProvider({ children }: { children: React.ReactNode }) {
         updatePlatformStatus(platformId, { enabled: true });
       }
 
+      if (Object.keys(secrets).length > 0) {
+        DebugLogger.log('PlatformContext', 'Storing secrets in credential vault', {
+          platformId,
+          fields: Object.keys(secrets)
+        });
+        const vaultResult = await savePlatformSecrets(platformId, secrets);
+        if (!vaultResult.success) {
+          // The vault needs the row to exist, so it is written first; put it
+          // back the way it was rather than leave a config without its secrets
+          DebugLogger.warn('PlatformContext', 'Credential vault rejected secrets, restoring previous config', { platformId });
+          const { error: rollbackError } = existingConfig
+            ? await supabase
+                .from('platforms')
+                .update({ config: existingConfig.config, is_enabled: existingConfig.is_enabled, updated_at: new Date().toISOString() })
+                .eq('id', existingConfig.id)
+            : insertedRowId
+              ? await supabase.from('platforms').delete().eq('id', insertedRowId)
+              : { error: null };
+          if (rollbackError) {
+            DebugLogger.error('PlatformContext', 'Failed to restore previous config', rollbackError);
+          }
+          updatePlatformStatus(platformId, { enabled: !!existingConfig?.is_enabled });
+          await loadPlatformConfigs();
+          throw new Error(vaultResult.error || 'Could not store credentials');
+        }
+      }
+
       DebugLogger.log('PlatformContext', 'Reloading platform configs after save');
       await loadPlatformConfigs();
       
@@ -488,7 +529,7 @@ export function PlatformProvider({ children }: { children: React.ReactNode }) {
     
     let platform: IPlatformModule | undefined;
     try {
-      platform = platformRegistry?.getPlatform(platformId);
+      platform = await platformRegistry?.loadPlatform(platformId);
     } catch (error) {
       DebugLogger.error('PlatformContext', 'Error getting platform from registry', { platformId, error });
       return { success: false, error: 'Platform registry error' };
@@ -517,7 +558,7 @@ export function PlatformProvider({ children }: { children: React.ReactNode }) {
     try {
       // Initialize platform with the config to use
       DebugLogger.log('PlatformContext', 'Initializing platform', { platformId });
-      const initResult = await platform.initialize(configToUse);
+      const initResult = await platform.initialize(withSecretPlaceholders(configToUse));
       if (!initResult.success) {
         DebugLogger.error('PlatformContext', 'Platform initialization failed', { platformId, error: initResult.error });
         if (!testConfig) {
@@ -670,6 +711,12 @@ export function PlatformProvider({ children }: { children: React.ReactNode }) {
     }
   }, [dbUser?.organization_id, loadPlatformConfigs]);
 
+  useEffect(() => {
+    platformRegistry?.loadAll()
+      .catch(error => DebugLogger.error('PlatformContext', 'Failed to load platform modules', error))
+      .finally(() => setModulesLoaded(true));
+  }, []);
+
   // Create platforms map with error handling and fallback
   let platformsMap: Map<string, IPlatformModule> = new Map();
   try {
@@ -706,7 +753,7 @@ export function PlatformProvider({ children }: { children: React.ReactNode }) {
     platforms: platformsMap,
     platformConfigs: platformConfigs || [],
     platformStatuses: platformStatuses || new Map(),
-    loading: loading ?? true,
+    loading: (loading ?? true) || !modulesLoaded,
     enablePlatform,
     disablePlatform,
     configurePlatform,
@@ -20,6 +20,7 @@ export type Permission =
   | 'freelancers.update'
   | 'freelancers.delete'
   | 'audit_logs.read'
+  | 'approvals.decide'
   | 'settings.read'
   | 'settings.update';
 
@@ -43,6 +44,7 @@ const rolePermissions: Record<User['role'], Permission[]> = {
     'freelancers.update',
     'freelancers.delete',
     'audit_logs.read',
+    'approvals.decide',
     'settings.read',
     'settings.update',
   ],
@@ -63,6 +65,7 @@ const rolePermissions: Record<User['role'], Permission[]> = {
     'freelancers.update',
     'freelancers.delete',
     'audit_logs.read',
+    'approvals.decide',
     'settings.read',
     'settings.update',
   ],
@@ -81,6 +84,10 @@ const rolePermissions: Record<User['role'], Permission[]> = {
   ],
 };
 
+// For code outside components that only has the user's role
+export const roleHasPermission = (role: User['role'], permission: Permission): boolean =>
+  (rolePermissions[role] || []).includes(permission);
+
 /**
  * Hook to check user permissions
  */
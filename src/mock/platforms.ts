@@ -551,7 +551,7 @@ export const mockMondayPlatform: MockPlatform = {
   async createUser(credentials: any): Promise<PlatformResponse> {
     await delay(Math.random() * 1500 + 800); // Longer delay to simulate checking existing users
     
-    // Monday.com always requires manual invitation
+    // Invited users stay pending until the invitation sync sees them accept
     const mockUserId = `monday-pending-${Date.now()}-${Math.random().toString(36).substring(7)}`;
     return {
       success: true,
@@ -559,15 +559,12 @@ export const mockMondayPlatform: MockPlatform = {
         id: mockUserId,
         email: credentials.email,
         username: credentials.email,
-        status: 'pending_invitation',
-        requiresManualInvitation: true,
-        invitationInstructions: `User has been added to the system. To complete setup:\n\n1. Go to your Monday.com Admin panel\n2. Navigate to Account > Users\n3. Click "Invite Users"\n4. Send invitation to: ${credentials.email}\n5. User will receive an email invitation to join the workspace`,
+        status: 'pending',
         metadata: {
           workspace_id: 'main',
           user_email: credentials.email,
           created_at: new Date().toISOString(),
-          manual_invitation_required: true,
-          platform_instructions: 'Manual invitation required through Monday.com Admin panel'
+          invited: true
         }
       }
     };
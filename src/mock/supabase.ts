@@ -5,250 +5,236 @@ import {
   mockFreelancers, 
   mockFreelancerPlatforms 
 } from './data';
-
-// Mock database that simulates Supabase behavior
-class MockSupabaseClient {
-  private data = {
-    organizations: [...mockOrganizations],
-    users: [...mockUsers],
-    platforms: [...mockPlatformConfigs], // Use 'platforms' to match the API calls
-    platform_configs: [...mockPlatformConfigs], // Keep old name for backward compatibility
-    freelancers: [...mockFreelancers],
-    freelancer_platforms: [...mockFreelancerPlatforms]
-  };
-
-  private subscriptions = new Map<string, Array<{ callback: Function; filter?: any }>>();
-
-  // Helper to simulate async operations
-  private async delay(ms: number = 100) {
-    return new Promise(resolve => setTimeout(resolve, ms));
+import { config } from '../config/environment';
+import type { Freelancer } from '../contexts/FreelancerContext';
+
+// The sample freelancers keep their skills in metadata
+const mockSkills = (freelancer: Freelancer): string[] =>
+  freelancer.skills || (freelancer.metadata?.skills as string[] | undefined) || [];
+
+type MockRow = Record<string, any>;
+type MockFilter = (row: MockRow) => boolean;
+type MockOperation =
+  | { kind: 'select' }
+  | { kind: 'insert'; rows: MockRow[]; upsert?: { onConflict: string[]; ignoreDuplicates: boolean } }
+  | { kind: 'update'; values: MockRow }
+  | { kind: 'delete' };
+
+/**
+ * Chainable stand-in for a PostgREST query. Filters, ordering and limits can
+ * be chained in any order like the real client; the query runs when awaited.
+ */
+class MockQueryBuilder {
+  private filters: MockFilter[] = [];
+  private orderings: Array<{ column: string; ascending: boolean }> = [];
+  private offset = 0;
+  private count?: number;
+  private returns: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(
+    private readonly operation: MockOperation,
+    private readonly execute: (matches: MockFilter) => Promise<MockRow[]>
+  ) {}
+
+  // Mutations always hand back the rows they wrote
+  select(_columns: string = '*') {
+    return this;
   }
 
-  // Generate unique IDs
-  private generateId(prefix: string = 'mock') {
-    return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+  eq(column: string, value: unknown) {
+    return this.where(row => row[column] === value);
   }
 
-  // Mock table operations
-  from(table: string) {
-    return {
-      select: (columns: string = '*') => ({
-        eq: (column: string, value: any) => ({
-          order: (orderColumn: string, options: any = {}) => this.selectOrderedWithFilter(table, columns, { [column]: value }, orderColumn, options),
-          single: () => this.selectSingle(table, columns, { [column]: value }),
-          then: (callback: any) => this.select(table, columns, { [column]: value }).then(callback)
-        }),
-        in: (column: string, values: any[]) => this.selectIn(table, columns, column, values),
-        order: (column: string, options: any = {}) => this.selectOrdered(table, columns, column, options),
-        single: () => this.selectSingle(table, columns),
-        range: (from: number, to: number) => this.selectRange(table, columns, from, to),
-        then: (callback: any) => this.select(table, columns).then(callback)
-      }),
-      insert: (data: any) => ({
-        select: (columns: string = '*') => ({
-          single: () => this.insertSingle(table, data),
-          then: (callback: any) => this.insert(table, data, columns).then(callback)
-        }),
-        single: () => this.insertSingle(table, data),
-        then: (callback: any) => this.insert(table, data, '*').then(callback)
-      }),
-      update: (data: any) => ({
-        eq: (column: string, value: any) => ({
-          select: (_columns: string = '*') => this.update(table, data, { [column]: value }),
-          single: () => this.updateSingle(table, data, { [column]: value }),
-          then: (callback: any) => this.update(table, data, { [column]: value }).then(callback)
-        }),
-        in: (column: string, values: any[]) => this.updateIn(table, data, column, values)
-      }),
-      delete: () => ({
-        eq: (column: string, value: any) => this.delete(table, { [column]: value }),
-        in: (column: string, values: any[]) => this.deleteIn(table, column, values)
-      })
-    };
+  neq(column: string, value: unknown) {
+    return this.where(row => row[column] !== value);
   }
 
-  private async select(table: string, _columns: string, filter: any = {}) {
-    await this.delay();
-    
-    const tableData = this.data[table as keyof typeof this.data] || [];
-    let filtered = tableData as any[];
-
-    // Apply filters
-    Object.entries(filter).forEach(([key, value]) => {
-      filtered = filtered.filter((row: any) => row[key] === value);
-    });
+  in(column: string, values: unknown[]) {
+    return this.where(row => values.includes(row[column]));
+  }
 
-    return { data: filtered as any, error: null };
+  is(column: string, value: null | boolean) {
+    return this.where(row => (row[column] ?? null) === value);
   }
 
-  private async selectIn(table: string, _columns: string, column: string, values: any[]) {
-    await this.delay();
-    
-    const tableData = this.data[table as keyof typeof this.data] || [];
-    const filtered = tableData.filter((row: any) => values.includes(row[column]));
+  lt(column: string, value: string | number) {
+    return this.where(row => row[column] != null && row[column] < value);
+  }
 
-    return { data: filtered, error: null };
+  lte(column: string, value: string | number) {
+    return this.where(row => row[column] != null && row[column] <= value);
   }
 
-  private async selectOrdered(table: string, columns: string, column: string, options: any) {
-    const { data, error } = await this.select(table, columns);
-    if (error) return { data, error };
+  gt(column: string, value: string | number) {
+    return this.where(row => row[column] != null && row[column] > value);
+  }
 
-    const sorted = [...data].sort((a: any, b: any) => {
-      const aVal = a[column];
-      const bVal = b[column];
-      
-      if (options.ascending === false) {
-        return aVal < bVal ? 1 : aVal > bVal ? -1 : 0;
-      }
-      return aVal > bVal ? 1 : aVal < bVal ? -1 : 0;
-    });
+  gte(column: string, value: string | number) {
+    return this.where(row => row[column] != null && row[column] >= value);
+  }
 
-    return { data: sorted, error: null };
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orderings.push({ column, ascending: options.ascending !== false });
+    return this;
   }
 
-  private async selectOrderedWithFilter(table: string, columns: string, filter: any, orderColumn: string, options: any) {
-    const { data, error } = await this.select(table, columns, filter);
-    if (error) return { data, error };
+  limit(count: number) {
+    this.count = count;
+    return this;
+  }
 
-    const sorted = [...data].sort((a: any, b: any) => {
-      const aVal = a[orderColumn];
-      const bVal = b[orderColumn];
-      
-      if (options.ascending === false) {
-        return aVal < bVal ? 1 : aVal > bVal ? -1 : 0;
-      }
-      return aVal > bVal ? 1 : aVal < bVal ? -1 : 0;
-    });
+  range(from: number, to: number) {
+    this.offset = from;
+    this.count = to - from + 1;
+    return this;
+  }
 
-    return { data: sorted, error: null };
+  single() {
+    this.returns = 'single';
+    return this;
   }
 
-  private async selectSingle(table: string, columns: string, filter: any = {}) {
-    const { data, error } = await this.select(table, columns, filter);
-    if (error) return { data: null, error };
-    
-    return { data: data[0] || null, error: null };
+  maybeSingle() {
+    this.returns = 'maybeSingle';
+    return this;
   }
 
-  private async updateSingle(table: string, updateData: any, filter: any) {
-    const { data, error } = await this.update(table, updateData, filter);
-    if (error) return { data: null, error };
-    
-    return { data: data[0] || null, error: null };
+  then<T>(resolve: (result: { data: any; error: null }) => T, reject?: (reason: unknown) => T) {
+    return this.run().then(resolve, reject);
   }
 
-  private async selectRange(table: string, columns: string, from: number, to: number) {
-    const { data, error } = await this.select(table, columns);
-    if (error) return { data, error };
-    
-    return { data: data.slice(from, to + 1), error: null };
+  private where(filter: MockFilter) {
+    this.filters.push(filter);
+    return this;
   }
 
-  private async insert(table: string, insertData: any, _columns: string) {
-    await this.delay();
-    
-    const tableData = this.data[table as keyof typeof this.data] as any[];
-    const newRecord = {
-      id: this.generateId(table.slice(0, 3)),
-      ...insertData,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    };
+  private async run() {
+    let rows = await this.execute(row => this.filters.every(filter => filter(row)));
 
-    tableData.push(newRecord);
-    this.notifySubscribers(table, 'INSERT', newRecord);
+    if (this.operation.kind === 'select') {
+      rows = [...rows].sort((a, b) => {
+        for (const { column, ascending } of this.orderings) {
+          if (a[column] === b[column]) continue;
+          return (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1);
+        }
+        return 0;
+      });
+      rows = rows.slice(this.offset, this.count === undefined ? undefined : this.offset + this.count);
+    }
 
-    return { data: [newRecord], error: null };
+    const data = rows.map(row => ({ ...row }));
+    return { data: this.returns === 'many' ? data : data[0] || null, error: null };
   }
+}
 
-  private async insertSingle(table: string, insertData: any) {
-    const { data, error } = await this.insert(table, insertData, '*');
-    return { data: data?.[0] || null, error };
-  }
+// Mock database that simulates Supabase behavior
+class MockSupabaseClient {
+  private data = {
+    organizations: [...mockOrganizations],
+    users: [...mockUsers],
+    platforms: [...mockPlatformConfigs], // Use 'platforms' to match the API calls
+    platform_configs: [...mockPlatformConfigs], // Keep old name for backward compatibility
+    freelancers: [...mockFreelancers],
+    freelancer_platforms: [...mockFreelancerPlatforms],
+    onboarding_jobs: [] as Record<string, unknown>[],
+    onboarding_job_steps: [] as Record<string, unknown>[],
+    audit_logs: [] as Record<string, unknown>[],
+    notifications: [] as Record<string, unknown>[],
+    onboarding_templates: [] as Record<string, unknown>[]
+  };
 
-  private async update(table: string, updateData: any, filter: any) {
-    await this.delay();
-    
-    const tableData = this.data[table as keyof typeof this.data] as any[];
-    const updatedRecords: any[] = [];
+  private subscriptions = new Map<string, Array<{ callback: Function; filter?: any }>>();
 
-    tableData.forEach((record, index) => {
-      const matches = Object.entries(filter).every(([key, value]) => record[key] === value);
-      
-      if (matches) {
-        const updatedRecord = {
-          ...record,
-          ...updateData,
-          updated_at: new Date().toISOString()
-        };
-        tableData[index] = updatedRecord;
-        updatedRecords.push(updatedRecord);
-        this.notifySubscribers(table, 'UPDATE', updatedRecord);
-      }
-    });
+  // Helper to simulate async operations
+  private async delay(ms: number = 100) {
+    if (!config.FEATURES.ENABLE_MOCK_DELAYS) return;
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
 
-    return { data: updatedRecords, error: null };
+  // Generate unique IDs
+  private generateId(prefix: string = 'mock') {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(7)}`;
   }
 
-  private async updateIn(table: string, updateData: any, column: string, values: any[]) {
-    await this.delay();
-    
-    const tableData = this.data[table as keyof typeof this.data] as any[];
-    const updatedRecords: any[] = [];
-
-    tableData.forEach((record, index) => {
-      if (values.includes(record[column])) {
-        const updatedRecord = {
-          ...record,
-          ...updateData,
-          updated_at: new Date().toISOString()
-        };
-        tableData[index] = updatedRecord;
-        updatedRecords.push(updatedRecord);
-        this.notifySubscribers(table, 'UPDATE', updatedRecord);
-      }
-    });
+  // Mock table operations
+  from(table: string) {
+    const query = (operation: MockOperation) =>
+      new MockQueryBuilder(operation, matches => this.execute(table, operation, matches));
 
-    return { data: updatedRecords, error: null };
+    return {
+      select: (_columns: string = '*') => query({ kind: 'select' }),
+      insert: (rows: MockRow | MockRow[]) => query({ kind: 'insert', rows: Array.isArray(rows) ? rows : [rows] }),
+      upsert: (rows: MockRow | MockRow[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) => query({
+        kind: 'insert',
+        rows: Array.isArray(rows) ? rows : [rows],
+        upsert: {
+          onConflict: (options.onConflict || 'id').split(',').map(column => column.trim()),
+          ignoreDuplicates: !!options.ignoreDuplicates
+        }
+      }),
+      update: (values: MockRow) => query({ kind: 'update', values }),
+      delete: () => query({ kind: 'delete' })
+    };
   }
 
-  private async delete(table: string, filter: any) {
+  private rows(table: string): MockRow[] {
+    const tables = this.data as unknown as Record<string, MockRow[]>;
+    return tables[table] ||= [];
+  }
+
+  private async execute(table: string, operation: MockOperation, matches: MockFilter): Promise<MockRow[]> {
     await this.delay();
-    
-    const tableData = this.data[table as keyof typeof this.data] as any[];
-    const deletedRecords: any[] = [];
 
-    for (let i = tableData.length - 1; i >= 0; i--) {
-      const record = tableData[i];
-      const matches = Object.entries(filter).every(([key, value]) => record[key] === value);
-      
-      if (matches) {
-        const deleted = tableData.splice(i, 1)[0];
-        deletedRecords.push(deleted);
-        this.notifySubscribers(table, 'DELETE', deleted);
+    const rows = this.rows(table);
+    const now = new Date().toISOString();
+
+    switch (operation.kind) {
+      case 'select':
+        return rows.filter(matches);
+
+      case 'insert': {
+        const written: MockRow[] = [];
+        operation.rows.forEach(row => {
+          const { upsert } = operation;
+          const index = upsert
+            ? rows.findIndex(existing => upsert.onConflict.every(column => existing[column] === row[column]))
+            : -1;
+
+          if (index === -1) {
+            const record = { id: this.generateId(table.slice(0, 3)), created_at: now, updated_at: now, ...row };
+            rows.push(record);
+            written.push(record);
+            this.notifySubscribers(table, 'INSERT', record);
+          } else if (!upsert!.ignoreDuplicates) {
+            rows[index] = { ...rows[index], updated_at: now, ...row };
+            written.push(rows[index]);
+            this.notifySubscribers(table, 'UPDATE', rows[index]);
+          }
+        });
+        return written;
       }
-    }
 
-    return { data: deletedRecords, error: null };
-  }
+      case 'update': {
+        const updated: MockRow[] = [];
+        rows.forEach((record, index) => {
+          if (!matches(record)) return;
+          rows[index] = { ...record, updated_at: now, ...operation.values };
+          updated.push(rows[index]);
+          this.notifySubscribers(table, 'UPDATE', rows[index]);
+        });
+        return updated;
+      }
 
-  private async deleteIn(table: string, column: string, values: any[]) {
-    await this.delay();
-    
-    const tableData = this.data[table as keyof typeof this.data] as any[];
-    const deletedRecords: any[] = [];
-
-    for (let i = tableData.length - 1; i >= 0; i--) {
-      const record = tableData[i];
-      if (values.includes(record[column])) {
-        const deleted = tableData.splice(i, 1)[0];
-        deletedRecords.push(deleted);
-        this.notifySubscribers(table, 'DELETE', deleted);
+      case 'delete': {
+        const deleted: MockRow[] = [];
+        for (let i = rows.length - 1; i >= 0; i--) {
+          if (!matches(rows[i])) continue;
+          deleted.push(rows.splice(i, 1)[0]);
+          this.notifySubscribers(table, 'DELETE', deleted[deleted.length - 1]);
+        }
+        return deleted;
       }
     }
-
-    return { data: deletedRecords, error: null };
   }
 
   // Mock auth
@@ -490,13 +476,48 @@ class MockSupabaseClient {
               total_platform_connections: mockFreelancerPlatforms.length
             };
             break;
-          case 'search_freelancers':
-            mockData = mockFreelancers.filter(f => {
-              const fullName = `${f.first_name} ${f.last_name}`.trim();
+          case 'search_freelancers': {
+            // Mirrors the SQL function's filters, sort and paging
+            const term = params?.search_term?.toLowerCase() || '';
+            const includes = (value: unknown, search: string) =>
+              typeof value === 'string' && value.toLowerCase().includes(search);
+            const fullName = (f: Freelancer) => `${f.first_name} ${f.last_name}`.trim();
+            const matches = this.data.freelancers.filter(f => {
+              const grants = this.data.freelancer_platforms.filter(fp => fp.freelancer_id === f.id);
+              const fieldValue = params?.custom_field_key ? f.custom_fields?.[params.custom_field_key] : undefined;
               return f.organization_id === params?.org_id &&
-                (fullName.toLowerCase().includes(params?.search_term?.toLowerCase() || '') ||
-                 f.email.toLowerCase().includes(params?.search_term?.toLowerCase() || ''));
+                (!term || includes(fullName(f), term) || includes(f.email, term) || includes(f.username, term) ||
+                  includes(f.location, term) || mockSkills(f).some(skill => includes(skill, term))) &&
+                (!params?.status_filter || f.status === params.status_filter) &&
+                (!params?.tag_filter || mockSkills(f).includes(params.tag_filter)) &&
+                (!params?.created_by_filter || f.created_by === params.created_by_filter) &&
+                (!params?.manager_filter || f.manager_id === params.manager_filter) &&
+                (!params?.without_manager || !f.manager_id) &&
+                (!params?.created_from || f.created_at >= params.created_from) &&
+                (!params?.created_to || f.created_at <= params.created_to) &&
+                (!params?.custom_field_key ||
+                  (fieldValue != null && includes(String(fieldValue), (params.custom_field_value || '').toLowerCase()))) &&
+                (!(params?.platform_filter || params?.grant_status_filter) || grants.some(fp =>
+                  (!params.platform_filter || fp.platform_id === params.platform_filter) &&
+                  (!params.grant_status_filter || fp.status === params.grant_status_filter)));
             });
+            const sortKey = (f: Freelancer) =>
+              params?.sort_by === 'name' ? fullName(f).toLowerCase() :
+              params?.sort_by === 'status' ? f.status :
+              f.created_at;
+            const direction = params?.sort_dir === 'asc' ? 1 : -1;
+            matches.sort((a, b) =>
+              direction * sortKey(a).localeCompare(sortKey(b)) || b.created_at.localeCompare(a.created_at));
+            const offset = params?.page_offset || 0;
+            mockData = matches
+              .slice(offset, offset + (params?.page_limit || 50))
+              .map(freelancer => ({ freelancer, total_count: matches.length }));
+            break;
+          }
+          case 'freelancer_skills':
+            mockData = Array.from(new Set(
+              this.data.freelancers.filter(f => f.organization_id === params?.org_id).flatMap(mockSkills)
+            )).sort().map(skill => ({ skill }));
             break;
           default:
             mockData = null;
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { manifest as mondayManifest } from '../collaboration/monday.manifest';
+import { manifest as parsecManifest } from '../screen-sharing/parsec.manifest';
+import { manifest as trueNASManifest } from '../file-sharing/truenas.manifest';
+import { manifest as amoveManifest } from '../file-sharing/amove.manifest';
+import { checkCapabilities, supportsCapability } from '../../services/platformCapabilities';
+import { PlatformCapability, type IPlatformModule } from '../../types/platform.types';
+
+const manifests = [mondayManifest, parsecManifest, trueNASManifest, amoveManifest];
+
+describe('platform capabilities', () => {
+  it.each(manifests.map(manifest => [manifest.id, manifest] as const))(
+    '%s declares exactly the optional methods it implements',
+    async (_id, manifest) => {
+      const platform = await manifest.load();
+
+      expect(platform.metadata.id).toBe(manifest.id);
+      expect(platform.metadata.capabilities).toEqual(manifest.capabilities);
+      expect(checkCapabilities(platform)).toEqual([]);
+    }
+  );
+
+  it('reports declared capabilities without an implementation and the reverse', async () => {
+    const platform = await parsecManifest.load();
+    const misdeclared = {
+      ...platform,
+      metadata: { ...platform.metadata, capabilities: [PlatformCapability.PASSWORD_RESET] },
+      assignRole: platform.assignRole,
+    } as IPlatformModule;
+
+    expect(checkCapabilities(misdeclared)).toEqual([
+      { capability: PlatformCapability.ROLE_MANAGEMENT, method: 'assignRole', problem: 'undeclared' },
+      { capability: PlatformCapability.PASSWORD_RESET, method: 'resetPassword', problem: 'declared' },
+    ]);
+    expect(supportsCapability(misdeclared, PlatformCapability.PASSWORD_RESET)).toBe(false);
+    expect(supportsCapability(misdeclared, PlatformCapability.ROLE_MANAGEMENT)).toBe(false);
+  });
+
+  it('only offers actions a platform supports', async () => {
+    const [monday, trueNAS, amove] = await Promise.all([mondayManifest.load(), trueNASManifest.load(), amoveManifest.load()]);
+
+    expect(supportsCapability(monday, PlatformCapability.ROLE_MANAGEMENT)).toBe(false);
+    expect(supportsCapability(trueNAS, PlatformCapability.PASSWORD_RESET)).toBe(true);
+    expect(supportsCapability(amove, PlatformCapability.PERMISSION_MANAGEMENT)).toBe(true);
+    expect(supportsCapability(amove, PlatformCapability.PASSWORD_RESET)).toBe(false);
+  });
+});
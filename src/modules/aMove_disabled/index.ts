@@ -1,10 +0,0 @@
-export { aMoveModule } from './aMoveModule';
-export { aMoveApiClient } from './aMoveApiClient';
-export { 
-  aMoveConfigSchema, 
-  aMoveCredentialsSchema,
-  type AMoveConfig,
-  type AMoveCredentials,
-  validateAMoveConfig,
-  validateAMoveCredentials
-} from './schemas';
\ No newline at end of file
@@ -1,24 +1,69 @@
 // Monday.com Module - Simple collaboration platform integration
 
-import { PlatformCategory } from '../../types/platform.types';
+import { PlatformUserStatus } from '../../types/platform.types';
 import type {
   PlatformResponse,
   PlatformUser,
   PlatformConfig,
   PlatformCredentials,
   PlatformMetadata,
+  PlatformActivityEvent,
+  PlatformActivityRange,
+  PlatformGroup,
+  PlatformGroupManager,
   IPlatformModule
 } from '../../types/platform.types';
-import { z } from 'zod';
 import { useMockData } from '../../config/environment';
+import { getPlatformTransport, transportStatus } from '../../services/platformTransport';
+import { manifest } from './monday.manifest';
+
+type MondayUserRole = 'ADMIN' | 'MEMBER' | 'VIEWER' | 'GUEST';
+
+interface MondayUser {
+  id: string;
+  name?: string;
+  email: string;
+  enabled?: boolean;
+  is_pending?: boolean;
+  created_at?: string;
+}
+
+interface MondayInviteResult {
+  invited_users: MondayUser[] | null;
+  errors: Array<{ message: string; code?: string; email?: string }> | null;
+}
+
+// activate_users and deactivate_users report per-user failures here rather than as GraphQL errors
+interface MondayUserStateResult {
+  errors: Array<{ message: string; code?: string; user_id?: string }> | null;
+}
+
+interface MondayGraphQLResult<T> {
+  data?: T;
+  errors?: Array<{ message: string }>;
+  error_message?: string;
+}
+
+interface MondayTeam {
+  id: string;
+  name: string;
+  users?: Array<{ id: string }> | null;
+}
+
+interface MondayAssignments {
+  teamIds: string[];
+  boardIds: string[];
+  workspaceIds: string[];
+}
 
 export class MondayModule implements IPlatformModule {
   public readonly metadata: PlatformMetadata = {
-    id: 'monday',
+    id: manifest.id,
     name: 'monday',
-    displayName: 'Monday.com',
+    displayName: manifest.displayName,
     description: 'Work management platform that helps teams collaborate and track projects',
-    category: PlatformCategory.COLLABORATION,
+    category: manifest.category,
+    version: manifest.version,
     icon: '📊',
     color: '#FF3D71',
     website: 'https://monday.com',
@@ -32,33 +77,73 @@ export class MondayModule implements IPlatformModule {
       'Automation',
       'Reporting & Analytics',
     ],
-    capabilities: [
-      'user-management',
-      'team-collaboration',
-      'project-management',
-      'activity-monitoring',
-    ],
-    requiredFields: ['apiToken'],
-    optionalFields: ['workspaceId'],
-    configSchema: z.object({
-      apiToken: z.string().min(1, 'API Token is required').describe('Your Monday.com API token (get from Admin > Developers > API)'),
-      workspaceId: z.string().optional().describe('Specific workspace ID (optional - will use main workspace if not provided)'),
-    }),
+    capabilities: manifest.capabilities,
+    // Either a pasted API token or an OAuth app connected through the consent flow
+    requiredFields: [],
+    optionalFields: ['apiToken', 'workspaceId', 'clientId', 'clientSecret', 'oAuthBaseUrl'],
+    configSchema: manifest.configSchema,
+    supportsOAuth: true,
+    retryPolicy: {
+      maxAttempts: 4,
+      initialDelayMs: 5000,
+      // Complexity budget resets every minute
+      retryableErrors: ['complexity'],
+    },
   };
   
   private config: PlatformConfig = {};
   private isInitialized: boolean = false;
+
+  // Monday.com teams; teams have no description
+  public readonly groups: PlatformGroupManager = {
+    listGroups: () => this.teamRequest('list teams', async () => {
+      const data = await this.graphql<{ teams: MondayTeam[] }>(`
+        query {
+          teams { id name users { id } }
+        }
+      `);
+      return (data.teams || []).map(team => this.toPlatformGroup(team));
+    }),
+    createGroup: name => this.teamRequest('create team', async () => {
+      const data = await this.graphql<{ create_team: MondayTeam }>(`
+        mutation ($name: String!) {
+          create_team (input: { name: $name }, options: { allow_empty_team: true }) { id name }
+        }
+      `, { name });
+      return this.toPlatformGroup(data.create_team);
+    }),
+    addMember: (userId, groupId) => this.teamRequest('add user to team', async () => {
+      const data = await this.graphql<{ add_users_to_team: { failed_users: Array<{ id: string }> | null } }>(`
+        mutation ($teamId: ID!, $userIds: [ID!]!) {
+          add_users_to_team (team_id: $teamId, user_ids: $userIds) {
+            successful_users { id }
+            failed_users { id }
+          }
+        }
+      `, { teamId: groupId, userIds: [userId] });
+      if (data.add_users_to_team.failed_users?.length) throw new Error('user was rejected by the team');
+    }),
+    removeMember: (userId, groupId) => this.teamRequest('remove user from team', async () => {
+      await this.graphql(`
+        mutation ($teamId: ID!, $userIds: [ID!]!) {
+          remove_users_from_team (team_id: $teamId, user_ids: $userIds) {
+            successful_users { id }
+          }
+        }
+      `, { teamId: groupId, userIds: [userId] });
+    }),
+  };
   
   getRequiredConfigFields(): string[] {
-    return ['apiToken'];
+    return this.metadata.requiredFields;
   }
   
   async initialize(config: PlatformConfig): Promise<PlatformResponse> {
     try {
-      if (!config.apiToken) {
+      if (!this.validateConfig(config)) {
         return {
           success: false,
-          error: 'Monday.com requires an API token',
+          error: 'Monday.com requires an API token or a connected OAuth app',
         };
       }
 
@@ -70,7 +155,8 @@ export class MondayModule implements IPlatformModule {
         data: {
           message: 'Monday.com module initialized successfully',
           config: {
-            hasToken: !!config.apiToken,
+            hasToken: true,
+            oAuth: !!config.oAuthToken,
             workspaceId: config.workspaceId || 'main'
           }
         },
@@ -84,10 +170,10 @@ export class MondayModule implements IPlatformModule {
   }
 
   async testConnection(): Promise<PlatformResponse> {
-    if (!this.isInitialized || !this.config.apiToken) {
+    if (!this.isInitialized || !this.validateConfig(this.config)) {
       return {
         success: false,
-        error: 'Monday.com not initialized. Please provide API token.',
+        error: 'Monday.com not initialized. Please provide an API token or connect with OAuth.',
       };
     }
 
@@ -142,24 +228,16 @@ export class MondayModule implements IPlatformModule {
         }
       `;
 
-      const response = await fetch('https://api.monday.com/v2', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': this.config.apiToken as string,
-        },
-        body: JSON.stringify({ query }),
-      });
+      const response = await this.send<{ me?: MondayUser & { account?: { id: string; name: string } } }>(query);
 
-      if (!response.ok) {
-        const errorText = await response.text();
+      if (!response.success) {
         return {
           success: false,
-          error: `Monday.com API error: ${response.status} - ${errorText}`,
+          error: `Monday.com API error: ${transportStatus(response)} - ${response.error}`,
         };
       }
 
-      const result = await response.json();
+      const result = response.data || {};
 
       if (result.errors && result.errors.length > 0) {
         return {
@@ -201,6 +279,9 @@ export class MondayModule implements IPlatformModule {
     }
   }
 
+  // Monday.com invites users by email; the invitee shows up as a pending
+  // user straight away, so teams, boards and workspaces can be assigned
+  // before they accept. Acceptance is picked up later via getUser.
   async createUser(credentials: PlatformCredentials): Promise<PlatformResponse> {
     if (!this.isInitialized) {
       return { 
@@ -209,12 +290,13 @@ export class MondayModule implements IPlatformModule {
       };
     }
 
+    const assignments = this.getAssignments(credentials);
+
     // Use mock response in development/mock mode
     if (useMockData()) {
       // Simulate API delay
       await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 1000));
       
-      // Return success with pending invitation status
       const mockUserId = `monday-pending-${Date.now()}-${Math.random().toString(36).substring(7)}`;
       return {
         success: true,
@@ -222,113 +304,238 @@ export class MondayModule implements IPlatformModule {
           id: mockUserId,
           email: credentials.email,
           username: credentials.email,
-          status: 'pending_invitation',
-          requiresManualInvitation: true,
-          invitationInstructions: 'User has been added to the system. Please invite them manually through Monday.com\'s Admin panel.',
+          status: PlatformUserStatus.PENDING,
           metadata: {
-            workspace_id: this.config.workspaceId || 'main',
-            user_email: credentials.email,
-            created_at: new Date().toISOString(),
-            manual_invitation_required: true
+            invited: true,
+            user_role: this.getUserRole(credentials.role),
+            ...assignments,
           }
         }
       };
     }
 
-    // Monday.com doesn't support direct user creation via API for security reasons
-    // Users must be invited manually through the Monday.com interface
-    // We'll return success but indicate manual invitation is required
     try {
-      // First, check if user already exists in the workspace
-      const existingUserCheck = await this.checkIfUserExists(credentials.email);
-      
-      if (existingUserCheck.exists) {
-        return {
-          success: true,
-          data: {
-            id: existingUserCheck.userId,
-            email: credentials.email,
-            name: credentials.fullName || `${credentials.firstName} ${credentials.lastName}`,
-            status: 'active',
-            message: 'User already exists in Monday.com workspace'
+      const existing = await this.findUserByEmail(credentials.email);
+      let user: MondayUser;
+      let invited = false;
+
+      if (existing && !existing.enabled && !existing.is_pending) {
+        // A deactivated account would otherwise be reported (and recorded) as active
+        await this.setUserEnabled(existing.id, true);
+        user = { ...existing, enabled: true };
+      } else if (existing) {
+        user = existing;
+      } else {
+        const data = await this.graphql<{ invite_users: MondayInviteResult }>(`
+          mutation ($emails: [String!]!, $role: UserRole) {
+            invite_users (emails: $emails, user_role: $role, product: work_management) {
+              invited_users { id name email enabled is_pending created_at }
+              errors { message code email }
+            }
           }
-        };
+        `, { emails: [credentials.email], role: this.getUserRole(credentials.role) });
+
+        const inviteError = data.invite_users.errors?.[0];
+        const invitedUser = data.invite_users.invited_users?.[0];
+        if (inviteError || !invitedUser) {
+          throw new Error(`Invitation failed: ${inviteError?.message || 'no user returned'}`);
+        }
+        user = invitedUser;
+        invited = true;
       }
 
-      // Generate a placeholder ID for tracking
-      const placeholderId = `monday-pending-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+      // Assignment calls are idempotent, so a retried step simply re-applies them
+      const failedAssignments = await this.applyAssignments(user.id, assignments);
+      if (failedAssignments.length > 0) {
+        throw new Error(`User ${invited ? 'invited' : 'found'} but could not be added to ${failedAssignments.join(', ')}`);
+      }
 
+      const platformUser = this.toPlatformUser(user);
       return {
         success: true,
         data: {
-          id: placeholderId,
-          email: credentials.email,
-          name: credentials.fullName || `${credentials.firstName} ${credentials.lastName}`,
-          status: 'pending_invitation',
-          requiresManualInvitation: true,
-          invitationInstructions: `User has been added to the system. To complete setup:\n\n1. Go to your Monday.com Admin panel\n2. Navigate to Account > Users\n3. Click "Invite Users"\n4. Send invitation to: ${credentials.email}\n5. User will receive an email invitation to join the workspace`,
+          ...platformUser,
           metadata: {
-            workspace_id: this.config.workspaceId || 'main',
-            user_email: credentials.email,
-            created_at: new Date().toISOString(),
-            manual_invitation_required: true,
-            platform_instructions: 'Manual invitation required through Monday.com Admin panel'
+            ...platformUser.metadata,
+            invited,
+            user_role: this.getUserRole(credentials.role),
+            ...assignments,
           }
         }
       };
     } catch (error) {
       return {
         success: false,
-        error: `Monday.com user setup failed: ${error instanceof Error ? error.message : 'Unknown error'}. Note: Monday.com requires manual user invitations through their Admin panel.`,
+        error: `Monday.com user setup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
       };
     }
   }
 
-  // Helper method to check if user already exists
-  private async checkIfUserExists(email: string): Promise<{ exists: boolean; userId?: string }> {
-    try {
-      const query = `
-        query {
-          users {
-            id
-            email
-            name
-            enabled
+  // Teams, boards and workspaces come from template metadata as comma-separated IDs
+  private getAssignments(credentials: PlatformCredentials): MondayAssignments {
+    const ids = (value: unknown): string[] => {
+      if (Array.isArray(value)) return value.map(String).map(id => id.trim()).filter(Boolean);
+      if (typeof value === 'string') return value.split(',').map(id => id.trim()).filter(Boolean);
+      return [];
+    };
+
+    const metadata = credentials.metadata || {};
+    const workspaceIds = ids(metadata.workspaceIds ?? metadata.workspaceId);
+    return {
+      teamIds: ids(metadata.teamIds ?? metadata.teamId),
+      boardIds: ids(metadata.boardIds ?? metadata.boardId),
+      workspaceIds: workspaceIds.length > 0 || !this.config.workspaceId ? workspaceIds : [this.config.workspaceId],
+    };
+  }
+
+  private getUserRole(role?: string): MondayUserRole {
+    const normalized = (role || '').toUpperCase();
+    return (['ADMIN', 'MEMBER', 'VIEWER', 'GUEST'] as const).find(r => r === normalized) || 'MEMBER';
+  }
+
+  // Returns a label for every assignment that failed
+  private async applyAssignments(userId: string, assignments: MondayAssignments): Promise<string[]> {
+    const failed: string[] = [];
+
+    for (const teamId of assignments.teamIds) {
+      try {
+        const data = await this.graphql<{ add_users_to_team: { failed_users: Array<{ id: string }> | null } }>(`
+          mutation ($teamId: ID!, $userIds: [ID!]!) {
+            add_users_to_team (team_id: $teamId, user_ids: $userIds) {
+              successful_users { id }
+              failed_users { id }
+            }
           }
-        }
-      `;
+        `, { teamId, userIds: [userId] });
+        if (data.add_users_to_team.failed_users?.length) failed.push(`team ${teamId}`);
+      } catch (error) {
+        console.error(`Failed to add Monday.com user ${userId} to team ${teamId}:`, error);
+        failed.push(`team ${teamId}`);
+      }
+    }
 
-      const response = await fetch('https://api.monday.com/v2', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': this.config.apiToken as string,
-        },
-        body: JSON.stringify({ query }),
-      });
+    for (const workspaceId of assignments.workspaceIds) {
+      try {
+        await this.graphql(`
+          mutation ($workspaceId: ID!, $userIds: [ID!]!) {
+            add_users_to_workspace (workspace_id: $workspaceId, user_ids: $userIds, kind: subscriber) { id }
+          }
+        `, { workspaceId, userIds: [userId] });
+      } catch (error) {
+        console.error(`Failed to add Monday.com user ${userId} to workspace ${workspaceId}:`, error);
+        failed.push(`workspace ${workspaceId}`);
+      }
+    }
+
+    for (const boardId of assignments.boardIds) {
+      try {
+        await this.graphql(`
+          mutation ($boardId: ID!, $userIds: [ID!]!) {
+            add_users_to_board (board_id: $boardId, user_ids: $userIds, kind: subscriber) { id }
+          }
+        `, { boardId, userIds: [userId] });
+      } catch (error) {
+        console.error(`Failed to add Monday.com user ${userId} to board ${boardId}:`, error);
+        failed.push(`board ${boardId}`);
+      }
+    }
 
-      const result = await response.json();
+    return failed;
+  }
 
-      if (result.errors && result.errors.length > 0) {
-        // If we can't check, assume user doesn't exist
-        return { exists: false };
+  private async setUserEnabled(userId: string, enabled: boolean): Promise<void> {
+    const mutation = enabled ? 'activate_users' : 'deactivate_users';
+    const data = await this.graphql<Record<string, MondayUserStateResult>>(`
+      mutation ($userIds: [ID!]!) {
+        ${mutation} (user_ids: $userIds) {
+          ${enabled ? 'activated_users' : 'deactivated_users'} { id }
+          errors { message code user_id }
+        }
       }
+    `, { userIds: [userId] });
 
-      const users = result.data?.users || [];
-      const existingUser = users.find((user: any) => 
-        user.email && user.email.toLowerCase() === email.toLowerCase()
-      );
+    const error = data[mutation]?.errors?.[0];
+    if (error) {
+      throw new Error(`Could not ${enabled ? 'reactivate' : 'deactivate'} user ${userId}: ${error.message}`);
+    }
+  }
+
+  private async findUserByEmail(email: string): Promise<MondayUser | null> {
+    const data = await this.graphql<{ users: MondayUser[] }>(`
+      query ($emails: [String]) {
+        users (emails: $emails) { id name email enabled is_pending created_at }
+      }
+    `, { emails: [email] });
 
+    return (data.users || []).find(user => user.email?.toLowerCase() === email.toLowerCase()) || null;
+  }
+
+  private toPlatformUser(user: MondayUser): PlatformUser {
+    return {
+      id: String(user.id),
+      email: user.email,
+      displayName: user.name,
+      status: user.is_pending
+        ? PlatformUserStatus.PENDING
+        : user.enabled ? PlatformUserStatus.ACTIVE : PlatformUserStatus.INACTIVE,
+      createdAt: user.created_at ? new Date(user.created_at) : undefined,
+      metadata: {
+        workspace_id: this.config.workspaceId || 'main',
+      },
+    };
+  }
+
+  private toPlatformGroup(team: MondayTeam): PlatformGroup {
+    return {
+      id: String(team.id),
+      name: team.name,
+      memberCount: team.users ? team.users.length : undefined,
+    };
+  }
+
+  private async teamRequest<T>(label: string, request: () => Promise<T>): Promise<PlatformResponse<T>> {
+    if (!this.isInitialized) {
+      return { success: false, error: 'Monday.com not initialized' };
+    }
+
+    try {
+      return { success: true, data: await request() };
+    } catch (error) {
       return {
-        exists: !!existingUser,
-        userId: existingUser?.id
+        success: false,
+        error: `Failed to ${label}: ${error instanceof Error ? error.message : 'Unknown error'}`,
       };
-    } catch (error) {
-      // If we can't check, assume user doesn't exist
-      return { exists: false };
     }
   }
 
+  // The gateway adds the API token and version header on the server
+  private send<T>(query: string, variables?: Record<string, unknown>) {
+    return getPlatformTransport().send<MondayGraphQLResult<T>>({
+      platformId: 'monday',
+      action: 'graphql',
+      payload: { query, variables },
+      config: this.config,
+    });
+  }
+
+  private async graphql<T = unknown>(query: string, variables?: Record<string, unknown>): Promise<T> {
+    const response = await this.send<T>(query, variables);
+
+    if (!response.success || !response.data) {
+      throw new Error(`Monday.com API error: ${transportStatus(response)} - ${response.error}`);
+    }
+
+    const result = response.data;
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(`Monday.com API error: ${result.errors[0].message}`);
+    }
+    if (result.error_message) {
+      throw new Error(`Monday.com API error: ${result.error_message}`);
+    }
+
+    return result.data as T;
+  }
+
   async updateUser(userId: string, updates: Partial<PlatformUser>): Promise<PlatformResponse> {
     if (!this.isInitialized) {
       return { success: false, error: 'Monday.com not initialized' };
@@ -371,31 +578,7 @@ export class MondayModule implements IPlatformModule {
     }
 
     try {
-      const query = `
-        mutation {
-          delete_users_from_account (user_ids: [${userId}]) {
-            id
-          }
-        }
-      `;
-
-      const response = await fetch('https://api.monday.com/v2', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': this.config.apiToken as string,
-        },
-        body: JSON.stringify({ query }),
-      });
-
-      const result = await response.json();
-
-      if (result.errors && result.errors.length > 0) {
-        return {
-          success: false,
-          error: `Failed to delete user: ${result.errors[0].message}`,
-        };
-      }
+      await this.setUserEnabled(userId, false);
 
       return {
         success: true,
@@ -409,43 +592,33 @@ export class MondayModule implements IPlatformModule {
     }
   }
 
+  // Also used to poll invitations: pending users report PENDING until they accept
   async getUser(userId: string): Promise<PlatformResponse> {
     if (!this.isInitialized) {
       return { success: false, error: 'Monday.com not initialized' };
     }
 
-    try {
-      const query = `
-        query {
-          users (ids: [${userId}]) {
-            id
-            name
-            email
-            created_at
-            enabled
-          }
-        }
-      `;
-
-      const response = await fetch('https://api.monday.com/v2', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': this.config.apiToken as string,
+    // Mock invitations are treated as accepted by the first poll
+    if (useMockData()) {
+      await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 300));
+      return {
+        success: true,
+        data: {
+          id: userId,
+          email: '',
+          status: PlatformUserStatus.ACTIVE,
         },
-        body: JSON.stringify({ query }),
-      });
-
-      const result = await response.json();
+      };
+    }
 
-      if (result.errors && result.errors.length > 0) {
-        return {
-          success: false,
-          error: `Failed to get user: ${result.errors[0].message}`,
-        };
-      }
+    try {
+      const data = await this.graphql<{ users: MondayUser[] }>(`
+        query ($ids: [ID!]) {
+          users (ids: $ids) { id name email enabled is_pending created_at }
+        }
+      `, { ids: [userId] });
 
-      const user = result.data?.users?.[0];
+      const user = data.users?.[0];
       if (!user) {
         return {
           success: false,
@@ -455,13 +628,7 @@ export class MondayModule implements IPlatformModule {
 
       return {
         success: true,
-        data: {
-          id: user.id,
-          email: user.email,
-          displayName: user.name,
-          status: user.enabled ? 'active' : 'inactive',
-          createdAt: user.created_at,
-        },
+        data: this.toPlatformUser(user),
       };
     } catch (error) {
       return {
@@ -477,52 +644,52 @@ export class MondayModule implements IPlatformModule {
     }
 
     try {
-      const query = `
+      const data = await this.graphql<{ users: MondayUser[] }>(`
         query {
-          users {
-            id
-            name
-            email
-            created_at
-            enabled
-          }
+          users { id name email enabled is_pending created_at }
         }
-      `;
+      `);
 
-      const response = await fetch('https://api.monday.com/v2', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': this.config.apiToken as string,
-        },
-        body: JSON.stringify({ query }),
-      });
+      return {
+        success: true,
+        data: (data.users || []).map(user => this.toPlatformUser(user)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to list users: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
 
-      const result = await response.json();
+  // Monday.com only exposes when a user was last active, so that is reported
+  // as a single event; its timestamp keeps the ID stable across syncs
+  async getActivity(userId: string, range: PlatformActivityRange): Promise<PlatformResponse<PlatformActivityEvent[]>> {
+    if (!this.isInitialized) {
+      return { success: false, error: 'Monday.com not initialized' };
+    }
 
-      if (result.errors && result.errors.length > 0) {
-        return {
-          success: false,
-          error: `Failed to list users: ${result.errors[0].message}`,
-        };
-      }
+    try {
+      const data = await this.graphql<{ users: Array<{ id: string; last_activity?: string | null }> }>(`
+        query ($ids: [ID!]) {
+          users (ids: $ids) { id last_activity }
+        }
+      `, { ids: [userId] });
 
-      const users = result.data?.users || [];
+      const lastActivity = data.users?.[0]?.last_activity;
+      const occurredAt = lastActivity ? new Date(lastActivity) : null;
+      if (!occurredAt || occurredAt < range.from || occurredAt > range.to) {
+        return { success: true, data: [] };
+      }
 
       return {
         success: true,
-        data: users.map((user: any) => ({
-          id: user.id,
-          email: user.email,
-          displayName: user.name,
-          status: user.enabled ? 'active' : 'inactive',
-          createdAt: user.created_at,
-        })),
+        data: [{ id: `last_activity:${userId}:${occurredAt.toISOString()}`, userId, action: 'last_active', occurredAt }],
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to list users: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error: `Failed to get activity: ${error instanceof Error ? error.message : 'Unknown error'}`,
       };
     }
   }
@@ -564,6 +731,7 @@ export class MondayModule implements IPlatformModule {
   }
 
   validateConfig(config: PlatformConfig): boolean {
-    return !!(config.apiToken && typeof config.apiToken === 'string' && config.apiToken.length > 0);
+    const token = config.oAuthToken || config.apiToken;
+    return !!(token && typeof token === 'string' && token.length > 0);
   }
 }
\ No newline at end of file
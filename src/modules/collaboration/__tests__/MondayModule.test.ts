@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest';
+import { MondayModule } from '../MondayModule';
+import { setPlatformTransport, type PlatformGatewayRequest, type PlatformTransport } from '../../../services/platformTransport';
+import type { PlatformGraphQLRequest } from '../../../services/platformVendors';
+import { PlatformUserStatus } from '../../../types/platform.types';
+
+vi.mock('../../../config/environment', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../../config/environment')>()),
+  useMockData: () => false
+}));
+
+// In-memory stand-in for Monday's GraphQL API, answering by mutation or query name
+interface StandInUser {
+  id: string;
+  name: string;
+  email: string;
+  enabled: boolean;
+  is_pending: boolean;
+}
+
+interface StandInState {
+  users: StandInUser[];
+  teams: Record<string, string[]>;
+  boards: Record<string, string[]>;
+  workspaces: Record<string, string[]>;
+  deactivateErrors: Array<{ message: string; code: string; user_id: string }>;
+}
+
+let state: StandInState;
+const operations: string[] = [];
+
+function answer(query: string, variables: Record<string, unknown>): unknown {
+  const userIds = (variables.userIds as string[] | undefined) || [];
+  const operation = /(invite_users|add_users_to_team|add_users_to_board|add_users_to_workspace|activate_users|deactivate_users|users)\s*\(/.exec(query)?.[1];
+  operations.push(operation || 'unknown');
+
+  switch (operation) {
+    case 'invite_users': {
+      const invited = (variables.emails as string[]).map((email, index) => {
+        const user = { id: String(900 + state.users.length + index), name: '', email, enabled: true, is_pending: true };
+        state.users.push(user);
+        return user;
+      });
+      return { invite_users: { invited_users: invited, errors: null } };
+    }
+    case 'add_users_to_team': {
+      const teamId = String(variables.teamId);
+      if (!state.teams[teamId]) {
+        return { add_users_to_team: { successful_users: [], failed_users: userIds.map(id => ({ id })) } };
+      }
+      state.teams[teamId].push(...userIds);
+      return { add_users_to_team: { successful_users: userIds.map(id => ({ id })), failed_users: [] } };
+    }
+    case 'add_users_to_board':
+      (state.boards[String(variables.boardId)] ||= []).push(...userIds);
+      return { add_users_to_board: userIds.map(id => ({ id })) };
+    case 'add_users_to_workspace':
+      (state.workspaces[String(variables.workspaceId)] ||= []).push(...userIds);
+      return { add_users_to_workspace: userIds.map(id => ({ id })) };
+    case 'activate_users':
+      state.users.filter(user => userIds.includes(user.id)).forEach(user => (user.enabled = true));
+      return { activate_users: { activated_users: userIds.map(id => ({ id })), errors: null } };
+    case 'deactivate_users': {
+      const failed = state.deactivateErrors.filter(error => userIds.includes(error.user_id));
+      const deactivated = userIds.filter(id => !failed.some(error => error.user_id === id));
+      state.users.filter(user => deactivated.includes(user.id)).forEach(user => (user.enabled = false));
+      return { deactivate_users: { deactivated_users: deactivated.map(id => ({ id })), errors: failed.length ? failed : null } };
+    }
+    case 'users': {
+      const emails = (variables.emails as string[] | undefined)?.map(email => email.toLowerCase());
+      const ids = variables.ids as string[] | undefined;
+      return {
+        users: state.users.filter(user => (emails ? emails.includes(user.email.toLowerCase()) : true) && (ids ? ids.includes(user.id) : true))
+      };
+    }
+    default:
+      throw new Error(`Unexpected query: ${query}`);
+  }
+}
+
+const transport: PlatformTransport = {
+  async send<T>(request: PlatformGatewayRequest) {
+    const { query, variables } = request.payload as PlatformGraphQLRequest;
+    return { success: true, data: { data: answer(query, variables || {}) } as T };
+  }
+};
+
+const credentials = {
+  email: 'jo@example.com',
+  username: 'jo',
+  firstName: 'Jo',
+  lastName: 'Editor'
+};
+
+describe('MondayModule', () => {
+  let monday: MondayModule;
+
+  beforeEach(async () => {
+    state = { users: [], teams: { '11': [] }, boards: {}, workspaces: {}, deactivateErrors: [] };
+    operations.length = 0;
+    setPlatformTransport(transport);
+    monday = new MondayModule();
+    await monday.initialize({ apiToken: 'token', workspaceId: '77' });
+  });
+
+  afterAll(() => {
+    setPlatformTransport(null);
+  });
+
+  describe('createUser', () => {
+    it('invites a new user and assigns teams, boards and the default workspace', async () => {
+      const result = await monday.createUser({ ...credentials, metadata: { teamIds: '11', boardIds: ['21', '22'] } });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ email: 'jo@example.com', status: PlatformUserStatus.PENDING });
+      expect(result.data.metadata).toMatchObject({ invited: true, teamIds: ['11'], boardIds: ['21', '22'], workspaceIds: ['77'] });
+
+      const userId = result.data.id;
+      expect(state.teams['11']).toEqual([userId]);
+      expect(state.boards).toEqual({ '21': [userId], '22': [userId] });
+      expect(state.workspaces).toEqual({ '77': [userId] });
+    });
+
+    it('fails when an assignment is refused, so the step can be retried', async () => {
+      const result = await monday.createUser({ ...credentials, metadata: { teamIds: '11,12' } });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('could not be added to team 12');
+    });
+
+    it('reuses an existing account instead of inviting again', async () => {
+      state.users.push({ id: '500', name: 'Jo', email: 'JO@example.com', enabled: true, is_pending: false });
+
+      const result = await monday.createUser(credentials);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ id: '500', status: PlatformUserStatus.ACTIVE });
+      expect(operations).not.toContain('invite_users');
+    });
+
+    it('reactivates a deactivated account before reporting it active', async () => {
+      state.users.push({ id: '500', name: 'Jo', email: 'jo@example.com', enabled: false, is_pending: false });
+
+      const result = await monday.createUser(credentials);
+
+      expect(result.success).toBe(true);
+      expect(result.data.status).toBe(PlatformUserStatus.ACTIVE);
+      expect(operations).toContain('activate_users');
+      expect(state.users[0].enabled).toBe(true);
+    });
+  });
+
+  describe('invitation polling', () => {
+    it('reports an invite as pending until it is accepted', async () => {
+      const { data } = await monday.createUser(credentials);
+
+      expect((await monday.getUser(data.id)).data.status).toBe(PlatformUserStatus.PENDING);
+
+      state.users[0].is_pending = false;
+      expect((await monday.getUser(data.id)).data.status).toBe(PlatformUserStatus.ACTIVE);
+    });
+
+    it('fails when the user is gone', async () => {
+      const result = await monday.getUser('404');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not found');
+    });
+  });
+
+  describe('deleteUser', () => {
+    it('deactivates the account', async () => {
+      state.users.push({ id: '500', name: 'Jo', email: 'jo@example.com', enabled: true, is_pending: false });
+
+      const result = await monday.deleteUser('500');
+
+      expect(result.success).toBe(true);
+      expect(state.users[0].enabled).toBe(false);
+    });
+
+    it('fails when Monday reports an error for the user', async () => {
+      state.users.push({ id: '500', name: 'Jo', email: 'jo@example.com', enabled: true, is_pending: false });
+      state.deactivateErrors.push({ message: 'Cannot deactivate the account owner', code: 'CANNOT_DEACTIVATE', user_id: '500' });
+
+      const result = await monday.deleteUser('500');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Cannot deactivate the account owner');
+      expect(state.users[0].enabled).toBe(true);
+    });
+  });
+});
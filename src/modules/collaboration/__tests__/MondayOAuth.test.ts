@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { MondayModule } from '../MondayModule';
+import {
+  buildAuthorizeUrl,
+  exchangeAuthorizationCode,
+  OAuthError,
+  refreshAccessToken,
+  signOAuthState,
+  tokenNeedsRefresh,
+  tokenUpdates,
+  verifyOAuthState
+} from '../../../services/platformOAuth';
+import type { VendorConfig } from '../../../services/platformVendors';
+
+// Local stand-in for Monday's authorization server: issues one code, swaps it
+// for tokens and rotates the refresh token on every refresh
+interface StandInState {
+  issuedCode: string;
+  refreshToken: string;
+  accessTokens: number;
+  lastGrant?: Record<string, string>;
+}
+
+const CLIENT_ID = 'client-1';
+const CLIENT_SECRET = 'client-secret-1';
+const REDIRECT_URI = 'https://app.example.com/auth/platform-callback';
+const STATE_KEY = 'c3RhdGUta2V5LWZvci10ZXN0cy0zMi1ieXRlcy1sb25n';
+
+let state: StandInState;
+let server: Server;
+let config: VendorConfig;
+
+const mondayModule = new MondayModule();
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readForm = (req: IncomingMessage) =>
+  new Promise<Record<string, string>>(resolve => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => resolve(Object.fromEntries(new URLSearchParams(raw))));
+  });
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== 'POST' || req.url !== '/oauth2/token') {
+    return send(res, 404, { error: 'not_found' });
+  }
+
+  const form = await readForm(req);
+  state.lastGrant = form;
+  if (form.client_id !== CLIENT_ID || form.client_secret !== CLIENT_SECRET) {
+    return send(res, 401, { error: 'invalid_client', error_description: 'Unknown client' });
+  }
+
+  const valid = form.grant_type === 'authorization_code'
+    ? form.code === state.issuedCode && form.redirect_uri === REDIRECT_URI
+    : form.grant_type === 'refresh_token' && form.refresh_token === state.refreshToken;
+  if (!valid) {
+    return send(res, 400, { error: 'invalid_grant', error_description: 'Grant is invalid or was already used' });
+  }
+
+  // Codes are single use
+  state.issuedCode = '';
+  state.accessTokens += 1;
+  state.refreshToken = `refresh-${state.accessTokens}`;
+  return send(res, 200, {
+    access_token: `access-${state.accessTokens}`,
+    refresh_token: state.refreshToken,
+    token_type: 'Bearer',
+    expires_in: 3600,
+    scope: 'me:read users:write'
+  });
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    handle(req, res).catch(error => send(res, 500, { error: String(error) }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  state = { issuedCode: 'code-1', refreshToken: '', accessTokens: 0 };
+  const { port } = server.address() as AddressInfo;
+  config = { clientId: CLIENT_ID, clientSecret: CLIENT_SECRET, oAuthBaseUrl: `http://127.0.0.1:${port}` };
+});
+
+describe('Monday.com OAuth', () => {
+  it('advertises OAuth and accepts an OAuth token in place of an API token', async () => {
+    expect(mondayModule.metadata.supportsOAuth).toBe(true);
+    expect(mondayModule.validateConfig({ oAuthToken: 'access-1' })).toBe(true);
+    expect(mondayModule.validateConfig({})).toBe(false);
+    expect(mondayModule.metadata.configSchema.safeParse({ clientId: CLIENT_ID, clientSecret: CLIENT_SECRET }).success).toBe(true);
+    expect(mondayModule.metadata.configSchema.safeParse({ clientId: CLIENT_ID }).success).toBe(false);
+  });
+
+  it('builds the authorize URL against the configured authorization server', () => {
+    const url = new URL(buildAuthorizeUrl('monday', config, REDIRECT_URI, 'state-1'));
+
+    expect(url.origin + url.pathname).toBe(`${config.oAuthBaseUrl}/oauth2/authorize`);
+    expect(url.searchParams.get('client_id')).toBe(CLIENT_ID);
+    expect(url.searchParams.get('redirect_uri')).toBe(REDIRECT_URI);
+    expect(url.searchParams.get('response_type')).toBe('code');
+    expect(url.searchParams.get('state')).toBe('state-1');
+    expect(url.searchParams.get('scope')).toContain('users:write');
+  });
+
+  it('keeps the client secret on Monday unless the override is a local server', async () => {
+    const requested: string[] = [];
+    const recordingFetch = (async (input: string | URL | Request) => {
+      requested.push(String(input));
+      return new Response(JSON.stringify({ access_token: 'access-1' }), { status: 200 });
+    }) as typeof fetch;
+
+    await exchangeAuthorizationCode('monday', { ...config, oAuthBaseUrl: 'https://collector.example.com' }, 'code-1', REDIRECT_URI, recordingFetch);
+
+    expect(requested).toEqual(['https://auth.monday.com/oauth2/token']);
+  });
+
+  it('exchanges the code for tokens once', async () => {
+    const tokens = await exchangeAuthorizationCode('monday', config, 'code-1', REDIRECT_URI);
+
+    expect(tokens.accessToken).toBe('access-1');
+    expect(tokens.refreshToken).toBe('refresh-1');
+    expect(Date.parse(tokens.expiresAt!)).toBeGreaterThan(Date.now() + 3500 * 1000);
+    expect(state.lastGrant?.grant_type).toBe('authorization_code');
+
+    await expect(exchangeAuthorizationCode('monday', config, 'code-1', REDIRECT_URI))
+      .rejects.toThrow('Grant is invalid or was already used');
+  });
+
+  it('refreshes with the stored refresh token and picks up the rotated one', async () => {
+    const first = await exchangeAuthorizationCode('monday', config, 'code-1', REDIRECT_URI);
+    const updates = tokenUpdates(await refreshAccessToken('monday', { ...config, oAuthRefreshToken: first.refreshToken }));
+
+    expect(updates.secrets).toEqual({ oAuthToken: 'access-2', oAuthRefreshToken: 'refresh-2' });
+    expect(updates.config.oAuthScope).toBe('me:read users:write');
+    expect(state.lastGrant?.refresh_token).toBe('refresh-1');
+
+    // The rotated-out refresh token no longer works
+    await expect(refreshAccessToken('monday', { ...config, oAuthRefreshToken: 'refresh-1' }))
+      .rejects.toBeInstanceOf(OAuthError);
+  });
+
+  it('reports rejected client credentials with the provider status', async () => {
+    const error = await exchangeAuthorizationCode('monday', { ...config, clientSecret: 'wrong' }, 'code-1', REDIRECT_URI)
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(OAuthError);
+    expect(error.status).toBe(401);
+    expect(error.message).toContain('Unknown client');
+  });
+
+  it('reports an unreachable authorization server as a network error', async () => {
+    const error = await refreshAccessToken('monday', { ...config, oAuthBaseUrl: 'http://127.0.0.1:1', oAuthRefreshToken: 'r' })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(OAuthError);
+    expect(error.status).toBe(0);
+  });
+
+  it('refreshes tokens shortly before they expire', () => {
+    const now = Date.now();
+    expect(tokenNeedsRefresh({ oAuthExpiresAt: new Date(now + 60 * 1000).toISOString() }, now)).toBe(true);
+    expect(tokenNeedsRefresh({ oAuthExpiresAt: new Date(now + 60 * 60 * 1000).toISOString() }, now)).toBe(false);
+    expect(tokenNeedsRefresh({}, now)).toBe(false);
+  });
+
+  it('signs state and rejects tampered or expired state', async () => {
+    const now = Date.now();
+    const payload = { platformId: 'monday', organizationId: 'org-1', userId: 'user-1', redirectUri: REDIRECT_URI };
+    const signed = await signOAuthState(STATE_KEY, payload, now);
+
+    expect(await verifyOAuthState(STATE_KEY, signed, now)).toMatchObject(payload);
+    expect(await verifyOAuthState('another-key', signed, now)).toBeNull();
+    expect(await verifyOAuthState(STATE_KEY, `x${signed}`, now)).toBeNull();
+    expect(await verifyOAuthState(STATE_KEY, signed, now + 11 * 60 * 1000)).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { PlatformCapability, PlatformCategory, type PlatformModuleManifest } from '../../types/platform.types';
+
+export const manifest: PlatformModuleManifest = {
+  id: 'monday',
+  displayName: 'Monday.com',
+  version: '1.2.0',
+  category: PlatformCategory.COLLABORATION,
+  capabilities: [
+    PlatformCapability.USER_MANAGEMENT,
+    PlatformCapability.TEAM_COLLABORATION,
+    PlatformCapability.GROUP_MANAGEMENT,
+    PlatformCapability.PROJECT_MANAGEMENT,
+    PlatformCapability.ACTIVITY_MONITORING,
+  ],
+  configSchema: z.object({
+    apiToken: z.string().optional().describe('Your Monday.com API token (get from Admin > Developers > API); not needed when connecting with OAuth'),
+    workspaceId: z.string().optional().describe('Workspace new users are added to when the template names none (optional)'),
+    clientId: z.string().optional().describe('Client ID of your Monday.com app, for connecting with OAuth'),
+    clientSecret: z.string().optional().describe('Client secret of your Monday.com app'),
+    oAuthBaseUrl: z.string().url().optional().describe('Local authorization server for testing, e.g. http://localhost:4000 (optional)'),
+  }).refine(
+    config => !!config.apiToken || (!!config.clientId && !!config.clientSecret),
+    { message: 'Enter an API token, or a client ID and secret to connect with OAuth', path: ['apiToken'] }
+  ),
+  load: () => import('./MondayModule').then(({ MondayModule }) => new MondayModule()),
+};
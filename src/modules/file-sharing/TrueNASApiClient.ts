@@ -0,0 +1,384 @@
+import {
+  getPlatformTransport,
+  transportStatus,
+  type PlatformTransport
+} from '../../services/platformTransport';
+import type { PlatformHttpMethod } from '../../services/platformVendors';
+import type { TrueNASConfig, TrueNASGroup, TrueNASShare } from './truenasSchemas';
+
+export interface TrueNASUser {
+  id: number;
+  uid: number;
+  username: string;
+  full_name: string;
+  email?: string | null;
+  group: {
+    id: number;
+    gid: number;
+    name: string;
+  };
+  groups: number[];
+  home: string;
+  shell: string;
+  locked: boolean;
+  smb: boolean;
+  sshpubkey?: string;
+  builtin: boolean;
+}
+
+export interface TrueNASGroupResponse {
+  id: number;
+  gid: number;
+  name: string;
+  builtin: boolean;
+  sudo: boolean;
+  smb: boolean;
+  users: number[];
+}
+
+export interface TrueNASSMBShare {
+  id: number;
+  name: string;
+  path: string;
+  comment?: string;
+  enabled: boolean;
+  browsable: boolean;
+  ro: boolean;
+  guestok: boolean;
+  hostsallow?: string[];
+  hostsdeny?: string[];
+  auxsmbconf?: string;
+}
+
+export interface TrueNASDataset {
+  id: string;
+  name: string;
+  mountpoint: string;
+}
+
+// NFSv4 ACL entry as accepted by filesystem/setacl
+export interface TrueNASAclEntry {
+  tag: 'owner@' | 'group@' | 'everyone@' | 'USER' | 'GROUP';
+  id: number | null;
+  type: 'ALLOW' | 'DENY';
+  perms: { BASIC: 'FULL_CONTROL' | 'MODIFY' | 'READ' | 'TRAVERSE' };
+  flags: { BASIC: 'INHERIT' | 'NOINHERIT' };
+}
+
+interface CreateUserRequest {
+  username: string;
+  password: string;
+  full_name: string;
+  email?: string;
+  group?: number;
+  group_create?: boolean;
+  groups?: number[];
+  home?: string;
+  shell?: string;
+  smb?: boolean;
+  locked?: boolean;
+}
+
+interface UpdateUserRequest {
+  full_name?: string;
+  email?: string;
+  password?: string;
+  group?: number;
+  groups?: number[];
+  home?: string;
+  shell?: string;
+  smb?: boolean;
+  locked?: boolean;
+}
+
+export class TrueNASApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'TrueNASApiError';
+  }
+}
+
+// Maps an HTTP failure onto the messages the module and retry policy expect
+function mapError(status: number, detail: string): TrueNASApiError {
+  switch (status) {
+    case 0:
+      return new TrueNASApiError(
+        detail.includes('timeout')
+          ? 'TrueNAS request timeout'
+          : 'No response from TrueNAS (network error). Please check your connection',
+        0
+      );
+    case 401:
+      return new TrueNASApiError('Invalid API key or unauthorized access', status);
+    case 403:
+      return new TrueNASApiError('Insufficient permissions', status);
+    case 404:
+      return new TrueNASApiError('Resource not found', status);
+    case 422:
+      return new TrueNASApiError(`Validation error: ${detail}`, status);
+    case 500:
+    case 502:
+    case 503:
+      return new TrueNASApiError(`TrueNAS service is not available (${status})`, status);
+    default:
+      return new TrueNASApiError(`TrueNAS API error: ${detail}`, status);
+  }
+}
+
+export class TrueNASApiClient {
+  constructor(
+    private readonly config: TrueNASConfig,
+    private readonly transport?: PlatformTransport
+  ) {}
+
+  // Calls go through the platform gateway, which holds the API key server-side
+  private async request<T>(
+    method: PlatformHttpMethod,
+    path: string,
+    options: { query?: Record<string, string | number | boolean>; body?: unknown } = {}
+  ): Promise<T> {
+    const response = await (this.transport || getPlatformTransport()).send<T>({
+      platformId: 'truenas',
+      action: 'request',
+      payload: { method, path, query: options.query, body: options.body },
+      config: this.config
+    });
+
+    if (!response.success) {
+      throw mapError(transportStatus(response), response.error || 'Unknown error');
+    }
+    return response.data as T;
+  }
+
+  // User Management
+  async createUser(data: CreateUserRequest): Promise<TrueNASUser> {
+    // The create endpoint returns the new user's id rather than the record
+    const response = await this.request<number | TrueNASUser>('POST', '/user', {
+      body: {
+        ...data,
+        password_disabled: false,
+        smb: data.smb !== false, // Default to true
+        shell: data.shell || '/usr/bin/zsh'
+      }
+    });
+    return typeof response === 'number' ? this.getUser(response) : response;
+  }
+
+  async getUser(userId: number): Promise<TrueNASUser> {
+    return this.request<TrueNASUser>('GET', `/user/id/${userId}`);
+  }
+
+  async getUserByUsername(username: string): Promise<TrueNASUser | null> {
+    const response = await this.request<TrueNASUser[]>('GET', '/user', {
+      query: { username, limit: 1 }
+    });
+    return response.length > 0 ? response[0] : null;
+  }
+
+  async updateUser(userId: number, data: UpdateUserRequest): Promise<TrueNASUser> {
+    const response = await this.request<number | TrueNASUser>('PUT', `/user/id/${userId}`, { body: data });
+    return typeof response === 'number' ? this.getUser(response) : response;
+  }
+
+  async deleteUser(userId: number): Promise<void> {
+    await this.request('DELETE', `/user/id/${userId}`, { body: { delete_group: true } });
+  }
+
+  async listUsers(options?: {
+    limit?: number;
+    offset?: number;
+    includeBuiltin?: boolean
+  }): Promise<TrueNASUser[]> {
+    const params: Record<string, string | number | boolean> = {
+      limit: options?.limit || 50,
+      offset: options?.offset || 0,
+      sort: 'username'
+    };
+
+    if (!options?.includeBuiltin) {
+      params.builtin = false;
+    }
+
+    return this.request<TrueNASUser[]>('GET', '/user', { query: params });
+  }
+
+  // Group Management
+  async createGroup(data: TrueNASGroup): Promise<TrueNASGroupResponse> {
+    const response = await this.request<number | TrueNASGroupResponse>('POST', '/group', {
+      body: {
+        name: data.name,
+        gid: data.gid,
+        sudo: data.sudo || false,
+        smb: data.smb !== false // Default to true
+      }
+    });
+    return typeof response === 'number' ? this.getGroup(response) : response;
+  }
+
+  async getGroup(groupId: number): Promise<TrueNASGroupResponse> {
+    return this.request<TrueNASGroupResponse>('GET', `/group/id/${groupId}`);
+  }
+
+  async getGroupByName(name: string): Promise<TrueNASGroupResponse | null> {
+    const response = await this.request<TrueNASGroupResponse[]>('GET', '/group', {
+      query: { group: name, limit: 1 }
+    });
+    return response.length > 0 ? response[0] : null;
+  }
+
+  async updateGroup(groupId: number, data: Partial<TrueNASGroup>): Promise<TrueNASGroupResponse> {
+    const response = await this.request<number | TrueNASGroupResponse>('PUT', `/group/id/${groupId}`, { body: data });
+    return typeof response === 'number' ? this.getGroup(response) : response;
+  }
+
+  async deleteGroup(groupId: number): Promise<void> {
+    await this.request('DELETE', `/group/id/${groupId}`);
+  }
+
+  async listGroups(options?: { includeBuiltin?: boolean }): Promise<TrueNASGroupResponse[]> {
+    const params: Record<string, string | number | boolean> = {
+      limit: 100,
+      offset: 0,
+      sort: 'group'
+    };
+
+    if (!options?.includeBuiltin) {
+      params.builtin = false;
+    }
+
+    return this.request<TrueNASGroupResponse[]>('GET', '/group', { query: params });
+  }
+
+  async addUserToGroup(userId: number, groupId: number): Promise<void> {
+    const user = await this.getUser(userId);
+    const currentGroups = user.groups || [];
+
+    if (!currentGroups.includes(groupId)) {
+      await this.updateUser(userId, {
+        groups: [...currentGroups, groupId]
+      });
+    }
+  }
+
+  async removeUserFromGroup(userId: number, groupId: number): Promise<void> {
+    const user = await this.getUser(userId);
+    const currentGroups = user.groups || [];
+
+    if (currentGroups.includes(groupId)) {
+      await this.updateUser(userId, {
+        groups: currentGroups.filter(id => id !== groupId)
+      });
+    }
+  }
+
+  // Datasets back per-user shares so each share has its own ACL
+  async getDataset(name: string): Promise<TrueNASDataset | null> {
+    try {
+      return await this.request<TrueNASDataset>('GET', `/pool/dataset/id/${encodeURIComponent(name)}`);
+    } catch (error) {
+      if (error instanceof TrueNASApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async createDataset(name: string): Promise<TrueNASDataset> {
+    return this.request<TrueNASDataset>('POST', '/pool/dataset', {
+      body: { name, share_type: 'SMB' }
+    });
+  }
+
+  // SMB Share Management
+  async createSMBShare(data: TrueNASShare): Promise<TrueNASSMBShare> {
+    return this.request<TrueNASSMBShare>('POST', '/sharing/smb', {
+      body: {
+        name: data.name,
+        path: data.path,
+        comment: data.comment,
+        enabled: data.enabled !== false,
+        browsable: data.browsable !== false,
+        ro: data.readonly === true,
+        guestok: data.guestok === true,
+        hostsallow: data.hostsallow || [],
+        hostsdeny: data.hostsdeny || []
+      }
+    });
+  }
+
+  async getSMBShare(shareId: number): Promise<TrueNASSMBShare> {
+    return this.request<TrueNASSMBShare>('GET', `/sharing/smb/id/${shareId}`);
+  }
+
+  async updateSMBShare(shareId: number, data: Partial<TrueNASShare>): Promise<TrueNASSMBShare> {
+    const updateData: Record<string, unknown> = {};
+
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.path !== undefined) updateData.path = data.path;
+    if (data.comment !== undefined) updateData.comment = data.comment;
+    if (data.enabled !== undefined) updateData.enabled = data.enabled;
+    if (data.browsable !== undefined) updateData.browsable = data.browsable;
+    if (data.readonly !== undefined) updateData.ro = data.readonly;
+    if (data.guestok !== undefined) updateData.guestok = data.guestok;
+    if (data.hostsallow !== undefined) updateData.hostsallow = data.hostsallow;
+    if (data.hostsdeny !== undefined) updateData.hostsdeny = data.hostsdeny;
+
+    return this.request<TrueNASSMBShare>('PUT', `/sharing/smb/id/${shareId}`, { body: updateData });
+  }
+
+  async deleteSMBShare(shareId: number): Promise<void> {
+    await this.request('DELETE', `/sharing/smb/id/${shareId}`);
+  }
+
+  async listSMBShares(): Promise<TrueNASSMBShare[]> {
+    return this.request<TrueNASSMBShare[]>('GET', '/sharing/smb');
+  }
+
+  // ACL and Permissions
+  async setSharePermissions(path: string, options: {
+    owner?: string;
+    group?: string;
+    mode?: string;
+    recursive?: boolean;
+  }): Promise<void> {
+    await this.request('POST', '/filesystem/setperm', {
+      body: {
+        path,
+        user: options.owner,
+        group: options.group,
+        mode: options.mode || '770',
+        options: {
+          recursive: options.recursive === true,
+          traverse: false
+        }
+      }
+    });
+  }
+
+  async getShareACL(path: string): Promise<{ acltype: string; acl: TrueNASAclEntry[] }> {
+    return this.request<{ acltype: string; acl: TrueNASAclEntry[] }>('POST', '/filesystem/getacl', { body: { path } });
+  }
+
+  async setShareACL(path: string, acl: TrueNASAclEntry[], owner?: { uid?: number; gid?: number }): Promise<void> {
+    await this.request('POST', '/filesystem/setacl', {
+      body: {
+        path,
+        dacl: acl,
+        acltype: 'NFS4',
+        uid: owner?.uid,
+        gid: owner?.gid,
+        options: {
+          recursive: true,
+          traverse: false
+        }
+      }
+    });
+  }
+
+  // System Information
+  async testConnection(): Promise<{ version: string; hostname: string }> {
+    const response = await this.request<{ version: string; hostname: string }>('GET', '/system/info');
+    return {
+      version: response.version,
+      hostname: response.hostname
+    };
+  }
+}
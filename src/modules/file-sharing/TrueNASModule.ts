@@ -0,0 +1,605 @@
+// TrueNASModule provisions SMB users, groups and per-freelancer shares
+
+import { PlatformUserStatus } from '../../types/platform.types';
+import type {
+  IPlatformModule,
+  PlatformUser,
+  PlatformResponse,
+  PlatformCredentials,
+  PlatformConfig,
+  PlatformGroup,
+  PlatformGroupManager,
+  PlatformMetadata
+} from '../../types/platform.types';
+import {
+  TrueNASApiClient,
+  TrueNASApiError,
+  type TrueNASAclEntry,
+  type TrueNASGroupResponse,
+  type TrueNASSMBShare,
+  type TrueNASUser
+} from './TrueNASApiClient';
+import { trueNASConfigSchema, type TrueNASConfig } from './truenasSchemas';
+import { manifest } from './truenas.manifest';
+
+// TrueNAS usernames are limited to 32 lowercase characters
+const MAX_USERNAME_LENGTH = 32;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+const isNotFound = (error: unknown) => error instanceof TrueNASApiError && error.status === 404;
+
+export interface TrueNASGroupSummary {
+  id: number;
+  gid: number;
+  name: string;
+  sudo: boolean;
+  smb: boolean;
+  users: number[];
+}
+
+export interface TrueNASShareSummary {
+  id: number;
+  name: string;
+  path: string;
+  comment?: string;
+  enabled: boolean;
+  readonly: boolean;
+  guestAccess: boolean;
+}
+
+export interface TrueNASPermissions {
+  owner?: string;
+  group?: string;
+  mode?: string;
+  recursive?: boolean;
+}
+
+export function toTrueNASUsername(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/@.*$/, '')
+    .replace(/[^a-z0-9_-]+/g, '_')
+    .replace(/^[^a-z]+/, '')
+    .slice(0, MAX_USERNAME_LENGTH);
+}
+
+// Random SMB password for accounts created without one; never stored by us
+export function generateTrueNASPassword(length = 20): string {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789!#%+=?';
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => alphabet[byte % alphabet.length]).join('');
+}
+
+const toGroupSummary = (group: TrueNASGroupResponse): TrueNASGroupSummary => ({
+  id: group.id,
+  gid: group.gid,
+  name: group.name,
+  sudo: group.sudo,
+  smb: group.smb,
+  users: group.users
+});
+
+const toPlatformGroup = (group: TrueNASGroupSummary): PlatformGroup => ({
+  id: String(group.id),
+  name: group.name,
+  memberCount: group.users.length
+});
+
+const toShareSummary = (share: TrueNASSMBShare): TrueNASShareSummary => ({
+  id: share.id,
+  name: share.name,
+  path: share.path,
+  comment: share.comment,
+  enabled: share.enabled,
+  readonly: share.ro,
+  guestAccess: share.guestok
+});
+
+export class TrueNASModule implements IPlatformModule {
+  public readonly metadata: PlatformMetadata = {
+    id: manifest.id,
+    name: 'TrueNAS',
+    displayName: manifest.displayName,
+    description: 'SMB accounts and private shares on a TrueNAS storage server',
+    category: manifest.category,
+    version: manifest.version,
+    icon: '🗄️',
+    color: '#0095D5',
+    website: 'https://www.truenas.com',
+    documentation: 'https://www.truenas.com/docs/api/',
+    documentationUrl: 'https://www.truenas.com/docs/api/',
+    features: [
+      'SMB user provisioning',
+      'Group membership',
+      'Private per-freelancer shares',
+      'NFSv4 ACLs',
+    ],
+    capabilities: manifest.capabilities,
+    requiredFields: ['apiUrl', 'apiKey'],
+    optionalFields: ['defaultGroup', 'smbSharePath', 'createUserShare', 'timeout'],
+    configSchema: manifest.configSchema,
+  };
+
+  private config: TrueNASConfig | null = null;
+  private apiClient: TrueNASApiClient | null = null;
+  private isInitialized: boolean = false;
+
+  // TrueNAS groups have no description, so one passed to createGroup is dropped
+  public readonly groups: PlatformGroupManager = {
+    listGroups: async () => {
+      const result = await this.listGroups();
+      return result.success ? { success: true, data: result.data!.map(toPlatformGroup) } : { success: false, error: result.error };
+    },
+    createGroup: async name => {
+      const result = await this.createGroup(name);
+      return result.success ? { success: true, data: toPlatformGroup(result.data!) } : { success: false, error: result.error };
+    },
+    addMember: (userId, groupId) => this.assignUserToGroup(userId, groupId),
+    removeMember: (userId, groupId) => this.removeUserFromGroup(userId, groupId),
+  };
+
+  getRequiredConfigFields(): string[] {
+    return ['apiUrl', 'apiKey'];
+  }
+
+  async initialize(config: PlatformConfig): Promise<PlatformResponse> {
+    const validation = trueNASConfigSchema.safeParse(config);
+    if (!validation.success) {
+      return {
+        success: false,
+        error: `Invalid config: ${validation.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')}`,
+      };
+    }
+
+    this.config = validation.data;
+    this.apiClient = new TrueNASApiClient(validation.data);
+    this.isInitialized = true;
+
+    const testResult = await this.testConnection();
+    if (!testResult.success) {
+      this.isInitialized = false;
+      return {
+        success: false,
+        error: `Failed to initialize TrueNAS: ${testResult.error}`,
+      };
+    }
+
+    return { success: true, data: testResult.data };
+  }
+
+  validateConfig(config: PlatformConfig): boolean {
+    return trueNASConfigSchema.safeParse(config).success;
+  }
+
+  private requireClient(): TrueNASApiClient {
+    if (!this.isInitialized || !this.apiClient) {
+      throw new Error('Platform not initialized');
+    }
+    return this.apiClient;
+  }
+
+  private toPlatformUser(user: TrueNASUser): PlatformUser {
+    const [firstName, ...rest] = (user.full_name || '').split(/\s+/).filter(Boolean);
+    return {
+      id: user.id.toString(),
+      email: user.email || '',
+      firstName,
+      lastName: rest.join(' ') || undefined,
+      username: user.username,
+      displayName: user.full_name,
+      status: user.locked ? PlatformUserStatus.INACTIVE : PlatformUserStatus.ACTIVE,
+      metadata: {
+        uid: user.uid,
+        gid: user.group.gid,
+        groups: user.groups,
+        homeDirectory: user.home,
+        shell: user.shell,
+        smbEnabled: user.smb
+      }
+    };
+  }
+
+  // Group names from the request plus the configured default, resolved to IDs
+  private async resolveGroupIds(client: TrueNASApiClient, credentials: Partial<PlatformCredentials>): Promise<number[]> {
+    const requested = [
+      ...(Array.isArray(credentials.metadata?.groups) ? credentials.metadata.groups : []),
+      credentials.role,
+      this.config?.defaultGroup
+    ].filter((name): name is string => typeof name === 'string' && name.length > 0);
+
+    const ids: number[] = [];
+    for (const name of new Set(requested)) {
+      const group = await client.getGroupByName(name);
+      if (!group) {
+        throw new Error(`TrueNAS group "${name}" not found`);
+      }
+      ids.push(group.id);
+    }
+    return ids;
+  }
+
+  // The per-freelancer share lives in its own dataset under smbSharePath
+  private userSharePath(username: string): string | null {
+    if (!this.config?.createUserShare || !this.config.smbSharePath) return null;
+    return `${this.config.smbSharePath.replace(/\/+$/, '')}/${username}`;
+  }
+
+  private async provisionUserShare(client: TrueNASApiClient, user: TrueNASUser): Promise<TrueNASSMBShare | null> {
+    const path = this.userSharePath(user.username);
+    if (!path) return null;
+
+    const datasetName = path.replace(/^\/mnt\//, '');
+    if (!(await client.getDataset(datasetName))) {
+      await client.createDataset(datasetName);
+    }
+
+    // Only the freelancer and the server's own admins can reach the data
+    const acl: TrueNASAclEntry[] = [
+      { tag: 'owner@', id: null, type: 'ALLOW', perms: { BASIC: 'FULL_CONTROL' }, flags: { BASIC: 'INHERIT' } },
+      { tag: 'USER', id: user.uid, type: 'ALLOW', perms: { BASIC: 'FULL_CONTROL' }, flags: { BASIC: 'INHERIT' } },
+    ];
+    await client.setShareACL(path, acl, { uid: user.uid, gid: user.group.gid });
+
+    const existing = (await client.listSMBShares()).find(share => share.path === path);
+    if (existing) return existing;
+
+    return client.createSMBShare({
+      name: user.username,
+      path,
+      comment: `Private share for ${user.full_name}`,
+      browsable: false,
+      guestok: false
+    });
+  }
+
+  async testConnection(): Promise<PlatformResponse> {
+    try {
+      const info = await this.requireClient().testConnection();
+      return {
+        success: true,
+        data: {
+          connected: true,
+          version: info.version,
+          hostname: info.hostname
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: errorMessage(error),
+      };
+    }
+  }
+
+  async createUser(credentials: PlatformCredentials): Promise<PlatformResponse<PlatformUser>> {
+    try {
+      const client = this.requireClient();
+      const username = toTrueNASUsername(credentials.username || credentials.email);
+      if (!username) {
+        return { success: false, error: 'Could not derive a valid TrueNAS username' };
+      }
+
+      const groupIds = await this.resolveGroupIds(client, credentials);
+      const fullName = credentials.fullName || `${credentials.firstName} ${credentials.lastName}`.trim() || username;
+
+      // A re-run for the same freelancer picks up the account it created before
+      const existing = await client.getUserByUsername(username);
+      if (existing && (existing.email || '').toLowerCase() !== credentials.email.toLowerCase()) {
+        return { success: false, error: `User ${username} already exists` };
+      }
+
+      // Handed back once so the operator can pass it on, as resetPassword does
+      const initialPassword = existing || credentials.password ? undefined : generateTrueNASPassword();
+      const user = existing
+        ? await client.updateUser(existing.id, {
+            groups: Array.from(new Set([...existing.groups, ...groupIds])),
+            locked: false
+          })
+        : await client.createUser({
+            username,
+            password: credentials.password || initialPassword!,
+            full_name: fullName,
+            email: credentials.email,
+            group_create: true,
+            groups: groupIds,
+            smb: true
+          });
+
+      const share = await this.provisionUserShare(client, user);
+      const platformUser = this.toPlatformUser(user);
+
+      return {
+        success: true,
+        data: {
+          ...platformUser,
+          metadata: {
+            ...platformUser.metadata,
+            sharePath: share?.path,
+            shareName: share?.name
+          },
+          initialPassword
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create TrueNAS user: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async updateUser(userId: string, updates: Partial<PlatformCredentials>): Promise<PlatformResponse<PlatformUser>> {
+    try {
+      const client = this.requireClient();
+      const current = await client.getUser(parseInt(userId));
+      const fullName = updates.fullName || [updates.firstName, updates.lastName].filter(Boolean).join(' ');
+      const groupIds = updates.role || updates.metadata?.groups
+        ? await this.resolveGroupIds(client, updates)
+        : [];
+
+      const updated = await client.updateUser(current.id, {
+        full_name: fullName || undefined,
+        email: updates.email,
+        password: updates.password,
+        groups: groupIds.length > 0 ? Array.from(new Set([...current.groups, ...groupIds])) : undefined
+      });
+
+      return { success: true, data: this.toPlatformUser(updated) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update TrueNAS user: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  // Removes the account and its share definition; the dataset is kept for handover
+  async deleteUser(userId: string): Promise<PlatformResponse> {
+    try {
+      const client = this.requireClient();
+      const user = await client.getUser(parseInt(userId));
+
+      const path = this.userSharePath(user.username);
+      if (path) {
+        const share = (await client.listSMBShares()).find(s => s.path === path);
+        if (share) await client.deleteSMBShare(share.id);
+      }
+
+      await client.deleteUser(user.id);
+      return { success: true, data: { id: userId, deleted: true } };
+    } catch (error) {
+      // Already gone counts as removed so offboarding can be re-run safely
+      if (isNotFound(error)) {
+        return { success: true, data: { id: userId, deleted: true, alreadyRemoved: true } };
+      }
+      return {
+        success: false,
+        error: `Failed to delete TrueNAS user: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async getUser(userId: string): Promise<PlatformResponse<PlatformUser>> {
+    try {
+      const user = await this.requireClient().getUser(parseInt(userId));
+      return { success: true, data: this.toPlatformUser(user) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get TrueNAS user: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async listUsers(): Promise<PlatformResponse<PlatformUser[]>> {
+    try {
+      const users = await this.requireClient().listUsers({ includeBuiltin: false });
+      return { success: true, data: users.map(user => this.toPlatformUser(user)) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to list TrueNAS users: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  // Roles map onto TrueNAS groups by name
+  async assignRole(userId: string, role: string): Promise<PlatformResponse> {
+    try {
+      const client = this.requireClient();
+      const group = await client.getGroupByName(role);
+      if (!group) {
+        return { success: false, error: `TrueNAS group "${role}" not found` };
+      }
+
+      await client.addUserToGroup(parseInt(userId), group.id);
+      return { success: true, data: this.toPlatformUser(await client.getUser(parseInt(userId))) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to assign TrueNAS group: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async suspendUser(userId: string): Promise<PlatformResponse> {
+    try {
+      const user = await this.requireClient().updateUser(parseInt(userId), { locked: true });
+      return { success: true, data: this.toPlatformUser(user) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to suspend TrueNAS user: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  // The new password is returned once so it can be handed to the freelancer
+  async resetPassword(userId: string): Promise<PlatformResponse> {
+    try {
+      const password = generateTrueNASPassword();
+      await this.requireClient().updateUser(parseInt(userId), { password });
+      return { success: true, data: { id: userId, password } };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to reset TrueNAS password: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async createGroup(name: string, options?: { sudo?: boolean; smb?: boolean }): Promise<PlatformResponse<TrueNASGroupSummary>> {
+    try {
+      const group = await this.requireClient().createGroup({
+        name,
+        sudo: options?.sudo,
+        smb: options?.smb
+      });
+      return { success: true, data: toGroupSummary(group) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create TrueNAS group: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async deleteGroup(groupId: string): Promise<PlatformResponse> {
+    try {
+      await this.requireClient().deleteGroup(parseInt(groupId));
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to delete TrueNAS group: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async listGroups(): Promise<PlatformResponse<TrueNASGroupSummary[]>> {
+    try {
+      const groups = await this.requireClient().listGroups({ includeBuiltin: false });
+      return { success: true, data: groups.map(toGroupSummary) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to list TrueNAS groups: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async assignUserToGroup(userId: string, groupId: string): Promise<PlatformResponse> {
+    try {
+      await this.requireClient().addUserToGroup(parseInt(userId), parseInt(groupId));
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to assign user to TrueNAS group: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async removeUserFromGroup(userId: string, groupId: string): Promise<PlatformResponse> {
+    try {
+      await this.requireClient().removeUserFromGroup(parseInt(userId), parseInt(groupId));
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to remove user from TrueNAS group: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async createShare(data: {
+    name: string;
+    path: string;
+    comment?: string;
+    readonly?: boolean;
+    guestAccess?: boolean;
+  }): Promise<PlatformResponse<TrueNASShareSummary>> {
+    try {
+      const share = await this.requireClient().createSMBShare({
+        name: data.name,
+        path: data.path,
+        comment: data.comment,
+        readonly: data.readonly,
+        guestok: data.guestAccess
+      });
+      return { success: true, data: toShareSummary(share) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create TrueNAS share: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async deleteShare(shareId: string): Promise<PlatformResponse> {
+    try {
+      await this.requireClient().deleteSMBShare(parseInt(shareId));
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to delete TrueNAS share: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async listShares(): Promise<PlatformResponse<TrueNASShareSummary[]>> {
+    try {
+      const shares = await this.requireClient().listSMBShares();
+      return { success: true, data: shares.map(toShareSummary) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to list TrueNAS shares: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async setSharePermissions(shareId: string, permissions: TrueNASPermissions): Promise<PlatformResponse> {
+    try {
+      const client = this.requireClient();
+      const share = await client.getSMBShare(parseInt(shareId));
+      await client.setSharePermissions(share.path, permissions);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to set TrueNAS share permissions: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async getStatus(): Promise<PlatformResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: true,
+        data: {
+          initialized: false,
+          connected: false,
+          lastSync: undefined
+        }
+      };
+    }
+
+    const testResult = await this.testConnection();
+    return {
+      success: true,
+      data: {
+        initialized: this.isInitialized,
+        connected: testResult.success,
+        lastSync: new Date(),
+        error: testResult.error
+      }
+    };
+  }
+}
+
+// Export singleton instance
+export const trueNASModule = new TrueNASModule();
@@ -0,0 +1,299 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { trueNASModule, toTrueNASUsername } from '../TrueNASModule';
+import { TrueNASApiError } from '../TrueNASApiClient';
+import type { TrueNASConfig } from '../truenasSchemas';
+import { PlatformCapability, PlatformCategory, PlatformUserStatus, type PlatformConfig } from '../../../types/platform.types';
+
+// Shared API client stand-in; every module instance talks to this object
+const api = vi.hoisted(() => ({
+  testConnection: vi.fn(),
+  createUser: vi.fn(),
+  getUser: vi.fn(),
+  getUserByUsername: vi.fn(),
+  updateUser: vi.fn(),
+  deleteUser: vi.fn(),
+  listUsers: vi.fn(),
+  createGroup: vi.fn(),
+  getGroupByName: vi.fn(),
+  deleteGroup: vi.fn(),
+  listGroups: vi.fn(),
+  addUserToGroup: vi.fn(),
+  removeUserFromGroup: vi.fn(),
+  getDataset: vi.fn(),
+  createDataset: vi.fn(),
+  createSMBShare: vi.fn(),
+  getSMBShare: vi.fn(),
+  deleteSMBShare: vi.fn(),
+  listSMBShares: vi.fn(),
+  setSharePermissions: vi.fn(),
+  setShareACL: vi.fn()
+}));
+
+vi.mock('../TrueNASApiClient', async importOriginal => ({
+  ...(await importOriginal<typeof import('../TrueNASApiClient')>()),
+  TrueNASApiClient: vi.fn().mockImplementation(() => api)
+}));
+
+const BASE_CONFIG = {
+  apiUrl: 'https://truenas.local/api/v2.0',
+  apiKey: 'test-api-key'
+};
+
+// TrueNAS settings go beyond the fields PlatformConfig names
+const withSettings = (settings: Partial<TrueNASConfig>): PlatformConfig => ({ ...BASE_CONFIG, ...settings });
+
+const makeUser = (overrides: Record<string, unknown> = {}) => ({
+  id: 1001,
+  uid: 3001,
+  username: 'jo_editor',
+  full_name: 'Jo Editor',
+  email: 'jo@example.com',
+  group: { id: 100, gid: 3001, name: 'jo_editor' },
+  groups: [] as number[],
+  home: '/var/empty',
+  shell: '/usr/bin/zsh',
+  locked: false,
+  smb: true,
+  builtin: false,
+  ...overrides
+});
+
+const credentials = {
+  username: 'jo.editor@example.com',
+  email: 'jo@example.com',
+  firstName: 'Jo',
+  lastName: 'Editor'
+};
+
+describe('TrueNASModule', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    api.testConnection.mockResolvedValue({ version: 'TrueNAS-SCALE-24.04', hostname: 'truenas.local' });
+    api.getUserByUsername.mockResolvedValue(null);
+    api.listSMBShares.mockResolvedValue([]);
+    api.getGroupByName.mockImplementation(async (name: string) =>
+      ['editors', 'freelancers'].includes(name) ? { id: name === 'editors' ? 2001 : 2002, name } : null
+    );
+    await trueNASModule.initialize(BASE_CONFIG);
+  });
+
+  describe('metadata', () => {
+    it('is registered as a file sharing platform', () => {
+      expect(trueNASModule.metadata.id).toBe('truenas');
+      expect(trueNASModule.metadata.category).toBe(PlatformCategory.FILE_SHARING);
+      expect(trueNASModule.metadata.capabilities).toContain(PlatformCapability.USER_MANAGEMENT);
+      expect(trueNASModule.metadata.capabilities).toContain(PlatformCapability.GROUP_MANAGEMENT);
+      expect(trueNASModule.metadata.capabilities).toContain(PlatformCapability.FILE_SHARING);
+    });
+  });
+
+  describe('initialization', () => {
+    it('tests the connection with a valid config', async () => {
+      const result = await trueNASModule.initialize(BASE_CONFIG);
+      expect(result.success).toBe(true);
+      expect(api.testConnection).toHaveBeenCalled();
+    });
+
+    it('rejects an invalid config', async () => {
+      const result = await trueNASModule.initialize(withSettings({ apiUrl: 'not-a-url' }));
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid config');
+    });
+
+    it('fails when the server is unreachable', async () => {
+      api.testConnection.mockRejectedValueOnce(new TrueNASApiError('No response from TrueNAS (network error)', 0));
+      const result = await trueNASModule.initialize(BASE_CONFIG);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('network error');
+    });
+  });
+
+  describe('user management', () => {
+    it('derives a valid SMB username', () => {
+      expect(toTrueNASUsername('Jo.Editor@example.com')).toBe('jo_editor');
+      expect(toTrueNASUsername('42 Studio Crew')).toBe('studio_crew');
+    });
+
+    it('creates an SMB user in the requested and default groups', async () => {
+      await trueNASModule.initialize(withSettings({ defaultGroup: 'freelancers' }));
+      api.createUser.mockResolvedValue(makeUser({ groups: [2001, 2002] }));
+
+      const result = await trueNASModule.createUser({ ...credentials, role: 'editors' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ id: '1001', username: 'jo_editor', status: PlatformUserStatus.ACTIVE });
+      const request = api.createUser.mock.calls[0][0];
+      expect(request).toMatchObject({ username: 'jo_editor', full_name: 'Jo Editor', groups: [2001, 2002], smb: true });
+      expect(request.password.length).toBeGreaterThanOrEqual(16);
+      // Returned once so the operator can hand it over
+      expect(result.data?.initialPassword).toBe(request.password);
+    });
+
+    it('fails when a group does not exist', async () => {
+      const result = await trueNASModule.createUser({ ...credentials, role: 'colorists' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('"colorists" not found');
+      expect(api.createUser).not.toHaveBeenCalled();
+    });
+
+    it('does not take over another account with the same username', async () => {
+      api.getUserByUsername.mockResolvedValue(makeUser({ email: 'someone-else@example.com' }));
+
+      const result = await trueNASModule.createUser(credentials);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('already exists');
+    });
+
+    it('reuses the account created by an earlier run', async () => {
+      api.getUserByUsername.mockResolvedValue(makeUser({ locked: true }));
+      api.updateUser.mockResolvedValue(makeUser());
+
+      const result = await trueNASModule.createUser(credentials);
+
+      expect(result.success).toBe(true);
+      expect(api.createUser).not.toHaveBeenCalled();
+      expect(api.updateUser).toHaveBeenCalledWith(1001, { groups: [], locked: false });
+      expect(result.data?.initialPassword).toBeUndefined();
+    });
+
+    it('lists users with locked accounts as inactive', async () => {
+      api.listUsers.mockResolvedValue([makeUser(), makeUser({ id: 1002, username: 'sam', locked: true })]);
+
+      const result = await trueNASModule.listUsers();
+
+      expect(result.success).toBe(true);
+      expect(result.data?.map(user => user.status)).toEqual([PlatformUserStatus.ACTIVE, PlatformUserStatus.INACTIVE]);
+    });
+
+    it('treats deleting a missing user as already removed', async () => {
+      api.getUser.mockRejectedValue(new TrueNASApiError('Resource not found', 404));
+
+      const result = await trueNASModule.deleteUser('1001');
+
+      expect(result.success).toBe(true);
+      expect(result.data.alreadyRemoved).toBe(true);
+    });
+
+    it('returns a new password once on reset', async () => {
+      api.updateUser.mockResolvedValue(makeUser());
+
+      const result = await trueNASModule.resetPassword('1001');
+
+      expect(result.success).toBe(true);
+      expect(api.updateUser).toHaveBeenCalledWith(1001, { password: result.data.password });
+    });
+  });
+
+  describe('per-freelancer shares', () => {
+    beforeEach(async () => {
+      await trueNASModule.initialize(withSettings({ smbSharePath: '/mnt/tank/freelancers', createUserShare: true }));
+      api.createUser.mockResolvedValue(makeUser());
+      api.getDataset.mockResolvedValue(null);
+      api.createSMBShare.mockImplementation(async share => ({ id: 7, ro: false, guestok: false, enabled: true, ...share }));
+    });
+
+    it('creates a dataset, grants the user full control and shares it', async () => {
+      const result = await trueNASModule.createUser(credentials);
+
+      expect(result.success).toBe(true);
+      expect(api.createDataset).toHaveBeenCalledWith('tank/freelancers/jo_editor');
+      expect(api.setShareACL).toHaveBeenCalledWith(
+        '/mnt/tank/freelancers/jo_editor',
+        expect.arrayContaining([expect.objectContaining({ tag: 'USER', id: 3001, perms: { BASIC: 'FULL_CONTROL' } })]),
+        { uid: 3001, gid: 3001 }
+      );
+      expect(api.createSMBShare).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'jo_editor',
+        path: '/mnt/tank/freelancers/jo_editor',
+        guestok: false
+      }));
+      expect(result.data?.metadata?.sharePath).toBe('/mnt/tank/freelancers/jo_editor');
+    });
+
+    it('does not duplicate an existing share', async () => {
+      api.getDataset.mockResolvedValue({ id: 'tank/freelancers/jo_editor' });
+      api.listSMBShares.mockResolvedValue([{ id: 7, name: 'jo_editor', path: '/mnt/tank/freelancers/jo_editor' }]);
+
+      const result = await trueNASModule.createUser(credentials);
+
+      expect(result.success).toBe(true);
+      expect(api.createDataset).not.toHaveBeenCalled();
+      expect(api.createSMBShare).not.toHaveBeenCalled();
+    });
+
+    it('removes the share but keeps the data on delete', async () => {
+      api.getUser.mockResolvedValue(makeUser());
+      api.listSMBShares.mockResolvedValue([{ id: 7, name: 'jo_editor', path: '/mnt/tank/freelancers/jo_editor' }]);
+
+      const result = await trueNASModule.deleteUser('1001');
+
+      expect(result.success).toBe(true);
+      expect(api.deleteSMBShare).toHaveBeenCalledWith(7);
+      expect(api.deleteUser).toHaveBeenCalledWith(1001);
+    });
+  });
+
+  describe('group management', () => {
+    it('creates a group', async () => {
+      api.createGroup.mockResolvedValue({ id: 2001, gid: 2001, name: 'developers', builtin: false, sudo: false, smb: true, users: [] });
+
+      const result = await trueNASModule.createGroup('developers', { smb: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ id: 2001, name: 'developers', sudo: false, smb: true });
+    });
+
+    it('assigns a role by group name', async () => {
+      api.getUser.mockResolvedValue(makeUser({ groups: [2001] }));
+
+      const result = await trueNASModule.assignRole('1001', 'editors');
+
+      expect(result.success).toBe(true);
+      expect(api.addUserToGroup).toHaveBeenCalledWith(1001, 2001);
+    });
+
+    it('lists groups through the generic group manager', async () => {
+      api.listGroups.mockResolvedValue([
+        { id: 2001, gid: 2001, name: 'editors', builtin: false, sudo: false, smb: true, users: [1001, 1002] }
+      ]);
+
+      const result = await trueNASModule.groups.listGroups();
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([{ id: '2001', name: 'editors', memberCount: 2 }]);
+    });
+
+    it('adds a member through the generic group manager', async () => {
+      const result = await trueNASModule.groups.addMember('1001', '2001');
+
+      expect(result.success).toBe(true);
+      expect(api.addUserToGroup).toHaveBeenCalledWith(1001, 2001);
+    });
+  });
+
+  describe('share management', () => {
+    it('lists shares with read-only and guest flags', async () => {
+      api.listSMBShares.mockResolvedValue([
+        { id: 1, name: 'public', path: '/mnt/data/public', enabled: true, browsable: true, ro: true, guestok: true },
+        { id: 2, name: 'private', path: '/mnt/data/private', enabled: true, browsable: false, ro: false, guestok: false }
+      ]);
+
+      const result = await trueNASModule.listShares();
+
+      expect(result.success).toBe(true);
+      expect(result.data?.map(share => [share.readonly, share.guestAccess])).toEqual([[true, true], [false, false]]);
+    });
+
+    it('sets permissions on the share path', async () => {
+      api.getSMBShare.mockResolvedValue({ id: 1, path: '/mnt/data/projects' });
+      const permissions = { owner: 'user1', group: 'developers', mode: '770', recursive: true };
+
+      const result = await trueNASModule.setSharePermissions('1', permissions);
+
+      expect(result.success).toBe(true);
+      expect(api.setSharePermissions).toHaveBeenCalledWith('/mnt/data/projects', permissions);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { amoveModule } from '../aMoveModule';
+import { AMoveApiError } from '../aMoveApiClient';
+import type { AMoveConfig } from '../amoveSchemas';
+import { PlatformCapability, PlatformCategory, PlatformUserStatus, type PlatformConfig } from '../../../types/platform.types';
+
+// Shared API client stand-in; every module instance talks to this object
+const api = vi.hoisted(() => ({
+  getAccountInfo: vi.fn(),
+  createUser: vi.fn(),
+  getUser: vi.fn(),
+  updateUser: vi.fn(),
+  deleteUser: vi.fn(),
+  listUsers: vi.fn(),
+  findUserByEmail: vi.fn(),
+  assignUserToTeam: vi.fn(),
+  removeUserFromTeam: vi.fn(),
+  listTeams: vi.fn(),
+  createTeam: vi.fn(),
+  deleteTeam: vi.fn(),
+  getUserPermissions: vi.fn(),
+  updateUserPermissions: vi.fn(),
+  getUserActivity: vi.fn()
+}));
+
+vi.mock('../aMoveApiClient', async importOriginal => ({
+  ...(await importOriginal<typeof import('../aMoveApiClient')>()),
+  aMoveApiClient: vi.fn().mockImplementation(() => api)
+}));
+
+const BASE_CONFIG = {
+  apiKey: 'test-api-key',
+  accountId: 'acc123'
+};
+
+// aMove settings go beyond the fields PlatformConfig names
+const withSettings = (settings: Partial<AMoveConfig>): PlatformConfig => ({ ...BASE_CONFIG, ...settings });
+
+const makeUser = (overrides: Record<string, unknown> = {}) => ({
+  id: 'user123',
+  email: 'test@example.com',
+  name: 'Test User',
+  role: 'member',
+  active: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  ...overrides
+});
+
+const credentials = {
+  username: 'test@example.com',
+  email: 'test@example.com',
+  firstName: 'Test',
+  lastName: 'User'
+};
+
+describe('aMoveModule', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    api.getAccountInfo.mockResolvedValue({ id: 'acc123', name: 'Test Account', plan: 'Enterprise', status: 'active' });
+    api.findUserByEmail.mockResolvedValue(null);
+    await amoveModule.initialize(BASE_CONFIG);
+  });
+
+  describe('metadata', () => {
+    it('is registered as a file sharing platform', () => {
+      expect(amoveModule.metadata.id).toBe('amove');
+      expect(amoveModule.metadata.name).toBe('aMove');
+      expect(amoveModule.metadata.category).toBe(PlatformCategory.FILE_SHARING);
+      expect(amoveModule.metadata.capabilities).toContain(PlatformCapability.USER_MANAGEMENT);
+      expect(amoveModule.metadata.capabilities).toContain(PlatformCapability.GROUP_MANAGEMENT);
+    });
+  });
+
+  describe('initialization', () => {
+    it('checks the account through the gateway', async () => {
+      const result = await amoveModule.initialize(BASE_CONFIG);
+      expect(result.success).toBe(true);
+      expect(result.data.accountName).toBe('Test Account');
+    });
+
+    it('rejects an invalid config', async () => {
+      const result = await amoveModule.initialize({ apiKey: '', accountId: 'acc123' });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid config');
+    });
+
+    it('reports a rejected API key', async () => {
+      api.getAccountInfo.mockRejectedValueOnce(new AMoveApiError('Invalid aMove API key or unauthorized access', 401));
+      const result = await amoveModule.initialize(BASE_CONFIG);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid aMove API key');
+    });
+  });
+
+  describe('user management', () => {
+    it('creates a user in the default team', async () => {
+      await amoveModule.initialize(withSettings({ defaultTeamId: 'team-editors' }));
+      api.createUser.mockResolvedValue(makeUser());
+
+      const result = await amoveModule.createUser(credentials);
+
+      expect(result.success).toBe(true);
+      expect(api.createUser).toHaveBeenCalledWith({
+        email: 'test@example.com',
+        name: 'Test User',
+        role: 'member',
+        teamId: 'team-editors'
+      });
+      expect(result.data).toMatchObject({
+        id: 'user123',
+        username: 'test@example.com',
+        status: PlatformUserStatus.ACTIVE,
+        metadata: { teamId: 'team-editors' }
+      });
+    });
+
+    it('applies requested permission flags', async () => {
+      api.createUser.mockResolvedValue(makeUser());
+
+      await amoveModule.createUser({ ...credentials, permissions: ['canUpload', 'canShare', 'unknown'] });
+
+      expect(api.updateUserPermissions).toHaveBeenCalledWith('user123', { canUpload: true, canShare: true });
+    });
+
+    it('reactivates an existing account instead of creating a duplicate', async () => {
+      api.findUserByEmail.mockResolvedValue(makeUser({ active: false }));
+      api.updateUser.mockResolvedValue(makeUser());
+
+      const result = await amoveModule.createUser({ ...credentials, role: 'Viewer' });
+
+      expect(result.success).toBe(true);
+      expect(api.createUser).not.toHaveBeenCalled();
+      expect(api.updateUser).toHaveBeenCalledWith('user123', { role: 'viewer', active: true });
+    });
+
+    it('rejects unknown roles', async () => {
+      const result = await amoveModule.createUser({ ...credentials, role: 'owner' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Unknown aMove role');
+      expect(api.createUser).not.toHaveBeenCalled();
+    });
+
+    it('surfaces gateway errors', async () => {
+      api.createUser.mockRejectedValue(new AMoveApiError('aMove API is not available (503)', 503));
+
+      const result = await amoveModule.createUser(credentials);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('is not available');
+    });
+
+    it('lists users with inactive accounts', async () => {
+      api.listUsers.mockResolvedValue([makeUser(), makeUser({ id: 'user2', active: false })]);
+
+      const result = await amoveModule.listUsers();
+
+      expect(result.success).toBe(true);
+      expect(result.data?.map(user => user.status)).toEqual([PlatformUserStatus.ACTIVE, PlatformUserStatus.INACTIVE]);
+    });
+
+    it('treats deleting a missing user as already removed', async () => {
+      api.deleteUser.mockRejectedValue(new AMoveApiError('aMove resource not found: user', 404));
+
+      const result = await amoveModule.deleteUser('user123');
+
+      expect(result.success).toBe(true);
+      expect(result.data.alreadyRemoved).toBe(true);
+    });
+  });
+
+  describe('team management', () => {
+    it('creates a team', async () => {
+      const team = { id: 'team123', name: 'Engineering', description: 'Engineering team', memberCount: 0, createdAt: '2024-01-01T00:00:00Z' };
+      api.createTeam.mockResolvedValue(team);
+
+      const result = await amoveModule.createTeam('Engineering', 'Engineering team');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(team);
+    });
+
+    it('assigns a user to a team', async () => {
+      const result = await amoveModule.assignUserToTeam('user123', 'team123');
+
+      expect(result.success).toBe(true);
+      expect(api.assignUserToTeam).toHaveBeenCalledWith('user123', 'team123');
+    });
+
+    it('exposes teams as platform groups', async () => {
+      api.listTeams.mockResolvedValue([
+        { id: 'team123', name: 'Engineering', description: 'Engineering team', memberCount: 4, createdAt: '2024-01-01T00:00:00Z' }
+      ]);
+
+      const result = await amoveModule.groups.listGroups();
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([{ id: 'team123', name: 'Engineering', description: 'Engineering team', memberCount: 4 }]);
+    });
+
+    it('removes a member through the generic group manager', async () => {
+      const result = await amoveModule.groups.removeMember('user123', 'team123');
+
+      expect(result.success).toBe(true);
+      expect(api.removeUserFromTeam).toHaveBeenCalledWith('user123', 'team123');
+    });
+  });
+
+  describe('permissions management', () => {
+    it('reads user permissions', async () => {
+      const permissions = { canUpload: true, canDownload: true, canDelete: false };
+      api.getUserPermissions.mockResolvedValue(permissions);
+
+      const result = await amoveModule.getUserPermissions('user123');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(permissions);
+    });
+
+    it('maps assignPermissions onto permission flags', async () => {
+      const result = await amoveModule.assignPermissions('user123', ['canDelete']);
+
+      expect(result.success).toBe(true);
+      expect(api.updateUserPermissions).toHaveBeenCalledWith('user123', { canDelete: true });
+    });
+  });
+
+  describe('activity', () => {
+    it('reports user activity within the requested range', async () => {
+      api.getUserActivity.mockResolvedValue([
+        { id: 'act-1', userId: 'user123', action: 'file_upload', timestamp: '2024-03-01T10:00:00Z', details: { file: 'cut-v2.mov' } }
+      ]);
+      const range = { from: new Date('2024-03-01T00:00:00Z'), to: new Date('2024-03-02T00:00:00Z') };
+
+      const result = await amoveModule.getActivity('user123', range);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([{
+        id: 'act-1',
+        userId: 'user123',
+        action: 'file_upload',
+        occurredAt: new Date('2024-03-01T10:00:00Z'),
+        details: { file: 'cut-v2.mov' }
+      }]);
+      expect(api.getUserActivity).toHaveBeenCalledWith('user123', { startDate: range.from, endDate: range.to });
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import {
+  getPlatformTransport,
+  transportStatus,
+  type PlatformTransport
+} from '../../services/platformTransport';
+import type { PlatformHttpMethod } from '../../services/platformVendors';
+import type { AMoveConfig, AMovePermissions } from './amoveSchemas';
+
+// aMove does not allow browser origins, so every call is relayed by the
+// platform gateway, which adds the bearer token and account header.
+
+export interface AMoveUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  teamId?: string;
+  active: boolean;
+  createdAt: string;
+  lastActive?: string;
+}
+
+export interface AMoveTeam {
+  id: string;
+  name: string;
+  description?: string;
+  memberCount: number;
+  createdAt: string;
+}
+
+export interface AMoveAccount {
+  id: string;
+  name: string;
+  plan: string;
+  status: string;
+}
+
+export interface AMoveActivity {
+  id: string;
+  userId: string;
+  action: string;
+  timestamp: string;
+  details: Record<string, unknown>;
+}
+
+export interface AMoveShare {
+  id: string;
+  name: string;
+  path: string;
+  teamId?: string;
+  permissions?: AMovePermissions;
+}
+
+interface CreateUserRequest {
+  email: string;
+  name: string;
+  role?: string;
+  teamId?: string;
+}
+
+interface UpdateUserRequest {
+  name?: string;
+  role?: string;
+  teamId?: string;
+  active?: boolean;
+}
+
+interface CreateTeamRequest {
+  name: string;
+  description?: string;
+}
+
+interface ActivityOptions {
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+  action?: string;
+}
+
+export class AMoveApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'AMoveApiError';
+  }
+}
+
+// Turns an upstream failure into a message the onboarding UI and retry policy understand
+function mapError(status: number, detail: string): string {
+  switch (status) {
+    case 401:
+      return 'Invalid aMove API key or unauthorized access';
+    case 403:
+      return 'Insufficient aMove permissions';
+    case 404:
+      return `aMove resource not found: ${detail}`;
+    case 409:
+      return `aMove conflict: ${detail}`;
+    case 429:
+      return 'aMove rate limit exceeded (429), try again shortly';
+    case 0:
+      return detail.includes('timeout')
+        ? 'aMove request timeout'
+        : 'No response from aMove (network error). Please check your connection';
+    default:
+      return status >= 500
+        ? `aMove API is not available (${status})`
+        : `aMove API error ${status}: ${detail}`;
+  }
+}
+
+const activityParams = (options?: ActivityOptions) => ({
+  startDate: options?.startDate?.toISOString(),
+  endDate: options?.endDate?.toISOString(),
+  limit: options?.limit,
+  action: options?.action
+});
+
+const id = (value: string) => encodeURIComponent(value);
+
+export class aMoveApiClient {
+  constructor(
+    private readonly config: AMoveConfig,
+    private readonly transport?: PlatformTransport
+  ) {}
+
+  private async call<T>(
+    method: PlatformHttpMethod,
+    path: string,
+    options: { query?: Record<string, string | number | undefined>; body?: unknown } = {}
+  ): Promise<T> {
+    const response = await (this.transport || getPlatformTransport()).send<T>({
+      platformId: 'amove',
+      action: 'request',
+      payload: { method, path, query: options.query, body: options.body },
+      config: this.config
+    });
+
+    if (!response.success) {
+      const status = transportStatus(response);
+      throw new AMoveApiError(mapError(status, response.error || 'Unknown error'), status);
+    }
+    return response.data as T;
+  }
+
+  // Account Management
+  async getAccountInfo(): Promise<AMoveAccount> {
+    return this.call<AMoveAccount>('GET', '/account');
+  }
+
+  // User Management
+  async createUser(data: CreateUserRequest): Promise<AMoveUser> {
+    return this.call<AMoveUser>('POST', '/users', { body: data });
+  }
+
+  async getUser(userId: string): Promise<AMoveUser> {
+    return this.call<AMoveUser>('GET', `/users/${id(userId)}`);
+  }
+
+  async updateUser(userId: string, data: UpdateUserRequest): Promise<AMoveUser> {
+    return this.call<AMoveUser>('PATCH', `/users/${id(userId)}`, { body: data });
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    await this.call<void>('DELETE', `/users/${id(userId)}`);
+  }
+
+  async listUsers(options?: { teamId?: string; page?: number; limit?: number }): Promise<AMoveUser[]> {
+    const result = await this.call<{ users: AMoveUser[] }>('GET', '/users', { query: options });
+    return result.users;
+  }
+
+  async findUserByEmail(email: string): Promise<AMoveUser | null> {
+    const users = await this.listUsers();
+    return users.find(user => user.email.toLowerCase() === email.toLowerCase()) || null;
+  }
+
+  // Team Management
+  async createTeam(data: CreateTeamRequest): Promise<AMoveTeam> {
+    return this.call<AMoveTeam>('POST', '/teams', { body: data });
+  }
+
+  async getTeam(teamId: string): Promise<AMoveTeam> {
+    return this.call<AMoveTeam>('GET', `/teams/${id(teamId)}`);
+  }
+
+  async updateTeam(teamId: string, data: Partial<CreateTeamRequest>): Promise<AMoveTeam> {
+    return this.call<AMoveTeam>('PATCH', `/teams/${id(teamId)}`, { body: data });
+  }
+
+  async deleteTeam(teamId: string): Promise<void> {
+    await this.call<void>('DELETE', `/teams/${id(teamId)}`);
+  }
+
+  async listTeams(): Promise<AMoveTeam[]> {
+    const result = await this.call<{ teams: AMoveTeam[] }>('GET', '/teams');
+    return result.teams;
+  }
+
+  async assignUserToTeam(userId: string, teamId: string): Promise<void> {
+    await this.call<void>('POST', `/teams/${id(teamId)}/members`, { body: { userId } });
+  }
+
+  async removeUserFromTeam(userId: string, teamId: string): Promise<void> {
+    await this.call<void>('DELETE', `/teams/${id(teamId)}/members/${id(userId)}`);
+  }
+
+  async getTeamMembers(teamId: string): Promise<AMoveUser[]> {
+    const result = await this.call<{ members: AMoveUser[] }>('GET', `/teams/${id(teamId)}/members`);
+    return result.members;
+  }
+
+  // Permissions Management
+  async getUserPermissions(userId: string): Promise<AMovePermissions> {
+    return this.call<AMovePermissions>('GET', `/users/${id(userId)}/permissions`);
+  }
+
+  async updateUserPermissions(userId: string, permissions: AMovePermissions): Promise<void> {
+    await this.call<void>('PUT', `/users/${id(userId)}/permissions`, { body: permissions });
+  }
+
+  async getTeamPermissions(teamId: string): Promise<AMovePermissions> {
+    return this.call<AMovePermissions>('GET', `/teams/${id(teamId)}/permissions`);
+  }
+
+  async updateTeamPermissions(teamId: string, permissions: AMovePermissions): Promise<void> {
+    await this.call<void>('PUT', `/teams/${id(teamId)}/permissions`, { body: permissions });
+  }
+
+  // Activity Monitoring
+  async getUserActivity(userId: string, options?: ActivityOptions): Promise<AMoveActivity[]> {
+    const result = await this.call<{ activities: AMoveActivity[] }>('GET', `/users/${id(userId)}/activity`, {
+      query: activityParams(options)
+    });
+    return result.activities;
+  }
+
+  async getTeamActivity(teamId: string, options?: Omit<ActivityOptions, 'action'>): Promise<AMoveActivity[]> {
+    const result = await this.call<{ activities: AMoveActivity[] }>('GET', `/teams/${id(teamId)}/activity`, {
+      query: activityParams(options)
+    });
+    return result.activities;
+  }
+
+  // Share Management
+  async createShare(data: {
+    name: string;
+    path: string;
+    teamId?: string;
+    permissions?: AMovePermissions;
+  }): Promise<AMoveShare> {
+    return this.call<AMoveShare>('POST', '/shares', { body: data });
+  }
+
+  async getShare(shareId: string): Promise<AMoveShare> {
+    return this.call<AMoveShare>('GET', `/shares/${id(shareId)}`);
+  }
+
+  async updateSharePermissions(shareId: string, permissions: AMovePermissions): Promise<void> {
+    await this.call<void>('PUT', `/shares/${id(shareId)}/permissions`, { body: permissions });
+  }
+
+  async deleteShare(shareId: string): Promise<void> {
+    await this.call<void>('DELETE', `/shares/${id(shareId)}`);
+  }
+
+  async listShares(options?: { teamId?: string }): Promise<AMoveShare[]> {
+    const result = await this.call<{ shares: AMoveShare[] }>('GET', '/shares', { query: options });
+    return result.shares;
+  }
+}
@@ -0,0 +1,441 @@
+// aMoveModule provisions aMove users and teams through the platform gateway
+
+import { PlatformUserStatus } from '../../types/platform.types';
+import type {
+  IPlatformModule,
+  PlatformUser,
+  PlatformResponse,
+  PlatformCredentials,
+  PlatformActivityEvent,
+  PlatformActivityRange,
+  PlatformConfig,
+  PlatformGroup,
+  PlatformGroupManager,
+  PlatformMetadata
+} from '../../types/platform.types';
+import {
+  aMoveApiClient,
+  AMoveApiError,
+  type AMoveActivity,
+  type AMoveShare,
+  type AMoveTeam,
+  type AMoveUser
+} from './aMoveApiClient';
+import {
+  aMoveConfigSchema,
+  aMovePermissionsSchema,
+  aMoveRoles,
+  type AMoveConfig,
+  type AMovePermissions,
+  type AMoveRole
+} from './amoveSchemas';
+import { manifest } from './amove.manifest';
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+const isNotFound = (error: unknown) => error instanceof AMoveApiError && error.status === 404;
+
+const isAMoveRole = (role: unknown): role is AMoveRole =>
+  typeof role === 'string' && (aMoveRoles as readonly string[]).includes(role.toLowerCase());
+
+// Onboarding permissions arrive as flag names, e.g. ['canUpload', 'canShare']
+const toPermissionFlags = (permissions: string[]): AMovePermissions => {
+  const known = Object.keys(aMovePermissionsSchema.shape);
+  return Object.fromEntries(permissions.filter(p => known.includes(p)).map(p => [p, true]));
+};
+
+const toPlatformGroup = (team: AMoveTeam): PlatformGroup => ({
+  id: team.id,
+  name: team.name,
+  description: team.description,
+  memberCount: team.memberCount
+});
+
+const toActivityEvent = (activity: AMoveActivity): PlatformActivityEvent => ({
+  id: activity.id,
+  userId: activity.userId,
+  action: activity.action,
+  occurredAt: new Date(activity.timestamp),
+  details: activity.details
+});
+
+export class aMoveModule implements IPlatformModule {
+  public readonly metadata: PlatformMetadata = {
+    id: manifest.id,
+    name: 'aMove',
+    displayName: manifest.displayName,
+    description: 'File transfer and storage platform with team collaboration',
+    category: manifest.category,
+    version: manifest.version,
+    icon: '📁',
+    color: '#5B4BDB',
+    website: 'https://amove.io',
+    documentation: 'https://amove.com/docs/api',
+    documentationUrl: 'https://amove.com/docs/api',
+    features: [
+      'Cloud file transfer',
+      'Team workspaces',
+      'Per-user permissions',
+      'Activity history',
+    ],
+    capabilities: manifest.capabilities,
+    requiredFields: ['apiKey', 'accountId'],
+    optionalFields: ['defaultTeamId', 'defaultRole', 'baseUrl', 'timeout'],
+    configSchema: manifest.configSchema,
+  };
+
+  private config: AMoveConfig | null = null;
+  private apiClient: aMoveApiClient | null = null;
+  private isInitialized: boolean = false;
+
+  // aMove calls its groups teams
+  public readonly groups: PlatformGroupManager = {
+    listGroups: async () => {
+      const result = await this.listTeams();
+      return result.success ? { success: true, data: result.data!.map(toPlatformGroup) } : { success: false, error: result.error };
+    },
+    createGroup: async (name, description) => {
+      const result = await this.createTeam(name, description);
+      return result.success ? { success: true, data: toPlatformGroup(result.data!) } : { success: false, error: result.error };
+    },
+    addMember: (userId, groupId) => this.assignUserToTeam(userId, groupId),
+    removeMember: (userId, groupId) => this.removeUserFromTeam(userId, groupId),
+  };
+
+  getRequiredConfigFields(): string[] {
+    return ['apiKey', 'accountId'];
+  }
+
+  async initialize(config: PlatformConfig): Promise<PlatformResponse> {
+    const validation = aMoveConfigSchema.safeParse(config);
+    if (!validation.success) {
+      return {
+        success: false,
+        error: `Invalid config: ${validation.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')}`,
+      };
+    }
+
+    this.config = validation.data;
+    this.apiClient = new aMoveApiClient(validation.data);
+    this.isInitialized = true;
+
+    const testResult = await this.testConnection();
+    if (!testResult.success) {
+      this.isInitialized = false;
+      return {
+        success: false,
+        error: `Failed to initialize aMove: ${testResult.error}`,
+      };
+    }
+
+    return { success: true, data: testResult.data };
+  }
+
+  validateConfig(config: PlatformConfig): boolean {
+    return aMoveConfigSchema.safeParse(config).success;
+  }
+
+  private requireClient(): aMoveApiClient {
+    if (!this.isInitialized || !this.apiClient) {
+      throw new Error('Platform not initialized');
+    }
+    return this.apiClient;
+  }
+
+  private toPlatformUser(user: AMoveUser): PlatformUser {
+    const [firstName, ...rest] = (user.name || '').split(/\s+/).filter(Boolean);
+    return {
+      id: user.id,
+      email: user.email,
+      firstName,
+      lastName: rest.join(' ') || undefined,
+      username: user.email,
+      displayName: user.name,
+      status: user.active ? PlatformUserStatus.ACTIVE : PlatformUserStatus.INACTIVE,
+      createdAt: user.createdAt ? new Date(user.createdAt) : undefined,
+      metadata: {
+        role: user.role,
+        teamId: user.teamId,
+        lastActive: user.lastActive
+      }
+    };
+  }
+
+  async testConnection(): Promise<PlatformResponse> {
+    try {
+      const account = await this.requireClient().getAccountInfo();
+      return {
+        success: true,
+        data: {
+          connected: true,
+          accountName: account.name,
+          accountId: account.id,
+          plan: account.plan
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: errorMessage(error),
+      };
+    }
+  }
+
+  // Existing accounts are reused so a retried onboarding step does not fail on duplicates
+  async createUser(credentials: PlatformCredentials): Promise<PlatformResponse<PlatformUser>> {
+    try {
+      const client = this.requireClient();
+      const requestedRole = credentials.role || this.config?.defaultRole;
+      if (requestedRole && !isAMoveRole(requestedRole)) {
+        return { success: false, error: `Unknown aMove role "${requestedRole}" (expected ${aMoveRoles.join(', ')})` };
+      }
+      const role = requestedRole ? requestedRole.toLowerCase() : 'member';
+      const teamId = credentials.metadata?.teamId || this.config?.defaultTeamId;
+      const name = credentials.fullName || `${credentials.firstName} ${credentials.lastName}`.trim() || credentials.email;
+
+      const existing = await client.findUserByEmail(credentials.email);
+      const user = existing
+        ? await client.updateUser(existing.id, { role, active: true })
+        : await client.createUser({ email: credentials.email, name, role, teamId });
+
+      if (existing && teamId && existing.teamId !== teamId) {
+        await client.assignUserToTeam(user.id, teamId);
+      }
+
+      if (credentials.permissions?.length) {
+        await client.updateUserPermissions(user.id, toPermissionFlags(credentials.permissions));
+      }
+
+      return { success: true, data: this.toPlatformUser({ ...user, teamId: user.teamId || teamId }) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create aMove user: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async updateUser(userId: string, updates: Partial<PlatformCredentials>): Promise<PlatformResponse<PlatformUser>> {
+    try {
+      if (updates.role && !isAMoveRole(updates.role)) {
+        return { success: false, error: `Unknown aMove role "${updates.role}"` };
+      }
+
+      const name = updates.fullName || [updates.firstName, updates.lastName].filter(Boolean).join(' ');
+      const user = await this.requireClient().updateUser(userId, {
+        name: name || undefined,
+        role: updates.role?.toLowerCase(),
+        teamId: updates.metadata?.teamId
+      });
+      return { success: true, data: this.toPlatformUser(user) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update aMove user: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async deleteUser(userId: string): Promise<PlatformResponse> {
+    try {
+      await this.requireClient().deleteUser(userId);
+      return { success: true, data: { id: userId, deleted: true } };
+    } catch (error) {
+      // Already gone counts as removed so offboarding can be re-run safely
+      if (isNotFound(error)) {
+        return { success: true, data: { id: userId, deleted: true, alreadyRemoved: true } };
+      }
+      return {
+        success: false,
+        error: `Failed to delete aMove user: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async getUser(userId: string): Promise<PlatformResponse<PlatformUser>> {
+    try {
+      const user = await this.requireClient().getUser(userId);
+      return { success: true, data: this.toPlatformUser(user) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get aMove user: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async listUsers(): Promise<PlatformResponse<PlatformUser[]>> {
+    try {
+      const users = await this.requireClient().listUsers();
+      return { success: true, data: users.map(user => this.toPlatformUser(user)) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to list aMove users: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async assignRole(userId: string, role: string): Promise<PlatformResponse> {
+    return this.updateUser(userId, { role });
+  }
+
+  async assignPermissions(userId: string, permissions: string[]): Promise<PlatformResponse> {
+    try {
+      await this.requireClient().updateUserPermissions(userId, toPermissionFlags(permissions));
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update aMove permissions: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async suspendUser(userId: string): Promise<PlatformResponse> {
+    try {
+      const user = await this.requireClient().updateUser(userId, { active: false });
+      return { success: true, data: this.toPlatformUser(user) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to suspend aMove user: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async assignUserToTeam(userId: string, teamId: string): Promise<PlatformResponse> {
+    try {
+      await this.requireClient().assignUserToTeam(userId, teamId);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to assign user to aMove team: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async removeUserFromTeam(userId: string, teamId: string): Promise<PlatformResponse> {
+    try {
+      await this.requireClient().removeUserFromTeam(userId, teamId);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to remove user from aMove team: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async listTeams(): Promise<PlatformResponse<AMoveTeam[]>> {
+    try {
+      return { success: true, data: await this.requireClient().listTeams() };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to list aMove teams: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async createTeam(name: string, description?: string): Promise<PlatformResponse<AMoveTeam>> {
+    try {
+      return { success: true, data: await this.requireClient().createTeam({ name, description }) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create aMove team: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async deleteTeam(teamId: string): Promise<PlatformResponse> {
+    try {
+      await this.requireClient().deleteTeam(teamId);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to delete aMove team: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async getUserPermissions(userId: string): Promise<PlatformResponse<AMovePermissions>> {
+    try {
+      return { success: true, data: await this.requireClient().getUserPermissions(userId) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get aMove permissions: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async updateUserPermissions(userId: string, permissions: AMovePermissions): Promise<PlatformResponse> {
+    try {
+      await this.requireClient().updateUserPermissions(userId, permissions);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update aMove permissions: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async getUserActivity(userId: string, options?: { startDate?: Date; endDate?: Date }): Promise<PlatformResponse<AMoveActivity[]>> {
+    try {
+      return { success: true, data: await this.requireClient().getUserActivity(userId, options) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get aMove activity: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async getActivity(userId: string, range: PlatformActivityRange): Promise<PlatformResponse<PlatformActivityEvent[]>> {
+    const result = await this.getUserActivity(userId, { startDate: range.from, endDate: range.to });
+    return result.success ? { success: true, data: result.data!.map(toActivityEvent) } : { success: false, error: result.error };
+  }
+
+  async listShares(teamId?: string): Promise<PlatformResponse<AMoveShare[]>> {
+    try {
+      return { success: true, data: await this.requireClient().listShares({ teamId }) };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to list aMove shares: ${errorMessage(error)}`,
+      };
+    }
+  }
+
+  async getStatus(): Promise<PlatformResponse> {
+    if (!this.isInitialized) {
+      return {
+        success: true,
+        data: {
+          initialized: false,
+          connected: false,
+          lastSync: undefined
+        }
+      };
+    }
+
+    const testResult = await this.testConnection();
+    return {
+      success: true,
+      data: {
+        initialized: this.isInitialized,
+        connected: testResult.success,
+        lastSync: new Date(),
+        error: testResult.error
+      }
+    };
+  }
+}
+
+// Export singleton instance
+export const amoveModule = new aMoveModule();
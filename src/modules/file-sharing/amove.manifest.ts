@@ -0,0 +1,19 @@
+import { PlatformCapability, PlatformCategory, type PlatformModuleManifest } from '../../types/platform.types';
+import { aMoveConfigSchema } from './amoveSchemas';
+
+export const manifest: PlatformModuleManifest = {
+  id: 'amove',
+  displayName: 'aMove',
+  version: '1.1.0',
+  category: PlatformCategory.FILE_SHARING,
+  capabilities: [
+    PlatformCapability.USER_MANAGEMENT,
+    PlatformCapability.GROUP_MANAGEMENT,
+    PlatformCapability.ACCESS_CONTROL,
+    PlatformCapability.ACTIVITY_MONITORING,
+    PlatformCapability.ROLE_MANAGEMENT,
+    PlatformCapability.PERMISSION_MANAGEMENT,
+  ],
+  configSchema: aMoveConfigSchema,
+  load: () => import('./aMoveModule').then(({ amoveModule }) => amoveModule),
+};
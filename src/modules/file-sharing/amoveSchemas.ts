@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+export const aMoveRoles = ['admin', 'member', 'viewer'] as const;
+
+// Configuration schema for aMove platform. Requests go through the platform
+// gateway, which reads the same fields from the stored config.
+export const aMoveConfigSchema = z.object({
+  apiKey: z.string().min(1).describe('API key for authentication'),
+  accountId: z.string().min(1).describe('aMove account ID'),
+  defaultTeamId: z.string().optional().describe('Team new users are added to'),
+  defaultRole: z.enum(aMoveRoles).optional().describe('Role for new users (admin, member or viewer)'),
+  baseUrl: z.string().url().optional().describe('API base URL override (optional)'),
+  timeout: z.number().positive().optional().describe('Request timeout in milliseconds')
+});
+
+// Permission flags understood by the aMove permissions endpoints
+export const aMovePermissionsSchema = z.object({
+  canUpload: z.boolean().optional(),
+  canDownload: z.boolean().optional(),
+  canDelete: z.boolean().optional(),
+  canShare: z.boolean().optional(),
+  canManageUsers: z.boolean().optional()
+});
+
+// Export types
+export type AMoveConfig = z.infer<typeof aMoveConfigSchema>;
+export type AMoveRole = typeof aMoveRoles[number];
+export type AMovePermissions = z.infer<typeof aMovePermissionsSchema>;
+
+// Validation helpers
+export const validateAMoveConfig = (config: unknown): AMoveConfig => {
+  return aMoveConfigSchema.parse(config);
+};
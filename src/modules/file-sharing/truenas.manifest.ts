@@ -0,0 +1,19 @@
+import { PlatformCapability, PlatformCategory, type PlatformModuleManifest } from '../../types/platform.types';
+import { trueNASConfigSchema } from './truenasSchemas';
+
+export const manifest: PlatformModuleManifest = {
+  id: 'truenas',
+  displayName: 'TrueNAS SMB',
+  version: '1.0.0',
+  category: PlatformCategory.FILE_SHARING,
+  capabilities: [
+    PlatformCapability.USER_MANAGEMENT,
+    PlatformCapability.GROUP_MANAGEMENT,
+    PlatformCapability.FILE_SHARING,
+    PlatformCapability.ACCESS_CONTROL,
+    PlatformCapability.ROLE_MANAGEMENT,
+    PlatformCapability.PASSWORD_RESET,
+  ],
+  configSchema: trueNASConfigSchema,
+  load: () => import('./TrueNASModule').then(({ trueNASModule }) => trueNASModule),
+};
@@ -4,33 +4,11 @@ import { z } from 'zod';
 export const trueNASConfigSchema = z.object({
   apiUrl: z.string().url().describe('TrueNAS API URL (e.g., https://truenas.local/api/v2.0)'),
   apiKey: z.string().min(1).describe('API key for authentication'),
-  smbSharePath: z.string().optional().describe('Default SMB share path'),
-  defaultGroup: z.string().optional().describe('Default group for new users'),
-  timeout: z.number().positive().optional().describe('Request timeout in milliseconds'),
-  verifySsl: z.boolean().optional().describe('Verify SSL certificates (default: true)')
-});
-
-// Credentials schema for creating TrueNAS users
-export const trueNASCredentialsSchema = z.object({
-  username: z.string()
-    .min(1)
-    .max(32)
-    .regex(/^[a-zA-Z0-9_-]+$/, 'Username must contain only letters, numbers, underscores, and hyphens')
-    .describe('SMB username'),
-  password: z.string()
-    .min(8)
-    .describe('SMB password (must meet complexity requirements)'),
-  fullName: z.string().min(1).describe('User full name'),
-  email: z.string().email().optional().describe('User email address'),
-  groups: z.array(z.string()).optional().describe('Groups to assign user to'),
-  homeDirectory: z.string().optional().describe('User home directory path'),
-  shell: z.string().optional().describe('User shell (default: /usr/bin/zsh)'),
-  smbAccess: z.boolean().optional().describe('Enable SMB access (default: true)'),
-  permissions: z.object({
-    readOnly: z.boolean().optional(),
-    allowGuest: z.boolean().optional(),
-    recyclebinEnabled: z.boolean().optional()
-  }).optional().describe('SMB share permissions')
+  defaultGroup: z.string().optional().describe('Group every new SMB user is added to'),
+  smbSharePath: z.string().regex(/^\/mnt\/[^/]+/, 'Share path must be a dataset under /mnt').optional()
+    .describe('Parent dataset for per-freelancer shares (e.g., /mnt/tank/freelancers)'),
+  createUserShare: z.boolean().optional().describe('Create a private SMB share for each freelancer'),
+  timeout: z.number().positive().optional().describe('Request timeout in milliseconds')
 });
 
 // Group schema
@@ -59,7 +37,6 @@ export const trueNASShareSchema = z.object({
 
 // Export types
 export type TrueNASConfig = z.infer<typeof trueNASConfigSchema>;
-export type TrueNASCredentials = z.infer<typeof trueNASCredentialsSchema>;
 export type TrueNASGroup = z.infer<typeof trueNASGroupSchema>;
 export type TrueNASShare = z.infer<typeof trueNASShareSchema>;
 
@@ -68,10 +45,6 @@ export const validateTrueNASConfig = (config: unknown): TrueNASConfig => {
   return trueNASConfigSchema.parse(config);
 };
 
-export const validateTrueNASCredentials = (credentials: unknown): TrueNASCredentials => {
-  return trueNASCredentialsSchema.parse(credentials);
-};
-
 export const validateTrueNASGroup = (group: unknown): TrueNASGroup => {
   return trueNASGroupSchema.parse(group);
 };
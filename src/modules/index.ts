@@ -1,6 +1,4 @@
 // Export working platform modules only
-// export * from './aMove'; // Disabled until simplified
-// export * from './truenas'; // Disabled until simplified
 
 // Base module moved to services
 // export { BasePlatformModule } from './BasePlatformModule';
\ No newline at end of file
@@ -0,0 +1,206 @@
+// Client for the Parsec Teams API. All team endpoints are scoped to the
+// configured team; calls go through the platform transport, and the base URL
+// can point at a local stand-in server when using a LocalTransport.
+
+import type { PlatformConfig } from '../../types/platform.types';
+import {
+  getPlatformTransport,
+  transportStatus,
+  type PlatformTransport
+} from '../../services/platformTransport';
+import type { PlatformHttpMethod } from '../../services/platformVendors';
+
+export interface ParsecClientConfig {
+  teamId: string;
+  // Passed along so owners can test settings before saving them
+  platformConfig: PlatformConfig;
+  transport?: PlatformTransport;
+}
+
+export interface ParsecTeam {
+  id: string;
+  name: string;
+  member_count?: number;
+  seats?: number;
+}
+
+export interface ParsecTeamMember {
+  user_id: string;
+  email: string;
+  name?: string;
+  group_id?: string | null;
+  is_admin?: boolean;
+  created_at?: string;
+}
+
+export interface ParsecTeamInvite {
+  id: string;
+  email: string;
+  group_id?: string | null;
+  created_at?: string;
+  expires_at?: string;
+}
+
+export interface ParsecTeamGroup {
+  id: string;
+  name: string;
+  member_count?: number;
+}
+
+interface ParsecListResponse<T> {
+  data: T[];
+  next_cursor?: string | null;
+}
+
+export class ParsecApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = 'ParsecApiError';
+  }
+}
+
+// Turns an HTTP failure into a message the onboarding UI and retry policy understand
+function mapError(status: number, detail: string): string {
+  switch (status) {
+    case 400:
+    case 422:
+      return `Parsec rejected the request: ${detail}`;
+    case 401:
+      return 'Invalid Parsec API key';
+    case 403:
+      return 'The Parsec API key does not have team admin permissions';
+    case 404:
+      return `Parsec resource not found: ${detail}`;
+    case 409:
+      return `Parsec conflict: ${detail}`;
+    case 429:
+      return 'Parsec rate limit exceeded (429), try again shortly';
+    default:
+      return status >= 500
+        ? `Parsec API is not available (${status})`
+        : `Parsec API error ${status}: ${detail}`;
+  }
+}
+
+export class ParsecApiClient {
+  constructor(private readonly config: ParsecClientConfig) {}
+
+  // Resolved per call so setPlatformTransport also reaches existing clients
+  private get transport(): PlatformTransport {
+    return this.config.transport || getPlatformTransport();
+  }
+
+  private teamPath(path = ''): string {
+    return `/teams/${encodeURIComponent(this.config.teamId)}${path}`;
+  }
+
+  private async request<T>(
+    method: PlatformHttpMethod,
+    path: string,
+    body?: unknown,
+    query?: Record<string, string | undefined>
+  ): Promise<T> {
+    const response = await this.transport.send<unknown>({
+      platformId: 'parsec',
+      action: 'request',
+      payload: { method, path, query, body },
+      config: this.config.platformConfig
+    });
+
+    if (!response.success) {
+      const status = transportStatus(response);
+      const detail = response.error || 'Unknown error';
+      if (status === 0) {
+        const code = detail.includes('timeout') ? 'timeout' : 'network';
+        throw new ParsecApiError(code === 'timeout' ? 'Parsec request timed out' : detail, 0, code);
+      }
+      throw new ParsecApiError(mapError(status, detail), status);
+    }
+
+    // Single resources come back wrapped in { data }; lists keep their cursor
+    const payload = response.data;
+    if (payload && typeof payload === 'object' && 'data' in payload && !('next_cursor' in payload)) {
+      return (payload as { data: T }).data;
+    }
+    return payload as T;
+  }
+
+  private async listAll<T>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | null | undefined;
+
+    do {
+      const page = await this.request<ParsecListResponse<T> | T[]>('GET', path, undefined, {
+        cursor: cursor || undefined
+      });
+      if (Array.isArray(page)) {
+        items.push(...page);
+        break;
+      }
+      items.push(...(page.data || []));
+      cursor = page.next_cursor;
+    } while (cursor);
+
+    return items;
+  }
+
+  async getTeam(): Promise<ParsecTeam> {
+    return this.request<ParsecTeam>('GET', this.teamPath());
+  }
+
+  // Members
+  async listMembers(): Promise<ParsecTeamMember[]> {
+    return this.listAll<ParsecTeamMember>(this.teamPath('/members'));
+  }
+
+  async getMember(userId: string): Promise<ParsecTeamMember> {
+    return this.request<ParsecTeamMember>('GET', this.teamPath(`/members/${encodeURIComponent(userId)}`));
+  }
+
+  async findMemberByEmail(email: string): Promise<ParsecTeamMember | null> {
+    const members = await this.listMembers();
+    return members.find(member => member.email.toLowerCase() === email.toLowerCase()) || null;
+  }
+
+  async removeMember(userId: string): Promise<void> {
+    await this.request<void>('DELETE', this.teamPath(`/members/${encodeURIComponent(userId)}`));
+  }
+
+  async setMemberGroup(userId: string, groupId: string): Promise<ParsecTeamMember> {
+    return this.request<ParsecTeamMember>('PUT', this.teamPath(`/members/${encodeURIComponent(userId)}`), {
+      group_id: groupId
+    });
+  }
+
+  // Invites
+  async listInvites(): Promise<ParsecTeamInvite[]> {
+    return this.listAll<ParsecTeamInvite>(this.teamPath('/invites'));
+  }
+
+  async createInvite(email: string, groupId?: string): Promise<ParsecTeamInvite> {
+    return this.request<ParsecTeamInvite>('POST', this.teamPath('/invites'), {
+      email,
+      group_id: groupId || undefined
+    });
+  }
+
+  async cancelInvite(inviteId: string): Promise<void> {
+    await this.request<void>('DELETE', this.teamPath(`/invites/${encodeURIComponent(inviteId)}`));
+  }
+
+  // Groups
+  async listGroups(): Promise<ParsecTeamGroup[]> {
+    return this.listAll<ParsecTeamGroup>(this.teamPath('/groups'));
+  }
+
+  // Accepts a group ID or a case-insensitive group name
+  async resolveGroup(groupIdOrName: string): Promise<ParsecTeamGroup | null> {
+    const groups = await this.listGroups();
+    const needle = groupIdOrName.toLowerCase();
+    return groups.find(group => group.id === groupIdOrName || group.name.toLowerCase() === needle) || null;
+  }
+}
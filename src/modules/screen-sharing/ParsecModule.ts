@@ -1,6 +1,6 @@
 // ParsecModule using centralized types
 
-import { PlatformCategory, PlatformUserStatus } from '../../types/platform.types';
+import { PlatformUserStatus } from '../../types/platform.types';
 import type {
   PlatformResponse,
   PlatformUser,
@@ -9,15 +9,40 @@ import type {
   PlatformMetadata,
   IPlatformModule
 } from '../../types/platform.types';
-import { z } from 'zod';
+import {
+  ParsecApiClient,
+  ParsecApiError,
+  type ParsecTeamInvite,
+  type ParsecTeamMember
+} from './ParsecApiClient';
+import { manifest } from './parsec.manifest';
+
+// Pending invites have no Parsec user yet, so they are tracked as
+// invite:<inviteId>:<email>. The email finds the member once the invite is
+// accepted; ids stored before it was added are invite:<inviteId> only.
+const INVITE_PREFIX = 'invite:';
+
+const parseInviteId = (userId: string): { inviteId: string; email?: string } => {
+  const rest = userId.slice(INVITE_PREFIX.length);
+  const separator = rest.indexOf(':');
+  return separator === -1
+    ? { inviteId: rest }
+    : { inviteId: rest.slice(0, separator), email: rest.slice(separator + 1) };
+};
+
+// Stored config may carry a default group under `role`
+type ParsecConfig = PlatformConfig & { role?: string };
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
 
 export class ParsecModule implements IPlatformModule {
   public readonly metadata: PlatformMetadata = {
-    id: 'parsec',
+    id: manifest.id,
     name: 'parsec',
-    displayName: 'Parsec Teams',
+    displayName: manifest.displayName,
     description: 'Ultra-low latency remote desktop access for teams',
-    category: PlatformCategory.SCREEN_SHARING,
+    category: manifest.category,
+    version: manifest.version,
     icon: '🖥️',
     color: '#00D4AA',
     website: 'https://parsec.app',
@@ -30,247 +55,283 @@ export class ParsecModule implements IPlatformModule {
       'Multi-monitor support',
       '4K 60fps streaming',
     ],
-    capabilities: [
-      'user-management',
-      'team-collaboration',
-      'access-control',
-    ],
+    capabilities: manifest.capabilities,
     requiredFields: ['apiKey', 'teamId'],
-    optionalFields: ['organizationId', 'role'],
-    configSchema: z.object({
-      apiKey: z.string().min(1, 'API Key is required').describe('Your Parsec Teams API key'),
-      teamId: z.string().min(1, 'Team ID is required').describe('Your Parsec team identifier'),
-      organizationId: z.string().optional().describe('Organization ID (optional)'),
-      role: z.string().optional().describe('Default role for new users'),
-    }),
+    optionalFields: ['role', 'baseUrl'],
+    configSchema: manifest.configSchema,
   };
-  
-  private config: PlatformConfig = {};
+
+  private config: ParsecConfig = {};
+  private client: ParsecApiClient | null = null;
   private isInitialized: boolean = false;
-  
+
   getRequiredConfigFields(): string[] {
     return ['apiKey', 'teamId'];
   }
-  
-  async initialize(config: PlatformConfig): Promise<PlatformResponse> {
+
+  async initialize(config: ParsecConfig): Promise<PlatformResponse> {
+    // Older configs stored the team under organizationId
+    const teamId = config.teamId || config.organizationId;
+
+    if (!config.apiKey || !teamId) {
+      return {
+        success: false,
+        error: 'Parsec requires apiKey and teamId',
+      };
+    }
+
     try {
-      if (!config.apiKey || !config.organizationId) {
-        return {
-          success: false,
-          error: 'Parsec requires apiKey and organizationId (teamId)',
-        };
-      }
-      
-      this.config = config;
+      this.config = { ...config, teamId };
+      this.client = new ParsecApiClient({
+        teamId,
+        platformConfig: { apiKey: config.apiKey, teamId, baseUrl: config.baseUrl },
+      });
       this.isInitialized = true;
       return { success: true };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to initialize Parsec: ${error}`,
+        error: `Failed to initialize Parsec: ${errorMessage(error)}`,
       };
     }
   }
-  
+
   validateConfig(config: PlatformConfig): boolean {
-    const requiredFields = this.getRequiredConfigFields();
-    return requiredFields.every(field => config[field as keyof PlatformConfig]);
+    return !!(config.apiKey && (config.teamId || config.organizationId));
   }
-  
-  async testConnection(): Promise<PlatformResponse> {
-    if (!this.isInitialized) {
-      return {
-        success: false,
-        error: 'Platform not initialized',
-      };
+
+  private requireClient(): ParsecApiClient {
+    if (!this.isInitialized || !this.client) {
+      throw new Error('Platform not initialized');
+    }
+    return this.client;
+  }
+
+  private toMemberUser(member: ParsecTeamMember): PlatformUser {
+    const [firstName, ...rest] = (member.name || '').split(/\s+/).filter(Boolean);
+    return {
+      id: member.user_id,
+      email: member.email,
+      firstName,
+      lastName: rest.join(' ') || undefined,
+      username: member.email,
+      displayName: member.name,
+      status: PlatformUserStatus.ACTIVE,
+      createdAt: member.created_at ? new Date(member.created_at) : undefined,
+      metadata: {
+        groupId: member.group_id || null,
+        isAdmin: !!member.is_admin,
+        teamId: this.config.teamId,
+      },
+    };
+  }
+
+  private toInviteUser(invite: ParsecTeamInvite): PlatformUser {
+    return {
+      id: `${INVITE_PREFIX}${invite.id}:${invite.email}`,
+      email: invite.email,
+      username: invite.email,
+      status: PlatformUserStatus.PENDING,
+      createdAt: invite.created_at ? new Date(invite.created_at) : undefined,
+      metadata: {
+        inviteId: invite.id,
+        groupId: invite.group_id || null,
+        inviteExpiresAt: invite.expires_at,
+        teamId: this.config.teamId,
+      },
+    };
+  }
+
+  // Group from the request (metadata.groupId or role), falling back to the configured default
+  private async resolveGroupId(client: ParsecApiClient, credentials: Partial<PlatformCredentials>): Promise<string | undefined> {
+    const requested = credentials.metadata?.groupId || credentials.role || this.config.role;
+    if (!requested) return undefined;
+
+    const group = await client.resolveGroup(String(requested));
+    if (!group) {
+      throw new Error(`Parsec group "${requested}" not found in team`);
     }
-    
+    return group.id;
+  }
+
+  async testConnection(): Promise<PlatformResponse> {
     try {
-      // Mock connection test - always succeed for now
+      const team = await this.requireClient().getTeam();
       return {
         success: true,
         data: {
-          teamName: 'Test Team',
-          memberCount: 5,
+          teamId: team.id,
+          teamName: team.name,
+          memberCount: team.member_count,
+          seats: team.seats,
         },
       };
     } catch (error) {
       return {
         success: false,
-        error: `Network error: ${error}`,
+        error: errorMessage(error),
       };
     }
   }
-  
+
+  // Parsec users join a team by accepting an email invite; existing members are reused
   async createUser(credentials: PlatformCredentials): Promise<PlatformResponse<PlatformUser>> {
-    if (!this.isInitialized) {
-      return {
-        success: false,
-        error: 'Platform not initialized',
-      };
-    }
-    
     try {
-      // Mock user creation
-      const user: PlatformUser = {
-        id: `parsec-${Date.now()}`,
-        email: credentials.email,
-        firstName: credentials.firstName,
-        lastName: credentials.lastName,
-        username: credentials.username || credentials.email,
-        status: PlatformUserStatus.ACTIVE,
-        metadata: {
-          role: credentials.role || 'member',
-          teamId: this.config.organizationId,
-        },
-      };
-      
+      const client = this.requireClient();
+      const groupId = await this.resolveGroupId(client, credentials);
+
+      const member = await client.findMemberByEmail(credentials.email);
+      if (member) {
+        const current = groupId && member.group_id !== groupId
+          ? await client.setMemberGroup(member.user_id, groupId)
+          : member;
+        return { success: true, data: this.toMemberUser(current) };
+      }
+
+      const invites = await client.listInvites();
+      const pending = invites.find(invite => invite.email.toLowerCase() === credentials.email.toLowerCase());
+      const invite = pending || await client.createInvite(credentials.email, groupId);
+
       return {
         success: true,
-        data: user,
+        data: {
+          ...this.toInviteUser(invite),
+          firstName: credentials.firstName,
+          lastName: credentials.lastName,
+        },
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to create Parsec user: ${error}`,
+        error: `Failed to create Parsec user: ${errorMessage(error)}`,
       };
     }
   }
-  
+
+  // Parsec profiles belong to the user; only the team group can be changed
   async updateUser(userId: string, updates: Partial<PlatformCredentials>): Promise<PlatformResponse<PlatformUser>> {
-    if (!this.isInitialized) {
-      return {
-        success: false,
-        error: 'Platform not initialized',
-      };
+    if (updates.role || updates.metadata?.groupId) {
+      const assigned = await this.assignRole(userId, String(updates.metadata?.groupId || updates.role));
+      if (!assigned.success) {
+        return { success: false, error: assigned.error };
+      }
     }
-    
+    return this.getUser(userId);
+  }
+
+  async deleteUser(userId: string): Promise<PlatformResponse> {
     try {
-      // Mock user update
-      const user: PlatformUser = {
-        id: userId,
-        email: updates.email || 'updated@example.com',
-        firstName: updates.firstName || 'Updated',
-        lastName: updates.lastName || 'User',
-        username: updates.username || 'updated@example.com',
-        status: PlatformUserStatus.ACTIVE,
-        metadata: {
-          role: updates.role || 'member',
-          teamId: this.config.organizationId,
-        },
-      };
-      
-      return {
-        success: true,
-        data: user,
-      };
+      const client = this.requireClient();
+      if (userId.startsWith(INVITE_PREFIX)) {
+        return await this.deleteInvitedUser(client, userId);
+      }
+      await client.removeMember(userId);
+      return { success: true, data: { id: userId, deleted: true } };
     } catch (error) {
+      // Already gone counts as removed so offboarding can be re-run safely
+      if (error instanceof ParsecApiError && error.status === 404) {
+        return { success: true, data: { id: userId, deleted: true, alreadyRemoved: true } };
+      }
       return {
         success: false,
-        error: `Failed to update Parsec user: ${error}`,
+        error: `Failed to delete Parsec user: ${errorMessage(error)}`,
       };
     }
   }
-  
-  async deleteUser(userId: string): Promise<PlatformResponse> {
-    if (!this.isInitialized) {
-      return {
-        success: false,
-        error: 'Platform not initialized',
-      };
+
+  /**
+   * An invite is cancelled while pending; once accepted the invite is gone and
+   * the person is a team member, found by email and removed as one. Only when
+   * neither exists is the user treated as already removed.
+   */
+  private async deleteInvitedUser(client: ParsecApiClient, userId: string): Promise<PlatformResponse> {
+    const { inviteId, email } = parseInviteId(userId);
+    if ((await client.listInvites()).some(invite => invite.id === inviteId)) {
+      await client.cancelInvite(inviteId);
+      return { success: true, data: { id: userId, deleted: true } };
     }
-    
-    try {
-      // Mock user deletion
-      return { success: true };
-    } catch (error) {
+
+    if (!email) {
       return {
         success: false,
-        error: `Failed to delete Parsec user: ${error}`,
+        error: 'Parsec invite is no longer pending and the member cannot be identified; remove them in Parsec',
       };
     }
+
+    const member = await client.findMemberByEmail(email);
+    if (!member) {
+      return { success: true, data: { id: userId, deleted: true, alreadyRemoved: true } };
+    }
+    await client.removeMember(member.user_id);
+    return { success: true, data: { id: member.user_id, deleted: true } };
   }
-  
+
+  // For an invite id this returns the member once the invite is accepted, so
+  // callers can store the member's user_id in place of the invite id
   async getUser(userId: string): Promise<PlatformResponse<PlatformUser>> {
-    if (!this.isInitialized) {
+    try {
+      const client = this.requireClient();
+      if (userId.startsWith(INVITE_PREFIX)) {
+        const { inviteId, email } = parseInviteId(userId);
+        const invite = (await client.listInvites()).find(i => i.id === inviteId);
+        if (invite) {
+          return { success: true, data: this.toInviteUser(invite) };
+        }
+        const member = email ? await client.findMemberByEmail(email) : null;
+        if (!member) {
+          return { success: false, error: 'Parsec invite is no longer pending and no team member has its email' };
+        }
+        return { success: true, data: this.toMemberUser(member) };
+      }
+
+      return { success: true, data: this.toMemberUser(await client.getMember(userId)) };
+    } catch (error) {
       return {
         success: false,
-        error: 'Platform not initialized',
+        error: `Failed to get Parsec user: ${errorMessage(error)}`,
       };
     }
-    
+  }
+
+  async listUsers(): Promise<PlatformResponse<PlatformUser[]>> {
     try {
-      // Mock get user
-      const user: PlatformUser = {
-        id: userId,
-        email: 'test@example.com',
-        firstName: 'Test',
-        lastName: 'User',
-        username: 'test@example.com',
-        status: PlatformUserStatus.ACTIVE,
-        metadata: {
-          role: 'member',
-          teamId: this.config.organizationId,
-        },
-      };
-      
+      const client = this.requireClient();
+      const members = await client.listMembers();
+      const invites = await client.listInvites();
       return {
         success: true,
-        data: user,
+        data: [
+          ...members.map(member => this.toMemberUser(member)),
+          ...invites.map(invite => this.toInviteUser(invite)),
+        ],
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to get Parsec user: ${error}`,
+        error: `Failed to list Parsec users: ${errorMessage(error)}`,
       };
     }
   }
-  
-  async listUsers(): Promise<PlatformResponse<PlatformUser[]>> {
-    if (!this.isInitialized) {
-      return {
-        success: false,
-        error: 'Platform not initialized',
-      };
-    }
-    
+
+  // Roles map onto Parsec team groups, by group ID or name
+  async assignRole(userId: string, role: string): Promise<PlatformResponse> {
     try {
-      // Mock users list
-      const users: PlatformUser[] = [
-        {
-          id: 'parsec-1',
-          email: 'user1@example.com',
-          firstName: 'John',
-          lastName: 'Doe',
-          username: 'user1@example.com',
-          status: PlatformUserStatus.ACTIVE,
-          metadata: {
-            role: 'member',
-            teamId: this.config.organizationId,
-          },
-        },
-        {
-          id: 'parsec-2',
-          email: 'user2@example.com',
-          firstName: 'Jane',
-          lastName: 'Smith',
-          username: 'user2@example.com',
-          status: PlatformUserStatus.ACTIVE,
-          metadata: {
-            role: 'admin',
-            teamId: this.config.organizationId,
-          },
-        },
-      ];
-      
-      return {
-        success: true,
-        data: users,
-      };
+      const client = this.requireClient();
+      if (userId.startsWith(INVITE_PREFIX)) {
+        return { success: false, error: 'Parsec groups can only be changed after the invite is accepted' };
+      }
+
+      const group = await client.resolveGroup(role);
+      if (!group) {
+        return { success: false, error: `Parsec group "${role}" not found in team` };
+      }
+
+      const member = await client.setMemberGroup(userId, group.id);
+      return { success: true, data: this.toMemberUser(member) };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to list Parsec users: ${error}`,
+        error: `Failed to assign Parsec group: ${errorMessage(error)}`,
       };
     }
   }
@@ -294,7 +355,8 @@ export class ParsecModule implements IPlatformModule {
         data: {
           initialized: this.isInitialized,
           connected: testResult.success,
-          lastSync: new Date()
+          lastSync: new Date(),
+          error: testResult.error
         }
       };
     } catch (error) {
@@ -309,4 +371,4 @@ export class ParsecModule implements IPlatformModule {
       };
     }
   }
-}
\ No newline at end of file
+}
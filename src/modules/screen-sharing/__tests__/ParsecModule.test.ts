@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ParsecModule } from '../ParsecModule';
+import { LocalTransport, setPlatformTransport } from '../../../services/platformTransport';
+import { PlatformUserStatus } from '../../../types/platform.types';
+
+// Local stand-in for the Parsec Teams API with in-memory team state
+interface StandInState {
+  members: Array<{ user_id: string; email: string; name: string; group_id: string | null }>;
+  invites: Array<{ id: string; email: string; group_id: string | null }>;
+  groups: Array<{ id: string; name: string }>;
+  failNext?: number;
+}
+
+const TEAM_ID = 'team-1';
+const API_KEY = 'test-api-key';
+
+let state: StandInState;
+let server: Server;
+let baseUrl: string;
+
+const send = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<Record<string, string>>(resolve => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => resolve(raw ? JSON.parse(raw) : {}));
+  });
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  if (req.headers.authorization !== `Bearer ${API_KEY}`) {
+    return send(res, 401, { error: 'unauthorized' });
+  }
+  if (state.failNext) {
+    const status = state.failNext;
+    state.failNext = undefined;
+    return send(res, status, { error: 'stand-in failure' });
+  }
+
+  const url = new URL(req.url || '/', baseUrl);
+  const [, teams, teamId, collection, id] = url.pathname.split('/');
+  if (teams !== 'teams' || teamId !== TEAM_ID) {
+    return send(res, 404, { error: 'team not found' });
+  }
+
+  if (!collection && req.method === 'GET') {
+    return send(res, 200, { data: { id: TEAM_ID, name: 'Studio', member_count: state.members.length } });
+  }
+
+  if (collection === 'members') {
+    const member = state.members.find(m => m.user_id === id);
+    if (!id && req.method === 'GET') {
+      // Page size of one so the client has to follow the cursor
+      const offset = Number(url.searchParams.get('cursor') || 0);
+      const next = offset + 1 < state.members.length ? String(offset + 1) : null;
+      return send(res, 200, { data: state.members.slice(offset, offset + 1), next_cursor: next });
+    }
+    if (!member) return send(res, 404, { error: 'member not found' });
+    if (req.method === 'GET') return send(res, 200, { data: member });
+    if (req.method === 'PUT') {
+      member.group_id = (await readBody(req)).group_id;
+      return send(res, 200, { data: member });
+    }
+    if (req.method === 'DELETE') {
+      state.members = state.members.filter(m => m !== member);
+      return send(res, 204);
+    }
+  }
+
+  if (collection === 'invites') {
+    if (!id && req.method === 'GET') return send(res, 200, { data: state.invites, next_cursor: null });
+    if (!id && req.method === 'POST') {
+      const body = await readBody(req);
+      const invite = { id: `inv-${state.invites.length + 1}`, email: body.email, group_id: body.group_id ?? null };
+      state.invites.push(invite);
+      return send(res, 201, { data: invite });
+    }
+    if (req.method === 'DELETE') {
+      if (!state.invites.some(i => i.id === id)) return send(res, 404, { error: 'invite not found' });
+      state.invites = state.invites.filter(i => i.id !== id);
+      return send(res, 204);
+    }
+  }
+
+  if (collection === 'groups' && req.method === 'GET') {
+    return send(res, 200, { data: state.groups, next_cursor: null });
+  }
+
+  return send(res, 404, { error: 'not found' });
+}
+
+describe('ParsecModule', () => {
+  let parsec: ParsecModule;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => void handle(req, res));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    // Call the stand-in directly instead of going through the gateway function
+    setPlatformTransport(new LocalTransport());
+  });
+
+  afterAll(async () => {
+    setPlatformTransport(null);
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    state = {
+      members: [
+        { user_id: 'u-1', email: 'owner@example.com', name: 'Team Owner', group_id: 'g-admin' },
+        { user_id: 'u-2', email: 'editor@example.com', name: 'Jo Editor', group_id: 'g-editors' }
+      ],
+      invites: [],
+      groups: [
+        { id: 'g-admin', name: 'Admins' },
+        { id: 'g-editors', name: 'Editors' }
+      ]
+    };
+    parsec = new ParsecModule();
+    await parsec.initialize({ apiKey: API_KEY, teamId: TEAM_ID, baseUrl });
+  });
+
+  describe('initialization', () => {
+    it('requires apiKey and teamId', async () => {
+      const result = await new ParsecModule().initialize({ apiKey: API_KEY });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('teamId');
+    });
+
+    it('accepts the legacy organizationId as the team', async () => {
+      const legacy = new ParsecModule();
+      await legacy.initialize({ apiKey: API_KEY, organizationId: TEAM_ID, baseUrl });
+      const result = await legacy.testConnection();
+      expect(result.success).toBe(true);
+      expect(result.data.teamName).toBe('Studio');
+    });
+  });
+
+  describe('user management', () => {
+    it('lists members across pages and pending invites', async () => {
+      state.invites.push({ id: 'inv-9', email: 'new@example.com', group_id: null });
+
+      const result = await parsec.listUsers();
+      expect(result.success).toBe(true);
+      expect(result.data?.map(u => u.id)).toEqual(['u-1', 'u-2', 'invite:inv-9:new@example.com']);
+      expect(result.data?.[2].status).toBe(PlatformUserStatus.PENDING);
+    });
+
+    it('invites a new user into the requested group', async () => {
+      const result = await parsec.createUser({
+        email: 'new@example.com',
+        username: 'new',
+        firstName: 'New',
+        lastName: 'Person',
+        role: 'editors'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.id).toBe('invite:inv-1:new@example.com');
+      expect(state.invites[0]).toEqual({ id: 'inv-1', email: 'new@example.com', group_id: 'g-editors' });
+    });
+
+    it('reuses an existing member instead of inviting again', async () => {
+      const result = await parsec.createUser({
+        email: 'EDITOR@example.com',
+        username: 'editor',
+        firstName: 'Jo',
+        lastName: 'Editor'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.id).toBe('u-2');
+      expect(state.invites).toHaveLength(0);
+    });
+
+    it('fails when the group does not exist', async () => {
+      const result = await parsec.createUser({
+        email: 'new@example.com',
+        username: 'new',
+        firstName: 'New',
+        lastName: 'Person',
+        role: 'Colorists'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('"Colorists" not found');
+    });
+
+    it('moves a member to another group', async () => {
+      const result = await parsec.assignRole('u-2', 'Admins');
+      expect(result.success).toBe(true);
+      expect(state.members[1].group_id).toBe('g-admin');
+    });
+
+    it('removes members and cancels invites', async () => {
+      state.invites.push({ id: 'inv-9', email: 'new@example.com', group_id: null });
+
+      expect((await parsec.deleteUser('u-2')).success).toBe(true);
+      expect((await parsec.deleteUser('invite:inv-9')).success).toBe(true);
+      expect(state.members.map(m => m.user_id)).toEqual(['u-1']);
+      expect(state.invites).toHaveLength(0);
+    });
+
+    it('follows an accepted invite to the member and removes them on offboarding', async () => {
+      const invited = await parsec.createUser({ email: 'new@example.com', username: 'new', firstName: 'New', lastName: 'Person' });
+      const inviteUserId = invited.data!.id;
+      expect((await parsec.getUser(inviteUserId)).data?.status).toBe(PlatformUserStatus.PENDING);
+
+      // Accepting turns the invite into a team member with its own user id
+      state.invites = [];
+      state.members.push({ user_id: 'u-3', email: 'new@example.com', name: 'New Person', group_id: null });
+
+      const accepted = await parsec.getUser(inviteUserId);
+      expect(accepted.success).toBe(true);
+      expect(accepted.data).toMatchObject({ id: 'u-3', status: PlatformUserStatus.ACTIVE });
+
+      const removed = await parsec.deleteUser(inviteUserId);
+      expect(removed.success).toBe(true);
+      expect(removed.data.alreadyRemoved).toBeUndefined();
+      expect(state.members.map(m => m.user_id)).toEqual(['u-1', 'u-2']);
+    });
+
+    it('does not report a legacy invite id as removed when it cannot check membership', async () => {
+      const result = await parsec.deleteUser('invite:inv-404');
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('remove them in Parsec');
+    });
+
+    it('treats removing a missing member as already removed', async () => {
+      const result = await parsec.deleteUser('u-404');
+      expect(result.success).toBe(true);
+      expect(result.data.alreadyRemoved).toBe(true);
+    });
+  });
+
+  describe('error mapping', () => {
+    it('reports an invalid API key', async () => {
+      const badKey = new ParsecModule();
+      await badKey.initialize({ apiKey: 'wrong', teamId: TEAM_ID, baseUrl });
+      const result = await badKey.testConnection();
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid Parsec API key');
+    });
+
+    it('marks rate limits and outages with retryable messages', async () => {
+      state.failNext = 429;
+      expect((await parsec.listUsers()).error).toContain('rate limit');
+
+      state.failNext = 503;
+      expect((await parsec.listUsers()).error).toContain('is not available');
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { PlatformCapability, PlatformCategory, type PlatformModuleManifest } from '../../types/platform.types';
+
+export const manifest: PlatformModuleManifest = {
+  id: 'parsec',
+  displayName: 'Parsec Teams',
+  version: '1.1.0',
+  category: PlatformCategory.SCREEN_SHARING,
+  capabilities: [
+    PlatformCapability.USER_MANAGEMENT,
+    PlatformCapability.TEAM_COLLABORATION,
+    PlatformCapability.ACCESS_CONTROL,
+    PlatformCapability.ROLE_MANAGEMENT,
+  ],
+  configSchema: z.object({
+    apiKey: z.string().min(1, 'API Key is required').describe('Your Parsec Teams API key'),
+    teamId: z.string().min(1, 'Team ID is required').describe('Your Parsec team identifier'),
+    role: z.string().optional().describe('Default group (ID or name) for new members'),
+    baseUrl: z.string().url().optional().describe('API base URL override (optional)'),
+  }),
+  load: () => import('./ParsecModule').then(({ ParsecModule }) => new ParsecModule()),
+};
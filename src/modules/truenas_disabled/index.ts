@@ -1,16 +0,0 @@
-export { trueNASModule } from './TrueNASModule';
-export { TrueNASApiClient } from './TrueNASApiClient';
-export { 
-  trueNASConfigSchema, 
-  trueNASCredentialsSchema,
-  trueNASGroupSchema,
-  trueNASShareSchema,
-  type TrueNASConfig,
-  type TrueNASCredentials,
-  type TrueNASGroup,
-  type TrueNASShare,
-  validateTrueNASConfig,
-  validateTrueNASCredentials,
-  validateTrueNASGroup,
-  validateTrueNASShare
-} from './schemas';
\ No newline at end of file
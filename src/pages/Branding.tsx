@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useBranding } from '../contexts/BrandingContext';
+import { useTenant } from '../contexts/TenantContext';
 
 export const Branding: React.FC = () => {
   const { branding: globalBranding, updateBranding, resetBranding } = useBranding();
+  const { organization, updateOrganizationBranding } = useTenant();
   const [branding, setBranding] = useState({
     companyName: '',
     tagline: '',
@@ -109,6 +111,24 @@ export const Branding: React.FC = () => {
       enableShadows: branding.enableShadows
     });
     
+    // The freelancer portal is branded from the organization record, since
+    // freelancers never see this browser's saved settings
+    if (organization) {
+      updateOrganizationBranding({
+        company_name: branding.companyName,
+        // Uploaded logos are local preview URLs that nobody else can load
+        ...(branding.logoPreview.startsWith('blob:') ? {} : { logo_url: branding.logoPreview || undefined }),
+        colors: {
+          ...organization.branding?.colors,
+          primary: branding.primaryColor,
+          secondary: branding.secondaryColor,
+          accent: branding.accentColor
+        }
+      }).catch(error => {
+        console.error('Failed to save organization branding:', error);
+      });
+    }
+    
     alert('Branding changes applied and saved successfully!\n\nSettings are now active across the entire application and will persist across page reloads.');
   };
 
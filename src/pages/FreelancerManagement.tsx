@@ -1,7 +1,7 @@
 
 import { FreelancerProvider } from '../contexts/FreelancerContext';
 import { PlatformProvider } from '../contexts/PlatformContext';
-import { FreelancerManagementDashboard } from '../components/freelancers';
+import { ApprovalsInbox, FreelancerManagementDashboard } from '../components/freelancers';
 
 export function FreelancerManagement() {
   return (
@@ -10,6 +10,7 @@ export function FreelancerManagement() {
         <div className="min-h-screen bg-gray-50">
           <div className="py-8">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+              <ApprovalsInbox />
               <FreelancerManagementDashboard />
             </div>
           </div>
@@ -0,0 +1,306 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { AlertCircle, AtSign, CheckCircle, Clock, Loader2, Mail, Phone, User, XCircle } from 'lucide-react';
+import { useBranding } from '../contexts/BrandingContext';
+import { completePortal, loadPortal } from '../services/freelancerPortal';
+import { USERNAME_PATTERN, type PortalDetails, type PortalPlatformAccess, type PortalView } from '../services/portalInvites';
+
+const accessLabels: Record<PortalPlatformAccess['status'], { label: string; className: string; icon: typeof CheckCircle }> = {
+  active: { label: 'Active', className: 'text-green-700 bg-green-50', icon: CheckCircle },
+  pending: { label: 'Being set up', className: 'text-amber-700 bg-amber-50', icon: Clock },
+  inactive: { label: 'Revoked', className: 'text-gray-600 bg-gray-100', icon: XCircle },
+  error: { label: 'Needs attention', className: 'text-red-700 bg-red-50', icon: AlertCircle }
+};
+
+// Suggest "jane.doe" from the name until the freelancer types their own
+const suggestUsername = (firstName: string, lastName: string) =>
+  [firstName, lastName]
+    .map(part => part.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]/g, ''))
+    .filter(Boolean)
+    .join('.')
+    .slice(0, 32);
+
+/**
+ * Public page a freelancer reaches from their invite link. They confirm
+ * their details, pick a username, accept the terms and see their platform
+ * access. Each link confirms once; changes after that need a new invite.
+ * Styled with the organization's branding.
+ */
+export function FreelancerPortal() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('invite') || '';
+  const { branding, applyOrganizationBranding } = useBranding();
+
+  const [view, setView] = useState<PortalView | null>(null);
+  const [details, setDetails] = useState<PortalDetails>({
+    firstName: '',
+    lastName: '',
+    phone: '',
+    username: '',
+    acceptTerms: false
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [confirmed, setConfirmed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError('This page needs the invite link from your email.');
+      setLoading(false);
+      return;
+    }
+
+    loadPortal(token)
+      .then(result => {
+        if (!result.success || !result.data) {
+          setError(result.error || 'This invite link could not be opened.');
+          return;
+        }
+        const loaded = result.data;
+        applyOrganizationBranding(loaded.organization.branding, loaded.organization.name);
+        setView(loaded);
+        setDetails({
+          firstName: loaded.freelancer.firstName,
+          lastName: loaded.freelancer.lastName,
+          phone: loaded.freelancer.phone || '',
+          username: loaded.freelancer.username || suggestUsername(loaded.freelancer.firstName, loaded.freelancer.lastName),
+          acceptTerms: !!loaded.termsAcceptedAt
+        });
+      })
+      .catch(loadError => {
+        console.error('Failed to load the freelancer portal:', loadError);
+        setError('This invite link could not be opened.');
+      })
+      .finally(() => setLoading(false));
+  }, [token, applyOrganizationBranding]);
+
+  const handleChange = (field: keyof PortalDetails, value: string | boolean) => {
+    setDetails(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    if (!USERNAME_PATTERN.test(details.username)) {
+      setFormError('Usernames are 3-32 lowercase letters, numbers, dots, dashes or underscores.');
+      return;
+    }
+    if (!details.acceptTerms) {
+      setFormError('Please accept the terms to continue.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await completePortal(token, details);
+      if (!result.success || !result.data) {
+        setFormError(result.error || 'Your details could not be saved.');
+        return;
+      }
+      setView(result.data);
+      setConfirmed(true);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const companyName = branding.companyName || view?.organization.name || '';
+  const primaryColor = branding.primaryColor;
+
+  const renderHeader = () => (
+    <div className="sm:mx-auto sm:w-full sm:max-w-lg text-center">
+      {branding.logoUrl ? (
+        <img src={branding.logoUrl} alt={companyName} className="mx-auto h-12 w-auto" />
+      ) : companyName && (
+        <div
+          className="mx-auto h-12 w-12 rounded-lg flex items-center justify-center text-white text-xl font-bold"
+          style={{ backgroundColor: primaryColor }}
+        >
+          {companyName.charAt(0).toUpperCase()}
+        </div>
+      )}
+      <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+        {companyName ? `Welcome to ${companyName}` : 'Welcome'}
+      </h2>
+      {view && !view.completedAt && (
+        <p className="mt-2 text-sm text-gray-600">Confirm your details to finish onboarding</p>
+      )}
+    </div>
+  );
+
+  const renderAccess = (platforms: PortalPlatformAccess[]) => (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900 mb-2">Your platform access</h3>
+      {platforms.length === 0 ? (
+        <p className="text-sm text-gray-500">No platforms have been set up for you yet. Check back later.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border rounded-md">
+          {platforms.map(platform => {
+            const access = accessLabels[platform.status];
+            const Icon = access.icon;
+            return (
+              <li key={platform.platformId} className="px-3 py-2 flex items-center justify-between">
+                <span className="text-sm text-gray-900">{platform.name}</span>
+                <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${access.className}`}>
+                  <Icon className="h-3 w-3 mr-1" />
+                  {access.label}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+
+  const renderForm = (current: PortalView) => (
+    <form className="space-y-5" onSubmit={handleSubmit}>
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Email address</label>
+        <div className="mt-1 relative">
+          <input
+            type="email"
+            value={current.freelancer.email}
+            disabled
+            className="block w-full px-3 py-2 pl-10 border border-gray-200 rounded-md bg-gray-50 text-gray-500 sm:text-sm"
+          />
+          <Mail className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="firstName" className="block text-sm font-medium text-gray-700">First name</label>
+          <div className="mt-1 relative">
+            <input
+              id="firstName"
+              type="text"
+              autoComplete="given-name"
+              required
+              value={details.firstName}
+              onChange={(e) => handleChange('firstName', e.target.value)}
+              className="block w-full px-3 py-2 pl-10 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+            />
+            <User className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
+          </div>
+        </div>
+        <div>
+          <label htmlFor="lastName" className="block text-sm font-medium text-gray-700">Last name</label>
+          <input
+            id="lastName"
+            type="text"
+            autoComplete="family-name"
+            required
+            value={details.lastName}
+            onChange={(e) => handleChange('lastName', e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="phone" className="block text-sm font-medium text-gray-700">
+          Phone number <span className="text-gray-500 font-normal">(optional)</span>
+        </label>
+        <div className="mt-1 relative">
+          <input
+            id="phone"
+            type="tel"
+            autoComplete="tel"
+            value={details.phone}
+            onChange={(e) => handleChange('phone', e.target.value)}
+            className="block w-full px-3 py-2 pl-10 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+            placeholder="+1 (555) 123-4567"
+          />
+          <Phone className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="username" className="block text-sm font-medium text-gray-700">Username</label>
+        <div className="mt-1 relative">
+          <input
+            id="username"
+            type="text"
+            autoComplete="username"
+            required
+            value={details.username}
+            onChange={(e) => handleChange('username', e.target.value.toLowerCase())}
+            className="block w-full px-3 py-2 pl-10 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+          />
+          <AtSign className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
+        </div>
+        <p className="mt-1 text-xs text-gray-500">Used for your accounts on the platforms you are given.</p>
+      </div>
+
+      <div className="bg-gray-50 border border-gray-200 rounded-md p-3">
+        <p className="text-sm text-gray-700 whitespace-pre-line max-h-40 overflow-y-auto">{current.terms}</p>
+        <label className="mt-3 flex items-center text-sm text-gray-900">
+          <input
+            type="checkbox"
+            checked={details.acceptTerms}
+            onChange={(e) => handleChange('acceptTerms', e.target.checked)}
+            className="h-4 w-4 mr-2 border-gray-300 rounded focus:ring-blue-500"
+          />
+          I accept these terms
+        </label>
+      </div>
+
+      {formError && (
+        <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md flex items-start">
+          <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0 mt-0.5" />
+          <span className="text-sm">{formError}</span>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="w-full flex justify-center items-center py-2 px-4 rounded-md shadow-sm text-sm font-medium text-white hover:opacity-90 disabled:opacity-50"
+        style={{ backgroundColor: primaryColor }}
+      >
+        {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {current.completedAt ? 'Update details' : 'Confirm and continue'}
+      </button>
+    </form>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      {renderHeader()}
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-lg">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10 space-y-6">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-8 w-8 text-gray-400 animate-spin" />
+            </div>
+          ) : error || !view ? (
+            <div className="text-center">
+              <AlertCircle className="mx-auto h-10 w-10 text-gray-400" />
+              <p className="mt-3 text-sm text-gray-600">{error}</p>
+              <p className="mt-1 text-xs text-gray-500">Ask your contact to send you a new invite.</p>
+            </div>
+          ) : (
+            <>
+              {view.completedAt && (
+                <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md flex items-start">
+                  <CheckCircle className="h-5 w-5 mr-2 flex-shrink-0 mt-0.5 text-green-600" />
+                  <span className="text-sm font-medium">
+                    Your details were confirmed on {new Date(view.completedAt).toLocaleDateString()}.
+                    {confirmed ? ' Ask your contact if anything needs to change later.' : ' You can update them below.'}
+                  </span>
+                </div>
+              )}
+              {renderAccess(view.platforms)}
+              {!confirmed && renderForm(view)}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,11 @@ import { usePermissions } from '../hooks/usePermissions';
 import { PlatformProvider } from '../contexts/PlatformContext';
 import { PlatformStatusDashboard } from '../components/platforms/PlatformStatusDashboard';
 import { BulkPlatformOperations } from '../components/platforms/BulkPlatformOperations';
+import { ReconciliationPanel } from '../components/platforms/ReconciliationPanel';
+import { PlatformCostReport } from '../components/platforms/PlatformCostReport';
+import { OnboardingTemplateManager } from '../components/freelancers/OnboardingTemplateManager';
+import { DocumentRequirementsManager } from '../components/freelancers/DocumentRequirementsManager';
+import { CustomFieldManager } from '../components/freelancers/CustomFieldManager';
 import { Shield } from 'lucide-react';
 
 function PlatformManagementContent() {
@@ -28,6 +33,11 @@ function PlatformManagementContent() {
     <div className="space-y-8">
       <PlatformStatusDashboard />
       <BulkPlatformOperations />
+      <OnboardingTemplateManager />
+      <DocumentRequirementsManager />
+      <CustomFieldManager />
+      <ReconciliationPanel />
+      <PlatformCostReport />
     </div>
   );
 }
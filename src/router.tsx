@@ -6,6 +6,7 @@ import { ProtectedRoute } from './components/auth/ProtectedRoute';
 // Pages
 import { Login } from './components/auth/Login';
 import { AuthCallback } from './components/auth/AuthCallback';
+import { PlatformOAuthCallback } from './components/platforms/PlatformOAuthCallback';
 import { Dashboard } from './pages/Dashboard';
 import { Onboard } from './pages/Onboard';
 import { FreelancerManagement } from './pages/FreelancerManagement';
@@ -13,6 +14,7 @@ import { PlatformManagement } from './pages/PlatformManagement';
 import { TeamManagement } from './pages/TeamManagement';
 import { Settings } from './pages/Settings';
 import { Branding } from './pages/Branding';
+import { FreelancerPortal } from './pages/FreelancerPortal';
 
 export const router = createBrowserRouter([
   {
@@ -23,10 +25,20 @@ export const router = createBrowserRouter([
     path: '/auth/callback',
     element: <AuthCallback />
   },
+  {
+    // Public: freelancers arrive from their signed invite link
+    path: '/portal',
+    element: <FreelancerPortal />
+  },
   {
     path: '/',
     element: <ProtectedRoute />,
     children: [
+      {
+        // Vendors redirect here after OAuth consent; needs the signed-in session
+        path: 'auth/platform-callback',
+        element: <PlatformOAuthCallback />
+      },
       {
         element: <AppLayout />,
         children: [
@@ -0,0 +1,139 @@
+import { supabase } from './supabase';
+import { db } from './database.service';
+import type { Freelancer, FreelancerPlatform } from '../types/database.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Changes to freelancer and grant end dates. Expired access is revoked and
+ * reminders are queued by the scheduled access-expiry function (see
+ * runExpirySweep).
+ */
+export class AccessExpiryService {
+  private static instance: AccessExpiryService;
+
+  private constructor() {}
+
+  static getInstance(): AccessExpiryService {
+    if (!AccessExpiryService.instance) {
+      AccessExpiryService.instance = new AccessExpiryService();
+    }
+    return AccessExpiryService.instance;
+  }
+
+  /**
+   * Push a freelancer's end date (and any per-platform end dates) out by the
+   * given number of days, counting from today if the date has already passed.
+   */
+  async extendAccess(
+    organizationId: string,
+    freelancerId: string,
+    days: number,
+    performedBy: string
+  ): Promise<string | null> {
+    const freelancer: Freelancer | null = await db.freelancers.getById(freelancerId);
+    if (!freelancer) {
+      throw new Error('Freelancer not found');
+    }
+
+    const grants = (await this.loadGrants([freelancerId])).get(freelancerId) || [];
+    const extend = (current: string) => {
+      const base = Math.max(new Date(current).getTime(), Date.now());
+      return new Date(base + days * DAY_MS).toISOString();
+    };
+
+    const changes: Record<string, { from: string; to: string }> = {};
+    let newestExpiry: string | null = null;
+
+    if (freelancer.expires_at) {
+      const next = extend(freelancer.expires_at);
+      changes.freelancer = { from: freelancer.expires_at, to: next };
+      newestExpiry = next;
+
+      const { error } = await supabase
+        .from('freelancers')
+        .update({ expires_at: next, expiry_reminder_sent_at: null, updated_at: new Date().toISOString() })
+        .eq('id', freelancerId);
+
+      if (error) throw error;
+    }
+
+    for (const grant of grants) {
+      if (!grant.expires_at || grant.status === 'inactive') continue;
+
+      const next = extend(grant.expires_at);
+      changes[grant.platform_id] = { from: grant.expires_at, to: next };
+      if (!newestExpiry || new Date(next) > new Date(newestExpiry)) newestExpiry = next;
+
+      await this.updateGrant(grant.id, { expires_at: next, expiry_reminder_sent_at: null });
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return null;
+    }
+
+    await db.auditLogs.create({
+      organization_id: organizationId,
+      user_id: performedBy,
+      action: 'extend_access',
+      entity_type: 'freelancer',
+      entity_id: freelancerId,
+      changes: { days, expires_at: changes }
+    });
+
+    return newestExpiry;
+  }
+
+  // Set or clear the end date of a single platform grant
+  async setGrantExpiry(
+    organizationId: string,
+    grant: Pick<FreelancerPlatform, 'id' | 'freelancer_id' | 'platform_id' | 'expires_at'>,
+    expiresAt: string | null,
+    performedBy: string
+  ): Promise<void> {
+    await this.updateGrant(grant.id, { expires_at: expiresAt, expiry_reminder_sent_at: null });
+
+    await db.auditLogs.create({
+      organization_id: organizationId,
+      user_id: performedBy,
+      action: 'set_access_expiry',
+      entity_type: 'freelancer_platform',
+      entity_id: grant.id,
+      changes: {
+        freelancer_id: grant.freelancer_id,
+        platform_id: grant.platform_id,
+        expires_at: { from: grant.expires_at || null, to: expiresAt }
+      }
+    });
+  }
+
+  private async loadGrants(freelancerIds: string[]): Promise<Map<string, FreelancerPlatform[]>> {
+    const grantsByFreelancer = new Map<string, FreelancerPlatform[]>();
+    if (freelancerIds.length === 0) return grantsByFreelancer;
+
+    const { data, error } = await supabase
+      .from('freelancer_platforms')
+      .select('*')
+      .in('freelancer_id', freelancerIds);
+
+    if (error) throw error;
+
+    for (const grant of (data || []) as FreelancerPlatform[]) {
+      const list = grantsByFreelancer.get(grant.freelancer_id) || [];
+      list.push(grant);
+      grantsByFreelancer.set(grant.freelancer_id, list);
+    }
+    return grantsByFreelancer;
+  }
+
+  private async updateGrant(id: string, data: Partial<FreelancerPlatform>): Promise<void> {
+    const { error } = await supabase
+      .from('freelancer_platforms')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+export const accessExpiry = AccessExpiryService.getInstance();
@@ -0,0 +1,201 @@
+import { supabase } from './supabase';
+import { loadPlatformModule } from './platformLoader';
+import { supportsCapability } from './platformCapabilities';
+import { debugLog } from '../config/environment';
+import { PlatformCapability } from '../types/platform.types';
+import type { FreelancerPlatform, Json, PlatformActivity, PlatformActivityInsert } from '../types/database.types';
+import type { IPlatformModule } from '../types/platform.types';
+
+export const DEFAULT_ACTIVITY_SYNC_INTERVAL_MS = 30 * 60 * 1000;
+
+// How far back the first sync of a grant looks
+const INITIAL_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+
+type TrackedGrant = FreelancerPlatform & { platform_user_id: string };
+
+export interface ActivityIngestionResult {
+  organizationId: string;
+  checked: number;
+  ingested: number;
+  failed: Array<{ freelancerPlatformId: string; platformId: string; error: string }>;
+  ranAt: string;
+}
+
+/**
+ * Pulls user activity from platforms that support activity monitoring into
+ * `platform_activity`, so usage can be reviewed per freelancer without
+ * calling every platform each time.
+ */
+export class ActivityIngestionService {
+  private static instance: ActivityIngestionService;
+  private syncing = new Set<string>();
+
+  private constructor() {}
+
+  static getInstance(): ActivityIngestionService {
+    if (!ActivityIngestionService.instance) {
+      ActivityIngestionService.instance = new ActivityIngestionService();
+    }
+    return ActivityIngestionService.instance;
+  }
+
+  // Ingest now and then on an interval; returns a stop function
+  schedule(
+    organizationId: string,
+    onSync?: (result: ActivityIngestionResult) => void,
+    intervalMs: number = DEFAULT_ACTIVITY_SYNC_INTERVAL_MS
+  ): () => void {
+    const run = () => {
+      this.runIngestion(organizationId)
+        .then(result => {
+          if (result) onSync?.(result);
+        })
+        .catch(error => {
+          console.error('Activity ingestion failed:', error);
+        });
+    };
+
+    run();
+    const timer = setInterval(run, intervalMs);
+    return () => clearInterval(timer);
+  }
+
+  async runIngestion(organizationId: string): Promise<ActivityIngestionResult | null> {
+    if (this.syncing.has(organizationId)) return null;
+    this.syncing.add(organizationId);
+
+    try {
+      const result: ActivityIngestionResult = {
+        organizationId,
+        checked: 0,
+        ingested: 0,
+        failed: [],
+        ranAt: new Date().toISOString()
+      };
+
+      const grants = await this.loadTrackedGrants(organizationId);
+      const modules = new Map<string, IPlatformModule | null>();
+
+      for (const grant of grants) {
+        if (!modules.has(grant.platform_id)) {
+          // A disabled or misconfigured platform is skipped until it comes back
+          const platformModule = await loadPlatformModule(organizationId, grant.platform_id).catch(error => {
+            console.error(`Skipping activity ingestion for ${grant.platform_id}:`, error);
+            return null;
+          });
+          modules.set(
+            grant.platform_id,
+            platformModule && supportsCapability(platformModule, PlatformCapability.ACTIVITY_MONITORING) ? platformModule : null
+          );
+        }
+        const platformModule = modules.get(grant.platform_id);
+        if (!platformModule) continue;
+
+        result.checked++;
+        const to = new Date();
+        const latest = await this.latestActivityAt(grant.id);
+        // Re-reading from the latest stored event is harmless: duplicates are ignored
+        const from = latest || new Date(to.getTime() - INITIAL_LOOKBACK_MS);
+
+        const response = await platformModule.getActivity!(grant.platform_user_id, { from, to });
+        if (!response.success || !response.data) {
+          result.failed.push({
+            freelancerPlatformId: grant.id,
+            platformId: grant.platform_id,
+            error: response.error || 'Unknown error'
+          });
+          continue;
+        }
+
+        result.ingested += await this.store(organizationId, grant, response.data.map(event => ({
+          external_id: event.id,
+          action: event.action,
+          details: (event.details || {}) as Json,
+          occurred_at: event.occurredAt.toISOString()
+        })));
+      }
+
+      debugLog('Activity ingestion completed:', result);
+      return result;
+    } finally {
+      this.syncing.delete(organizationId);
+    }
+  }
+
+  // Newest first, across all of the freelancer's platforms
+  async listFreelancerActivity(freelancerId: string, limit = 50): Promise<PlatformActivity[]> {
+    const { data, error } = await supabase
+      .from('platform_activity')
+      .select('*')
+      .eq('freelancer_id', freelancerId)
+      .order('occurred_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as PlatformActivity[];
+  }
+
+  private async store(
+    organizationId: string,
+    grant: TrackedGrant,
+    events: Array<Pick<PlatformActivityInsert, 'external_id' | 'action' | 'details' | 'occurred_at'>>
+  ): Promise<number> {
+    if (events.length === 0) return 0;
+
+    const rows: PlatformActivityInsert[] = events.map(event => ({
+      ...event,
+      organization_id: organizationId,
+      freelancer_id: grant.freelancer_id,
+      freelancer_platform_id: grant.id,
+      platform_id: grant.platform_id
+    }));
+
+    // Only newly inserted rows come back, so this counts new events
+    const { data, error } = await supabase
+      .from('platform_activity')
+      .upsert(rows, { onConflict: 'organization_id,platform_id,external_id', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+  }
+
+  private async latestActivityAt(freelancerPlatformId: string): Promise<Date | null> {
+    const { data, error } = await supabase
+      .from('platform_activity')
+      .select('occurred_at')
+      .eq('freelancer_platform_id', freelancerPlatformId)
+      .order('occurred_at', { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+    const latest = (data as Array<{ occurred_at: string }> | null)?.[0];
+    return latest ? new Date(latest.occurred_at) : null;
+  }
+
+  // Active grants with a platform account; revoked users have nothing to report
+  private async loadTrackedGrants(organizationId: string): Promise<TrackedGrant[]> {
+    const { data: freelancers, error } = await supabase
+      .from('freelancers')
+      .select('id')
+      .eq('organization_id', organizationId);
+
+    if (error) throw error;
+
+    const freelancerIds = ((freelancers || []) as Array<{ id: string }>).map(f => f.id);
+    if (freelancerIds.length === 0) return [];
+
+    const { data: grants, error: grantsError } = await supabase
+      .from('freelancer_platforms')
+      .select('*')
+      .in('freelancer_id', freelancerIds);
+
+    if (grantsError) throw grantsError;
+
+    return ((grants || []) as FreelancerPlatform[]).filter((grant): grant is TrackedGrant =>
+      grant.status === 'active' && !!grant.platform_user_id
+    );
+  }
+}
+
+export const activityIngestion = ActivityIngestionService.getInstance();
@@ -0,0 +1,175 @@
+import { supabase } from './supabase';
+import { db } from './database.service';
+import type { ApprovalRequest, ApprovalStatus, Json } from '../types/database.types';
+import type { PlatformCredentials } from '../types/platform.types';
+
+// The approval policy is stored in platforms.config next to the seat settings
+export const requiresApproval = (config: unknown) =>
+  ((config || {}) as Record<string, unknown>).requiresApproval === true;
+
+export type ApprovalRequestWithRequester = ApprovalRequest & {
+  requester: { full_name: string; email: string } | null;
+};
+
+export type ApprovalListener = (request: ApprovalRequest) => void;
+
+export interface ApprovalRequestInput {
+  organizationId: string;
+  freelancerId: string;
+  platformIds: string[];
+  requestedBy: string;
+  stepOptions?: Record<string, Partial<PlatformCredentials>>;
+}
+
+/**
+ * Onboarding requests for platforms that need an admin's sign-off. A request
+ * is decided once; approving it is what lets provisioning go ahead.
+ */
+export class ApprovalService {
+  private static instance: ApprovalService;
+  private listeners: Set<ApprovalListener> = new Set();
+
+  private constructor() {}
+
+  static getInstance(): ApprovalService {
+    if (!ApprovalService.instance) {
+      ApprovalService.instance = new ApprovalService();
+    }
+    return ApprovalService.instance;
+  }
+
+  // Notified whenever a request is created or decided in this tab
+  subscribe(listener: ApprovalListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async listRequests(organizationId: string, status?: ApprovalStatus): Promise<ApprovalRequestWithRequester[]> {
+    let query = supabase
+      .from('approval_requests')
+      .select('*, requester:users!approval_requests_requested_by_fkey(full_name, email)')
+      .eq('organization_id', organizationId);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []) as unknown as ApprovalRequestWithRequester[];
+  }
+
+  // One request per platform; platforms already awaiting a decision are not requested twice
+  async requestApproval(input: ApprovalRequestInput): Promise<ApprovalRequest[]> {
+    const { organizationId, freelancerId, platformIds, requestedBy, stepOptions = {} } = input;
+
+    const { data: pending, error: pendingError } = await supabase
+      .from('approval_requests')
+      .select('platform_id')
+      .eq('freelancer_id', freelancerId)
+      .eq('status', 'pending');
+
+    if (pendingError) throw pendingError;
+    const alreadyPending = new Set(((pending || []) as Array<{ platform_id: string }>).map(row => row.platform_id));
+    const toRequest = platformIds.filter(platformId => !alreadyPending.has(platformId));
+    if (toRequest.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('approval_requests')
+      .insert(toRequest.map(platformId => ({
+        organization_id: organizationId,
+        freelancer_id: freelancerId,
+        platform_id: platformId,
+        step_options: (stepOptions[platformId] || {}) as Json,
+        requested_by: requestedBy
+      })))
+      .select();
+
+    if (error) throw error;
+    const requests = (data || []) as ApprovalRequest[];
+
+    for (const request of requests) {
+      await db.auditLogs.create({
+        organization_id: organizationId,
+        user_id: requestedBy,
+        action: 'approval_requested',
+        entity_type: 'approval_request',
+        entity_id: request.id,
+        changes: { freelancer_id: freelancerId, platform_id: request.platform_id }
+      });
+      this.emit(request);
+    }
+    return requests;
+  }
+
+  /**
+   * Record an admin's decision. Only pending requests can be decided, so two
+   * admins acting on the same request cannot both win.
+   */
+  async decide(
+    request: ApprovalRequest,
+    approved: boolean,
+    decidedBy: string,
+    comment?: string
+  ): Promise<ApprovalRequest> {
+    const decidedAt = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('approval_requests')
+      .update({
+        status: approved ? 'approved' : 'rejected',
+        decided_by: decidedBy,
+        decided_at: decidedAt,
+        decision_comment: comment?.trim() || null,
+        updated_at: decidedAt
+      })
+      .eq('id', request.id)
+      .eq('status', 'pending')
+      .select();
+
+    if (error) throw error;
+    const decided = (data || [])[0] as ApprovalRequest | undefined;
+    if (!decided) {
+      throw new Error('This request has already been decided');
+    }
+
+    await db.auditLogs.create({
+      organization_id: request.organization_id,
+      user_id: decidedBy,
+      action: approved ? 'approval_approved' : 'approval_rejected',
+      entity_type: 'approval_request',
+      entity_id: request.id,
+      changes: {
+        freelancer_id: request.freelancer_id,
+        platform_id: request.platform_id,
+        requested_by: request.requested_by,
+        comment: comment?.trim() || null
+      }
+    });
+    this.emit(decided);
+    return decided;
+  }
+
+  // Remember which onboarding job carried out an approved request
+  async linkJob(requestIds: string[], jobId: string): Promise<void> {
+    const { error } = await supabase
+      .from('approval_requests')
+      .update({ job_id: jobId, updated_at: new Date().toISOString() })
+      .in('id', requestIds);
+
+    if (error) throw error;
+  }
+
+  private emit(request: ApprovalRequest): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(request);
+      } catch (error) {
+        console.error('Approval listener failed:', error);
+      }
+    });
+  }
+}
+
+export const approvals = ApprovalService.getInstance();
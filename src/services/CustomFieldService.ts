@@ -0,0 +1,144 @@
+import { supabase } from './supabase';
+import { CUSTOM_FIELD_KEY_PATTERN } from './freelancerProfile';
+import type { CustomFieldDefinition, CustomFieldType } from '../types/database.types';
+
+export interface CustomFieldInput {
+  key: string;
+  label: string;
+  field_type: CustomFieldType;
+  options?: string[];
+  is_required: boolean;
+  pattern?: string | null;
+  min_value?: number | null;
+  max_value?: number | null;
+}
+
+/**
+ * Freelancer profile fields an organization defines on top of the built-in
+ * ones. Values live in freelancers.custom_fields under each field's key, so
+ * a key cannot change once values may have been stored against it.
+ */
+export class CustomFieldService {
+  private static instance: CustomFieldService;
+
+  private constructor() {}
+
+  static getInstance(): CustomFieldService {
+    if (!CustomFieldService.instance) {
+      CustomFieldService.instance = new CustomFieldService();
+    }
+    return CustomFieldService.instance;
+  }
+
+  async listFields(organizationId: string): Promise<CustomFieldDefinition[]> {
+    const { data, error } = await supabase
+      .from('custom_field_definitions')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('position', { ascending: true })
+      .order('label', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as CustomFieldDefinition[];
+  }
+
+  async createField(organizationId: string, input: CustomFieldInput, createdBy: string): Promise<CustomFieldDefinition> {
+    this.validate(input);
+
+    const existing = await this.listFields(organizationId);
+    if (existing.some(field => field.key === input.key)) {
+      throw new Error(`A field with the key "${input.key}" already exists`);
+    }
+
+    const { data, error } = await supabase
+      .from('custom_field_definitions')
+      .insert({
+        organization_id: organizationId,
+        key: input.key,
+        ...this.toRow(input),
+        position: existing.length,
+        created_by: createdBy
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as CustomFieldDefinition;
+  }
+
+  // The key is left as it was; see the class comment
+  async updateField(id: string, input: CustomFieldInput): Promise<void> {
+    this.validate(input);
+
+    const { error } = await supabase
+      .from('custom_field_definitions')
+      .update({ ...this.toRow(input), updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Stored values stay on freelancers but are no longer shown or exported
+  async deleteField(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('custom_field_definitions')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async moveField(fields: CustomFieldDefinition[], id: string, direction: -1 | 1): Promise<void> {
+    const index = fields.findIndex(field => field.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= fields.length) return;
+
+    const reordered = [...fields];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    for (const [position, field] of reordered.entries()) {
+      if (field.position === position) continue;
+      const { error } = await supabase
+        .from('custom_field_definitions')
+        .update({ position, updated_at: new Date().toISOString() })
+        .eq('id', field.id);
+      if (error) throw error;
+    }
+  }
+
+  private toRow(input: CustomFieldInput) {
+    return {
+      label: input.label.trim(),
+      field_type: input.field_type,
+      options: input.field_type === 'select' ? (input.options || []).map(option => option.trim()).filter(Boolean) : [],
+      is_required: input.is_required,
+      pattern: input.field_type === 'text' ? input.pattern?.trim() || null : null,
+      min_value: input.field_type === 'number' ? input.min_value ?? null : null,
+      max_value: input.field_type === 'number' ? input.max_value ?? null : null
+    };
+  }
+
+  private validate(input: CustomFieldInput): void {
+    if (!CUSTOM_FIELD_KEY_PATTERN.test(input.key)) {
+      throw new Error('Keys start with a letter and use lowercase letters, numbers and underscores');
+    }
+    if (!input.label.trim()) {
+      throw new Error('Field label is required');
+    }
+    if (input.field_type === 'select' && !(input.options || []).some(option => option.trim())) {
+      throw new Error('Choice fields need at least one option');
+    }
+    if (input.field_type === 'text' && input.pattern?.trim()) {
+      try {
+        new RegExp(input.pattern);
+      } catch {
+        throw new Error('The format pattern is not a valid regular expression');
+      }
+    }
+    if (input.min_value != null && input.max_value != null && input.min_value > input.max_value) {
+      throw new Error('The minimum must not be above the maximum');
+    }
+  }
+}
+
+export const customFields = CustomFieldService.getInstance();
@@ -0,0 +1,301 @@
+import { supabase, storage } from './supabase';
+import type {
+  DocumentRequirement,
+  DocumentStatus,
+  FreelancerDocument,
+  FreelancerDocumentUpdate
+} from '../types/database.types';
+
+export const DOCUMENTS_BUCKET = 'freelancer-documents';
+
+export const DOCUMENT_KINDS = [
+  { kind: 'nda', label: 'NDA' },
+  { kind: 'tax_form', label: 'Tax form (W-9/W-8)' },
+  { kind: 'contract', label: 'Contract' },
+  { kind: 'other', label: 'Other' }
+] as const;
+
+export type DocumentKind = typeof DOCUMENT_KINDS[number]['kind'];
+
+export const documentKindLabel = (kind: string) => DOCUMENT_KINDS.find(entry => entry.kind === kind)?.label || kind;
+
+export interface DocumentRequirementInput {
+  name: string;
+  description?: string | null;
+  kind: DocumentKind;
+  is_required: boolean;
+  blocks_provisioning: boolean;
+  valid_for_days?: number | null;
+}
+
+// A requirement with the freelancer's document for it, if one was requested
+export interface FreelancerDocumentEntry {
+  requirement: DocumentRequirement;
+  document: FreelancerDocument | null;
+  status: DocumentStatus | 'missing';
+}
+
+// Approved documents lapse once they pass their expiry date
+export function documentStatus(document: FreelancerDocument, now: Date = new Date()): DocumentStatus {
+  if (document.status === 'approved' && document.expires_at && new Date(document.expires_at) <= now) {
+    return 'expired';
+  }
+  return document.status;
+}
+
+// Requirements that hold provisioning and are not covered by an approved document
+export function missingForProvisioning(
+  requirements: DocumentRequirement[],
+  documents: FreelancerDocument[],
+  now: Date = new Date()
+): DocumentRequirement[] {
+  return requirements.filter(requirement => {
+    if (!requirement.is_required || !requirement.blocks_provisioning) return false;
+    const document = documents.find(d => d.requirement_id === requirement.id);
+    return !document || documentStatus(document, now) !== 'approved';
+  });
+}
+
+/**
+ * Paperwork collected from freelancers during onboarding. Organizations
+ * define requirements; each freelancer has at most one document per
+ * requirement, moving from requested to submitted to approved (or expired).
+ */
+export class DocumentService {
+  private static instance: DocumentService;
+
+  private constructor() {}
+
+  static getInstance(): DocumentService {
+    if (!DocumentService.instance) {
+      DocumentService.instance = new DocumentService();
+    }
+    return DocumentService.instance;
+  }
+
+  async listRequirements(organizationId: string): Promise<DocumentRequirement[]> {
+    const { data, error } = await supabase
+      .from('document_requirements')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as DocumentRequirement[];
+  }
+
+  async createRequirement(
+    organizationId: string,
+    input: DocumentRequirementInput,
+    createdBy: string
+  ): Promise<DocumentRequirement> {
+    this.validate(input);
+
+    const { data, error } = await supabase
+      .from('document_requirements')
+      .insert({
+        organization_id: organizationId,
+        ...this.toRow(input),
+        created_by: createdBy
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as DocumentRequirement;
+  }
+
+  async updateRequirement(id: string, input: DocumentRequirementInput): Promise<void> {
+    this.validate(input);
+
+    const { error } = await supabase
+      .from('document_requirements')
+      .update({ ...this.toRow(input), updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async deleteRequirement(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('document_requirements')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async listFreelancerDocuments(organizationId: string, freelancerId: string): Promise<FreelancerDocumentEntry[]> {
+    const [requirements, documents] = await Promise.all([
+      this.listRequirements(organizationId),
+      this.loadDocuments(freelancerId)
+    ]);
+
+    return requirements.map(requirement => {
+      const document = documents.find(d => d.requirement_id === requirement.id) || null;
+      return { requirement, document, status: document ? documentStatus(document) : 'missing' };
+    });
+  }
+
+  // Requirements still holding this freelancer's platform provisioning
+  async getProvisioningHold(organizationId: string, freelancerId: string): Promise<DocumentRequirement[]> {
+    const [requirements, documents] = await Promise.all([
+      this.listRequirements(organizationId),
+      this.loadDocuments(freelancerId)
+    ]);
+    return missingForProvisioning(requirements, documents);
+  }
+
+  // Ask for documents; ones already submitted or approved are left alone
+  async requestDocuments(organizationId: string, freelancerId: string, requirementIds: string[]): Promise<number> {
+    const existing = await this.loadDocuments(freelancerId);
+    const now = new Date();
+    const toRequest = requirementIds.filter(requirementId => {
+      const document = existing.find(d => d.requirement_id === requirementId);
+      return !document || documentStatus(document, now) === 'expired';
+    });
+    if (toRequest.length === 0) return 0;
+
+    const { error } = await supabase
+      .from('freelancer_documents')
+      .upsert(
+        toRequest.map(requirementId => ({
+          organization_id: organizationId,
+          freelancer_id: freelancerId,
+          requirement_id: requirementId,
+          status: 'requested' as const,
+          requested_at: now.toISOString(),
+          reviewed_at: null,
+          reviewed_by: null,
+          expires_at: null
+        })),
+        { onConflict: 'freelancer_id,requirement_id' }
+      );
+
+    if (error) throw error;
+    return toRequest.length;
+  }
+
+  async uploadDocument(
+    organizationId: string,
+    freelancerId: string,
+    requirementId: string,
+    file: File
+  ): Promise<FreelancerDocument> {
+    const existing = (await this.loadDocuments(freelancerId)).find(d => d.requirement_id === requirementId);
+    const safeName = file.name.replace(/[^A-Za-z0-9._-]+/g, '_');
+    const path = `${organizationId}/${freelancerId}/${requirementId}/${Date.now()}-${safeName}`;
+
+    const { error: uploadError } = await storage.upload(DOCUMENTS_BUCKET, path, file);
+    if (uploadError) throw new Error(uploadError.message);
+
+    const submittedAt = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('freelancer_documents')
+      .upsert({
+        organization_id: organizationId,
+        freelancer_id: freelancerId,
+        requirement_id: requirementId,
+        status: 'submitted',
+        file_path: path,
+        file_name: file.name,
+        requested_at: existing?.requested_at || submittedAt,
+        submitted_at: submittedAt,
+        reviewed_at: null,
+        reviewed_by: null,
+        review_notes: null,
+        expires_at: null
+      }, { onConflict: 'freelancer_id,requirement_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    // The previous file is superseded; a failed cleanup only leaves an orphan
+    if (existing?.file_path && existing.file_path !== path) {
+      await storage.remove(DOCUMENTS_BUCKET, [existing.file_path]);
+    }
+    return data as FreelancerDocument;
+  }
+
+  /**
+   * Approve a submitted document, starting its validity period, or send it
+   * back to requested with a note for the freelancer.
+   */
+  async reviewDocument(
+    document: FreelancerDocument,
+    requirement: DocumentRequirement,
+    approved: boolean,
+    reviewedBy: string,
+    notes?: string
+  ): Promise<void> {
+    if (document.status !== 'submitted') {
+      throw new Error('Only submitted documents can be reviewed');
+    }
+
+    const now = new Date();
+    const update: FreelancerDocumentUpdate = approved
+      ? {
+          status: 'approved',
+          expires_at: requirement.valid_for_days
+            ? new Date(now.getTime() + requirement.valid_for_days * 24 * 60 * 60 * 1000).toISOString()
+            : null
+        }
+      : { status: 'requested', requested_at: now.toISOString() };
+
+    const { error } = await supabase
+      .from('freelancer_documents')
+      .update({
+        ...update,
+        reviewed_at: now.toISOString(),
+        reviewed_by: reviewedBy,
+        review_notes: notes?.trim() || null,
+        updated_at: now.toISOString()
+      })
+      .eq('id', document.id);
+
+    if (error) throw error;
+  }
+
+  async downloadDocument(document: FreelancerDocument): Promise<Blob> {
+    if (!document.file_path) {
+      throw new Error('Nothing has been uploaded yet');
+    }
+    const { data, error } = await storage.download(DOCUMENTS_BUCKET, document.file_path);
+    if (error || !data) throw new Error(error?.message || 'Could not download the document');
+    return data;
+  }
+
+  private async loadDocuments(freelancerId: string): Promise<FreelancerDocument[]> {
+    const { data, error } = await supabase
+      .from('freelancer_documents')
+      .select('*')
+      .eq('freelancer_id', freelancerId);
+
+    if (error) throw error;
+    return (data || []) as FreelancerDocument[];
+  }
+
+  private toRow(input: DocumentRequirementInput) {
+    return {
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      kind: input.kind,
+      is_required: input.is_required,
+      // Only required documents can hold provisioning
+      blocks_provisioning: input.is_required && input.blocks_provisioning,
+      valid_for_days: input.valid_for_days || null
+    };
+  }
+
+  private validate(input: DocumentRequirementInput): void {
+    if (!input.name.trim()) {
+      throw new Error('Document name is required');
+    }
+    if (input.valid_for_days != null && (!Number.isInteger(input.valid_for_days) || input.valid_for_days <= 0)) {
+      throw new Error('Validity must be a whole number of days');
+    }
+  }
+}
+
+export const documents = DocumentService.getInstance();
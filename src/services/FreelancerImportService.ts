@@ -0,0 +1,296 @@
+import { z } from 'zod';
+import { supabase } from './supabase';
+import { db } from './database.service';
+import { onboardingJobs } from './OnboardingJobService';
+import { debugLog } from '../config/environment';
+import { excelSerialToDate } from '../utils/spreadsheet';
+import type { PlatformCredentials } from '../types/platform.types';
+
+// Target fields a spreadsheet column can be mapped to; full_name is split into first/last
+export type ImportField = 'email' | 'first_name' | 'last_name' | 'full_name' | 'phone' | 'username' | 'expires_at';
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; required?: boolean }> = [
+  { field: 'email', label: 'Email', required: true },
+  { field: 'first_name', label: 'First name' },
+  { field: 'last_name', label: 'Last name' },
+  { field: 'full_name', label: 'Full name' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'username', label: 'Username' },
+  { field: 'expires_at', label: 'Access ends' }
+];
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  email: ['email', 'emailaddress', 'mail', 'e-mail'],
+  first_name: ['firstname', 'first', 'givenname', 'forename'],
+  last_name: ['lastname', 'last', 'surname', 'familyname'],
+  full_name: ['fullname', 'name', 'displayname'],
+  phone: ['phone', 'phonenumber', 'mobile', 'telephone', 'tel'],
+  username: ['username', 'user', 'login', 'handle'],
+  expires_at: ['expiresat', 'expires', 'expiry', 'enddate', 'accessends', 'contractend']
+};
+
+const optionalText = z.string().trim().transform(value => value || undefined);
+
+export const importRowSchema = z.object({
+  email: z.string().trim().toLowerCase().pipe(z.email('Invalid email address')),
+  first_name: z.string().trim().min(1, 'First name is required'),
+  last_name: z.string().trim(),
+  phone: optionalText.pipe(z.string().regex(/^[+()\d\s.-]{5,}$/, 'Invalid phone number').optional()),
+  username: optionalText.pipe(z.string().regex(/^[\w.-]+$/, 'Username may only contain letters, numbers, dots, dashes and underscores').optional()),
+  expires_at: z.string().trim().transform((value, ctx) => {
+    if (!value) return null;
+    // Excel serial numbers come through XLSX date cells
+    const date = /^\d+(\.\d+)?$/.test(value) ? excelSerialToDate(Number(value)) : new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      ctx.addIssue({ code: 'custom', message: 'Invalid date' });
+      return z.NEVER;
+    }
+    return date.toISOString();
+  })
+});
+
+export type ImportRowData = z.infer<typeof importRowSchema>;
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface ImportPreviewRow {
+  rowNumber: number;
+  status: ImportRowStatus;
+  data?: ImportRowData;
+  raw: Record<string, string>;
+  errors: string[];
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  valid: number;
+  invalid: number;
+  duplicates: number;
+}
+
+export interface ImportOptions {
+  organizationId: string;
+  createdBy: string;
+  platformIds?: string[];
+  stepOptions?: Record<string, Partial<PlatformCredentials>>;
+}
+
+export interface ImportResult {
+  created: Array<{ rowNumber: number; freelancerId: string; jobId?: string }>;
+  failed: Array<{ rowNumber: number; error: string }>;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_]/g, '');
+
+/**
+ * Bulk freelancer import: maps spreadsheet columns to freelancer fields,
+ * validates every row, flags duplicate emails and creates the valid rows.
+ */
+export class FreelancerImportService {
+  private static instance: FreelancerImportService;
+
+  private constructor() {}
+
+  static getInstance(): FreelancerImportService {
+    if (!FreelancerImportService.instance) {
+      FreelancerImportService.instance = new FreelancerImportService();
+    }
+    return FreelancerImportService.instance;
+  }
+
+  // Guess a mapping from header names; unmatched fields are left unmapped
+  guessMapping(headers: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    const normalized = headers.map(normalizeHeader);
+
+    for (const [field, aliases] of Object.entries(HEADER_ALIASES) as Array<[ImportField, string[]]>) {
+      const index = normalized.findIndex(header => aliases.includes(header));
+      if (index >= 0 && !Object.values(mapping).includes(index)) {
+        mapping[field] = index;
+      }
+    }
+    return mapping;
+  }
+
+  /**
+   * Dry run: validate every row and check emails against the organization's
+   * freelancers. rowNumbers are the spreadsheet's own row numbers, which
+   * messages refer to.
+   */
+  async preview(
+    organizationId: string,
+    headers: string[],
+    rows: string[][],
+    rowNumbers: number[],
+    mapping: ColumnMapping
+  ): Promise<ImportPreview> {
+    if (mapping.email === undefined) {
+      throw new Error('Map a column to Email before previewing');
+    }
+    if (mapping.first_name === undefined && mapping.full_name === undefined) {
+      throw new Error('Map a column to First name or Full name before previewing');
+    }
+
+    const { data: existing, error } = await supabase
+      .from('freelancers')
+      .select('email')
+      .eq('organization_id', organizationId);
+
+    if (error) throw error;
+
+    const existingEmails = new Set(
+      ((existing || []) as Array<{ email: string }>).map(f => f.email.toLowerCase())
+    );
+    const seenInFile = new Map<string, number>();
+
+    const previewRows = rows.map((row, index): ImportPreviewRow => {
+      const rowNumber = rowNumbers[index];
+      const raw = Object.fromEntries(headers.map((header, i) => [header, row[i] ?? '']));
+      const parsed = importRowSchema.safeParse(this.applyMapping(row, mapping));
+
+      if (!parsed.success) {
+        return {
+          rowNumber,
+          status: 'invalid',
+          raw,
+          errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`)
+        };
+      }
+
+      const email = parsed.data.email;
+      if (existingEmails.has(email)) {
+        return { rowNumber, status: 'duplicate', data: parsed.data, raw, errors: ['A freelancer with this email already exists'] };
+      }
+      const firstSeen = seenInFile.get(email);
+      if (firstSeen !== undefined) {
+        return { rowNumber, status: 'duplicate', data: parsed.data, raw, errors: [`Same email as row ${firstSeen}`] };
+      }
+
+      seenInFile.set(email, rowNumber);
+      return { rowNumber, status: 'valid', data: parsed.data, raw, errors: [] };
+    });
+
+    return {
+      rows: previewRows,
+      valid: previewRows.filter(row => row.status === 'valid').length,
+      invalid: previewRows.filter(row => row.status === 'invalid').length,
+      duplicates: previewRows.filter(row => row.status === 'duplicate').length
+    };
+  }
+
+  /**
+   * Create freelancers for the valid preview rows and, when platforms are
+   * given, queue an onboarding job for each. Jobs run in the background so
+   * the import returns as soon as the records exist.
+   */
+  async importRows(
+    rows: ImportPreviewRow[],
+    options: ImportOptions,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<ImportResult> {
+    const { organizationId, createdBy, platformIds = [], stepOptions } = options;
+    const toImport = rows.filter(row => row.status === 'valid' && row.data);
+    const result: ImportResult = { created: [], failed: [] };
+
+    for (const row of toImport) {
+      const data = row.data!;
+      try {
+        const { data: freelancer, error } = await supabase
+          .from('freelancers')
+          .insert({
+            organization_id: organizationId,
+            email: data.email,
+            first_name: data.first_name,
+            last_name: data.last_name,
+            phone: data.phone,
+            username: data.username,
+            expires_at: data.expires_at,
+            created_by: createdBy,
+            status: 'pending',
+            metadata: { onboarded_via: 'import' }
+          })
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        await db.auditLogs.create({
+          organization_id: organizationId,
+          user_id: createdBy,
+          action: 'import',
+          entity_type: 'freelancer',
+          entity_id: freelancer.id,
+          changes: { row: row.rowNumber, email: data.email }
+        });
+
+        let jobId: string | undefined;
+        if (platformIds.length > 0) {
+          const job = await onboardingJobs.createJob({
+            organizationId,
+            freelancerId: freelancer.id,
+            platformIds,
+            createdBy,
+            stepOptions
+          });
+          jobId = job.id;
+        }
+
+        result.created.push({ rowNumber: row.rowNumber, freelancerId: freelancer.id, jobId });
+      } catch (error) {
+        console.error(`Failed to import row ${row.rowNumber}:`, error);
+        result.failed.push({
+          rowNumber: row.rowNumber,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      onProgress?.(result.created.length + result.failed.length, toImport.length);
+    }
+
+    const jobIds = result.created.map(created => created.jobId).filter((id): id is string => !!id);
+    if (jobIds.length > 0) {
+      // One job at a time so a large import doesn't flood the platform APIs
+      this.runJobsInOrder(jobIds);
+    }
+
+    debugLog('Freelancer import completed:', result);
+    return result;
+  }
+
+  private async runJobsInOrder(jobIds: string[]): Promise<void> {
+    for (const jobId of jobIds) {
+      try {
+        await onboardingJobs.runJob(jobId);
+      } catch (error) {
+        console.error(`Onboarding job ${jobId} failed to run:`, error);
+      }
+    }
+  }
+
+  private applyMapping(row: string[], mapping: ColumnMapping): Record<string, string> {
+    const value = (field: ImportField) => {
+      const index = mapping[field];
+      return index === undefined ? '' : (row[index] ?? '').trim();
+    };
+
+    let firstName = value('first_name');
+    let lastName = value('last_name');
+    if (!firstName && value('full_name')) {
+      const [first, ...rest] = value('full_name').split(/\s+/);
+      firstName = first;
+      lastName = lastName || rest.join(' ');
+    }
+
+    return {
+      email: value('email'),
+      first_name: firstName,
+      last_name: lastName,
+      phone: value('phone'),
+      username: value('username'),
+      expires_at: value('expires_at')
+    };
+  }
+}
+
+export const freelancerImport = FreelancerImportService.getInstance();
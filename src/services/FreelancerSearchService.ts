@@ -0,0 +1,331 @@
+import { supabase } from './supabase';
+import { fromDateInputValue } from '../utils/date';
+import type { Freelancer, FreelancerPlatform } from '../contexts/FreelancerContext';
+import type { Json, SavedFreelancerView } from '../types/database.types';
+
+export type FreelancerSortField = 'created_at' | 'name' | 'status';
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Everything that decides which freelancers the list shows. Empty strings
+ * mean "any"; dates are YYYY-MM-DD from <input type="date">.
+ */
+export interface FreelancerListQuery {
+  search: string;
+  status: string;
+  platform: string;
+  grantStatus: string;
+  tag: string;
+  createdBy: string;
+  // A user id, or 'none' for freelancers without a manager
+  manager: string;
+  createdFrom: string;
+  createdTo: string;
+  customFieldKey: string;
+  customFieldValue: string;
+  sortBy: FreelancerSortField;
+  sortDir: SortDirection;
+  page: number;
+  pageSize: number;
+}
+
+export const PAGE_SIZES = [25, 50, 100];
+
+export const DEFAULT_LIST_QUERY: FreelancerListQuery = {
+  search: '',
+  status: '',
+  platform: '',
+  grantStatus: '',
+  tag: '',
+  createdBy: '',
+  manager: '',
+  createdFrom: '',
+  createdTo: '',
+  customFieldKey: '',
+  customFieldValue: '',
+  sortBy: 'created_at',
+  sortDir: 'desc',
+  page: 1,
+  pageSize: 50
+};
+
+const SORT_FIELDS: FreelancerSortField[] = ['created_at', 'name', 'status'];
+
+// Freelancers and their grants share one status set
+const STATUSES: Array<Freelancer['status']> = ['pending', 'active', 'inactive', 'error'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A real calendar day; Date would quietly roll 2024-02-31 over into March
+const isDay = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`))
+  && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+
+// URL parameter for each query field; short so shared links stay readable
+const URL_KEYS: Record<keyof FreelancerListQuery, string> = {
+  search: 'q',
+  status: 'status',
+  platform: 'platform',
+  grantStatus: 'grant',
+  tag: 'tag',
+  createdBy: 'createdBy',
+  manager: 'manager',
+  createdFrom: 'from',
+  createdTo: 'to',
+  customFieldKey: 'field',
+  customFieldValue: 'fieldValue',
+  sortBy: 'sort',
+  sortDir: 'dir',
+  page: 'page',
+  pageSize: 'size'
+};
+
+// Query fields a saved view remembers; the page is where you are, not part of the view
+const VIEW_FIELDS = (Object.keys(URL_KEYS) as Array<keyof FreelancerListQuery>).filter(field => field !== 'page');
+const FILTER_FIELDS = VIEW_FIELDS.filter(field => !['sortBy', 'sortDir', 'pageSize'].includes(field));
+
+/**
+ * Read a list query from the URL. Links can be edited or stale, so values that
+ * would not filter anything, or would break the search call, fall back to any.
+ */
+export function parseListQuery(params: URLSearchParams): FreelancerListQuery {
+  const text = (field: keyof FreelancerListQuery) => params.get(URL_KEYS[field])?.trim() || '';
+  const valid = (field: keyof FreelancerListQuery, accept: (value: string) => boolean) => {
+    const value = text(field);
+    return accept(value) ? value : '';
+  };
+  const isStatus = (value: string) => (STATUSES as string[]).includes(value);
+  const isUserId = (value: string) => UUID_PATTERN.test(value);
+  const sortBy = text('sortBy') as FreelancerSortField;
+  const page = Number(params.get(URL_KEYS.page));
+  const pageSize = Number(params.get(URL_KEYS.pageSize));
+
+  return {
+    search: text('search'),
+    status: valid('status', isStatus),
+    platform: text('platform'),
+    grantStatus: valid('grantStatus', isStatus),
+    tag: text('tag'),
+    createdBy: valid('createdBy', isUserId),
+    manager: valid('manager', value => value === 'none' || isUserId(value)),
+    createdFrom: valid('createdFrom', isDay),
+    createdTo: valid('createdTo', isDay),
+    customFieldKey: text('customFieldKey'),
+    customFieldValue: text('customFieldValue'),
+    sortBy: SORT_FIELDS.includes(sortBy) ? sortBy : DEFAULT_LIST_QUERY.sortBy,
+    sortDir: text('sortDir') === 'asc' ? 'asc' : 'desc',
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_LIST_QUERY.pageSize
+  };
+}
+
+// Only values that differ from the defaults go in the URL
+export function toSearchParams(query: FreelancerListQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(URL_KEYS) as Array<keyof FreelancerListQuery>).forEach(field => {
+    if (query[field] !== DEFAULT_LIST_QUERY[field] && query[field] !== '') {
+      params.set(URL_KEYS[field], String(query[field]));
+    }
+  });
+  return params;
+}
+
+export function hasActiveFilters(query: FreelancerListQuery): boolean {
+  return FILTER_FIELDS.some(field => query[field] !== DEFAULT_LIST_QUERY[field]);
+}
+
+// Two queries show the same view when everything but the page matches
+export function sameView(a: FreelancerListQuery, b: FreelancerListQuery): boolean {
+  return VIEW_FIELDS.every(field => a[field] === b[field]);
+}
+
+export function viewQuery(view: SavedFreelancerView): FreelancerListQuery {
+  const stored = (view.query || {}) as Record<string, unknown>;
+  const params = new URLSearchParams();
+  Object.entries(stored).forEach(([key, value]) => {
+    if (typeof value === 'string' || typeof value === 'number') params.set(key, String(value));
+  });
+  return parseListQuery(params);
+}
+
+export interface FreelancerPage {
+  freelancers: Freelancer[];
+  total: number;
+}
+
+type SearchRow = { freelancer: Freelancer; total_count: number };
+
+// Exports page through the results in chunks of this size
+const EXPORT_CHUNK = 500;
+
+// Lookups by id go out in chunks of this size to keep the URL short
+const ID_CHUNK = 100;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Server-side freelancer search, sorting and paging through the
+ * search_freelancers function, lookups of specific freelancers and their
+ * grants, plus each user's saved views of the list.
+ */
+export class FreelancerSearchService {
+  private static instance: FreelancerSearchService;
+
+  private constructor() {}
+
+  static getInstance(): FreelancerSearchService {
+    if (!FreelancerSearchService.instance) {
+      FreelancerSearchService.instance = new FreelancerSearchService();
+    }
+    return FreelancerSearchService.instance;
+  }
+
+  async search(organizationId: string, query: FreelancerListQuery): Promise<FreelancerPage> {
+    return this.fetch(organizationId, query, query.pageSize, (query.page - 1) * query.pageSize);
+  }
+
+  // Every match regardless of page, for exports
+  async searchAll(organizationId: string, query: FreelancerListQuery): Promise<Freelancer[]> {
+    const freelancers: Freelancer[] = [];
+    let total = Infinity;
+    while (freelancers.length < total) {
+      const page = await this.fetch(organizationId, query, EXPORT_CHUNK, freelancers.length);
+      freelancers.push(...page.freelancers);
+      total = page.total;
+      if (page.freelancers.length === 0) break;
+    }
+    return freelancers;
+  }
+
+  async getByIds(ids: string[]): Promise<Freelancer[]> {
+    const freelancers: Freelancer[] = [];
+    for (const idChunk of chunk(Array.from(new Set(ids)), ID_CHUNK)) {
+      const { data, error } = await supabase
+        .from('freelancers')
+        .select('*')
+        .in('id', idChunk);
+
+      if (error) throw error;
+      freelancers.push(...((data || []) as Freelancer[]));
+    }
+    return freelancers;
+  }
+
+  // Platform grants of the given freelancers, grouped by freelancer
+  async loadGrants(freelancerIds: string[]): Promise<Map<string, FreelancerPlatform[]>> {
+    const grants = new Map<string, FreelancerPlatform[]>();
+    const ids = Array.from(new Set(freelancerIds));
+    ids.forEach(id => grants.set(id, []));
+    for (const idChunk of chunk(ids, ID_CHUNK)) {
+      const { data, error } = await supabase
+        .from('freelancer_platforms')
+        .select('*')
+        .in('freelancer_id', idChunk);
+
+      if (error) throw error;
+      ((data || []) as FreelancerPlatform[]).forEach(grant => grants.get(grant.freelancer_id)?.push(grant));
+    }
+    return grants;
+  }
+
+  // Every skill used in the organization, for the tag filter
+  async listSkills(organizationId: string): Promise<string[]> {
+    const { data, error } = await supabase.rpc('freelancer_skills', { org_id: organizationId });
+
+    if (error) throw error;
+    return ((data || []) as Array<{ skill: string }>).map(row => row.skill);
+  }
+
+  async listViews(organizationId: string, userId: string): Promise<SavedFreelancerView[]> {
+    const { data, error } = await supabase
+      .from('saved_freelancer_views')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as SavedFreelancerView[];
+  }
+
+  // Saving under an existing name replaces that view
+  async saveView(
+    organizationId: string,
+    userId: string,
+    name: string,
+    query: FreelancerListQuery
+  ): Promise<SavedFreelancerView> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Give the view a name');
+    }
+
+    const params = toSearchParams({ ...query, page: 1 });
+    const { data, error } = await supabase
+      .from('saved_freelancer_views')
+      .upsert({
+        organization_id: organizationId,
+        user_id: userId,
+        name: trimmed,
+        query: Object.fromEntries(params.entries()) as Json,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id,name' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as SavedFreelancerView;
+  }
+
+  async deleteView(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('saved_freelancer_views')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  private async fetch(
+    organizationId: string,
+    query: FreelancerListQuery,
+    limit: number,
+    offset: number
+  ): Promise<FreelancerPage> {
+    const orNull = (value: string) => value || null;
+    const { data, error } = await supabase.rpc('search_freelancers', {
+      org_id: organizationId,
+      search_term: orNull(query.search),
+      status_filter: orNull(query.status) as Freelancer['status'] | null,
+      platform_filter: orNull(query.platform),
+      grant_status_filter: orNull(query.grantStatus) as Freelancer['status'] | null,
+      tag_filter: orNull(query.tag),
+      created_by_filter: orNull(query.createdBy),
+      manager_filter: query.manager && query.manager !== 'none' ? query.manager : null,
+      without_manager: query.manager === 'none',
+      created_from: query.createdFrom ? new Date(`${query.createdFrom}T00:00:00`).toISOString() : null,
+      created_to: query.createdTo ? fromDateInputValue(query.createdTo) : null,
+      custom_field_key: orNull(query.customFieldKey),
+      custom_field_value: query.customFieldKey ? query.customFieldValue : null,
+      sort_by: query.sortBy,
+      sort_dir: query.sortDir,
+      page_limit: limit,
+      page_offset: offset
+    });
+
+    if (error) throw error;
+    const rows = (data || []) as unknown as SearchRow[];
+    return {
+      freelancers: rows.map(row => row.freelancer),
+      total: rows.length > 0 ? Number(rows[0].total_count) : 0
+    };
+  }
+}
+
+export const freelancerSearch = FreelancerSearchService.getInstance();
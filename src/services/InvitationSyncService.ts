@@ -0,0 +1,171 @@
+import { supabase } from './supabase';
+import { db } from './database.service';
+import { loadPlatformModule } from './platformLoader';
+import { debugLog } from '../config/environment';
+import { PlatformUserStatus } from '../types/platform.types';
+import type { FreelancerPlatform } from '../types/database.types';
+import type { IPlatformModule } from '../types/platform.types';
+
+export const DEFAULT_INVITATION_POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+type InvitedGrant = FreelancerPlatform & { platform_user_id: string };
+
+export interface InvitationSyncResult {
+  organizationId: string;
+  checked: number;
+  accepted: Array<{ freelancerId: string; freelancerPlatformId: string; platformId: string }>;
+  ranAt: string;
+}
+
+/**
+ * Polls platforms for invitations that have not been accepted yet and
+ * activates the grant once the platform reports the user as active.
+ */
+export class InvitationSyncService {
+  private static instance: InvitationSyncService;
+  private syncing = new Set<string>();
+
+  private constructor() {}
+
+  static getInstance(): InvitationSyncService {
+    if (!InvitationSyncService.instance) {
+      InvitationSyncService.instance = new InvitationSyncService();
+    }
+    return InvitationSyncService.instance;
+  }
+
+  // Poll now and then on an interval; returns a stop function
+  schedule(
+    organizationId: string,
+    performedBy: string,
+    onSync?: (result: InvitationSyncResult) => void,
+    intervalMs: number = DEFAULT_INVITATION_POLL_INTERVAL_MS
+  ): () => void {
+    const run = () => {
+      this.runSync(organizationId, performedBy)
+        .then(result => {
+          if (result) onSync?.(result);
+        })
+        .catch(error => {
+          console.error('Invitation sync failed:', error);
+        });
+    };
+
+    run();
+    const timer = setInterval(run, intervalMs);
+    return () => clearInterval(timer);
+  }
+
+  async runSync(organizationId: string, performedBy: string): Promise<InvitationSyncResult | null> {
+    if (this.syncing.has(organizationId)) return null;
+    this.syncing.add(organizationId);
+
+    try {
+      const result: InvitationSyncResult = {
+        organizationId,
+        checked: 0,
+        accepted: [],
+        ranAt: new Date().toISOString()
+      };
+
+      const invited = await this.loadInvitedGrants(organizationId);
+      const modules = new Map<string, IPlatformModule | null>();
+
+      for (const grant of invited) {
+        if (!modules.has(grant.platform_id)) {
+          // A disabled or misconfigured platform is skipped until it comes back
+          modules.set(grant.platform_id, await loadPlatformModule(organizationId, grant.platform_id).catch(error => {
+            console.error(`Skipping invitation sync for ${grant.platform_id}:`, error);
+            return null;
+          }));
+        }
+        const platformModule = modules.get(grant.platform_id);
+        if (!platformModule) continue;
+
+        result.checked++;
+        const lookup = await platformModule.getUser(grant.platform_user_id);
+        const syncStatus = (grant.sync_status || {}) as Record<string, unknown>;
+        const now = new Date().toISOString();
+
+        if (!lookup.success || lookup.data?.status !== PlatformUserStatus.ACTIVE) {
+          await this.updateGrant(grant.id, {
+            last_sync_at: now,
+            sync_status: { ...syncStatus, state: 'invited', last_checked_at: now, last_error: lookup.error || null }
+          });
+          continue;
+        }
+
+        // Platforms that track invites separately report the account's real id once accepted
+        const platformUserId = lookup.data.id || grant.platform_user_id;
+        await this.updateGrant(grant.id, {
+          status: 'active',
+          platform_user_id: platformUserId,
+          last_sync_at: now,
+          sync_status: { ...syncStatus, state: 'accepted', accepted_at: now, last_error: null }
+        });
+
+        await db.auditLogs.create({
+          organization_id: organizationId,
+          user_id: performedBy,
+          action: 'invitation_accepted',
+          entity_type: 'freelancer_platform',
+          entity_id: grant.id,
+          changes: {
+            freelancer_id: grant.freelancer_id,
+            platform_id: grant.platform_id,
+            platform_user_id: platformUserId === grant.platform_user_id
+              ? platformUserId
+              : { from: grant.platform_user_id, to: platformUserId },
+            status: { from: 'pending', to: 'active' }
+          }
+        });
+
+        result.accepted.push({
+          freelancerId: grant.freelancer_id,
+          freelancerPlatformId: grant.id,
+          platformId: grant.platform_id
+        });
+      }
+
+      debugLog('Invitation sync completed:', result);
+      return result;
+    } finally {
+      this.syncing.delete(organizationId);
+    }
+  }
+
+  private async loadInvitedGrants(organizationId: string): Promise<InvitedGrant[]> {
+    const { data: freelancers, error } = await supabase
+      .from('freelancers')
+      .select('id')
+      .eq('organization_id', organizationId);
+
+    if (error) throw error;
+
+    const freelancerIds = ((freelancers || []) as Array<{ id: string }>).map(f => f.id);
+    if (freelancerIds.length === 0) return [];
+
+    const { data: grants, error: grantsError } = await supabase
+      .from('freelancer_platforms')
+      .select('*')
+      .in('freelancer_id', freelancerIds);
+
+    if (grantsError) throw grantsError;
+
+    return ((grants || []) as FreelancerPlatform[]).filter((grant): grant is InvitedGrant => {
+      const state = (grant.sync_status as Record<string, unknown> | null)?.state;
+      return grant.status === 'pending' && !!grant.platform_user_id && state === 'invited';
+    });
+  }
+
+  private async updateGrant(id: string, data: Partial<FreelancerPlatform>): Promise<void> {
+    const { error } = await supabase
+      .from('freelancer_platforms')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+export const invitationSync = InvitationSyncService.getInstance();
@@ -0,0 +1,272 @@
+import { supabase } from './supabase';
+import { db } from './database.service';
+import { loadPlatformModule } from './platformLoader';
+import { onboardingJobs } from './OnboardingJobService';
+import { debugLog } from '../config/environment';
+import { downloadCsv, downloadJson } from '../utils/download';
+import type { Freelancer, FreelancerPlatform } from '../types/database.types';
+
+export type OffboardingMode = 'delete' | 'suspend';
+
+export interface OffboardingPlatformResult {
+  platformId: string;
+  freelancerPlatformId: string;
+  platformUserId: string | null;
+  // 'revoked' means there was no platform account to remove (e.g. pending invite)
+  action: 'deleted' | 'suspended' | 'revoked' | 'failed';
+  success: boolean;
+  error?: string;
+  completedAt: string;
+}
+
+export interface OffboardingSummary {
+  organizationId: string;
+  freelancerId: string;
+  freelancerName: string;
+  freelancerEmail: string;
+  reason: string;
+  mode: OffboardingMode;
+  performedBy: string;
+  performedByEmail?: string;
+  startedAt: string;
+  completedAt: string;
+  results: OffboardingPlatformResult[];
+  allRevoked: boolean;
+}
+
+export interface OffboardFreelancerInput {
+  organizationId: string;
+  freelancerId: string;
+  reason: string;
+  performedBy: string;
+  performedByEmail?: string;
+  mode?: OffboardingMode;
+}
+
+/**
+ * Revokes a freelancer's access on every platform they were provisioned to,
+ * recording each result and the overall outcome in audit_logs.
+ */
+export class OffboardingService {
+  private static instance: OffboardingService;
+
+  private constructor() {}
+
+  static getInstance(): OffboardingService {
+    if (!OffboardingService.instance) {
+      OffboardingService.instance = new OffboardingService();
+    }
+    return OffboardingService.instance;
+  }
+
+  async offboardFreelancer(
+    input: OffboardFreelancerInput,
+    onProgress?: (results: OffboardingPlatformResult[]) => void
+  ): Promise<OffboardingSummary> {
+    const { organizationId, freelancerId, reason, performedBy, performedByEmail, mode = 'delete' } = input;
+
+    if (!reason.trim()) {
+      throw new Error('An offboarding reason is required');
+    }
+
+    const freelancer: Freelancer | null = await db.freelancers.getById(freelancerId);
+    if (!freelancer) {
+      throw new Error('Freelancer not found');
+    }
+
+    // Stop onboarding first so nothing is provisioned behind the revocations
+    const cancelledJobIds = await onboardingJobs.cancelFreelancerJobs(freelancerId);
+    if (cancelledJobIds.length > 0) {
+      await db.auditLogs.create({
+        organization_id: organizationId,
+        user_id: performedBy,
+        action: 'cancel_onboarding',
+        entity_type: 'freelancer',
+        entity_id: freelancerId,
+        changes: { job_ids: cancelledJobIds, reason }
+      });
+    }
+
+    const { data: grants, error } = await supabase
+      .from('freelancer_platforms')
+      .select('*')
+      .eq('freelancer_id', freelancerId);
+
+    if (error) throw error;
+
+    const startedAt = new Date().toISOString();
+    const results: OffboardingPlatformResult[] = [];
+
+    for (const grant of (grants || []) as FreelancerPlatform[]) {
+      if (grant.status === 'inactive') continue;
+
+      const result = await this.revokeGrant(organizationId, grant, mode);
+      results.push(result);
+      onProgress?.([...results]);
+
+      await db.auditLogs.create({
+        organization_id: organizationId,
+        user_id: performedBy,
+        action: 'revoke_access',
+        entity_type: 'freelancer_platform',
+        entity_id: grant.id,
+        changes: {
+          freelancer_id: freelancerId,
+          platform_id: grant.platform_id,
+          platform_user_id: grant.platform_user_id || null,
+          result: result.action,
+          error: result.error || null,
+          reason
+        }
+      });
+    }
+
+    const completedAt = new Date().toISOString();
+    const allRevoked = results.every(result => result.success);
+
+    await supabase
+      .from('freelancers')
+      .update({
+        status: 'inactive',
+        metadata: {
+          ...((freelancer.metadata as Record<string, unknown> | undefined) || {}),
+          offboarding: { reason, mode, performed_by: performedBy, completed_at: completedAt, all_revoked: allRevoked }
+        },
+        updated_at: completedAt
+      })
+      .eq('id', freelancerId);
+
+    const summary: OffboardingSummary = {
+      organizationId,
+      freelancerId,
+      freelancerName: `${freelancer.first_name} ${freelancer.last_name}`.trim(),
+      freelancerEmail: freelancer.email,
+      reason,
+      mode,
+      performedBy,
+      performedByEmail,
+      startedAt,
+      completedAt,
+      results,
+      allRevoked
+    };
+
+    await db.auditLogs.create({
+      organization_id: organizationId,
+      user_id: performedBy,
+      action: 'offboard',
+      entity_type: 'freelancer',
+      entity_id: freelancerId,
+      changes: {
+        reason,
+        mode,
+        all_revoked: allRevoked,
+        results: results.map(result => ({
+          platform_id: result.platformId,
+          platform_user_id: result.platformUserId,
+          action: result.action,
+          error: result.error || null
+        }))
+      }
+    });
+
+    debugLog('Offboarding completed:', summary);
+    return summary;
+  }
+
+  // Remove or suspend a single grant on its platform and mark it inactive
+  async revokeGrant(
+    organizationId: string,
+    grant: FreelancerPlatform,
+    mode: OffboardingMode = 'delete'
+  ): Promise<OffboardingPlatformResult> {
+    const base = {
+      platformId: grant.platform_id,
+      freelancerPlatformId: grant.id,
+      platformUserId: grant.platform_user_id || null
+    };
+
+    try {
+      let action: OffboardingPlatformResult['action'] = 'revoked';
+
+      if (grant.platform_user_id) {
+        const platformModule = await loadPlatformModule(organizationId, grant.platform_id);
+        const canSuspend = mode === 'suspend' && typeof platformModule.suspendUser === 'function';
+        const response = canSuspend
+          ? await platformModule.suspendUser!(grant.platform_user_id)
+          : await platformModule.deleteUser(grant.platform_user_id);
+
+        if (!response.success) {
+          throw new Error(response.error || 'Platform rejected the request');
+        }
+        action = canSuspend ? 'suspended' : 'deleted';
+      }
+
+      const completedAt = new Date().toISOString();
+      await this.updateGrant(grant.id, {
+        status: 'inactive',
+        deprovisioned_at: completedAt,
+        sync_status: { state: 'revoked', action, revoked_at: completedAt }
+      });
+
+      return { ...base, action, success: true, completedAt };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const completedAt = new Date().toISOString();
+      console.error(`Failed to revoke ${grant.platform_id} access:`, error);
+
+      await this.updateGrant(grant.id, {
+        status: 'error',
+        sync_status: { state: 'revoke_failed', last_error: message, attempted_at: completedAt }
+      });
+
+      return { ...base, action: 'failed', success: false, error: message, completedAt };
+    }
+  }
+
+  private async updateGrant(id: string, data: Partial<FreelancerPlatform>): Promise<void> {
+    const { error } = await supabase
+      .from('freelancer_platforms')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+// Export the "access revoked" evidence for one or more offboardings
+export function exportOffboardingSummaries(summaries: OffboardingSummary[], format: 'csv' | 'json'): void {
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  if (format === 'json') {
+    downloadJson(`access-revoked-${stamp}.json`, summaries);
+    return;
+  }
+
+  const rows = summaries.flatMap((summary): Array<Record<string, string | null>> => {
+    const shared = {
+      freelancer: summary.freelancerName,
+      email: summary.freelancerEmail,
+      reason: summary.reason,
+      performed_by: summary.performedByEmail || summary.performedBy,
+      offboarded_at: summary.completedAt
+    };
+
+    if (summary.results.length === 0) {
+      return [{ ...shared, platform: '', platform_user_id: '', result: 'no_access', error: '', revoked_at: summary.completedAt }];
+    }
+
+    return summary.results.map(result => ({
+      ...shared,
+      platform: result.platformId,
+      platform_user_id: result.platformUserId,
+      result: result.action,
+      error: result.error || '',
+      revoked_at: result.completedAt
+    }));
+  });
+
+  downloadCsv(`access-revoked-${stamp}.csv`, rows);
+}
+
+export const offboarding = OffboardingService.getInstance();
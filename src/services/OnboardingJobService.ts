@@ -0,0 +1,819 @@
+import { supabase } from './supabase';
+import { PlatformRegistryService } from './PlatformRegistry';
+import { debugLog } from '../config/environment';
+import { loadPlatformModule } from './platformLoader';
+import { resolveRetryPolicy, isRetryableError, getRetryDelay } from './retryPolicy';
+import { supportsCapability } from './platformCapabilities';
+import { documents } from './DocumentService';
+import { approvals, requiresApproval } from './ApprovalService';
+import { roleHasPermission } from '../hooks/usePermissions';
+import type {
+  Freelancer,
+  FreelancerPlatform,
+  Json,
+  OnboardingJob,
+  OnboardingJobStep,
+  OnboardingJobUpdate,
+  OnboardingJobStatus,
+  OnboardingJobStepUpdate,
+  OnboardingStepStatus,
+} from '../types/database.types';
+import { PlatformCapability, PlatformUserStatus } from '../types/platform.types';
+import type { IPlatformModule, PlatformCredentials } from '../types/platform.types';
+
+// How long a running job is considered owned by the tab that claimed it.
+// A job whose lease has expired (tab closed, crashed) can be resumed elsewhere.
+const JOB_LEASE_MS = 2 * 60 * 1000;
+
+const TERMINAL_STEP_STATUSES: OnboardingStepStatus[] = ['completed', 'failed', 'skipped', 'dead_letter'];
+
+// Jobs that may still provision something; a job backing off between retries is 'running'
+const ACTIVE_JOB_STATUSES: OnboardingJobStatus[] = ['queued', 'running', 'held'];
+
+// A type alias (not an interface) so entries remain assignable to Json
+type StepErrorEntry = {
+  attempt: number;
+  error: string;
+  retryable: boolean;
+  at: string;
+};
+
+export interface OnboardingJobWithSteps extends OnboardingJob {
+  steps: OnboardingJobStep[];
+}
+
+export interface CreateOnboardingJobInput {
+  organizationId: string;
+  freelancerId: string;
+  platformIds: string[];
+  createdBy: string;
+  // Per-platform options merged into the credentials passed to createUser
+  stepOptions?: Record<string, Partial<PlatformCredentials>>;
+}
+
+export type OnboardingJobListener = (job: OnboardingJobWithSteps) => void;
+
+/**
+ * Persistent onboarding job engine.
+ *
+ * A job is stored in `onboarding_jobs` with one `onboarding_job_steps` row per
+ * platform, so progress survives reloads and can be resumed or observed from
+ * any tab by job ID.
+ */
+export class OnboardingJobService {
+  private static instance: OnboardingJobService;
+  private runningJobs: Map<string, Promise<OnboardingJobWithSteps>> = new Map();
+  private listeners: Set<OnboardingJobListener> = new Set();
+  // Passwords platforms generated during a job, by platform. Kept in memory
+  // only, so they can be shown to the operator and are never persisted.
+  private issuedPasswords: Map<string, Record<string, string>> = new Map();
+  // Wakes a run that is sleeping until its next retry, so a cancel takes effect at once
+  private wakeups: Map<string, () => void> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): OnboardingJobService {
+    if (!OnboardingJobService.instance) {
+      OnboardingJobService.instance = new OnboardingJobService();
+    }
+    return OnboardingJobService.instance;
+  }
+
+  subscribe(listener: OnboardingJobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  isRunningLocally(jobId: string): boolean {
+    return this.runningJobs.has(jobId);
+  }
+
+  async createJob(input: CreateOnboardingJobInput): Promise<OnboardingJobWithSteps> {
+    const { organizationId, freelancerId, platformIds, createdBy, stepOptions = {} } = input;
+
+    if (platformIds.length === 0) {
+      throw new Error('No platforms specified');
+    }
+
+    const { data: job, error } = await supabase
+      .from('onboarding_jobs')
+      .insert({
+        organization_id: organizationId,
+        freelancer_id: freelancerId,
+        created_by: createdBy,
+        status: 'queued',
+        total_steps: platformIds.length
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    if (!job) throw new Error('Failed to create onboarding job');
+
+    const steps: OnboardingJobStep[] = [];
+    for (const [position, platformId] of platformIds.entries()) {
+      const { data: step, error: stepError } = await supabase
+        .from('onboarding_job_steps')
+        .insert({
+          job_id: job.id,
+          platform_id: platformId,
+          position,
+          status: 'pending',
+          attempts: 0,
+          options: (stepOptions[platformId] || {}) as Json
+        })
+        .select()
+        .single();
+
+      if (stepError) throw stepError;
+      steps.push(step);
+    }
+
+    debugLog('Onboarding job created:', { jobId: job.id, freelancerId, platformIds });
+
+    const created = { ...job, steps };
+    this.emit(created);
+    return created;
+  }
+
+  async getJob(jobId: string): Promise<OnboardingJobWithSteps | null> {
+    const { data: job, error } = await supabase
+      .from('onboarding_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single();
+
+    if (error || !job) return null;
+
+    const { data: steps, error: stepsError } = await supabase
+      .from('onboarding_job_steps')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('position', { ascending: true });
+
+    if (stepsError) throw stepsError;
+    return { ...job, steps: steps || [] };
+  }
+
+  async listJobs(organizationId: string): Promise<OnboardingJob[]> {
+    const { data, error } = await supabase
+      .from('onboarding_jobs')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Jobs that were queued or whose owning tab went away mid-run
+  async listResumableJobs(organizationId: string): Promise<OnboardingJob[]> {
+    const jobs = await this.listJobs(organizationId);
+    return jobs.filter(job => this.isResumable(job));
+  }
+
+  isResumable(job: OnboardingJob): boolean {
+    // Held jobs are re-checked each time in case their documents were approved
+    // or the freelancer finished the portal
+    if (job.status === 'queued' || job.status === 'held') return true;
+    if (job.status !== 'running') return false;
+    return !job.lease_expires_at || new Date(job.lease_expires_at).getTime() < Date.now();
+  }
+
+  /**
+   * Run (or resume) a job. Calling this twice for the same job in one tab
+   * returns the in-flight run instead of starting a second one.
+   */
+  runJob(jobId: string): Promise<OnboardingJobWithSteps> {
+    const existing = this.runningJobs.get(jobId);
+    if (existing) return existing;
+
+    const run = this.executeJob(jobId).finally(() => {
+      this.runningJobs.delete(jobId);
+    });
+    this.runningJobs.set(jobId, run);
+    return run;
+  }
+
+  // Generated passwords from runs in this tab; other tabs and reloads never see them
+  getIssuedPasswords(jobId: string): Record<string, string> {
+    return this.issuedPasswords.get(jobId) || {};
+  }
+
+  // Most recent job for a freelancer, so progress can be shown after a reload
+  async getLatestJobId(freelancerId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('onboarding_jobs')
+      .select('id')
+      .eq('freelancer_id', freelancerId)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+    return ((data || []) as Array<{ id: string }>)[0]?.id || null;
+  }
+
+  async resumeJobs(organizationId: string): Promise<string[]> {
+    const jobs = await this.listResumableJobs(organizationId);
+    for (const job of jobs) {
+      debugLog('Resuming onboarding job:', job.id);
+      this.runJob(job.id).catch(error => {
+        console.error(`Failed to resume onboarding job ${job.id}:`, error);
+      });
+    }
+    // Held jobs are only re-checked, so they are not reported as resumed
+    return jobs.filter(job => job.status !== 'held').map(job => job.id);
+  }
+
+  /**
+   * Keep picking up interrupted jobs while the app is open. A job whose tab
+   * closed only becomes resumable once its lease runs out, so checking on
+   * mount alone would miss it.
+   */
+  scheduleResume(organizationId: string, onResumed?: (jobIds: string[]) => void): () => void {
+    const sweep = () => {
+      this.resumeJobs(organizationId)
+        .then(jobIds => {
+          if (jobIds.length > 0) onResumed?.(jobIds);
+        })
+        .catch(error => {
+          console.error('Error resuming onboarding jobs:', error);
+        });
+    };
+
+    sweep();
+    const timer = setInterval(sweep, JOB_LEASE_MS);
+    return () => clearInterval(timer);
+  }
+
+  // Re-check a freelancer's held jobs, e.g. after one of their documents was approved
+  async releaseHeldJobs(freelancerId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('onboarding_jobs')
+      .select('id')
+      .eq('freelancer_id', freelancerId)
+      .eq('status', 'held');
+
+    if (error) throw error;
+    await Promise.all(((data || []) as Array<{ id: string }>).map(job => this.runJob(job.id)));
+  }
+
+  async cancelJob(jobId: string): Promise<void> {
+    await this.updateJob(jobId, {
+      status: 'cancelled',
+      completed_at: new Date().toISOString(),
+      lease_expires_at: null
+    });
+    this.wakeups.get(jobId)?.();
+    const job = await this.getJob(jobId);
+    if (job) this.emit(job);
+  }
+
+  /**
+   * Cancel every unfinished job for a freelancer and wait for this tab's runs
+   * of them to stop, so no step creates an account after offboarding starts.
+   * Runs in other tabs stop before their next step.
+   */
+  async cancelFreelancerJobs(freelancerId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('onboarding_jobs')
+      .select('*')
+      .eq('freelancer_id', freelancerId);
+
+    if (error) throw error;
+    const open = ((data || []) as OnboardingJob[]).filter(job => ACTIVE_JOB_STATUSES.includes(job.status));
+
+    for (const job of open) {
+      await this.cancelJob(job.id);
+    }
+    await Promise.allSettled(open.map(job => this.runningJobs.get(job.id)).filter(Boolean));
+    return open.map(job => job.id);
+  }
+
+  private async executeJob(jobId: string): Promise<OnboardingJobWithSteps> {
+    let job = await this.getJob(jobId);
+    if (!job) {
+      throw new Error(`Onboarding job ${jobId} not found`);
+    }
+    if (!this.isResumable(job)) {
+      // Finished, cancelled, or actively owned by another tab
+      return job;
+    }
+    let lease = await this.claimJob(job);
+    if (!lease) {
+      // Another tab claimed it between our read and now
+      return job;
+    }
+
+    const { data: freelancer, error: freelancerError } = await supabase
+      .from('freelancers')
+      .select('*')
+      .eq('id', job.freelancer_id)
+      .single();
+
+    if (freelancerError || !freelancer) {
+      await this.updateJob(jobId, {
+        status: 'failed',
+        last_error: 'Freelancer not found',
+        completed_at: new Date().toISOString(),
+        lease_expires_at: null
+      });
+      return this.refreshAndEmit(jobId);
+    }
+
+    // Self-service freelancers pick their own username, so nothing is created before they have
+    if (freelancer.portal_invited_at && !freelancer.portal_completed_at) {
+      await this.updateJob(jobId, {
+        status: 'held',
+        last_error: 'Waiting for the freelancer to complete the self-service portal',
+        lease_expires_at: null
+      });
+      return this.refreshAndEmit(jobId);
+    }
+
+    const missing = await documents.getProvisioningHold(job.organization_id, freelancer.id);
+    if (missing.length > 0) {
+      await this.updateJob(jobId, {
+        status: 'held',
+        last_error: `Waiting for approved documents: ${missing.map(requirement => requirement.name).join(', ')}`,
+        lease_expires_at: null
+      });
+      return this.refreshAndEmit(jobId);
+    }
+
+    await this.skipUnapprovedSteps(job);
+    job = await this.refreshAndEmit(jobId);
+
+    const initializedPlatforms = new Set<string>();
+
+    while (true) {
+      // Stop if the job was cancelled from elsewhere while we were working
+      const current = await this.getJob(jobId);
+      if (!current || current.status === 'cancelled') {
+        return current || job;
+      }
+      job = current;
+
+      const remaining = job.steps.filter(step => !TERMINAL_STEP_STATUSES.includes(step.status));
+      if (remaining.length === 0) break;
+
+      const now = Date.now();
+      const due = remaining.find(step => !step.next_attempt_at || new Date(step.next_attempt_at).getTime() <= now);
+
+      if (!due) {
+        // Everything left is backing off; sleep until the earliest retry
+        const wakeAt = Math.min(...remaining.map(step => new Date(step.next_attempt_at!).getTime()));
+        const waitMs = Math.max(0, wakeAt - now);
+        lease = await this.renewLease(jobId, lease, waitMs);
+        if (!lease) return this.refreshAndEmit(jobId);
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, waitMs);
+          this.wakeups.set(jobId, () => {
+            clearTimeout(timer);
+            resolve();
+          });
+        });
+        this.wakeups.delete(jobId);
+        continue;
+      }
+
+      // A step that outlasted the lease may have been taken over by another tab
+      lease = await this.renewLease(jobId, lease);
+      if (!lease) return this.refreshAndEmit(jobId);
+      await this.executeStep(job, due, freelancer, initializedPlatforms);
+      job = await this.refreshAndEmit(jobId);
+    }
+
+    const failed = job.steps.filter(step => step.status === 'failed' || step.status === 'dead_letter');
+    const completed = job.steps.filter(step => step.status === 'completed');
+
+    const finished = await this.updateOwnedJob(jobId, lease, {
+      status: failed.length === 0 ? 'completed' : 'failed',
+      last_error: failed.length > 0 ? failed.map(step => `${step.platform_id}: ${step.last_error}`).join('; ') : null,
+      completed_at: new Date().toISOString(),
+      lease_expires_at: null
+    });
+    if (!finished) return this.refreshAndEmit(jobId);
+
+    // A job whose every step went to approval has not provisioned or failed anything yet
+    if (completed.length > 0 || failed.length > 0) {
+      await supabase
+        .from('freelancers')
+        .update({
+          status: completed.length > 0 ? 'active' : 'error',
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', freelancer.id);
+    }
+
+    debugLog('Onboarding job finished:', { jobId, failed: failed.length });
+    return this.refreshAndEmit(jobId);
+  }
+
+  /**
+   * Platforms that require sign-off are only provisioned by jobs an approved
+   * request was linked to, or started by someone who may approve. Checking
+   * here covers every way a job is created (onboarding, imports,
+   * reconciliation); other steps are skipped and an approval requested instead.
+   * RLS only lets a job be created as the signed-in user and keeps created_by
+   * fixed, so a member cannot pass a job off as an admin's.
+   */
+  private async skipUnapprovedSteps(job: OnboardingJobWithSteps): Promise<void> {
+    const pending = job.steps.filter(step => !TERMINAL_STEP_STATUSES.includes(step.status));
+    if (pending.length === 0) return;
+
+    const { data: configs, error: configError } = await supabase
+      .from('platforms')
+      .select('platform_id, config')
+      .eq('organization_id', job.organization_id);
+    if (configError) throw configError;
+
+    const gated = pending.filter(step => requiresApproval(
+      ((configs || []) as Array<{ platform_id: string; config: Json }>).find(row => row.platform_id === step.platform_id)?.config
+    ));
+    if (gated.length === 0) return;
+
+    const { data: creator } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', job.created_by)
+      .single();
+    if (creator && roleHasPermission(creator.role, 'approvals.decide')) return;
+
+    const { data: linked, error: linkedError } = await supabase
+      .from('approval_requests')
+      .select('platform_id, status')
+      .eq('job_id', job.id);
+    if (linkedError) throw linkedError;
+
+    const approved = new Set(((linked || []) as Array<{ platform_id: string; status: string }>)
+      .filter(request => request.status === 'approved')
+      .map(request => request.platform_id));
+    const unapproved = gated.filter(step => !approved.has(step.platform_id));
+    if (unapproved.length === 0) return;
+
+    await approvals.requestApproval({
+      organizationId: job.organization_id,
+      freelancerId: job.freelancer_id,
+      platformIds: unapproved.map(step => step.platform_id),
+      requestedBy: job.created_by,
+      stepOptions: Object.fromEntries(unapproved.map(step => [step.platform_id, (step.options || {}) as Partial<PlatformCredentials>]))
+    });
+
+    for (const step of unapproved) {
+      await this.updateStep(step.id, {
+        status: 'skipped',
+        last_error: 'Waiting for admin approval',
+        result: { awaiting_approval: true },
+        completed_at: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Take ownership of a job. The update only applies while the job still has
+   * the status and lease we read, so two tabs resuming it cannot both win.
+   * Returns the lease this run now holds, or null if another tab won.
+   */
+  private async claimJob(job: OnboardingJob): Promise<string | null> {
+    const now = new Date().toISOString();
+    const lease = this.nextLease();
+    let claim = supabase
+      .from('onboarding_jobs')
+      .update({
+        status: 'running',
+        started_at: job.started_at || now,
+        lease_expires_at: lease,
+        updated_at: now
+      })
+      .eq('id', job.id)
+      .eq('status', job.status);
+
+    claim = job.lease_expires_at
+      ? claim.eq('lease_expires_at', job.lease_expires_at)
+      : claim.is('lease_expires_at', null);
+
+    const { data, error } = await claim.select('id');
+    if (error) throw error;
+    return (data || []).length > 0 ? lease : null;
+  }
+
+  // Extend the lease this run holds; null once it was lost or the job cancelled
+  private async renewLease(jobId: string, lease: string, extraMs: number = 0): Promise<string | null> {
+    const renewed = this.nextLease(extraMs);
+    return (await this.updateOwnedJob(jobId, lease, { lease_expires_at: renewed })) ? renewed : null;
+  }
+
+  /**
+   * Update a job only while it is running under the lease this run last
+   * wrote. Once a slow step lets the lease run out, another tab may claim the
+   * job; the write then matches no row and this run stops.
+   */
+  private async updateOwnedJob(jobId: string, lease: string, data: OnboardingJobUpdate): Promise<boolean> {
+    const { data: rows, error } = await supabase
+      .from('onboarding_jobs')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .eq('status', 'running')
+      .eq('lease_expires_at', lease)
+      .select('id');
+
+    if (error) throw error;
+    return (rows || []).length > 0;
+  }
+
+  private async executeStep(
+    job: OnboardingJobWithSteps,
+    step: OnboardingJobStep,
+    freelancer: Freelancer,
+    initializedPlatforms: Set<string>
+  ): Promise<void> {
+    const platformId = step.platform_id;
+    const attempt = step.attempts + 1;
+
+    await this.updateStep(step.id, {
+      status: 'running',
+      attempts: attempt,
+      started_at: new Date().toISOString(),
+      next_attempt_at: null
+    });
+    await this.refreshAndEmit(job.id);
+
+    let association: FreelancerPlatform | null = null;
+    try {
+      association = await this.ensureAssociation(freelancer.id, platformId);
+
+      // A previous run may have provisioned the user right before the tab closed
+      if (association.status === 'active' && association.platform_user_id) {
+        await this.updateStep(step.id, {
+          status: 'completed',
+          freelancer_platform_id: association.id,
+          result: { platform_user_id: association.platform_user_id, resumed: true },
+          completed_at: new Date().toISOString()
+        });
+        return;
+      }
+
+      const platformModule = await this.preparePlatform(job.organization_id, platformId, initializedPlatforms);
+
+      const credentials: PlatformCredentials = {
+        email: freelancer.email,
+        username: freelancer.username || freelancer.email.split('@')[0],
+        firstName: freelancer.first_name,
+        lastName: freelancer.last_name,
+        fullName: `${freelancer.first_name} ${freelancer.last_name}`.trim(),
+        ...this.platformMetadata(freelancer, platformId), // Platform-specific metadata
+        ...(step.options as Record<string, unknown> | undefined)
+      };
+
+      let result;
+      try {
+        result = await platformModule.createUser(credentials);
+      } catch (platformError) {
+        console.error(`Platform ${platformId} createUser failed:`, platformError);
+        result = {
+          success: false,
+          error: `Platform ${platformId} is not available: ${platformError instanceof Error ? platformError.message : 'Unknown error'}`
+        };
+      }
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Unknown error');
+      }
+
+      const requiresManualInvitation = !!result.data.requiresManualInvitation;
+      // Invited users stay pending until they accept; the invitation sync flips them to active
+      const awaitingAcceptance = requiresManualInvitation || result.data.status === PlatformUserStatus.PENDING;
+      // Users invited by hand have no platform account to add to groups yet
+      const groupErrors = requiresManualInvitation
+        ? []
+        : await this.addToGroups(platformModule, result.data.id, credentials.groups);
+
+      await this.updateAssociation(association.id, {
+        status: awaitingAcceptance ? 'pending' : 'active',
+        platform_user_id: result.data.id,
+        provisioned_at: new Date().toISOString(),
+        deprovisioned_at: null,
+        sync_status: { state: awaitingAcceptance ? 'invited' : 'provisioned', attempts: attempt }
+      });
+
+      if (result.data.initialPassword) {
+        this.issuedPasswords.set(job.id, { ...this.issuedPasswords.get(job.id), [platformId]: result.data.initialPassword });
+      }
+
+      await this.updateStep(step.id, {
+        status: 'completed',
+        freelancer_platform_id: association.id,
+        result: {
+          platform_user_id: result.data.id,
+          password_issued: !!result.data.initialPassword,
+          awaiting_acceptance: awaitingAcceptance,
+          requires_manual_invitation: requiresManualInvitation,
+          invitation_instructions: result.data.invitationInstructions || null,
+          group_errors: groupErrors
+        },
+        completed_at: new Date().toISOString()
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Onboarding step ${platformId} failed (attempt ${attempt}):`, error);
+      await this.handleStepFailure(step, attempt, message, association);
+    }
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or give up. Steps that exhaust
+   * their retry budget move to `dead_letter`; non-retryable errors fail at once.
+   */
+  private async handleStepFailure(
+    step: OnboardingJobStep,
+    attempt: number,
+    message: string,
+    association: FreelancerPlatform | null
+  ): Promise<void> {
+    const platformModule = PlatformRegistryService.getInstance().getPlatform(step.platform_id);
+    const policy = resolveRetryPolicy(platformModule?.metadata.retryPolicy);
+    const retryable = isRetryableError(message, policy);
+    const now = new Date();
+
+    const errorHistory: StepErrorEntry[] = [
+      ...((step.error_history as unknown as StepErrorEntry[] | undefined) || []),
+      { attempt, error: message, retryable, at: now.toISOString() }
+    ];
+
+    const willRetry = retryable && attempt < policy.maxAttempts;
+    const status = willRetry ? 'pending' : retryable ? 'dead_letter' : 'failed';
+    const nextAttemptAt = willRetry
+      ? new Date(now.getTime() + getRetryDelay(attempt + 1, policy)).toISOString()
+      : null;
+
+    if (association) {
+      await this.updateAssociation(association.id, {
+        status: willRetry ? 'pending' : 'error',
+        sync_status: {
+          state: willRetry ? 'retrying' : status,
+          attempts: attempt,
+          max_attempts: policy.maxAttempts,
+          next_attempt_at: nextAttemptAt,
+          last_error: message,
+          errors: errorHistory
+        }
+      });
+    }
+
+    await this.updateStep(step.id, {
+      status,
+      last_error: message,
+      error_history: errorHistory,
+      next_attempt_at: nextAttemptAt,
+      freelancer_platform_id: association?.id || null,
+      completed_at: willRetry ? null : now.toISOString()
+    });
+
+    debugLog('Onboarding step failure handled:', {
+      stepId: step.id,
+      platformId: step.platform_id,
+      attempt,
+      retryable,
+      status,
+      nextAttemptAt
+    });
+  }
+
+  /**
+   * Add a newly provisioned user to the template's platform groups. The user
+   * exists by now, so failures are reported on the step instead of retrying
+   * it; membership can be fixed from the platform afterwards.
+   */
+  private async addToGroups(platformModule: IPlatformModule, userId: string, groupIds: string[] = []): Promise<string[]> {
+    if (groupIds.length === 0) return [];
+    if (!supportsCapability(platformModule, PlatformCapability.GROUP_MANAGEMENT)) {
+      return [`${platformModule.metadata.displayName} does not support groups`];
+    }
+
+    const errors: string[] = [];
+    for (const groupId of groupIds) {
+      const result = await platformModule.groups!.addMember(userId, groupId);
+      if (!result.success) {
+        errors.push(`Group ${groupId}: ${result.error || 'Unknown error'}`);
+      }
+    }
+    return errors;
+  }
+
+  private async preparePlatform(
+    organizationId: string,
+    platformId: string,
+    initializedPlatforms: Set<string>
+  ): Promise<IPlatformModule> {
+    if (initializedPlatforms.has(platformId)) {
+      const platformModule = PlatformRegistryService.getInstance().getPlatform(platformId);
+      if (platformModule) return platformModule;
+    }
+
+    const platformModule = await loadPlatformModule(organizationId, platformId);
+    initializedPlatforms.add(platformId);
+    return platformModule;
+  }
+
+
+  private async ensureAssociation(freelancerId: string, platformId: string): Promise<FreelancerPlatform> {
+    const { data: existing, error } = await supabase
+      .from('freelancer_platforms')
+      .select('*')
+      .eq('freelancer_id', freelancerId);
+
+    if (error) throw error;
+
+    const association = (existing || []).find((fp: FreelancerPlatform) => fp.platform_id === platformId);
+    if (association) {
+      if (association.status !== 'active') {
+        await this.updateAssociation(association.id, { status: 'pending' });
+        return { ...association, status: 'pending' };
+      }
+      return association;
+    }
+
+    const { data: created, error: createError } = await supabase
+      .from('freelancer_platforms')
+      .insert({
+        freelancer_id: freelancerId,
+        platform_id: platformId,
+        status: 'pending',
+        platform_user_id: null // Populated once the platform user exists
+      })
+      .select()
+      .single();
+
+    if (createError) {
+      if (createError.message?.includes('violates foreign key constraint')) {
+        throw new Error('Invalid freelancer or platform ID. Please ensure both exist.');
+      }
+      if (createError.code === '23502') {
+        throw new Error('Missing required field. Check database constraints.');
+      }
+      throw createError;
+    }
+
+    return created;
+  }
+
+  private platformMetadata(freelancer: Freelancer, platformId: string): Record<string, unknown> {
+    const metadata = freelancer.metadata as Record<string, Record<string, unknown>> | undefined;
+    return metadata?.[platformId] || {};
+  }
+
+  private async updateAssociation(id: string, data: Partial<FreelancerPlatform>): Promise<void> {
+    const { error } = await supabase
+      .from('freelancer_platforms')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  private async updateJob(jobId: string, data: OnboardingJobUpdate): Promise<void> {
+    const { error } = await supabase
+      .from('onboarding_jobs')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('id', jobId);
+
+    if (error) throw error;
+  }
+
+  private async updateStep(stepId: string, data: OnboardingJobStepUpdate): Promise<void> {
+    const { error } = await supabase
+      .from('onboarding_job_steps')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('id', stepId);
+
+    if (error) throw error;
+  }
+
+  private async refreshAndEmit(jobId: string): Promise<OnboardingJobWithSteps> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      throw new Error(`Onboarding job ${jobId} not found`);
+    }
+    this.emit(job);
+    return job;
+  }
+
+  private emit(job: OnboardingJobWithSteps): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(job);
+      } catch (error) {
+        console.error('Onboarding job listener failed:', error);
+      }
+    });
+  }
+
+  private nextLease(extraMs: number = 0): string {
+    return new Date(Date.now() + extraMs + JOB_LEASE_MS).toISOString();
+  }
+}
+
+export const onboardingJobs = OnboardingJobService.getInstance();
@@ -0,0 +1,152 @@
+import { supabase } from './supabase';
+import type { PlatformCredentials } from '../types/platform.types';
+import type { Json, OnboardingTemplate } from '../types/database.types';
+
+// A type alias (not an interface) so entries remain assignable to Json
+export type OnboardingTemplatePlatform = {
+  platform_id: string;
+  role?: string;
+  permissions?: string[];
+  // Platform group IDs new users join; edited from the platform's group mapping
+  groups?: string[];
+  // Platform-specific extras passed through to createUser, e.g. workspaceId or groupId
+  metadata?: Record<string, string>;
+};
+
+export interface OnboardingTemplateWithPlatforms extends Omit<OnboardingTemplate, 'platforms'> {
+  platforms: OnboardingTemplatePlatform[];
+}
+
+export interface OnboardingTemplateInput {
+  name: string;
+  description?: string | null;
+  platforms: OnboardingTemplatePlatform[];
+}
+
+// Template defaults in the shape merged into PlatformCredentials by the job engine
+export function toStepOptions(
+  platforms: OnboardingTemplatePlatform[]
+): Record<string, Partial<PlatformCredentials>> {
+  const options: Record<string, Partial<PlatformCredentials>> = {};
+  for (const platform of platforms) {
+    const defaults: Partial<PlatformCredentials> = {};
+    const role = platform.role?.trim();
+    const permissions = (platform.permissions || []).map(p => p.trim()).filter(Boolean);
+    if (role) defaults.role = role;
+    if (permissions.length > 0) defaults.permissions = permissions;
+    if (platform.groups && platform.groups.length > 0) defaults.groups = platform.groups;
+    if (platform.metadata && Object.keys(platform.metadata).length > 0) defaults.metadata = platform.metadata;
+    options[platform.platform_id] = defaults;
+  }
+  return options;
+}
+
+/**
+ * Named onboarding templates ("role bundles") stored per organization.
+ * Each template lists platforms plus the role, permissions and extra
+ * metadata to provision with on each one.
+ */
+export class OnboardingTemplateService {
+  private static instance: OnboardingTemplateService;
+
+  private constructor() {}
+
+  static getInstance(): OnboardingTemplateService {
+    if (!OnboardingTemplateService.instance) {
+      OnboardingTemplateService.instance = new OnboardingTemplateService();
+    }
+    return OnboardingTemplateService.instance;
+  }
+
+  async listTemplates(organizationId: string): Promise<OnboardingTemplateWithPlatforms[]> {
+    const { data, error } = await supabase
+      .from('onboarding_templates')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return ((data || []) as OnboardingTemplate[]).map(template => this.parse(template));
+  }
+
+  async createTemplate(
+    organizationId: string,
+    input: OnboardingTemplateInput,
+    createdBy: string
+  ): Promise<OnboardingTemplateWithPlatforms> {
+    this.validate(input);
+
+    const { data, error } = await supabase
+      .from('onboarding_templates')
+      .insert({
+        organization_id: organizationId,
+        name: input.name.trim(),
+        description: input.description?.trim() || null,
+        platforms: input.platforms as Json,
+        created_by: createdBy
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.parse(data as OnboardingTemplate);
+  }
+
+  async updateTemplate(id: string, input: OnboardingTemplateInput): Promise<void> {
+    this.validate(input);
+
+    const { error } = await supabase
+      .from('onboarding_templates')
+      .update({
+        name: input.name.trim(),
+        description: input.description?.trim() || null,
+        platforms: input.platforms as Json,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Replace the platform groups one platform entry of a template provisions into
+  async setPlatformGroups(
+    template: OnboardingTemplateWithPlatforms,
+    platformId: string,
+    groups: string[]
+  ): Promise<void> {
+    await this.updateTemplate(template.id, {
+      name: template.name,
+      description: template.description,
+      platforms: template.platforms.map(platform =>
+        platform.platform_id === platformId ? { ...platform, groups } : platform
+      )
+    });
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('onboarding_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  private validate(input: OnboardingTemplateInput): void {
+    if (!input.name.trim()) {
+      throw new Error('Template name is required');
+    }
+    if (input.platforms.length === 0) {
+      throw new Error('A template needs at least one platform');
+    }
+  }
+
+  private parse(template: OnboardingTemplate): OnboardingTemplateWithPlatforms {
+    const platforms = Array.isArray(template.platforms)
+      ? (template.platforms as unknown as OnboardingTemplatePlatform[]).filter(p => p && typeof p.platform_id === 'string')
+      : [];
+    return { ...template, platforms };
+  }
+}
+
+export const onboardingTemplates = OnboardingTemplateService.getInstance();
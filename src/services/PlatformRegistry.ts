@@ -1,25 +1,31 @@
-// Import all platform modules (classes only, not interfaces)
-import { ParsecModule } from '../modules/screen-sharing/ParsecModule';
-import { MondayModule } from '../modules/collaboration/MondayModule';
-// import { trueNASModule } from '../modules/truenas/TrueNASModule';
-
-// Export actual classes as runtime values
-export { ParsecModule as PlatformModule };
+import { config } from '../config/environment';
+import { checkCapabilities } from './platformCapabilities';
+import type { IPlatformModule, PlatformModuleManifest } from '../types/platform.types';
 
 // Simple platform registry type (using IPlatformModule interface)
-import type { IPlatformModule } from '../types/platform.types';
 export type PlatformRegistry = Map<string, IPlatformModule>;
 
 // Platform categories for now - keeping it simple
 export type PlatformCategory = 'screen-sharing' | 'file-sharing' | 'collaboration' | 'communication';
 
+// Manifests are tiny and bundled up front; each one's load() pulls its module
+// in as a separate chunk on first use
+const discoveredManifests = import.meta.glob<PlatformModuleManifest>('../modules/**/*.manifest.ts', {
+  eager: true,
+  import: 'manifest'
+});
+
 /**
- * Simplified registry for platform modules
+ * Registry for platform modules. Modules are known by their manifest from the
+ * start and loaded lazily; getPlatform only returns modules already loaded,
+ * so use loadPlatform or loadAll where a module may not be loaded yet.
  */
 export class PlatformRegistryService {
   private static instance: PlatformRegistryService;
   private registry: PlatformRegistry = new Map();
   private categoryIndex: Map<PlatformCategory, Set<string>> = new Map();
+  private manifests: Map<string, PlatformModuleManifest> = new Map();
+  private pendingLoads: Map<string, Promise<IPlatformModule>> = new Map();
   
   private constructor() {
     this.initializeRegistry();
@@ -33,10 +39,76 @@ export class PlatformRegistryService {
   }
   
   private initializeRegistry(): void {
-    // Register working platforms only
-    this.registerPlatform(new ParsecModule());
-    this.registerPlatform(new MondayModule());
-    // this.registerPlatform(trueNASModule); // Disabled until simplified
+    for (const [path, manifest] of Object.entries(discoveredManifests)) {
+      if (config.DISABLED_PLATFORMS.includes(manifest.id)) {
+        console.log(`Skipping platform ${manifest.id}: disabled by VITE_DISABLED_PLATFORMS`);
+        continue;
+      }
+      if (this.manifests.has(manifest.id)) {
+        console.warn(`Ignoring duplicate manifest for platform ${manifest.id} in ${path}`);
+        continue;
+      }
+      this.registerManifest(manifest);
+    }
+  }
+
+  registerManifest(manifest: PlatformModuleManifest): void {
+    this.manifests.set(manifest.id, manifest);
+  }
+
+  getManifest(platformId: string): PlatformModuleManifest | undefined {
+    return this.manifests.get(platformId);
+  }
+
+  getManifests(): PlatformModuleManifest[] {
+    return Array.from(this.manifests.values());
+  }
+
+  /**
+   * Load a platform module from its manifest, once. Resolves undefined for
+   * unknown or disabled platforms; rejects when the module fails to load.
+   */
+  async loadPlatform(platformId: string): Promise<IPlatformModule | undefined> {
+    const loaded = this.registry.get(platformId);
+    if (loaded) return loaded;
+
+    const manifest = this.manifests.get(platformId);
+    if (!manifest) return undefined;
+
+    let pending = this.pendingLoads.get(platformId);
+    if (!pending) {
+      pending = manifest.load().then(platform => {
+        if (platform.metadata.id !== manifest.id) {
+          throw new Error(`Manifest ${manifest.id} loaded module ${platform.metadata.id}`);
+        }
+        // Misdeclared capabilities would show actions that fail or hide ones
+        // that work; surface them for the module author
+        checkCapabilities(platform).forEach(({ capability, method, problem }) => {
+          console.warn(problem === 'declared'
+            ? `Platform ${manifest.id} declares ${capability} but does not implement ${method}`
+            : `Platform ${manifest.id} implements ${method} without declaring ${capability}`);
+        });
+        this.registerPlatform(platform);
+        return platform;
+      });
+      // Let a later call retry, e.g. after a chunk failed to download
+      pending.catch(() => this.pendingLoads.delete(platformId));
+      this.pendingLoads.set(platformId, pending);
+    }
+    return pending;
+  }
+
+  // Load every known module; ones that fail are logged and left out
+  async loadAll(): Promise<IPlatformModule[]> {
+    const results = await Promise.allSettled(
+      Array.from(this.manifests.keys()).map(platformId => this.loadPlatform(platformId))
+    );
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        console.error('Failed to load platform module:', result.reason);
+      }
+    });
+    return this.getAllPlatforms();
   }
   
   registerPlatform(platform: IPlatformModule): void {
@@ -99,7 +171,7 @@ export class PlatformRegistryService {
   }
   
   hasPlatform(platformId: string): boolean {
-    return this.registry.has(platformId);
+    return this.registry.has(platformId) || this.manifests.has(platformId);
   }
   
   getPlatformCount(): number {
@@ -111,8 +183,12 @@ export class PlatformRegistryService {
   }
   
   unregisterPlatform(platformId: string): boolean {
+    // Forget the manifest too, so the module isn't loaded again
+    const hadManifest = this.manifests.delete(platformId);
+    this.pendingLoads.delete(platformId);
+
     const platform = this.registry.get(platformId);
-    if (!platform) return false;
+    if (!platform) return hadManifest;
     
     // Remove from registry
     this.registry.delete(platformId);
@@ -132,5 +208,7 @@ export class PlatformRegistryService {
   clearRegistry(): void {
     this.registry.clear();
     this.categoryIndex.clear();
+    this.manifests.clear();
+    this.pendingLoads.clear();
   }
 }
\ No newline at end of file
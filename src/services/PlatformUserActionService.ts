@@ -0,0 +1,98 @@
+import { db } from './database.service';
+import { loadPlatformModule } from './platformLoader';
+import { supportsCapability } from './platformCapabilities';
+import { PlatformCapability, type PlatformResponse } from '../types/platform.types';
+import type { FreelancerPlatform } from '../types/database.types';
+
+export type PlatformUserAction =
+  | { type: 'assign_role'; role: string }
+  | { type: 'assign_permissions'; permissions: string[] }
+  | { type: 'reset_password' }
+  | { type: 'sync_user' };
+
+export type PlatformUserActionType = PlatformUserAction['type'];
+
+// Capability a platform has to declare (and implement) for each action
+export const ACTION_CAPABILITIES: Record<PlatformUserActionType, PlatformCapability> = {
+  assign_role: PlatformCapability.ROLE_MANAGEMENT,
+  assign_permissions: PlatformCapability.PERMISSION_MANAGEMENT,
+  reset_password: PlatformCapability.PASSWORD_RESET,
+  sync_user: PlatformCapability.USER_SYNC,
+};
+
+const AUDIT_ACTIONS: Record<PlatformUserActionType, string> = {
+  assign_role: 'assign_platform_role',
+  assign_permissions: 'assign_platform_permissions',
+  reset_password: 'reset_platform_password',
+  sync_user: 'sync_platform_user',
+};
+
+/**
+ * Runs the optional per-user operations (role, permissions, password reset,
+ * sync) against a freelancer's account on a platform and audits each attempt.
+ */
+export class PlatformUserActionService {
+  private static instance: PlatformUserActionService;
+
+  static getInstance(): PlatformUserActionService {
+    if (!PlatformUserActionService.instance) {
+      PlatformUserActionService.instance = new PlatformUserActionService();
+    }
+    return PlatformUserActionService.instance;
+  }
+
+  async run(
+    organizationId: string,
+    grant: Pick<FreelancerPlatform, 'id' | 'freelancer_id' | 'platform_id' | 'platform_user_id'>,
+    action: PlatformUserAction,
+    performedBy: string
+  ): Promise<PlatformResponse> {
+    if (!grant.platform_user_id) {
+      return { success: false, error: 'The freelancer has no account on this platform yet' };
+    }
+
+    const platformModule = await loadPlatformModule(organizationId, grant.platform_id);
+    if (!supportsCapability(platformModule, ACTION_CAPABILITIES[action.type])) {
+      return { success: false, error: `${platformModule.metadata.displayName} does not support this action` };
+    }
+
+    const userId = grant.platform_user_id;
+    let result: PlatformResponse;
+    switch (action.type) {
+      case 'assign_role':
+        result = await platformModule.assignRole!(userId, action.role);
+        break;
+      case 'assign_permissions':
+        result = await platformModule.assignPermissions!(userId, action.permissions);
+        break;
+      case 'reset_password':
+        result = await platformModule.resetPassword!(userId);
+        break;
+      case 'sync_user':
+        result = await platformModule.syncUser!(userId);
+        break;
+    }
+
+    await db.auditLogs.create({
+      organization_id: organizationId,
+      user_id: performedBy,
+      action: AUDIT_ACTIONS[action.type],
+      entity_type: 'freelancer_platform',
+      entity_id: grant.id,
+      changes: {
+        freelancer_id: grant.freelancer_id,
+        platform_id: grant.platform_id,
+        platform_user_id: userId,
+        // Never the new password
+        ...(action.type === 'assign_role' ? { role: action.role } : {}),
+        ...(action.type === 'assign_permissions' ? { permissions: action.permissions } : {}),
+        success: result.success,
+        error: result.error || null
+      }
+    });
+
+    return result;
+  }
+}
+
+export const platformUserActions = PlatformUserActionService.getInstance();
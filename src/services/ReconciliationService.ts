@@ -0,0 +1,429 @@
+import { supabase } from './supabase';
+import { db } from './database.service';
+import { loadPlatformModule, getPlatformConfigRow, getEnabledPlatformIds } from './platformLoader';
+import { onboardingJobs } from './OnboardingJobService';
+import { debugLog } from '../config/environment';
+import type { Freelancer, FreelancerPlatform } from '../types/database.types';
+import { PlatformUserStatus, type PlatformUser } from '../types/platform.types';
+
+export type ReconciliationIssueType =
+  | 'orphaned_account'  // Account exists on the platform but no grant points to it
+  | 'missing_account'   // Active grant points to an account that no longer exists
+  | 'stale_link'        // Grant points to the wrong account id, but the email matches one
+  | 'drift';            // Linked, but profile or access status differ between the two sides
+
+export type ReconciliationFixAction =
+  | 'link'
+  | 'import'
+  | 'deprovision'
+  | 'relink'
+  | 'unlink'
+  | 'reprovision'
+  | 'push_profile';
+
+export interface ReconciliationDrift {
+  field: 'email' | 'firstName' | 'lastName' | 'access';
+  local: string;
+  remote: string;
+}
+
+export interface ReconciliationIssue {
+  id: string;
+  type: ReconciliationIssueType;
+  platformId: string;
+  details: string;
+  freelancerId?: string;
+  freelancerPlatformId?: string;
+  platformUser?: PlatformUser;
+  drift?: ReconciliationDrift[];
+  fixes: ReconciliationFixAction[];
+  resolution?: { action: ReconciliationFixAction; success: boolean; error?: string; at: string };
+}
+
+export interface ReconciliationReport {
+  organizationId: string;
+  platformId: string;
+  generatedAt: string;
+  localCount: number;
+  remoteCount: number;
+  matched: number;
+  issues: ReconciliationIssue[];
+  error?: string;
+}
+
+const normalizeEmail = (email?: string | null) => (email || '').trim().toLowerCase();
+
+/**
+ * Compares our freelancer_platforms grants with what each platform reports
+ * through listUsers(), and applies one-click fixes for the differences.
+ */
+export class ReconciliationService {
+  private static instance: ReconciliationService;
+
+  private constructor() {}
+
+  static getInstance(): ReconciliationService {
+    if (!ReconciliationService.instance) {
+      ReconciliationService.instance = new ReconciliationService();
+    }
+    return ReconciliationService.instance;
+  }
+
+  async reconcileAll(organizationId: string): Promise<ReconciliationReport[]> {
+    const platformIds = await getEnabledPlatformIds(organizationId);
+    const reports: ReconciliationReport[] = [];
+    for (const platformId of platformIds) {
+      reports.push(await this.reconcilePlatform(organizationId, platformId));
+    }
+    return reports;
+  }
+
+  async reconcilePlatform(organizationId: string, platformId: string): Promise<ReconciliationReport> {
+    const report: ReconciliationReport = {
+      organizationId,
+      platformId,
+      generatedAt: new Date().toISOString(),
+      localCount: 0,
+      remoteCount: 0,
+      matched: 0,
+      issues: []
+    };
+
+    try {
+      const platformModule = await loadPlatformModule(organizationId, platformId);
+      const remoteResult = await platformModule.listUsers();
+      if (!remoteResult.success || !remoteResult.data) {
+        throw new Error(remoteResult.error || 'Failed to list platform users');
+      }
+
+      const remoteUsers = remoteResult.data;
+      const { freelancers, grants } = await this.loadLocalState(organizationId, platformId);
+      report.localCount = grants.length;
+      report.remoteCount = remoteUsers.length;
+
+      const freelancersById = new Map(freelancers.map(f => [f.id, f]));
+      const freelancersByEmail = new Map(freelancers.map(f => [normalizeEmail(f.email), f]));
+      const remoteById = new Map(remoteUsers.map(u => [u.id, u]));
+      const remoteByEmail = new Map(remoteUsers.map(u => [normalizeEmail(u.email), u]));
+      const linkedRemoteIds = new Set<string>();
+      const syncedGrantIds: string[] = [];
+
+      for (const grant of grants) {
+        const freelancer = freelancersById.get(grant.freelancer_id);
+        if (!freelancer) continue;
+
+        const remote = grant.platform_user_id ? remoteById.get(grant.platform_user_id) : undefined;
+        if (remote) {
+          linkedRemoteIds.add(remote.id);
+
+          // Revoked here but still usable there: the leftover access reconciliation exists to catch
+          if (grant.status === 'inactive' && this.hasAccess(remote)) {
+            report.issues.push({
+              id: `access:${grant.id}`,
+              type: 'drift',
+              platformId,
+              freelancerId: freelancer.id,
+              freelancerPlatformId: grant.id,
+              platformUser: remote,
+              drift: [{ field: 'access', local: 'revoked', remote: remote.status }],
+              details: `${freelancer.email} was revoked here but platform account ${remote.id} still has access`,
+              fixes: ['deprovision']
+            });
+            continue;
+          }
+
+          syncedGrantIds.push(grant.id);
+          report.matched++;
+
+          const drift = this.detectDrift(freelancer, remote);
+          if (drift.length > 0) {
+            report.issues.push({
+              id: `drift:${grant.id}`,
+              type: 'drift',
+              platformId,
+              freelancerId: freelancer.id,
+              freelancerPlatformId: grant.id,
+              platformUser: remote,
+              drift,
+              details: `${drift.map(d => d.field).join(', ')} differ between ${freelancer.email} and the platform account`,
+              fixes: ['push_profile']
+            });
+          }
+          continue;
+        }
+
+        if (grant.status === 'inactive') continue;
+
+        const byEmail = remoteByEmail.get(normalizeEmail(freelancer.email));
+        if (byEmail) {
+          linkedRemoteIds.add(byEmail.id);
+          report.issues.push({
+            id: `stale:${grant.id}`,
+            type: 'stale_link',
+            platformId,
+            freelancerId: freelancer.id,
+            freelancerPlatformId: grant.id,
+            platformUser: byEmail,
+            details: `${freelancer.email} is linked to ${grant.platform_user_id || 'no account'} but matches platform account ${byEmail.id}`,
+            fixes: ['relink']
+          });
+          continue;
+        }
+
+        // Pending invitations legitimately have no platform account yet
+        if (grant.status === 'active') {
+          report.issues.push({
+            id: `missing:${grant.id}`,
+            type: 'missing_account',
+            platformId,
+            freelancerId: freelancer.id,
+            freelancerPlatformId: grant.id,
+            details: `${freelancer.email} is active here but account ${grant.platform_user_id} no longer exists on the platform`,
+            fixes: ['reprovision', 'unlink']
+          });
+        }
+      }
+
+      for (const remote of remoteUsers) {
+        if (linkedRemoteIds.has(remote.id)) continue;
+
+        const freelancer = freelancersByEmail.get(normalizeEmail(remote.email));
+        report.issues.push({
+          id: `orphan:${remote.id}`,
+          type: 'orphaned_account',
+          platformId,
+          freelancerId: freelancer?.id,
+          platformUser: remote,
+          details: freelancer
+            ? `Platform account ${remote.email} belongs to freelancer ${freelancer.email} but is not linked`
+            : `Platform account ${remote.email} has no matching freelancer`,
+          fixes: freelancer ? ['link', 'deprovision'] : ['import', 'deprovision']
+        });
+      }
+
+      if (syncedGrantIds.length > 0) {
+        await supabase
+          .from('freelancer_platforms')
+          .update({ last_sync_at: report.generatedAt })
+          .in('id', syncedGrantIds);
+      }
+    } catch (error) {
+      report.error = error instanceof Error ? error.message : 'Reconciliation failed';
+      console.error(`Reconciliation failed for ${platformId}:`, error);
+    }
+
+    debugLog('Reconciliation report:', report);
+    return report;
+  }
+
+  async applyFix(
+    issue: ReconciliationIssue,
+    action: ReconciliationFixAction,
+    context: { organizationId: string; userId: string }
+  ): Promise<ReconciliationIssue> {
+    if (!issue.fixes.includes(action)) {
+      throw new Error(`Fix "${action}" is not available for this issue`);
+    }
+
+    const { organizationId, userId } = context;
+    const now = new Date().toISOString();
+    const remote = issue.platformUser;
+    let entityType = 'freelancer_platform';
+    let entityId = issue.freelancerPlatformId;
+
+    try {
+      switch (action) {
+        case 'relink': {
+          await this.updateGrant(issue.freelancerPlatformId!, {
+            platform_user_id: remote!.id,
+            status: 'active',
+            last_sync_at: now
+          });
+          break;
+        }
+        case 'unlink': {
+          await this.updateGrant(issue.freelancerPlatformId!, {
+            platform_user_id: null,
+            status: 'inactive',
+            last_sync_at: now,
+            deprovisioned_at: now,
+            sync_status: { state: 'missing_on_platform', detected_at: now }
+          });
+          break;
+        }
+        case 'reprovision': {
+          const job = await onboardingJobs.createJob({
+            organizationId,
+            freelancerId: issue.freelancerId!,
+            platformIds: [issue.platformId],
+            createdBy: userId
+          });
+          onboardingJobs.runJob(job.id).catch(error => {
+            console.error('Reprovisioning job failed:', error);
+          });
+          break;
+        }
+        case 'link': {
+          entityId = await this.linkAccount(issue.freelancerId!, issue.platformId, remote!, now);
+          break;
+        }
+        case 'import': {
+          const freelancer = await db.freelancers.create({
+            organization_id: organizationId,
+            email: remote!.email,
+            first_name: remote!.firstName || remote!.displayName || remote!.email.split('@')[0],
+            last_name: remote!.lastName || '',
+            username: remote!.username,
+            created_by: userId,
+            status: 'active',
+            metadata: { imported_from: issue.platformId }
+          });
+          entityId = await this.linkAccount(freelancer.id, issue.platformId, remote!, now);
+          break;
+        }
+        case 'deprovision': {
+          const platformModule = await loadPlatformModule(organizationId, issue.platformId);
+          const result = await platformModule.deleteUser(remote!.id);
+          if (!result.success) {
+            throw new Error(result.error || 'Failed to delete platform account');
+          }
+          if (issue.freelancerPlatformId) {
+            await this.updateGrant(issue.freelancerPlatformId, { deprovisioned_at: now, last_sync_at: now });
+          }
+          if (!entityId) {
+            entityType = 'platform';
+            entityId = (await getPlatformConfigRow(organizationId, issue.platformId))?.id;
+          }
+          break;
+        }
+        case 'push_profile': {
+          const freelancer = await db.freelancers.getById(issue.freelancerId!);
+          const platformModule = await loadPlatformModule(organizationId, issue.platformId);
+          const result = await platformModule.updateUser(remote!.id, {
+            email: freelancer.email,
+            firstName: freelancer.first_name,
+            lastName: freelancer.last_name
+          });
+          if (!result.success) {
+            throw new Error(result.error || 'Failed to update platform account');
+          }
+          await this.updateGrant(issue.freelancerPlatformId!, { last_sync_at: now });
+          break;
+        }
+      }
+
+      if (entityId) {
+        await db.auditLogs.create({
+          organization_id: organizationId,
+          user_id: userId,
+          action: `reconcile_${action}`,
+          entity_type: entityType,
+          entity_id: entityId,
+          changes: {
+            platform_id: issue.platformId,
+            issue_type: issue.type,
+            platform_user_id: remote?.id || null,
+            details: issue.details
+          }
+        });
+      }
+
+      return { ...issue, resolution: { action, success: true, at: now } };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Fix failed';
+      console.error(`Reconciliation fix ${action} failed:`, error);
+      return { ...issue, resolution: { action, success: false, error: message, at: now } };
+    }
+  }
+
+  // Disabled or suspended accounts no longer grant access, so they are not leftovers
+  private hasAccess(remote: PlatformUser): boolean {
+    return remote.status !== PlatformUserStatus.INACTIVE && remote.status !== PlatformUserStatus.SUSPENDED;
+  }
+
+  private async loadLocalState(organizationId: string, platformId: string) {
+    const { data: freelancers, error } = await supabase
+      .from('freelancers')
+      .select('*')
+      .eq('organization_id', organizationId);
+
+    if (error) throw error;
+
+    const freelancerIds = (freelancers || []).map((f: Freelancer) => f.id);
+    if (freelancerIds.length === 0) {
+      return { freelancers: [] as Freelancer[], grants: [] as FreelancerPlatform[] };
+    }
+
+    const { data: grants, error: grantsError } = await supabase
+      .from('freelancer_platforms')
+      .select('*')
+      .in('freelancer_id', freelancerIds);
+
+    if (grantsError) throw grantsError;
+
+    return {
+      freelancers: (freelancers || []) as Freelancer[],
+      grants: ((grants || []) as FreelancerPlatform[]).filter(grant => grant.platform_id === platformId)
+    };
+  }
+
+  private detectDrift(freelancer: Freelancer, remote: PlatformUser): ReconciliationDrift[] {
+    const drift: ReconciliationDrift[] = [];
+    if (remote.email && normalizeEmail(remote.email) !== normalizeEmail(freelancer.email)) {
+      drift.push({ field: 'email', local: freelancer.email, remote: remote.email });
+    }
+    if (remote.firstName && remote.firstName.trim() !== freelancer.first_name.trim()) {
+      drift.push({ field: 'firstName', local: freelancer.first_name, remote: remote.firstName });
+    }
+    if (remote.lastName && remote.lastName.trim() !== freelancer.last_name.trim()) {
+      drift.push({ field: 'lastName', local: freelancer.last_name, remote: remote.lastName });
+    }
+    return drift;
+  }
+
+  private async linkAccount(freelancerId: string, platformId: string, remote: PlatformUser, now: string): Promise<string> {
+    const { data: existing, error } = await supabase
+      .from('freelancer_platforms')
+      .select('*')
+      .eq('freelancer_id', freelancerId);
+
+    if (error) throw error;
+
+    const grant = (existing || []).find((fp: FreelancerPlatform) => fp.platform_id === platformId);
+    if (grant) {
+      await this.updateGrant(grant.id, {
+        platform_user_id: remote.id,
+        status: 'active',
+        last_sync_at: now
+      });
+      return grant.id;
+    }
+
+    const { data: created, error: createError } = await supabase
+      .from('freelancer_platforms')
+      .insert({
+        freelancer_id: freelancerId,
+        platform_id: platformId,
+        platform_user_id: remote.id,
+        status: 'active',
+        provisioned_at: now,
+        last_sync_at: now
+      })
+      .select()
+      .single();
+
+    if (createError) throw createError;
+    return created.id;
+  }
+
+  private async updateGrant(id: string, data: Partial<FreelancerPlatform>): Promise<void> {
+    const { error } = await supabase
+      .from('freelancer_platforms')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+export const reconciliation = ReconciliationService.getInstance();
@@ -0,0 +1,218 @@
+import { supabase } from './supabase';
+import type { FreelancerPlatform, Platform } from '../types/database.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Seat settings are stored in platforms.config next to the module's own fields
+export interface SeatSettings {
+  seatLimit?: number;
+  seatCost?: number; // Per seat per month
+}
+
+export interface SeatUsage extends SeatSettings {
+  platformId: string;
+  used: number;
+}
+
+export interface SeatWarning extends SeatUsage {
+  requested: number;
+}
+
+export interface CostRange {
+  from: Date;
+  to: Date;
+}
+
+export interface CostLine {
+  platformId: string;
+  freelancerId: string;
+  month: string; // YYYY-MM
+  seatDays: number;
+  cost: number;
+}
+
+export interface CostReport {
+  from: string;
+  to: string;
+  lines: CostLine[];
+  byPlatform: Record<string, number>;
+  byFreelancer: Record<string, number>;
+  byMonth: Record<string, number>;
+  total: number;
+  // Platforms with provisioned seats but no unit cost, left out of the totals
+  unpriced: string[];
+}
+
+type SeatGrant = Pick<FreelancerPlatform, 'freelancer_id' | 'platform_id' | 'status' | 'provisioned_at' | 'deprovisioned_at' | 'updated_at'>;
+
+const positiveNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+export function getSeatSettings(config: unknown): SeatSettings {
+  const values = (config || {}) as Record<string, unknown>;
+  return { seatLimit: positiveNumber(values.seatLimit), seatCost: positiveNumber(values.seatCost) };
+}
+
+// Pending grants count as well: vendors bill for a seat once the invite is sent
+export const holdsSeat = (grant: Pick<FreelancerPlatform, 'status'>) =>
+  grant.status === 'active' || grant.status === 'pending';
+
+// One line per platform, for confirmation prompts before seats are provisioned
+export const describeSeatWarnings = (warnings: SeatWarning[], platformName: (platformId: string) => string) =>
+  warnings
+    .map(warning => `${platformName(warning.platformId)}: ${warning.used} of ${warning.seatLimit} seats used, ${warning.requested} more requested`)
+    .join('\n');
+
+const monthKey = (date: Date) => `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+
+const addToTotal = (totals: Record<string, number>, key: string, amount: number) => {
+  totals[key] = Math.round(((totals[key] || 0) + amount) * 100) / 100;
+};
+
+/**
+ * Spend for the seats held within a range. A seat runs from `provisioned_at`
+ * to `deprovisioned_at` (or now while held) and is prorated by the share of
+ * each calendar month (UTC) it covers.
+ */
+export function calculateCosts(
+  grants: SeatGrant[],
+  seatCosts: Record<string, number | undefined>,
+  range: CostRange,
+  now: Date = new Date()
+): CostReport {
+  const report: CostReport = {
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    lines: [],
+    byPlatform: {},
+    byFreelancer: {},
+    byMonth: {},
+    total: 0,
+    unpriced: []
+  };
+
+  for (const grant of grants) {
+    if (!grant.provisioned_at) continue;
+
+    const unitCost = seatCosts[grant.platform_id];
+    if (unitCost === undefined) {
+      if (!report.unpriced.includes(grant.platform_id)) report.unpriced.push(grant.platform_id);
+      continue;
+    }
+
+    // Grants revoked before deprovision timestamps were recorded end at their last update
+    const endedAt = grant.deprovisioned_at || (holdsSeat(grant) || grant.status === 'error' ? null : grant.updated_at);
+    const start = Math.max(new Date(grant.provisioned_at).getTime(), range.from.getTime());
+    const end = Math.min(endedAt ? new Date(endedAt).getTime() : now.getTime(), range.to.getTime());
+
+    let cursor = start;
+    while (cursor < end) {
+      const date = new Date(cursor);
+      const monthStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+      const monthEnd = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+      const sliceEnd = Math.min(end, monthEnd);
+      const cost = Math.round(unitCost * (sliceEnd - cursor) / (monthEnd - monthStart) * 100) / 100;
+      const month = monthKey(date);
+
+      report.lines.push({
+        platformId: grant.platform_id,
+        freelancerId: grant.freelancer_id,
+        month,
+        seatDays: Math.round((sliceEnd - cursor) / DAY_MS * 10) / 10,
+        cost
+      });
+      addToTotal(report.byPlatform, grant.platform_id, cost);
+      addToTotal(report.byFreelancer, grant.freelancer_id, cost);
+      addToTotal(report.byMonth, month, cost);
+      report.total = Math.round((report.total + cost) * 100) / 100;
+      cursor = sliceEnd;
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Seat counts against the limits and unit costs set on each platform's
+ * config, plus the cost report built from provisioning history.
+ */
+export class SeatUsageService {
+  private static instance: SeatUsageService;
+
+  private constructor() {}
+
+  static getInstance(): SeatUsageService {
+    if (!SeatUsageService.instance) {
+      SeatUsageService.instance = new SeatUsageService();
+    }
+    return SeatUsageService.instance;
+  }
+
+  async getSeatUsage(organizationId: string): Promise<SeatUsage[]> {
+    const [platforms, grants] = await Promise.all([
+      this.loadPlatforms(organizationId),
+      this.loadGrants(organizationId)
+    ]);
+
+    return platforms.map(platform => ({
+      platformId: platform.platform_id,
+      used: grants.filter(grant => grant.platform_id === platform.platform_id && holdsSeat(grant)).length,
+      ...getSeatSettings(platform.config)
+    }));
+  }
+
+  // Platforms whose seat limit the requested new seats would exceed
+  async checkSeats(organizationId: string, platformIds: string[], newSeats = 1): Promise<SeatWarning[]> {
+    const usage = await this.getSeatUsage(organizationId);
+    return usage
+      .filter(seats => platformIds.includes(seats.platformId))
+      .filter(seats => seats.seatLimit !== undefined && seats.used + newSeats > seats.seatLimit)
+      .map(seats => ({ ...seats, requested: newSeats }));
+  }
+
+  async getCostReport(organizationId: string, range: CostRange): Promise<CostReport> {
+    const [platforms, grants] = await Promise.all([
+      this.loadPlatforms(organizationId),
+      this.loadGrants(organizationId)
+    ]);
+
+    const seatCosts = Object.fromEntries(
+      platforms.map(platform => [platform.platform_id, getSeatSettings(platform.config).seatCost])
+    );
+    return calculateCosts(grants, seatCosts, range);
+  }
+
+  private async loadPlatforms(organizationId: string): Promise<Platform[]> {
+    const { data, error } = await supabase
+      .from('platforms')
+      .select('*')
+      .eq('organization_id', organizationId);
+
+    if (error) throw error;
+    return (data || []) as Platform[];
+  }
+
+  private async loadGrants(organizationId: string): Promise<FreelancerPlatform[]> {
+    const { data: freelancers, error } = await supabase
+      .from('freelancers')
+      .select('id')
+      .eq('organization_id', organizationId);
+
+    if (error) throw error;
+
+    const freelancerIds = ((freelancers || []) as Array<{ id: string }>).map(f => f.id);
+    if (freelancerIds.length === 0) return [];
+
+    const { data: grants, error: grantsError } = await supabase
+      .from('freelancer_platforms')
+      .select('*')
+      .in('freelancer_id', freelancerIds);
+
+    if (grantsError) throw grantsError;
+    return (grants || []) as FreelancerPlatform[];
+  }
+}
+
+export const seatUsage = SeatUsageService.getInstance();
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_LIST_QUERY, parseListQuery } from '../FreelancerSearchService';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+const USER_ID = '6f1c2a9e-3b4d-4e5f-8a7b-9c0d1e2f3a4b';
+
+describe('parseListQuery', () => {
+  it('keeps filters the search can use', () => {
+    const query = parseListQuery(new URLSearchParams({
+      status: 'active',
+      grant: 'error',
+      createdBy: USER_ID,
+      manager: 'none',
+      from: '2026-01-01',
+      to: '2026-02-28'
+    }));
+
+    expect(query).toMatchObject({
+      status: 'active',
+      grantStatus: 'error',
+      createdBy: USER_ID,
+      manager: 'none',
+      createdFrom: '2026-01-01',
+      createdTo: '2026-02-28'
+    });
+  });
+
+  it('treats values from an edited or stale link as any', () => {
+    const query = parseListQuery(new URLSearchParams({
+      status: 'archived',
+      grant: 'ACTIVE',
+      createdBy: 'me',
+      manager: `${USER_ID}'`,
+      from: 'x',
+      to: '2026-02-31'
+    }));
+
+    expect(query).toEqual(DEFAULT_LIST_QUERY);
+  });
+});
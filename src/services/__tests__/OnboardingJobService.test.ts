@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mockSupabase } from '../../mock/supabase';
+import { onboardingJobs } from '../OnboardingJobService';
+import type { IPlatformModule } from '../../types/platform.types';
+
+// Jobs run against the mock backend the app uses in development
+const platform = vi.hoisted(() => {
+  vi.stubEnv('VITE_ENABLE_MOCK_DELAYS', 'false');
+  return { createUser: vi.fn() };
+});
+
+vi.mock('../supabase', async () => ({
+  supabase: (await import('../../mock/supabase')).mockSupabase
+}));
+
+vi.mock('../platformLoader', () => ({
+  loadPlatformModule: vi.fn(async () => ({
+    metadata: { id: 'monday', displayName: 'Monday.com' },
+    createUser: platform.createUser
+  }) as unknown as IPlatformModule)
+}));
+
+async function createFreelancer(): Promise<string> {
+  const { data } = await mockSupabase
+    .from('freelancers')
+    .insert({
+      organization_id: 'org-1',
+      email: 'sam@example.com',
+      first_name: 'Sam',
+      last_name: 'Cutter',
+      status: 'pending',
+      created_by: 'user-1'
+    })
+    .select()
+    .single();
+  return data.id;
+}
+
+describe('OnboardingJobService against the mock backend', () => {
+  beforeEach(() => {
+    platform.createUser.mockReset();
+    platform.createUser.mockResolvedValue({ success: true, data: { id: 'monday-500', status: 'active' } });
+  });
+
+  it('runs a job to completion and provisions the platform', async () => {
+    const freelancerId = await createFreelancer();
+    const created = await onboardingJobs.createJob({
+      organizationId: 'org-1',
+      freelancerId,
+      platformIds: ['monday'],
+      createdBy: 'user-1'
+    });
+
+    const job = await onboardingJobs.runJob(created.id);
+
+    expect(job.status).toBe('completed');
+    expect(job.steps).toEqual([expect.objectContaining({ platform_id: 'monday', status: 'completed' })]);
+    expect(platform.createUser).toHaveBeenCalledWith(expect.objectContaining({ email: 'sam@example.com' }));
+
+    const { data: grants } = await mockSupabase.from('freelancer_platforms').select('*').eq('freelancer_id', freelancerId);
+    expect(grants).toEqual([expect.objectContaining({ status: 'active', platform_user_id: 'monday-500' })]);
+    expect(await onboardingJobs.getLatestJobId(freelancerId)).toBe(created.id);
+  });
+
+  it('stops when another runner takes over the lease during a slow step', async () => {
+    const freelancerId = await createFreelancer();
+    const created = await onboardingJobs.createJob({
+      organizationId: 'org-1',
+      freelancerId,
+      platformIds: ['monday', 'parsec'],
+      createdBy: 'user-1'
+    });
+    const takenOverLease = new Date(Date.now() + 10 * 60 * 1000).toISOString();
+    platform.createUser.mockImplementationOnce(async () => {
+      // The step outlasted the lease and another tab claimed the job meanwhile
+      await mockSupabase
+        .from('onboarding_jobs')
+        .update({ lease_expires_at: takenOverLease })
+        .eq('id', created.id);
+      return { success: true, data: { id: 'monday-500', status: 'active' } };
+    });
+
+    const job = await onboardingJobs.runJob(created.id);
+
+    expect(platform.createUser).toHaveBeenCalledTimes(1);
+    expect(job.status).toBe('running');
+    expect(job.lease_expires_at).toBe(takenOverLease);
+    expect(job.steps.find(step => step.platform_id === 'parsec')?.status).toBe('pending');
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { runExpirySweep, type RevokeExpiredGrant } from '../accessExpirySweep';
+
+// In-memory stand-in for the few PostgREST calls the sweep makes. Updates
+// apply their filters against the current rows, like a conditional UPDATE.
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+
+let tables: Record<string, Row[]>;
+
+function query(table: string) {
+  const filters: Filter[] = [];
+  let operation: { kind: 'select' } | { kind: 'update'; values: Row } | { kind: 'insert'; row: Row } = { kind: 'select' };
+
+  const run = async () => {
+    const rows = tables[table] ||= [];
+    if (operation.kind === 'insert') {
+      rows.push({ id: `${table}-${rows.length + 1}`, ...operation.row });
+      return { data: null, error: null };
+    }
+    const matched = rows.filter(row => filters.every(filter => filter(row)));
+    if (operation.kind === 'update') {
+      const { values } = operation;
+      matched.forEach(row => Object.assign(row, values));
+    }
+    return { data: matched.map(row => ({ ...row })), error: null };
+  };
+
+  const builder = {
+    select: () => builder,
+    update: (values: Row) => {
+      operation = { kind: 'update', values };
+      return builder;
+    },
+    insert: (row: Row) => {
+      operation = { kind: 'insert', row };
+      return builder;
+    },
+    eq: (column: string, value: unknown) => {
+      filters.push(row => row[column] === value);
+      return builder;
+    },
+    neq: (column: string, value: unknown) => {
+      filters.push(row => row[column] !== value);
+      return builder;
+    },
+    in: (column: string, values: unknown[]) => {
+      filters.push(row => values.includes(row[column]));
+      return builder;
+    },
+    is: (column: string, value: null) => {
+      filters.push(row => (row[column] ?? null) === value);
+      return builder;
+    },
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => run().then(resolve, reject)
+  };
+  return builder;
+}
+
+const client = { from: (table: string) => query(table) } as unknown as SupabaseClient;
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+const organization = { id: 'org-1', settings: {} };
+
+const grant = (overrides: Row = {}): Row => ({
+  id: 'grant-1',
+  freelancer_id: 'freelancer-1',
+  platform_id: 'monday',
+  platform_user_id: '500',
+  status: 'active',
+  updated_at: '2026-03-01T00:00:00Z',
+  expires_at: '2026-03-09T00:00:00Z',
+  ...overrides
+});
+
+describe('runExpirySweep', () => {
+  beforeEach(() => {
+    tables = {
+      freelancers: [{
+        id: 'freelancer-1',
+        organization_id: 'org-1',
+        email: 'jo@example.com',
+        first_name: 'Jo',
+        last_name: 'Editor',
+        status: 'active',
+        created_by: 'user-1'
+      }],
+      freelancer_platforms: [],
+      users: [
+        { id: 'user-1', organization_id: 'org-1', email: 'admin@example.com', role: 'admin', is_active: true },
+        { id: 'user-2', organization_id: 'org-1', email: 'owner@example.com', role: 'owner', is_active: true }
+      ],
+      notifications: [],
+      audit_logs: []
+    };
+  });
+
+  it('revokes an expired grant once when two runs overlap', async () => {
+    tables.freelancer_platforms.push(grant());
+    const revoke = vi.fn<RevokeExpiredGrant>(async () => 'deleted');
+
+    const [first, second] = await Promise.all([
+      runExpirySweep(client, organization, revoke, NOW),
+      runExpirySweep(client, organization, revoke, NOW)
+    ]);
+
+    expect(revoke).toHaveBeenCalledTimes(1);
+    expect([...first.expiredGrants, ...second.expiredGrants]).toEqual([
+      expect.objectContaining({ freelancerPlatformId: 'grant-1', success: true })
+    ]);
+    expect(tables.freelancer_platforms[0]).toMatchObject({
+      status: 'inactive',
+      sync_status: { state: 'expired', action: 'deleted' }
+    });
+    expect(tables.audit_logs).toHaveLength(1);
+  });
+
+  it('keeps a grant whose revoke failed for a later run', async () => {
+    tables.freelancer_platforms.push(grant());
+
+    const result = await runExpirySweep(client, organization, async () => {
+      throw new Error('Cannot deactivate the account owner');
+    }, NOW);
+
+    expect(result.expiredGrants).toEqual([
+      expect.objectContaining({ success: false, error: 'Cannot deactivate the account owner' })
+    ]);
+    expect(tables.freelancer_platforms[0]).toMatchObject({
+      status: 'error',
+      sync_status: { state: 'revoke_failed', last_error: 'Cannot deactivate the account owner' }
+    });
+  });
+
+  it('leaves a grant alone while another run holds a recent claim', async () => {
+    tables.freelancer_platforms.push(grant({
+      sync_status: { state: 'expiring', claimed_at: new Date(NOW.getTime() - 60 * 1000).toISOString() }
+    }));
+    const revoke = vi.fn<RevokeExpiredGrant>(async () => 'deleted');
+
+    await runExpirySweep(client, organization, revoke, NOW);
+
+    expect(revoke).not.toHaveBeenCalled();
+    expect(tables.freelancer_platforms[0].status).toBe('active');
+  });
+
+  it('queues each reminder once when two runs overlap', async () => {
+    tables.freelancer_platforms.push(grant({ expires_at: '2026-03-12T00:00:00Z' }));
+    const revoke = vi.fn<RevokeExpiredGrant>(async () => 'deleted');
+
+    const results = await Promise.all([
+      runExpirySweep(client, organization, revoke, NOW),
+      runExpirySweep(client, organization, revoke, NOW)
+    ]);
+
+    // The freelancer, whoever added them and the owner
+    expect(results[0].remindersQueued + results[1].remindersQueued).toBe(3);
+    expect(tables.notifications.map(notification => notification.recipient_email).sort())
+      .toEqual(['admin@example.com', 'jo@example.com', 'owner@example.com']);
+    expect(tables.notifications.every(notification => notification.status === 'pending')).toBe(true);
+    expect(tables.freelancer_platforms[0].expiry_reminder_sent_at).toBe(NOW.toISOString());
+    expect(revoke).not.toHaveBeenCalled();
+  });
+
+  it('states expiry times in the freelancer\'s time zone', async () => {
+    tables.freelancers[0].timezone = 'America/Los_Angeles';
+    tables.freelancer_platforms.push(grant({ expires_at: '2026-03-12T00:00:00Z' }));
+
+    await runExpirySweep(client, organization, vi.fn<RevokeExpiredGrant>(), NOW);
+
+    expect(tables.notifications[0].body).toContain('- monday: March 11, 2026 at 5:00 PM America/Los_Angeles');
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handler } from '../../../netlify/functions/platform-gateway';
+import { applyConfigOverride, executePlatformRequest, gatewayOperationAccess, type VendorConfig } from '../platformVendors';
+import { STORED_SECRET_PLACEHOLDER } from '../credentialRefs';
+
+// Caller and vault stand-ins; the gateway reads the stored row through caller.supabase
+const gateway = vi.hoisted(() => ({
+  role: 'admin',
+  stored: null as null | { id: string; config: Record<string, unknown>; is_enabled: boolean },
+  revealConfig: vi.fn()
+}));
+
+vi.mock('../../../netlify/functions/_shared/caller', async importOriginal => {
+  const actual = await importOriginal<typeof import('../../../netlify/functions/_shared/caller')>();
+  const query = {
+    select: () => query,
+    eq: () => query,
+    maybeSingle: async () => ({ data: gateway.stored, error: null })
+  };
+  return {
+    ...actual,
+    resolveCaller: vi.fn(async () => ({
+      supabase: { from: () => query },
+      userId: 'user-1',
+      organizationId: 'org-1',
+      role: gateway.role
+    })),
+    openVault: vi.fn(() => ({ revealConfig: gateway.revealConfig, saveSecrets: vi.fn() }))
+  };
+});
+
+const SECRET_REF = { $secret: true, setAt: '2024-01-01T00:00:00Z', rotatedAt: '2024-01-01T00:00:00Z' };
+
+// A config as platforms.config stores it, with secret references in place of secrets
+const storedConfig = (config: Record<string, unknown>) => config as VendorConfig;
+
+const vendorFetch = vi.fn();
+
+const call = (config?: Record<string, unknown>, payload: Record<string, unknown> = { method: 'GET', path: '/teams/team-1' }) =>
+  handler({
+    httpMethod: 'POST',
+    headers: { authorization: 'Bearer session' },
+    body: JSON.stringify({
+      platformId: 'parsec',
+      action: 'request',
+      payload,
+      config
+    })
+  });
+
+const requested = () => vendorFetch.mock.calls.map(([url, init]) => ({
+  url: String(url),
+  authorization: (init as RequestInit).headers && ((init as RequestInit).headers as Record<string, string>)['Authorization']
+}));
+
+describe('platform gateway', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    gateway.role = 'admin';
+    gateway.stored = {
+      id: 'platform-row-1',
+      config: { teamId: 'team-1', baseUrl: 'https://api.parsec.app/v1', apiKey: SECRET_REF },
+      is_enabled: true
+    };
+    gateway.revealConfig.mockImplementation(async (_org: string, _platform: string, config: Record<string, unknown>) => ({
+      ...config,
+      apiKey: 'vault-key'
+    }));
+    vendorFetch.mockResolvedValue(new Response(JSON.stringify({ data: { id: 'team-1' } }), { status: 200 }));
+    vi.stubGlobal('fetch', vendorFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends stored credentials to the stored host', async () => {
+    const result = await call({ teamId: 'team-1', apiKey: STORED_SECRET_PLACEHOLDER });
+
+    expect(result.statusCode).toBe(200);
+    expect(requested()).toEqual([{ url: 'https://api.parsec.app/v1/teams/team-1', authorization: 'Bearer vault-key' }]);
+  });
+
+  it('refuses to send stored credentials to an overridden host', async () => {
+    const result = await call({ baseUrl: 'https://collector.example.com', apiKey: STORED_SECRET_PLACEHOLDER });
+
+    expect(result.statusCode).toBe(400);
+    expect(JSON.parse(result.body).error).toContain('apiKey');
+    expect(gateway.revealConfig).not.toHaveBeenCalled();
+    expect(vendorFetch).not.toHaveBeenCalled();
+  });
+
+  it('tests a new host with the credentials typed in, leaving the vault closed', async () => {
+    const result = await call({ baseUrl: 'https://parsec.example.com/v1', apiKey: 'typed-key' });
+
+    expect(result.statusCode).toBe(200);
+    expect(gateway.revealConfig).not.toHaveBeenCalled();
+    expect(requested()).toEqual([{ url: 'https://parsec.example.com/v1/teams/team-1', authorization: 'Bearer typed-key' }]);
+  });
+
+  it('does not let an override reach private addresses', async () => {
+    for (const baseUrl of ['http://parsec.example.com', 'https://169.254.169.254/latest', 'https://localhost:8080', 'https://10.0.0.5']) {
+      const result = await call({ baseUrl, apiKey: 'typed-key' });
+      expect(result.statusCode).toBe(400);
+    }
+    expect(vendorFetch).not.toHaveBeenCalled();
+  });
+
+  it('ignores overrides from members', async () => {
+    gateway.role = 'member';
+
+    const result = await call({ baseUrl: 'https://collector.example.com', apiKey: 'typed-key' });
+
+    expect(result.statusCode).toBe(200);
+    expect(requested()).toEqual([{ url: 'https://api.parsec.app/v1/teams/team-1', authorization: 'Bearer vault-key' }]);
+  });
+
+  it('only forwards the operations on the vendor allowlist', async () => {
+    gateway.role = 'member';
+
+    for (const payload of [
+      { method: 'GET', path: '/teams/other-team/members' },
+      { method: 'POST', path: '/teams/team-1/members' },
+      { method: 'DELETE', path: '/teams/team-1' },
+      { method: 'GET', path: '/billing' }
+    ]) {
+      const result = await call(undefined, payload);
+      expect(result.statusCode).toBe(403);
+    }
+    expect(gateway.revealConfig).not.toHaveBeenCalled();
+    expect(vendorFetch).not.toHaveBeenCalled();
+
+    const invited = await call(undefined, { method: 'POST', path: '/teams/team-1/invites', body: { email: 'sam@example.com' } });
+    expect(invited.statusCode).toBe(200);
+  });
+});
+
+describe('platform transport', () => {
+  it('keeps stored secrets when an override leaves the host alone', () => {
+    const stored = storedConfig({ baseUrl: 'https://api.parsec.app/v1', apiKey: SECRET_REF });
+
+    expect(applyConfigOverride('parsec', stored, { baseUrl: 'https://api.parsec.app/v2', apiKey: STORED_SECRET_PLACEHOLDER }))
+      .toEqual({ override: { baseUrl: 'https://api.parsec.app/v2' }, usesStoredSecrets: true });
+    expect(applyConfigOverride('parsec', stored, { baseUrl: 'https://parsec.example.com', apiKey: 'typed-key' }))
+      .toEqual({ override: { baseUrl: 'https://parsec.example.com', apiKey: 'typed-key' }, usesStoredSecrets: false });
+  });
+
+  it('treats a first TrueNAS API URL as a new host', () => {
+    expect(applyConfigOverride('truenas', {}, { apiUrl: 'https://nas.example.com/api/v2.0', apiKey: 'typed-key' }))
+      .toMatchObject({ usesStoredSecrets: false });
+    expect(applyConfigOverride('truenas', storedConfig({ apiKey: SECRET_REF }), { apiUrl: 'https://nas.example.com/api/v2.0', apiKey: STORED_SECRET_PLACEHOLDER }))
+      .toHaveProperty('error');
+  });
+
+  it('keeps request paths under the base URL', async () => {
+    const fetchImpl = vi.fn();
+    const config = { baseUrl: 'https://api.parsec.app/v1', apiKey: 'key' };
+
+    for (const path of ['/../admin', '/%2e%2e/admin', 'https://collector.example.com/x']) {
+      const result = await executePlatformRequest('parsec', 'request', { method: 'GET', path }, config, { fetch: fetchImpl });
+      expect(result.success).toBe(false);
+      expect(result.details?.status).toBe(400);
+    }
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+
+  it('keeps management calls for admins', () => {
+    const config = { apiUrl: 'https://nas.example.com/api/v2.0', apiKey: 'key' };
+
+    expect(gatewayOperationAccess('truenas', 'request', { method: 'POST', path: '/user' }, config)).toBe('member');
+    expect(gatewayOperationAccess('truenas', 'request', { method: 'DELETE', path: '/user/id/1001' }, config)).toBe('member');
+    expect(gatewayOperationAccess('truenas', 'request', { method: 'DELETE', path: '/group/id/1001' }, config)).toBe('admin');
+    expect(gatewayOperationAccess('truenas', 'request', { method: 'POST', path: '/system/reboot' }, config)).toBeNull();
+    expect(gatewayOperationAccess('truenas', 'request', { method: 'GET', path: '/user/id/1/../../system' }, config)).toBeNull();
+  });
+
+  it('checks every root field of a GraphQL document', () => {
+    const access = (query: string) => gatewayOperationAccess('monday', 'graphql', { query }, {});
+
+    expect(access('query ($ids: [ID!]) { users (ids: $ids) { id teams { id } } }')).toBe('member');
+    expect(access('mutation ($emails: [String!]!) { invite_users (emails: $emails) { invited_users { id } } }')).toBe('member');
+    expect(access('mutation ($name: String!) { create_team (input: { name: $name }) { id } }')).toBe('admin');
+    expect(access('mutation { delete_board (board_id: 1) { id } }')).toBeNull();
+    expect(access('mutation { invited: invite_users (emails: []) { errors { message } } gone: delete_board (board_id: 1) { id } }')).toBeNull();
+    expect(access('mutation { activate_users (user_ids: ["1"]) { errors { message } } } mutation { delete_board (board_id: 1) { id } }')).toBeNull();
+    expect(access('query { ...Everything } fragment Everything on Query { account { id } }')).toBeNull();
+    expect(access('query { me { id } # }\n account { id } }')).toBeNull();
+    expect(access('subscription { users { id } }')).toBeNull();
+  });
+});
@@ -0,0 +1,371 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Freelancer, FreelancerPlatform, Organization, User } from '../types/database.types';
+
+export const DEFAULT_EXPIRY_REMINDER_DAYS = 7;
+
+// How long a sweep may take to revoke a grant before another run may retry it
+export const EXPIRY_CLAIM_MS = 10 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExpiredGrant {
+  freelancerId: string;
+  freelancerPlatformId: string;
+  platformId: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface ExpirySweepResult {
+  organizationId: string;
+  expiredGrants: ExpiredGrant[];
+  expiredFreelancers: string[];
+  remindersQueued: number;
+  ranAt: string;
+}
+
+/**
+ * Removes a grant's account on its platform. Resolves with what was done and
+ * throws when the platform refuses, so the grant is kept for a retry.
+ */
+export type RevokeExpiredGrant = (grant: FreelancerPlatform, freelancer: Freelancer) => Promise<'deleted' | 'revoked'>;
+
+type ExpiringRecord = { expires_at?: string | null; status?: string };
+
+/**
+ * Effective expiry of a grant: the earlier of its own end date and the
+ * freelancer's, so a freelancer-wide end date caps every platform.
+ */
+export function getGrantExpiry(freelancer: ExpiringRecord, grant: ExpiringRecord): string | null {
+  const dates = [freelancer.expires_at, grant.expires_at].filter((d): d is string => !!d);
+  if (dates.length === 0) return null;
+  return dates.reduce((earliest, d) => (new Date(d) < new Date(earliest) ? d : earliest));
+}
+
+// Earliest upcoming expiry across a freelancer and their live grants
+export function getAccessExpiry(freelancer: ExpiringRecord, grants: ExpiringRecord[]): string | null {
+  const dates = [
+    freelancer.expires_at,
+    ...grants.filter(grant => grant.status !== 'inactive').map(grant => grant.expires_at)
+  ].filter((d): d is string => !!d);
+  if (dates.length === 0) return null;
+  return dates.reduce((earliest, d) => (new Date(d) < new Date(earliest) ? d : earliest));
+}
+
+/**
+ * Reminders go to the freelancer and to staff in other places, so expiry times
+ * are spelled out in the freelancer's time zone (UTC when unset or unknown)
+ * with the zone named, rather than in whatever locale the server runs in.
+ */
+function formatExpiry(date: string, timeZone?: string | null): string {
+  const options: Intl.DateTimeFormatOptions = { dateStyle: 'long', timeStyle: 'short' };
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat('en-US', { ...options, timeZone: timeZone || 'UTC' });
+  } catch {
+    formatter = new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' });
+  }
+  return `${formatter.format(new Date(date))} ${formatter.resolvedOptions().timeZone}`;
+}
+
+export function getReminderDays(organization: Pick<Organization, 'settings'> | null | undefined): number {
+  const settings = (organization?.settings || {}) as Record<string, unknown>;
+  const expiry = (settings.access_expiry || {}) as Record<string, unknown>;
+  const days = Number(expiry.reminder_days);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_EXPIRY_REMINDER_DAYS;
+}
+
+/**
+ * Deprovisions an organization's grants whose end date has passed and queues
+ * reminders for grants about to expire. Runs from the scheduled access-expiry
+ * function with a service-role client. Each grant and reminder is claimed with
+ * a conditional update first, so overlapping runs never act on the same row.
+ * Freelancers have no user row, so changes are audited against whoever added
+ * them.
+ */
+export async function runExpirySweep(
+  client: SupabaseClient,
+  organization: Pick<Organization, 'id' | 'settings'>,
+  revoke: RevokeExpiredGrant,
+  now: Date = new Date()
+): Promise<ExpirySweepResult> {
+  const reminderCutoff = new Date(now.getTime() + getReminderDays(organization) * DAY_MS);
+
+  const { data: freelancersData, error } = await client
+    .from('freelancers')
+    .select('*')
+    .eq('organization_id', organization.id);
+
+  if (error) throw error;
+
+  const freelancers = (freelancersData || []) as Freelancer[];
+  const grantsByFreelancer = await loadLiveGrants(client, freelancers.map(f => f.id));
+
+  const result: ExpirySweepResult = {
+    organizationId: organization.id,
+    expiredGrants: [],
+    expiredFreelancers: [],
+    remindersQueued: 0,
+    ranAt: now.toISOString()
+  };
+
+  for (const freelancer of freelancers) {
+    const upcoming: FreelancerPlatform[] = [];
+
+    for (const grant of grantsByFreelancer.get(freelancer.id) || []) {
+      const expiresAt = getGrantExpiry(freelancer, grant);
+      if (!expiresAt) continue;
+
+      if (new Date(expiresAt) <= now) {
+        const expired = await expireGrant(client, organization.id, freelancer, grant, revoke, now);
+        if (expired) result.expiredGrants.push(expired);
+      } else if (new Date(expiresAt) <= reminderCutoff && !grant.expiry_reminder_sent_at) {
+        upcoming.push(grant);
+      }
+    }
+
+    if (freelancer.expires_at && new Date(freelancer.expires_at) <= now && freelancer.status !== 'inactive') {
+      if (await expireFreelancer(client, organization.id, freelancer, now)) {
+        result.expiredFreelancers.push(freelancer.id);
+      }
+      continue;
+    }
+
+    const freelancerExpiring = !!freelancer.expires_at &&
+      new Date(freelancer.expires_at) > now &&
+      new Date(freelancer.expires_at) <= reminderCutoff &&
+      !freelancer.expiry_reminder_sent_at &&
+      freelancer.status !== 'inactive';
+
+    if (upcoming.length > 0 || freelancerExpiring) {
+      result.remindersQueued += await queueReminders(client, organization.id, freelancer, upcoming, freelancerExpiring, now);
+    }
+  }
+
+  return result;
+}
+
+async function loadLiveGrants(client: SupabaseClient, freelancerIds: string[]): Promise<Map<string, FreelancerPlatform[]>> {
+  const grantsByFreelancer = new Map<string, FreelancerPlatform[]>();
+  if (freelancerIds.length === 0) return grantsByFreelancer;
+
+  const { data, error } = await client
+    .from('freelancer_platforms')
+    .select('*')
+    .in('freelancer_id', freelancerIds)
+    .neq('status', 'inactive');
+
+  if (error) throw error;
+
+  for (const grant of (data || []) as FreelancerPlatform[]) {
+    const list = grantsByFreelancer.get(grant.freelancer_id) || [];
+    list.push(grant);
+    grantsByFreelancer.set(grant.freelancer_id, list);
+  }
+  return grantsByFreelancer;
+}
+
+/**
+ * Mark a grant as being expired by this run. The update only matches while
+ * the row is unchanged since it was read, so of two runs racing for a grant
+ * exactly one wins; a claim younger than EXPIRY_CLAIM_MS is left alone.
+ */
+async function claimGrant(client: SupabaseClient, grant: FreelancerPlatform, now: Date): Promise<boolean> {
+  const syncStatus = (grant.sync_status || {}) as { state?: string; claimed_at?: string };
+  if (syncStatus.state === 'expiring' && syncStatus.claimed_at &&
+      now.getTime() - new Date(syncStatus.claimed_at).getTime() < EXPIRY_CLAIM_MS) {
+    return false;
+  }
+
+  const { data, error } = await client
+    .from('freelancer_platforms')
+    .update({
+      sync_status: { ...syncStatus, state: 'expiring', claimed_at: now.toISOString() },
+      updated_at: now.toISOString()
+    })
+    .eq('id', grant.id)
+    .eq('updated_at', grant.updated_at)
+    .neq('status', 'inactive')
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+async function expireGrant(
+  client: SupabaseClient,
+  organizationId: string,
+  freelancer: Freelancer,
+  grant: FreelancerPlatform,
+  revoke: RevokeExpiredGrant,
+  now: Date
+): Promise<ExpiredGrant | null> {
+  if (!(await claimGrant(client, grant, now))) return null;
+
+  let outcome: { action: 'deleted' | 'revoked' | 'failed'; error?: string };
+  try {
+    outcome = { action: await revoke(grant, freelancer) };
+  } catch (error) {
+    outcome = { action: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  const completedAt = new Date().toISOString();
+  const { error } = await client
+    .from('freelancer_platforms')
+    .update(outcome.action === 'failed'
+      ? {
+          status: 'error',
+          sync_status: { state: 'revoke_failed', last_error: outcome.error, attempted_at: completedAt },
+          updated_at: completedAt
+        }
+      : {
+          status: 'inactive',
+          deprovisioned_at: completedAt,
+          sync_status: { state: 'expired', action: outcome.action, revoked_at: completedAt },
+          updated_at: completedAt
+        })
+    .eq('id', grant.id);
+
+  if (error) throw error;
+
+  await audit(client, {
+    organization_id: organizationId,
+    user_id: freelancer.created_by,
+    action: 'access_expired',
+    entity_type: 'freelancer_platform',
+    entity_id: grant.id,
+    changes: {
+      freelancer_id: freelancer.id,
+      platform_id: grant.platform_id,
+      platform_user_id: grant.platform_user_id || null,
+      expires_at: getGrantExpiry(freelancer, grant),
+      result: outcome.action,
+      error: outcome.error || null
+    }
+  });
+
+  return {
+    freelancerId: freelancer.id,
+    freelancerPlatformId: grant.id,
+    platformId: grant.platform_id,
+    success: outcome.action !== 'failed',
+    error: outcome.error
+  };
+}
+
+async function expireFreelancer(
+  client: SupabaseClient,
+  organizationId: string,
+  freelancer: Freelancer,
+  now: Date
+): Promise<boolean> {
+  const { data, error } = await client
+    .from('freelancers')
+    .update({ status: 'inactive', updated_at: now.toISOString() })
+    .eq('id', freelancer.id)
+    .neq('status', 'inactive')
+    .select('id');
+
+  if (error) throw error;
+  if ((data || []).length === 0) return false;
+
+  await audit(client, {
+    organization_id: organizationId,
+    user_id: freelancer.created_by,
+    action: 'access_expired',
+    entity_type: 'freelancer',
+    entity_id: freelancer.id,
+    changes: { expires_at: freelancer.expires_at || null, status: { from: freelancer.status, to: 'inactive' } }
+  });
+  return true;
+}
+
+// Queue one reminder each for the freelancer, whoever added them, and the org owners
+async function queueReminders(
+  client: SupabaseClient,
+  organizationId: string,
+  freelancer: Freelancer,
+  upcoming: FreelancerPlatform[],
+  freelancerExpiring: boolean,
+  now: Date
+): Promise<number> {
+  const sentAt = now.toISOString();
+
+  // Claim the reminders first so a concurrent run does not queue them again
+  const claimed: FreelancerPlatform[] = [];
+  for (const grant of upcoming) {
+    const { data, error } = await client
+      .from('freelancer_platforms')
+      .update({ expiry_reminder_sent_at: sentAt })
+      .eq('id', grant.id)
+      .is('expiry_reminder_sent_at', null)
+      .select('id');
+    if (error) throw error;
+    if ((data || []).length > 0) claimed.push(grant);
+  }
+
+  let remindFreelancer = false;
+  if (freelancerExpiring) {
+    const { data, error } = await client
+      .from('freelancers')
+      .update({ expiry_reminder_sent_at: sentAt })
+      .eq('id', freelancer.id)
+      .is('expiry_reminder_sent_at', null)
+      .select('id');
+    if (error) throw error;
+    remindFreelancer = (data || []).length > 0;
+  }
+
+  if (claimed.length === 0 && !remindFreelancer) return 0;
+
+  const { data: usersData, error: usersError } = await client
+    .from('users')
+    .select('*')
+    .eq('organization_id', organizationId);
+
+  if (usersError) throw usersError;
+
+  const recipients = new Map<string, string | null>([[freelancer.email, null]]);
+  for (const user of (usersData || []) as User[]) {
+    if (!user.is_active) continue;
+    if (user.role === 'owner' || user.id === freelancer.created_by) {
+      recipients.set(user.email, user.id);
+    }
+  }
+
+  const name = `${freelancer.first_name} ${freelancer.last_name}`.trim();
+  const lines = claimed.map(grant =>
+    `- ${grant.platform_id}: ${formatExpiry(getGrantExpiry(freelancer, grant)!, freelancer.timezone)}`
+  );
+  if (remindFreelancer && freelancer.expires_at) {
+    lines.unshift(`- All platforms: ${formatExpiry(freelancer.expires_at, freelancer.timezone)}`);
+  }
+
+  let queued = 0;
+  for (const [email, userId] of recipients) {
+    const { error } = await client.from('notifications').insert({
+      organization_id: organizationId,
+      type: 'access_expiry_reminder',
+      recipient_email: email,
+      recipient_user_id: userId,
+      subject: userId ? `Platform access for ${name} is expiring soon` : 'Your platform access is expiring soon',
+      body: `Platform access for ${name} will end on the following dates:\n${lines.join('\n')}\n\nContact an administrator if the engagement is being extended.`,
+      entity_type: 'freelancer',
+      entity_id: freelancer.id,
+      status: 'pending'
+    });
+    if (error) {
+      console.error(`Failed to queue expiry reminder for ${email}: ${error.message}`);
+      continue;
+    }
+    queued++;
+  }
+
+  return queued;
+}
+
+async function audit(client: SupabaseClient, entry: Record<string, unknown>): Promise<void> {
+  // Audit logs should not break the sweep
+  const { error } = await client.from('audit_logs').insert(entry);
+  if (error) console.error(`Failed to create audit log: ${error.message}`);
+}
@@ -0,0 +1,84 @@
+import type { PlatformMetadata } from '../types/platform.types';
+
+// Secret config fields never leave the server in plain text. platforms.config
+// keeps a reference per field instead, which is enough for the UI to show
+// that a value is set and when it was last rotated.
+
+export interface SecretRef {
+  $secret: true;
+  setAt: string;
+  rotatedAt: string;
+}
+
+// Stands in for a stored secret when a module is initialized in the browser.
+// The gateway drops it from config overrides and uses the vault value.
+export const STORED_SECRET_PLACEHOLDER = '__stored_secret__';
+
+const SECRET_FIELD_PATTERN = /(key|token|secret|password)$/i;
+
+export const isSecretRef = (value: unknown): value is SecretRef =>
+  !!value && typeof value === 'object' && (value as { $secret?: unknown }).$secret === true;
+
+interface FieldSchemaLike {
+  meta?: () => Record<string, unknown> | undefined;
+  unwrap?: () => FieldSchemaLike;
+}
+
+interface SchemaLike {
+  shape?: Record<string, FieldSchemaLike>;
+}
+
+// .optional() does not carry the inner schema's metadata, so look inside
+const fieldMeta = (schema: FieldSchemaLike | undefined): Record<string, unknown> | undefined =>
+  schema?.meta?.() ?? (typeof schema?.unwrap === 'function' ? fieldMeta(schema.unwrap()) : undefined);
+
+/**
+ * Secret fields of a platform, read from its configSchema. A field counts as
+ * secret when its name ends in key/token/secret/password or when the schema
+ * marks it with .meta({ secret: true }); meta({ secret: false }) opts out.
+ */
+export function getSecretFields(metadata: Pick<PlatformMetadata, 'configSchema' | 'requiredFields' | 'optionalFields'>): string[] {
+  const shape = (metadata.configSchema as SchemaLike | undefined)?.shape;
+  if (!shape) {
+    return [...(metadata.requiredFields || []), ...(metadata.optionalFields || [])]
+      .filter(field => SECRET_FIELD_PATTERN.test(field));
+  }
+
+  return Object.entries(shape)
+    .filter(([field, schema]) => {
+      const secret = fieldMeta(schema)?.secret;
+      return typeof secret === 'boolean' ? secret : SECRET_FIELD_PATTERN.test(field);
+    })
+    .map(([field]) => field);
+}
+
+/**
+ * Split a config from the settings form into what can be written to
+ * platforms.config and the secret values that have to go to the vault.
+ * Untouched secrets keep their stored reference.
+ */
+export function splitSecrets(
+  config: Record<string, unknown>,
+  secretFields: string[]
+): { config: Record<string, unknown>; secrets: Record<string, string> } {
+  const publicConfig: Record<string, unknown> = {};
+  const secrets: Record<string, string> = {};
+
+  for (const [field, value] of Object.entries(config)) {
+    if (!secretFields.includes(field) || isSecretRef(value)) {
+      publicConfig[field] = value;
+    } else if (typeof value === 'string' && value !== '' && value !== STORED_SECRET_PLACEHOLDER) {
+      secrets[field] = value;
+    }
+  }
+
+  return { config: publicConfig, secrets };
+}
+
+// Config a module can be initialized with in the browser: references become
+// placeholders so schema validation passes without the real value.
+export function withSecretPlaceholders<T extends Record<string, unknown>>(config: T): T {
+  return Object.fromEntries(
+    Object.entries(config).map(([field, value]) => [field, isSecretRef(value) ? STORED_SECRET_PLACEHOLDER : value])
+  ) as T;
+}
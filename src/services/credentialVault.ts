@@ -0,0 +1,235 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isSecretRef, type SecretRef } from './credentialRefs';
+
+// Server-side credential storage with envelope encryption: every organization
+// has its own AES-256-GCM data key, stored wrapped by the master key from
+// CREDENTIAL_MASTER_KEY. Secrets are encrypted with the organization's key and
+// bound to their organization, platform and field, so rows cannot be swapped.
+// Runs in Netlify functions with the service role; never import it in the app.
+
+export interface VaultTarget {
+  organizationId: string;
+  // platforms.id, used as the audit log entity
+  platformRowId: string;
+  platformId: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const importKey = (raw: Uint8Array) =>
+  crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+async function encrypt(key: CryptoKey, plaintext: Uint8Array, aad: string): Promise<{ ciphertext: string; iv: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const sealed = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: encoder.encode(aad) }, key, plaintext);
+  return { ciphertext: toBase64(sealed), iv: toBase64(iv) };
+}
+
+async function decrypt(key: CryptoKey, ciphertext: string, iv: string, aad: string): Promise<Uint8Array> {
+  const opened = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv), additionalData: encoder.encode(aad) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return new Uint8Array(opened);
+}
+
+export class CredentialVault {
+  private masterKey: Promise<CryptoKey>;
+  private organizationKeys = new Map<string, Promise<CryptoKey>>();
+
+  // masterKey is 32 random bytes, base64 encoded (openssl rand -base64 32)
+  constructor(private readonly db: SupabaseClient, masterKey: string) {
+    let raw: Uint8Array;
+    try {
+      raw = fromBase64(masterKey.trim());
+    } catch {
+      raw = new Uint8Array();
+    }
+    if (raw.length !== 32) {
+      throw new Error('CREDENTIAL_MASTER_KEY must be 32 bytes, base64 encoded');
+    }
+    this.masterKey = importKey(raw);
+  }
+
+  private organizationKey(organizationId: string): Promise<CryptoKey> {
+    let key = this.organizationKeys.get(organizationId);
+    if (!key) {
+      key = this.loadOrganizationKey(organizationId);
+      // Don't cache failures; the next call should retry the lookup
+      key.catch(() => this.organizationKeys.delete(organizationId));
+      this.organizationKeys.set(organizationId, key);
+    }
+    return key;
+  }
+
+  private async loadOrganizationKey(organizationId: string): Promise<CryptoKey> {
+    const masterKey = await this.masterKey;
+    const aad = `organization:${organizationId}`;
+
+    const { data: existing, error } = await this.db
+      .from('organization_keys')
+      .select('wrapped_key')
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+    if (error) throw new Error(`Could not load organization key: ${error.message}`);
+
+    if (!existing) {
+      const wrapped = await encrypt(masterKey, crypto.getRandomValues(new Uint8Array(32)), aad);
+      // Two first writes can race; whichever row lands first wins for both
+      const { error: insertError } = await this.db
+        .from('organization_keys')
+        .upsert(
+          { organization_id: organizationId, wrapped_key: `${wrapped.iv}.${wrapped.ciphertext}` },
+          { onConflict: 'organization_id', ignoreDuplicates: true }
+        );
+      if (insertError) throw new Error(`Could not create organization key: ${insertError.message}`);
+      return this.loadOrganizationKey(organizationId);
+    }
+
+    const [iv, ciphertext] = (existing.wrapped_key as string).split('.');
+    return importKey(await decrypt(masterKey, ciphertext, iv, aad));
+  }
+
+  /**
+   * Encrypt and store secret values, replace them in platforms.config with
+   * references and write one audit entry per field (never the value itself).
+   * Passing null for a field removes the stored secret. configUpdates are
+   * plain (non-secret) fields written in the same config update.
+   */
+  async saveSecrets(
+    target: VaultTarget,
+    secrets: Record<string, string | null>,
+    userId: string,
+    configUpdates: Record<string, unknown> = {}
+  ): Promise<Record<string, SecretRef | null>> {
+    const key = await this.organizationKey(target.organizationId);
+    const now = new Date().toISOString();
+    const refs: Record<string, SecretRef | null> = {};
+
+    for (const [field, value] of Object.entries(secrets)) {
+      const { data: previous, error: lookupError } = await this.db
+        .from('platform_secrets')
+        .select('id, created_at')
+        .eq('organization_id', target.organizationId)
+        .eq('platform_id', target.platformId)
+        .eq('field', field)
+        .maybeSingle();
+      if (lookupError) throw new Error(`Could not load stored ${field}: ${lookupError.message}`);
+
+      if (value === null) {
+        if (previous) {
+          const { error } = await this.db.from('platform_secrets').delete().eq('id', previous.id);
+          if (error) throw new Error(`Could not remove ${field}: ${error.message}`);
+        }
+        refs[field] = null;
+      } else {
+        const sealed = await encrypt(key, encoder.encode(value), this.aad(target, field));
+        const { error } = previous
+          ? await this.db
+            .from('platform_secrets')
+            .update({ ...sealed, rotated_by: userId, rotated_at: now })
+            .eq('id', previous.id)
+          : await this.db.from('platform_secrets').insert({
+            organization_id: target.organizationId,
+            platform_id: target.platformId,
+            field,
+            ...sealed,
+            created_by: userId,
+            created_at: now,
+            rotated_at: now
+          });
+        if (error) throw new Error(`Could not store ${field}: ${error.message}`);
+        refs[field] = { $secret: true, setAt: previous?.created_at || now, rotatedAt: now };
+      }
+
+      await this.audit(target, userId, value === null ? 'clear_platform_secret' : previous ? 'rotate_platform_secret' : 'set_platform_secret', {
+        platform_id: target.platformId,
+        field
+      });
+    }
+
+    await this.writeConfig(target, { ...configUpdates, ...refs });
+    return refs;
+  }
+
+  /**
+   * Config with every secret reference replaced by its decrypted value, for
+   * calling the vendor. Plain values (configs saved before the vault) pass
+   * through unchanged until the next save moves them into the vault.
+   */
+  async revealConfig<T extends Record<string, unknown>>(
+    organizationId: string,
+    platformId: string,
+    config: T
+  ): Promise<T> {
+    const fields = Object.keys(config).filter(field => isSecretRef(config[field]));
+    if (fields.length === 0) return config;
+
+    const { data: rows, error } = await this.db
+      .from('platform_secrets')
+      .select('field, ciphertext, iv')
+      .eq('organization_id', organizationId)
+      .eq('platform_id', platformId)
+      .in('field', fields);
+    if (error) throw new Error(`Could not load platform secrets: ${error.message}`);
+
+    const key = await this.organizationKey(organizationId);
+    const revealed: Record<string, unknown> = { ...config };
+    for (const field of fields) {
+      const row = (rows || []).find(r => r.field === field);
+      if (!row) {
+        delete revealed[field];
+        continue;
+      }
+      const plaintext = await decrypt(key, row.ciphertext, row.iv, this.aad({ organizationId, platformId }, field));
+      revealed[field] = decoder.decode(plaintext);
+    }
+    return revealed as T;
+  }
+
+  private aad(target: Pick<VaultTarget, 'organizationId' | 'platformId'>, field: string) {
+    return `${target.organizationId}:${target.platformId}:${field}`;
+  }
+
+  // null removes a field
+  private async writeConfig(target: VaultTarget, updates: Record<string, unknown>) {
+    const { data: row, error } = await this.db
+      .from('platforms')
+      .select('config')
+      .eq('id', target.platformRowId)
+      .single();
+    if (error) throw new Error(`Could not load platform config: ${error.message}`);
+
+    const config: Record<string, unknown> = { ...((row?.config || {}) as Record<string, unknown>) };
+    for (const [field, value] of Object.entries(updates)) {
+      if (value === null || value === undefined) delete config[field];
+      else config[field] = value;
+    }
+
+    const { error: updateError } = await this.db
+      .from('platforms')
+      .update({ config, updated_at: new Date().toISOString() })
+      .eq('id', target.platformRowId);
+    if (updateError) throw new Error(`Could not update platform config: ${updateError.message}`);
+  }
+
+  private async audit(target: VaultTarget, userId: string, action: string, changes: Record<string, unknown>) {
+    const { error } = await this.db.from('audit_logs').insert({
+      organization_id: target.organizationId,
+      user_id: userId,
+      action,
+      entity_type: 'platform',
+      entity_id: target.platformRowId,
+      changes
+    });
+    if (error) throw new Error(`Could not write audit log: ${error.message}`);
+  }
+}
@@ -0,0 +1,248 @@
+import { downloadCsv, downloadJson } from '../utils/download';
+import { formatCustomFieldValue, formatRate, type FreelancerProfile } from './freelancerProfile';
+import type { CustomFieldDefinition, RateUnit } from '../types/database.types';
+
+/**
+ * Freelancer list exports (CSV/JSON) and the printable per-freelancer
+ * access report used for client audits and contract closeouts.
+ */
+
+export interface ExportFreelancer extends FreelancerProfile {
+  id: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  phone?: string;
+  username?: string;
+  status: string;
+  created_at: string;
+  expires_at?: string | null;
+}
+
+export interface ExportGrant {
+  id: string;
+  platform_id: string;
+  status: string;
+  platform_user_id?: string | null;
+  provisioned_at?: string | null;
+  last_sync_at?: string | null;
+  expires_at?: string | null;
+  sync_status?: Record<string, unknown> | null;
+}
+
+export interface FreelancerExportRecord {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  username: string | null;
+  status: string;
+  created_at: string;
+  access_ends: string | null;
+  skills: string[];
+  rate_amount: number | null;
+  rate_unit: RateUnit | null;
+  rate_currency: string | null;
+  timezone: string | null;
+  location: string | null;
+  contract_start: string | null;
+  contract_end: string | null;
+  manager: string | null;
+  // Only fields the organization still defines, in their display order
+  custom_fields: Array<{ key: string; label: string; value: string }>;
+  platforms: Array<{
+    platform_id: string;
+    platform_name: string;
+    status: string;
+    platform_user_id: string | null;
+    provisioned_at: string | null;
+    last_sync_at: string | null;
+    access_ends: string | null;
+    sync_state: string | null;
+  }>;
+}
+
+export interface AccessReportContext {
+  organizationName: string;
+  generatedBy?: string;
+  platformName: (platformId: string) => string;
+}
+
+export interface ExportProfileContext {
+  customFields?: CustomFieldDefinition[];
+  managerName?: (userId: string) => string | null;
+}
+
+const syncState = (grant: ExportGrant): string | null => {
+  const state = grant.sync_status?.state;
+  return typeof state === 'string' ? state : null;
+};
+
+export function buildExportRecords(
+  freelancers: ExportFreelancer[],
+  getGrants: (freelancerId: string) => ExportGrant[],
+  platformName: (platformId: string) => string,
+  profileContext: ExportProfileContext = {}
+): FreelancerExportRecord[] {
+  const { customFields = [], managerName } = profileContext;
+
+  return freelancers.map(freelancer => ({
+    id: freelancer.id,
+    name: `${freelancer.first_name} ${freelancer.last_name}`.trim(),
+    email: freelancer.email,
+    phone: freelancer.phone || null,
+    username: freelancer.username || null,
+    status: freelancer.status,
+    created_at: freelancer.created_at,
+    access_ends: freelancer.expires_at || null,
+    skills: freelancer.skills || [],
+    rate_amount: freelancer.rate_amount ?? null,
+    rate_unit: freelancer.rate_unit || null,
+    rate_currency: freelancer.rate_currency || null,
+    timezone: freelancer.timezone || null,
+    location: freelancer.location || null,
+    contract_start: freelancer.contract_start || null,
+    contract_end: freelancer.contract_end || null,
+    manager: freelancer.manager_id ? managerName?.(freelancer.manager_id) || freelancer.manager_id : null,
+    custom_fields: customFields.map(definition => ({
+      key: definition.key,
+      label: definition.label,
+      value: formatCustomFieldValue(definition, freelancer.custom_fields?.[definition.key])
+    })),
+    platforms: getGrants(freelancer.id).map(grant => ({
+      platform_id: grant.platform_id,
+      platform_name: platformName(grant.platform_id),
+      status: grant.status,
+      platform_user_id: grant.platform_user_id || null,
+      provisioned_at: grant.provisioned_at || null,
+      last_sync_at: grant.last_sync_at || null,
+      access_ends: grant.expires_at || null,
+      sync_state: syncState(grant)
+    }))
+  }));
+}
+
+// CSV has one row per grant so it stays flat; freelancers without grants get a single row
+export function exportFreelancers(records: FreelancerExportRecord[], format: 'csv' | 'json'): void {
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  if (format === 'json') {
+    downloadJson(`freelancers-${stamp}.json`, records);
+    return;
+  }
+
+  const rows = records.flatMap((record): Array<Record<string, string | null>> => {
+    const shared: Record<string, string | null> = {
+      freelancer_id: record.id,
+      name: record.name,
+      email: record.email,
+      phone: record.phone,
+      username: record.username,
+      freelancer_status: record.status,
+      created_at: record.created_at,
+      freelancer_access_ends: record.access_ends,
+      skills: record.skills.join('; ') || null,
+      rate_amount: record.rate_amount != null ? String(record.rate_amount) : null,
+      rate_unit: record.rate_unit,
+      rate_currency: record.rate_currency,
+      timezone: record.timezone,
+      location: record.location,
+      contract_start: record.contract_start,
+      contract_end: record.contract_end,
+      manager: record.manager
+    };
+    // Keyed by the stable field key; a label could be renamed or collide with a built-in column
+    record.custom_fields.forEach(field => {
+      shared[`custom_${field.key}`] = field.value || null;
+    });
+
+    if (record.platforms.length === 0) {
+      return [{ ...shared, platform: null, platform_status: null, platform_user_id: null, provisioned_at: null, last_sync_at: null, platform_access_ends: null }];
+    }
+
+    return record.platforms.map(platform => ({
+      ...shared,
+      platform: platform.platform_name,
+      platform_status: platform.status,
+      platform_user_id: platform.platform_user_id,
+      provisioned_at: platform.provisioned_at,
+      last_sync_at: platform.last_sync_at,
+      platform_access_ends: platform.access_ends
+    }));
+  });
+
+  downloadCsv(`freelancers-${stamp}.csv`, rows);
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+export function renderAccessReportHtml(record: FreelancerExportRecord, context: AccessReportContext): string {
+  const rows = record.platforms.map(platform => `
+      <tr>
+        <td>${escapeHtml(platform.platform_name)}</td>
+        <td>${escapeHtml(platform.sync_state ? `${platform.status} (${platform.sync_state})` : platform.status)}</td>
+        <td>${escapeHtml(platform.platform_user_id || '—')}</td>
+        <td>${escapeHtml(formatDate(platform.provisioned_at))}</td>
+        <td>${escapeHtml(formatDate(platform.last_sync_at))}</td>
+        <td>${escapeHtml(formatDate(platform.access_ends))}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Access report - ${escapeHtml(record.name)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #111827; margin: 40px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    .muted { color: #6b7280; font-size: 12px; }
+    dl { display: grid; grid-template-columns: 140px 1fr; gap: 4px 12px; font-size: 13px; margin: 24px 0; }
+    dt { color: #6b7280; }
+    table { width: 100%; border-collapse: collapse; font-size: 12px; }
+    th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+    th { background: #f9fafb; font-weight: 600; }
+    footer { margin-top: 32px; }
+  </style>
+</head>
+<body>
+  <h1>Platform Access Report</h1>
+  <div class="muted">${escapeHtml(context.organizationName)}</div>
+  <dl>
+    <dt>Freelancer</dt><dd>${escapeHtml(record.name)}</dd>
+    <dt>Email</dt><dd>${escapeHtml(record.email)}</dd>
+    <dt>Status</dt><dd>${escapeHtml(record.status)}</dd>
+    <dt>Added</dt><dd>${escapeHtml(formatDate(record.created_at))}</dd>
+    <dt>Access ends</dt><dd>${escapeHtml(formatDate(record.access_ends))}</dd>
+    ${record.contract_start || record.contract_end ? `<dt>Contract</dt><dd>${escapeHtml(`${record.contract_start || '…'} to ${record.contract_end || '…'}`)}</dd>` : ''}
+    ${record.manager ? `<dt>Manager</dt><dd>${escapeHtml(record.manager)}</dd>` : ''}
+    ${record.rate_amount != null ? `<dt>Rate</dt><dd>${escapeHtml(formatRate(record) || '')}</dd>` : ''}
+  </dl>
+  <table>
+    <thead>
+      <tr><th>Platform</th><th>Status</th><th>Platform user</th><th>Provisioned</th><th>Last sync</th><th>Access ends</th></tr>
+    </thead>
+    <tbody>${rows || '<tr><td colspan="6">No platform access recorded</td></tr>'}
+    </tbody>
+  </table>
+  <footer class="muted">
+    Generated ${escapeHtml(new Date().toLocaleString())}${context.generatedBy ? ` by ${escapeHtml(context.generatedBy)}` : ''}
+  </footer>
+</body>
+</html>`;
+}
+
+// Opens the report in a new window and triggers the print dialog (use "Save as PDF" for a file)
+export function printAccessReport(record: FreelancerExportRecord, context: AccessReportContext): void {
+  const reportWindow = window.open('', '_blank');
+  if (!reportWindow) {
+    throw new Error('Allow pop-ups to open the access report');
+  }
+
+  reportWindow.document.write(renderAccessReportHtml(record, context));
+  reportWindow.document.close();
+  reportWindow.focus();
+  reportWindow.print();
+}
@@ -0,0 +1,33 @@
+import { config as appConfig } from '../config/environment';
+import type { PlatformResponse } from '../types/platform.types';
+import { postToFunction } from './platformCredentials';
+import type { PortalDetails, PortalView } from './portalInvites';
+
+export interface PortalInviteResult {
+  url: string;
+  invitedAt: string;
+  // The email is only added to the notifications outbox here; false when even
+  // that failed. Either way the link works and can be shared by hand
+  queued: boolean;
+}
+
+/**
+ * Create a signed link to the self-service portal and queue an email with it
+ * for the freelancer. Any earlier link stops working.
+ */
+export function sendPortalInvite(freelancerId: string): Promise<PlatformResponse<PortalInviteResult>> {
+  return postToFunction(appConfig.FREELANCER_PORTAL_URL, 'freelancer portal', {
+    action: 'invite',
+    freelancerId
+  });
+}
+
+// The portal itself runs without a session; the invite token is the credential
+export function loadPortal(token: string): Promise<PlatformResponse<PortalView>> {
+  return postToFunction(appConfig.FREELANCER_PORTAL_URL, 'freelancer portal', { action: 'load', token });
+}
+
+// Saves the details once; the link stops working afterwards
+export function completePortal(token: string, details: PortalDetails): Promise<PlatformResponse<PortalView>> {
+  return postToFunction(appConfig.FREELANCER_PORTAL_URL, 'freelancer portal', { action: 'complete', token, details });
+}
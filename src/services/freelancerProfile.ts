@@ -0,0 +1,184 @@
+import type { CustomFieldDefinition, CustomFieldType, RateUnit } from '../types/database.types';
+
+/**
+ * Structured freelancer profile: skills, rate, where they work from, contract
+ * dates, manager and the organization's own custom fields. Validation here
+ * is shared by the edit modal and anything else that writes a profile.
+ */
+
+export type CustomFieldValue = string | number | boolean | null;
+
+export interface FreelancerProfile {
+  skills?: string[];
+  rate_amount?: number | null;
+  rate_unit?: RateUnit | null;
+  rate_currency?: string | null;
+  timezone?: string | null;
+  location?: string | null;
+  contract_start?: string | null; // YYYY-MM-DD
+  contract_end?: string | null; // YYYY-MM-DD
+  manager_id?: string | null;
+  custom_fields?: Record<string, CustomFieldValue>;
+}
+
+export const RATE_UNITS: Array<{ unit: RateUnit; label: string }> = [
+  { unit: 'hour', label: 'per hour' },
+  { unit: 'day', label: 'per day' }
+];
+
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'INR', 'JPY', 'CHF'];
+
+export const CUSTOM_FIELD_TYPES: Array<{ type: CustomFieldType; label: string }> = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'select', label: 'Choice' },
+  { type: 'boolean', label: 'Yes / No' },
+  { type: 'url', label: 'Link' },
+  { type: 'email', label: 'Email' }
+];
+
+// Keys are stored in freelancers.custom_fields and used as export columns
+export const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// "Video editing, after effects, video editing" -> ['Video editing', 'after effects']
+export function parseSkills(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split(',')
+    .map(skill => skill.trim())
+    .filter(skill => {
+      const key = skill.toLowerCase();
+      if (!skill || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// IANA zones the browser knows about; older browsers only get UTC
+export function listTimezones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  return intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : ['UTC'];
+}
+
+export function formatRate(profile: Pick<FreelancerProfile, 'rate_amount' | 'rate_unit' | 'rate_currency'>): string | null {
+  if (profile.rate_amount == null) return null;
+  const amount = profile.rate_currency
+    ? profile.rate_amount.toLocaleString(undefined, { style: 'currency', currency: profile.rate_currency })
+    : profile.rate_amount.toLocaleString();
+  const unit = RATE_UNITS.find(entry => entry.unit === profile.rate_unit)?.label;
+  return unit ? `${amount} ${unit}` : amount;
+}
+
+// Returns the first problem with the built-in profile fields, or null
+export function validateProfile(profile: FreelancerProfile): string | null {
+  if (profile.rate_amount != null) {
+    if (!Number.isFinite(profile.rate_amount) || profile.rate_amount < 0) {
+      return 'Rate must be a positive amount';
+    }
+    if (!profile.rate_unit) return 'Choose whether the rate is per hour or per day';
+    if (!profile.rate_currency) return 'Choose a currency for the rate';
+  }
+  if (profile.rate_currency && !/^[A-Z]{3}$/.test(profile.rate_currency)) {
+    return 'Currency must be a three-letter code such as USD';
+  }
+  if (profile.timezone && !isValidTimezone(profile.timezone)) {
+    return `Unknown timezone "${profile.timezone}"`;
+  }
+  if (profile.contract_start && profile.contract_end && profile.contract_end < profile.contract_start) {
+    return 'Contract end must be on or after the start';
+  }
+  return null;
+}
+
+const isEmpty = (value: CustomFieldValue | undefined) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+// Returns why a value does not fit its field, or null
+export function validateCustomFieldValue(
+  definition: CustomFieldDefinition,
+  value: CustomFieldValue | undefined
+): string | null {
+  if (isEmpty(value)) {
+    return definition.is_required && definition.field_type !== 'boolean' ? `${definition.label} is required` : null;
+  }
+
+  switch (definition.field_type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (!Number.isFinite(number)) return `${definition.label} must be a number`;
+      if (definition.min_value != null && number < definition.min_value) {
+        return `${definition.label} must be at least ${definition.min_value}`;
+      }
+      if (definition.max_value != null && number > definition.max_value) {
+        return `${definition.label} must be at most ${definition.max_value}`;
+      }
+      return null;
+    }
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value) ? null : `${definition.label} must be a date`;
+    case 'select':
+      return definition.options.includes(String(value)) ? null : `${definition.label} must be one of its choices`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${definition.label} must be yes or no`;
+    case 'email':
+      return EMAIL_PATTERN.test(String(value)) ? null : `${definition.label} must be an email address`;
+    case 'url':
+      try {
+        return ['http:', 'https:'].includes(new URL(String(value)).protocol) ? null : `${definition.label} must be a web link`;
+      } catch {
+        return `${definition.label} must be a web link`;
+      }
+    case 'text':
+      if (definition.pattern && !new RegExp(definition.pattern).test(String(value))) {
+        return `${definition.label} is not in the expected format`;
+      }
+      return null;
+  }
+}
+
+// Errors keyed by field key; empty when every value fits
+export function validateCustomFields(
+  definitions: CustomFieldDefinition[],
+  values: Record<string, CustomFieldValue>
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  definitions.forEach(definition => {
+    const error = validateCustomFieldValue(definition, values[definition.key]);
+    if (error) errors[definition.key] = error;
+  });
+  return errors;
+}
+
+// Turn form input into the stored value: numbers as numbers, blanks dropped
+export function toCustomFieldValue(definition: CustomFieldDefinition, input: string | boolean): CustomFieldValue {
+  if (definition.field_type === 'boolean') return input === true;
+  const text = String(input).trim();
+  if (!text) return null;
+  if (definition.field_type === 'number') {
+    const number = Number(text);
+    return Number.isFinite(number) ? number : text;
+  }
+  return text;
+}
+
+export function formatCustomFieldValue(definition: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (value === undefined || value === null || value === '') return '';
+  if (definition.field_type === 'boolean') return value ? 'Yes' : 'No';
+  if (definition.field_type === 'date' && typeof value === 'string') {
+    return new Date(`${value}T00:00:00`).toLocaleDateString();
+  }
+  return String(value);
+}
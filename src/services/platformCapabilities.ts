@@ -0,0 +1,53 @@
+import { PlatformCapability, type IPlatformModule } from '../types/platform.types';
+
+// Optional IPlatformModule members and the capability that advertises each.
+// Capabilities not listed here are descriptive only.
+export const CAPABILITY_METHODS = {
+  [PlatformCapability.ROLE_MANAGEMENT]: 'assignRole',
+  [PlatformCapability.PERMISSION_MANAGEMENT]: 'assignPermissions',
+  [PlatformCapability.PASSWORD_RESET]: 'resetPassword',
+  [PlatformCapability.USER_SYNC]: 'syncUser',
+  [PlatformCapability.GROUP_MANAGEMENT]: 'groups',
+  [PlatformCapability.ACTIVITY_MONITORING]: 'getActivity',
+} as const satisfies Partial<Record<PlatformCapability, keyof IPlatformModule>>;
+
+export type MethodCapability = keyof typeof CAPABILITY_METHODS;
+
+export interface CapabilityMismatch {
+  capability: MethodCapability;
+  method: (typeof CAPABILITY_METHODS)[MethodCapability];
+  // declared: advertised but not implemented; undeclared: the reverse
+  problem: 'declared' | 'undeclared';
+}
+
+// Methods, or an object of methods in the case of `groups`
+const implementsMethod = (platform: IPlatformModule, method: string) =>
+  (platform as unknown as Record<string, unknown>)[method] != null;
+
+/**
+ * Compare a module's declared capabilities with the optional methods it
+ * actually implements. An empty result means the declaration is accurate.
+ */
+export function checkCapabilities(platform: IPlatformModule): CapabilityMismatch[] {
+  const declared = platform.metadata.capabilities || [];
+  const mismatches: CapabilityMismatch[] = [];
+
+  for (const [capability, method] of Object.entries(CAPABILITY_METHODS) as Array<[MethodCapability, CapabilityMismatch['method']]>) {
+    const isDeclared = declared.includes(capability);
+    const isImplemented = implementsMethod(platform, method);
+    if (isDeclared !== isImplemented) {
+      mismatches.push({ capability, method, problem: isDeclared ? 'declared' : 'undeclared' });
+    }
+  }
+
+  return mismatches;
+}
+
+// True only when the module both declares the capability and implements it
+export function supportsCapability(platform: IPlatformModule | undefined, capability: PlatformCapability): boolean {
+  if (!platform?.metadata.capabilities?.includes(capability)) return false;
+  const method = CAPABILITY_METHODS[capability as MethodCapability];
+  return !method || implementsMethod(platform, method);
+}
+
+export const formatCapability = (capability: PlatformCapability) => capability.replace(/_/g, ' ');
@@ -0,0 +1,76 @@
+import { config as appConfig } from '../config/environment';
+import type { PlatformResponse } from '../types/platform.types';
+import type { SecretRef } from './credentialRefs';
+import { auth } from './supabase';
+
+// Where vendors send the browser back after an OAuth approval
+export const PLATFORM_OAUTH_CALLBACK_PATH = '/auth/platform-callback';
+
+export async function postToFunction<T>(url: string, label: string, body: Record<string, unknown>): Promise<PlatformResponse<T>> {
+  const { session } = await auth.getSession();
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {})
+      },
+      body: JSON.stringify(body)
+    });
+  } catch (error) {
+    return {
+      success: false,
+      error: `Network error reaching the ${label}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+
+  try {
+    return (await response.json()) as PlatformResponse<T>;
+  } catch {
+    return { success: false, error: `The ${label} returned an invalid response (${response.status})` };
+  }
+}
+
+/**
+ * Send secret values to the credential vault. The server encrypts them,
+ * swaps them for references in platforms.config and audits the change; the
+ * values can't be read back. Pass null to remove a stored secret.
+ */
+export function savePlatformSecrets(
+  platformId: string,
+  secrets: Record<string, string | null>
+): Promise<PlatformResponse<Record<string, SecretRef | null>>> {
+  return postToFunction(appConfig.PLATFORM_CREDENTIALS_URL, 'credential vault', { platformId, secrets });
+}
+
+/**
+ * Send the browser to the vendor's consent screen. Resolves only on failure;
+ * on success the page navigates away and the callback route takes over.
+ */
+export async function startPlatformOAuth(platformId: string): Promise<PlatformResponse<{ url: string }>> {
+  const result = await postToFunction<{ url: string }>(appConfig.PLATFORM_OAUTH_URL, 'OAuth service', {
+    action: 'authorize',
+    platformId,
+    redirectUri: `${window.location.origin}${PLATFORM_OAUTH_CALLBACK_PATH}`
+  });
+  if (result.success && result.data) {
+    window.location.assign(result.data.url);
+  }
+  return result;
+}
+
+// Trade the code from the callback for tokens, which the server stores
+export function completePlatformOAuth(
+  code: string,
+  state: string
+): Promise<PlatformResponse<{ platformId: string; expiresAt: string | null }>> {
+  return postToFunction(appConfig.PLATFORM_OAUTH_URL, 'OAuth service', { action: 'exchange', code, state });
+}
+
+export function refreshPlatformOAuth(
+  platformId: string
+): Promise<PlatformResponse<{ platformId: string; expiresAt: string | null }>> {
+  return postToFunction(appConfig.PLATFORM_OAUTH_URL, 'OAuth service', { action: 'refresh', platformId });
+}
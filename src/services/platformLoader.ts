@@ -0,0 +1,53 @@
+import { supabase } from './supabase';
+import { PlatformRegistryService } from './PlatformRegistry';
+import { withSecretPlaceholders } from './credentialRefs';
+import type { Platform } from '../types/database.types';
+import type { IPlatformModule, PlatformConfig } from '../types/platform.types';
+
+/**
+ * Resolve a platform module and initialize it with the organization's stored
+ * config, so background work doesn't depend on a prior connection test.
+ */
+export async function loadPlatformModule(organizationId: string, platformId: string): Promise<IPlatformModule> {
+  const platformModule = await PlatformRegistryService.getInstance().loadPlatform(platformId);
+  if (!platformModule) {
+    throw new Error(`Platform module ${platformId} not found or not initialized`);
+  }
+
+  const platformConfig = await getPlatformConfigRow(organizationId, platformId);
+  if (!platformConfig?.is_enabled) {
+    throw new Error(`Platform ${platformId} is not enabled`);
+  }
+
+  // Secrets stay in the vault; the gateway swaps the placeholders back in
+  const initResult = await platformModule.initialize(
+    withSecretPlaceholders((platformConfig.config || {}) as Record<string, unknown>) as PlatformConfig
+  );
+  if (!initResult.success) {
+    throw new Error(initResult.error || `Failed to initialize ${platformId}`);
+  }
+
+  return platformModule;
+}
+
+export async function getPlatformConfigRow(organizationId: string, platformId: string): Promise<Platform | undefined> {
+  const { data: configs, error } = await supabase
+    .from('platforms')
+    .select('*')
+    .eq('organization_id', organizationId);
+
+  if (error) throw error;
+  return (configs || []).find((config: Platform) => config.platform_id === platformId);
+}
+
+export async function getEnabledPlatformIds(organizationId: string): Promise<string[]> {
+  const { data: configs, error } = await supabase
+    .from('platforms')
+    .select('*')
+    .eq('organization_id', organizationId);
+
+  if (error) throw error;
+  return (configs || [])
+    .filter((config: Platform) => config.is_enabled)
+    .map((config: Platform) => config.platform_id);
+}
@@ -0,0 +1,208 @@
+import { getVendorOAuth, type VendorConfig } from './platformVendors';
+
+// OAuth 2.0 authorization code flow shared by the platform functions: signed
+// state, authorize URLs, code exchange and refresh. Runs on the server, where
+// the client secret and tokens are available; tests can pass their own fetch.
+
+export interface OAuthState {
+  platformId: string;
+  organizationId: string;
+  userId: string;
+  redirectUri: string;
+  // Unix milliseconds after which the callback is refused
+  expiresAt: number;
+  nonce: string;
+}
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  // ISO timestamp; undefined when the provider issues non-expiring tokens
+  expiresAt?: string;
+  scope?: string;
+}
+
+export class OAuthError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+// Users get this long to approve the app before the state goes stale
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+// Refresh a little early so a request never goes out with a dying token
+const REFRESH_MARGIN_MS = 2 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+const str = (value: unknown) => (typeof value === 'string' ? value : '');
+
+async function signingKey(secret: string): Promise<CryptoKey> {
+  // Domain-separated so the vault master key is never used directly
+  const material = await crypto.subtle.digest('SHA-256', encoder.encode(`platform-oauth-state:${secret}`));
+  return crypto.subtle.importKey('raw', material, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+export async function signOAuthState(
+  secret: string,
+  state: Omit<OAuthState, 'expiresAt' | 'nonce'>,
+  now = Date.now()
+): Promise<string> {
+  const payload: OAuthState = {
+    ...state,
+    expiresAt: now + STATE_TTL_MS,
+    nonce: toBase64Url(crypto.getRandomValues(new Uint8Array(12)))
+  };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(secret), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Returns null for tampered, malformed or expired state
+export async function verifyOAuthState(secret: string, state: string, now = Date.now()): Promise<OAuthState | null> {
+  const [body, signature] = state.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await signingKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as OAuthState;
+    return payload.expiresAt > now ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+export function buildAuthorizeUrl(platformId: string, config: VendorConfig, redirectUri: string, state: string): string {
+  const oauth = getVendorOAuth(platformId, config);
+  if (!oauth) {
+    throw new OAuthError(`Platform ${platformId} does not support OAuth`, 400);
+  }
+  if (!config.clientId) {
+    throw new OAuthError('Save a client ID before connecting', 400);
+  }
+
+  const url = new URL(oauth.authorizeUrl);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('state', state);
+  if (oauth.scopes.length > 0) {
+    url.searchParams.set('scope', oauth.scopes.join(' '));
+  }
+  return url.href;
+}
+
+async function requestTokens(
+  platformId: string,
+  config: VendorConfig,
+  params: Record<string, string>,
+  fetchImpl: typeof fetch
+): Promise<OAuthTokens> {
+  const oauth = getVendorOAuth(platformId, config);
+  if (!oauth) {
+    throw new OAuthError(`Platform ${platformId} does not support OAuth`, 400);
+  }
+  if (!config.clientId || !config.clientSecret) {
+    throw new OAuthError('Client ID and client secret are required', 400);
+  }
+
+  let response: Response;
+  try {
+    response = await fetchImpl(oauth.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json'
+      },
+      body: new URLSearchParams({
+        ...params,
+        client_id: config.clientId,
+        client_secret: config.clientSecret
+      }).toString()
+    });
+  } catch (error) {
+    throw new OAuthError(
+      `Network error reaching the ${platformId} authorization server: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      0
+    );
+  }
+
+  const body = await response.json().catch(() => ({})) as Record<string, unknown>;
+  if (!response.ok || !str(body.access_token)) {
+    const detail = str(body.error_description) || str(body.error) || `HTTP ${response.status}`;
+    throw new OAuthError(`${platformId} authorization failed: ${detail}`, response.ok ? 502 : response.status);
+  }
+
+  const expiresIn = Number(body.expires_in);
+  return {
+    accessToken: str(body.access_token),
+    refreshToken: str(body.refresh_token) || undefined,
+    expiresAt: Number.isFinite(expiresIn) && expiresIn > 0
+      ? new Date(Date.now() + expiresIn * 1000).toISOString()
+      : undefined,
+    scope: str(body.scope) || undefined
+  };
+}
+
+export function exchangeAuthorizationCode(
+  platformId: string,
+  config: VendorConfig,
+  code: string,
+  redirectUri: string,
+  fetchImpl: typeof fetch = fetch.bind(globalThis)
+): Promise<OAuthTokens> {
+  return requestTokens(platformId, config, { grant_type: 'authorization_code', code, redirect_uri: redirectUri }, fetchImpl);
+}
+
+export function refreshAccessToken(
+  platformId: string,
+  config: VendorConfig,
+  fetchImpl: typeof fetch = fetch.bind(globalThis)
+): Promise<OAuthTokens> {
+  const refreshToken = str(config.oAuthRefreshToken);
+  if (!refreshToken) {
+    return Promise.reject(new OAuthError('No refresh token stored; connect again', 400));
+  }
+  return requestTokens(platformId, config, { grant_type: 'refresh_token', refresh_token: refreshToken }, fetchImpl);
+}
+
+// True when the stored access token expires within the refresh margin
+export function tokenNeedsRefresh(config: VendorConfig, now = Date.now()): boolean {
+  const expiresAt = Date.parse(str(config.oAuthExpiresAt));
+  return Number.isFinite(expiresAt) && expiresAt - now < REFRESH_MARGIN_MS;
+}
+
+/**
+ * Secrets and config updates to persist for a token response. Providers that
+ * don't rotate refresh tokens leave the stored one in place.
+ */
+export function tokenUpdates(tokens: OAuthTokens): {
+  secrets: Record<string, string>;
+  config: Record<string, unknown>;
+} {
+  return {
+    secrets: {
+      oAuthToken: tokens.accessToken,
+      ...(tokens.refreshToken ? { oAuthRefreshToken: tokens.refreshToken } : {})
+    },
+    config: {
+      oAuthExpiresAt: tokens.expiresAt || null,
+      oAuthScope: tokens.scope || null
+    }
+  };
+}
@@ -0,0 +1,104 @@
+import { config as appConfig } from '../config/environment';
+import type { PlatformConfig, PlatformResponse } from '../types/platform.types';
+import {
+  executePlatformRequest,
+  type PlatformGatewayAction,
+  type PlatformGatewayPayload,
+  type VendorConfig
+} from './platformVendors';
+
+export interface PlatformGatewayRequest {
+  platformId: string;
+  action: PlatformGatewayAction;
+  payload: PlatformGatewayPayload;
+  // Config the module was initialized with. The gateway only applies it for
+  // owners and admins (e.g. testing unsaved settings); everyone else gets the
+  // organization's stored config.
+  config?: PlatformConfig;
+}
+
+/**
+ * How platform modules reach vendor APIs. Failed calls resolve with
+ * success: false and the HTTP status in details.status.
+ */
+export interface PlatformTransport {
+  send<T = unknown>(request: PlatformGatewayRequest): Promise<PlatformResponse<T>>;
+}
+
+export const transportStatus = (response: PlatformResponse): number =>
+  typeof response.details?.status === 'number' ? response.details.status : 0;
+
+/**
+ * Sends every call to the server-side platform gateway, which loads the
+ * organization's credentials and talks to the vendor.
+ */
+export class GatewayTransport implements PlatformTransport {
+  constructor(private readonly url: string = appConfig.PLATFORM_GATEWAY_URL) {}
+
+  async send<T = unknown>(request: PlatformGatewayRequest): Promise<PlatformResponse<T>> {
+    // Loaded lazily so modules stay importable outside the browser app
+    const { auth } = await import('./supabase');
+    const { session } = await auth.getSession();
+
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {})
+        },
+        body: JSON.stringify(request)
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Network error reaching the platform gateway: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        details: { status: 0 }
+      };
+    }
+
+    try {
+      return (await response.json()) as PlatformResponse<T>;
+    } catch {
+      return {
+        success: false,
+        error: `Platform gateway returned an invalid response (${response.status})`,
+        details: { status: response.status }
+      };
+    }
+  }
+}
+
+/**
+ * Calls vendors directly from this process with the config in the request.
+ * Used by tests and local stubs: point the platform's base URL at a stand-in
+ * server and install it with setPlatformTransport.
+ */
+export class LocalTransport implements PlatformTransport {
+  constructor(private readonly fetchImpl?: typeof fetch) {}
+
+  async send<T = unknown>(request: PlatformGatewayRequest): Promise<PlatformResponse<T>> {
+    return executePlatformRequest(
+      request.platformId,
+      request.action,
+      request.payload,
+      (request.config || {}) as VendorConfig,
+      { fetch: this.fetchImpl }
+    ) as Promise<PlatformResponse<T>>;
+  }
+}
+
+let activeTransport: PlatformTransport | null = null;
+
+export function getPlatformTransport(): PlatformTransport {
+  if (!activeTransport) {
+    activeTransport = new GatewayTransport();
+  }
+  return activeTransport;
+}
+
+// Swap the transport for every module, e.g. a LocalTransport in tests
+export function setPlatformTransport(transport: PlatformTransport | null): void {
+  activeTransport = transport;
+}
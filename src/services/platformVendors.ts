@@ -0,0 +1,466 @@
+import { STORED_SECRET_PLACEHOLDER } from './credentialRefs';
+import type { PlatformConfig, PlatformResponse } from '../types/platform.types';
+
+// Vendor calls shared by the platform gateway function and the in-process
+// transport. Nothing here touches the DOM or Supabase so it runs on both sides.
+
+export type PlatformGatewayAction = 'request' | 'graphql';
+
+export type PlatformHttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface PlatformHttpRequest {
+  method: PlatformHttpMethod;
+  // Relative to the vendor's base URL, e.g. /teams/abc/members
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+}
+
+export interface PlatformGraphQLRequest {
+  query: string;
+  variables?: Record<string, unknown>;
+}
+
+export type PlatformGatewayPayload = PlatformHttpRequest | PlatformGraphQLRequest;
+
+// Stored configs may carry vendor-specific keys beyond PlatformConfig
+export type VendorConfig = PlatformConfig & Record<string, unknown>;
+
+// Who may ask the gateway for an operation: members get the provisioning
+// calls the modules make, owners and admins everything else on the list
+export type GatewayAccess = 'member' | 'admin';
+
+interface GatewayOperation {
+  method: PlatformHttpMethod;
+  path: RegExp;
+  access: GatewayAccess;
+}
+
+export interface VendorOAuth {
+  authorizeUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+}
+
+interface PlatformVendor {
+  baseUrl(config: VendorConfig): string | undefined;
+  // Config keys that decide which host receives the credentials
+  urlFields?: string[];
+  headers(config: VendorConfig): Record<string, string>;
+  graphqlPath?: string;
+  // REST operations the gateway will forward; anything else is refused
+  operations?(config: VendorConfig): GatewayOperation[];
+  // GraphQL root fields the gateway will forward, keyed "query.users" or
+  // "mutation.invite_users"
+  graphqlFields?: Record<string, GatewayAccess>;
+  // Endpoints for the OAuth connect flow; oAuthBaseUrl in the config may
+  // point them at a local mock (see oAuthBase)
+  oauth?(config: VendorConfig): VendorOAuth;
+}
+
+const str = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * The token request carries the client secret, so an oAuthBaseUrl override is
+ * only honoured on the vendor's own host or on loopback for local mocks.
+ * Anything else falls back to the vendor's authorization server.
+ */
+function oAuthBase(config: VendorConfig, vendorBase: string): string {
+  const configured = str(config.oAuthBaseUrl);
+  if (!configured) return vendorBase;
+  try {
+    const { hostname, protocol } = new URL(configured);
+    const allowed = hostname === new URL(vendorBase).hostname
+      ? protocol === 'https:'
+      : LOOPBACK_HOSTS.includes(hostname);
+    return allowed ? configured.replace(/\/+$/, '') : vendorBase;
+  } catch {
+    return vendorBase;
+  }
+}
+
+/**
+ * One allowlisted REST operation. In the path pattern {id} stands for a single
+ * path segment; the rest has to match literally.
+ */
+function operation(access: GatewayAccess, method: PlatformHttpMethod, pattern: string): GatewayOperation {
+  const source = pattern
+    .split('{id}')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/?#]+');
+  return { method, path: new RegExp(`^${source}$`), access };
+}
+
+const VENDORS: Record<string, PlatformVendor> = {
+  monday: {
+    baseUrl: () => 'https://api.monday.com',
+    headers: config => ({
+      // A connected OAuth app takes precedence over a pasted API token
+      'Authorization': str(config.oAuthToken) || str(config.apiToken),
+      // invite_users and the membership mutations need 2024-04 or newer
+      'API-Version': '2024-10'
+    }),
+    graphqlPath: '/v2',
+    graphqlFields: {
+      'query.me': 'member',
+      'query.users': 'member',
+      'query.teams': 'member',
+      'mutation.invite_users': 'member',
+      'mutation.add_users_to_team': 'member',
+      'mutation.remove_users_from_team': 'member',
+      'mutation.add_users_to_workspace': 'member',
+      'mutation.add_users_to_board': 'member',
+      'mutation.activate_users': 'member',
+      'mutation.deactivate_users': 'member',
+      'mutation.create_team': 'admin'
+    },
+    oauth: config => {
+      const base = oAuthBase(config, 'https://auth.monday.com');
+      return {
+        authorizeUrl: `${base}/oauth2/authorize`,
+        tokenUrl: `${base}/oauth2/token`,
+        scopes: ['me:read', 'users:read', 'users:write', 'teams:read', 'teams:write', 'boards:read', 'boards:write', 'workspaces:read', 'workspaces:write']
+      };
+    }
+  },
+  parsec: {
+    baseUrl: config => str(config.baseUrl) || 'https://api.parsec.app/v1',
+    urlFields: ['baseUrl'],
+    headers: config => ({ 'Authorization': `Bearer ${str(config.apiKey)}` }),
+    // Only the configured team, even when the key can reach others
+    operations: config => {
+      const team = `/teams/${encodeURIComponent(str(config.teamId))}`;
+      return [
+        operation('member', 'GET', team),
+        operation('member', 'GET', `${team}/members`),
+        operation('member', 'GET', `${team}/members/{id}`),
+        operation('member', 'PUT', `${team}/members/{id}`),
+        operation('member', 'DELETE', `${team}/members/{id}`),
+        operation('member', 'GET', `${team}/invites`),
+        operation('member', 'POST', `${team}/invites`),
+        operation('member', 'DELETE', `${team}/invites/{id}`),
+        operation('member', 'GET', `${team}/groups`)
+      ];
+    }
+  },
+  truenas: {
+    baseUrl: config => str(config.apiUrl) || undefined,
+    urlFields: ['apiUrl'],
+    headers: config => ({ 'Authorization': `Bearer ${str(config.apiKey)}` }),
+    // Creating a user also provisions its home dataset, ACL and SMB share
+    operations: () => [
+      operation('member', 'GET', '/system/info'),
+      operation('member', 'GET', '/user'),
+      operation('member', 'POST', '/user'),
+      operation('member', 'GET', '/user/id/{id}'),
+      operation('member', 'PUT', '/user/id/{id}'),
+      operation('member', 'DELETE', '/user/id/{id}'),
+      operation('member', 'GET', '/group'),
+      operation('member', 'GET', '/pool/dataset/id/{id}'),
+      operation('member', 'POST', '/pool/dataset'),
+      operation('member', 'POST', '/filesystem/setacl'),
+      operation('member', 'GET', '/sharing/smb'),
+      operation('member', 'POST', '/sharing/smb'),
+      operation('member', 'DELETE', '/sharing/smb/id/{id}'),
+      operation('admin', 'POST', '/group'),
+      operation('admin', 'GET', '/group/id/{id}'),
+      operation('admin', 'PUT', '/group/id/{id}'),
+      operation('admin', 'DELETE', '/group/id/{id}'),
+      operation('admin', 'GET', '/sharing/smb/id/{id}'),
+      operation('admin', 'PUT', '/sharing/smb/id/{id}'),
+      operation('admin', 'POST', '/filesystem/setperm'),
+      operation('admin', 'POST', '/filesystem/getacl')
+    ]
+  },
+  amove: {
+    baseUrl: config => str(config.baseUrl) || 'https://api.amove.com/v1',
+    urlFields: ['baseUrl'],
+    headers: config => ({
+      'Authorization': `Bearer ${str(config.apiKey)}`,
+      'X-Account-ID': str(config.accountId)
+    }),
+    operations: () => [
+      operation('member', 'GET', '/account'),
+      operation('member', 'GET', '/users'),
+      operation('member', 'POST', '/users'),
+      operation('member', 'GET', '/users/{id}'),
+      operation('member', 'PATCH', '/users/{id}'),
+      operation('member', 'DELETE', '/users/{id}'),
+      operation('member', 'GET', '/users/{id}/permissions'),
+      operation('member', 'PUT', '/users/{id}/permissions'),
+      operation('member', 'GET', '/users/{id}/activity'),
+      operation('member', 'POST', '/teams/{id}/members'),
+      operation('member', 'DELETE', '/teams/{id}/members/{id}'),
+      operation('member', 'GET', '/teams'),
+      operation('member', 'GET', '/shares'),
+      operation('admin', 'POST', '/teams'),
+      operation('admin', 'GET', '/teams/{id}'),
+      operation('admin', 'PATCH', '/teams/{id}'),
+      operation('admin', 'DELETE', '/teams/{id}'),
+      operation('admin', 'GET', '/teams/{id}/members'),
+      operation('admin', 'GET', '/teams/{id}/permissions'),
+      operation('admin', 'PUT', '/teams/{id}/permissions'),
+      operation('admin', 'GET', '/teams/{id}/activity'),
+      operation('admin', 'POST', '/shares'),
+      operation('admin', 'GET', '/shares/{id}'),
+      operation('admin', 'DELETE', '/shares/{id}'),
+      operation('admin', 'PUT', '/shares/{id}/permissions')
+    ]
+  }
+};
+
+export const GATEWAY_PLATFORM_IDS = Object.keys(VENDORS);
+
+const findVendor = (platformId: string): PlatformVendor | undefined =>
+  Object.prototype.hasOwnProperty.call(VENDORS, platformId) ? VENDORS[platformId] : undefined;
+
+export function getVendorOAuth(platformId: string, config: VendorConfig): VendorOAuth | undefined {
+  return findVendor(platformId)?.oauth?.(config);
+}
+
+const originOf = (url: string | undefined): string | null => {
+  if (!url) return null;
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+// Literal addresses a server-side call must never be pointed at by a settings override
+const PRIVATE_HOST_PATTERN = /^(localhost|.*\.localhost|.*\.internal|0\.0\.0\.0|127\.\d+\.\d+\.\d+|10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|169\.254\.\d+\.\d+|172\.(1[6-9]|2\d|3[01])\.\d+\.\d+|\[.*\])$/i;
+
+/**
+ * Vet unsaved settings an owner or admin sends to the gateway against
+ * platforms.config. Stored credentials only go to the host they were saved
+ * for: an override that moves the API URL to another origin must be a public
+ * https address and has to bring its own credentials, and usesStoredSecrets
+ * then tells the gateway to leave the vault closed. The returned override has
+ * the stored-secret placeholders removed.
+ */
+export function applyConfigOverride(
+  platformId: string,
+  stored: VendorConfig,
+  override: Record<string, unknown>
+): { override: Record<string, unknown>; usesStoredSecrets: boolean } | { error: string } {
+  const vendor = findVendor(platformId);
+  // Placeholders stand for the stored secret, so they never override it
+  const kept = Object.keys(override).filter(key => override[key] === STORED_SECRET_PLACEHOLDER);
+  const changes = Object.fromEntries(Object.entries(override).filter(([key]) => !kept.includes(key)));
+  const merged = { ...stored, ...changes } as VendorConfig;
+
+  const movesHost = !!vendor?.urlFields?.some(field => field in changes)
+    && originOf(vendor.baseUrl(merged)) !== originOf(vendor.baseUrl(stored));
+  if (!vendor || !movesHost) {
+    return { override: changes, usesStoredSecrets: true };
+  }
+
+  const target = vendor.baseUrl(merged) || '';
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return { error: `${target || 'The API URL'} is not a valid URL` };
+  }
+  if (url.protocol !== 'https:' || PRIVATE_HOST_PATTERN.test(url.hostname)) {
+    return { error: 'A different API URL must be a public https address' };
+  }
+  if (kept.length > 0) {
+    return { error: `Enter ${kept.join(', ')} again to use a different API URL; saved credentials only go to the saved host` };
+  }
+  return { override: changes, usesStoredSecrets: false };
+}
+
+export const isGatewayAction = (action: unknown): action is PlatformGatewayAction =>
+  action === 'request' || action === 'graphql';
+
+/**
+ * The root fields of a single GraphQL operation, or null when the document is
+ * anything the allowlist cannot vouch for: several operations, fragments,
+ * directives or a subscription.
+ */
+function graphqlRootFields(document: string): { type: string; fields: string[] } | null {
+  // Blank out strings and comments so they cannot hide or fake a selection
+  const source = document.replace(/"""[\s\S]*?"""|"(?:[^"\\\n]|\\.)*"|#[^\n]*/g, ' ');
+  const header = /^\s*(?:(query|mutation)\b\s*[_A-Za-z0-9]*\s*)?/.exec(source);
+  const type = header?.[1] || 'query';
+  let index = header?.[0].length || 0;
+
+  if (source[index] === '(') {
+    index = source.indexOf(')', index) + 1;
+    if (index === 0) return null;
+    while (/\s/.test(source[index] || '')) index++;
+  }
+  if (source[index] !== '{') return null;
+
+  const fields: string[] = [];
+  const name = /[_A-Za-z][_A-Za-z0-9]*(?=\s*(:?))/y;
+  let depth = 0;
+  for (index++; index < source.length; index++) {
+    const char = source[index];
+    if (char === '{' || char === '(') {
+      depth++;
+    } else if (char === '}' || char === ')') {
+      if (depth === 0) break;
+      depth--;
+    } else if (depth === 0) {
+      if (char === '.' || char === '@') return null;
+      name.lastIndex = index;
+      const match = name.exec(source);
+      if (match) {
+        // An alias ("alias: field") names the field that follows it
+        if (!match[1]) fields.push(match[0]);
+        index = name.lastIndex - 1;
+      }
+    }
+  }
+
+  if (source[index] !== '}' || source.slice(index + 1).trim() || fields.length === 0) return null;
+  return { type, fields };
+}
+
+/**
+ * The role a gateway caller needs for this call, or null when the operation
+ * is not on the vendor's allowlist at all. Members get the provisioning calls
+ * the platform modules make; managing teams, groups and shares is for owners
+ * and admins.
+ */
+export function gatewayOperationAccess(
+  platformId: string,
+  action: PlatformGatewayAction,
+  payload: PlatformGatewayPayload,
+  config: VendorConfig
+): GatewayAccess | null {
+  const vendor = findVendor(platformId);
+  if (!vendor) return null;
+
+  if (action === 'graphql') {
+    const { query } = payload as PlatformGraphQLRequest;
+    const root = typeof query === 'string' ? graphqlRootFields(query) : null;
+    if (!root || !vendor.graphqlFields) return null;
+    const access = root.fields.map(field => vendor.graphqlFields?.[`${root.type}.${field}`]);
+    if (access.some(entry => !entry)) return null;
+    return access.includes('admin') ? 'admin' : 'member';
+  }
+
+  const { method, path } = payload as PlatformHttpRequest;
+  if (typeof path !== 'string') return null;
+  const allowed = vendor.operations?.(config)
+    .find(entry => entry.method === method && entry.path.test(path));
+  return allowed ? allowed.access : null;
+}
+
+const failure = (status: number, error: string): PlatformResponse => ({
+  success: false,
+  error,
+  details: { status }
+});
+
+function buildUrl(baseUrl: string, request: PlatformHttpRequest): string | null {
+  if (typeof request.path !== 'string' || !request.path.startsWith('/') || request.path.includes('..')) {
+    return null;
+  }
+
+  const base = baseUrl.replace(/\/+$/, '');
+  let url: URL;
+  try {
+    url = new URL(`${base}${request.path}`);
+  } catch {
+    return null;
+  }
+  // The caller picks the path only and cannot leave the base URL. The host
+  // itself comes from the config passed in, which the gateway vets with
+  // applyConfigOverride before any stored credentials are added, and the
+  // gateway only forwards paths gatewayOperationAccess allows.
+  if (!url.href.startsWith(`${base}/`)) return null;
+
+  for (const [key, value] of Object.entries(request.query || {})) {
+    if (value !== undefined && value !== '') url.searchParams.append(key, String(value));
+  }
+  return url.href;
+}
+
+/**
+ * Perform one vendor call with the given config. Failures come back as a
+ * PlatformResponse whose details.status carries the HTTP status (0 when the
+ * vendor could not be reached) so clients can map them to their own errors.
+ */
+export async function executePlatformRequest(
+  platformId: string,
+  action: PlatformGatewayAction,
+  payload: PlatformGatewayPayload,
+  config: VendorConfig,
+  options: { fetch?: typeof fetch; timeoutMs?: number } = {}
+): Promise<PlatformResponse> {
+  const vendor = findVendor(platformId);
+  if (!vendor) {
+    return failure(400, `Platform ${platformId} is not available through the gateway`);
+  }
+
+  const baseUrl = vendor.baseUrl(config);
+  if (!baseUrl) {
+    return failure(400, `Platform ${platformId} has no API URL configured`);
+  }
+
+  let request: PlatformHttpRequest;
+  if (action === 'graphql') {
+    if (!vendor.graphqlPath) {
+      return failure(400, `Platform ${platformId} does not support GraphQL`);
+    }
+    const { query, variables } = payload as PlatformGraphQLRequest;
+    request = { method: 'POST', path: vendor.graphqlPath, body: { query, variables } };
+  } else {
+    request = payload as PlatformHttpRequest;
+  }
+
+  const url = buildUrl(baseUrl, request);
+  if (!url) {
+    return failure(400, `Invalid request path for ${platformId}`);
+  }
+
+  const fetchImpl = options.fetch || fetch.bind(globalThis);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs || 30000);
+
+  let response: Response;
+  try {
+    response = await fetchImpl(url, {
+      method: request.method,
+      headers: {
+        ...vendor.headers(config),
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      body: request.body === undefined || request.method === 'GET' ? undefined : JSON.stringify(request.body),
+      signal: controller.signal
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return failure(0, `${platformId} request timeout`);
+    }
+    return failure(0, `Network error reaching ${platformId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const text = await response.text();
+  let data: unknown = undefined;
+  if (text) {
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = text;
+    }
+  }
+
+  if (!response.ok) {
+    const body = (data && typeof data === 'object' ? data : {}) as { error?: unknown; message?: unknown; error_message?: unknown };
+    const detail = str(body.error) || str(body.message) || str(body.error_message)
+      || (typeof data === 'string' ? data : response.statusText);
+    return failure(response.status, detail || `HTTP ${response.status}`);
+  }
+
+  return { success: true, data };
+}
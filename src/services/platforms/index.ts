@@ -1,2 +1,4 @@
-// Export platforms from service factory to maintain consistent API
-export { platforms } from '../serviceFactory';
\ No newline at end of file
+// Platform modules describe themselves in manifests (src/modules/**/*.manifest.ts)
+// and are loaded on demand through the registry
+export { PlatformRegistryService } from '../PlatformRegistry';
+export type { PlatformModuleManifest } from '../../types/platform.types';
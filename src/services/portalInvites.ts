@@ -0,0 +1,107 @@
+// Signed invite links for the freelancer self-service portal. The token names
+// the freelancer and carries a nonce that is also stored on the freelancer, so
+// sending a new invite retires the old link. Signed and checked by the portal
+// function; the app only passes tokens along.
+
+export interface PortalInvite {
+  organizationId: string;
+  freelancerId: string;
+  nonce: string;
+  // Unix milliseconds after which the link is refused
+  expiresAt: number;
+}
+
+// Details a freelancer can fill in on the portal
+export interface PortalDetails {
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  username: string;
+  acceptTerms: boolean;
+}
+
+export interface PortalPlatformAccess {
+  platformId: string;
+  name: string;
+  status: 'active' | 'inactive' | 'pending' | 'error';
+}
+
+// What the portal shows for a valid invite
+export interface PortalView {
+  organization: {
+    name: string;
+    branding: {
+      company_name?: string;
+      logo_url?: string | null;
+      colors?: { primary?: string; secondary?: string; accent?: string };
+    } | null;
+  };
+  freelancer: {
+    email: string;
+    firstName: string;
+    lastName: string;
+    phone: string | null;
+    username: string | null;
+  };
+  terms: string;
+  completedAt: string | null;
+  termsAcceptedAt: string | null;
+  platforms: PortalPlatformAccess[];
+}
+
+export const PORTAL_PATH = '/portal';
+
+export const PORTAL_INVITE_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+export const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{2,31}$/;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+async function signingKey(secret: string): Promise<CryptoKey> {
+  // Domain-separated so the vault master key is never used directly
+  const material = await crypto.subtle.digest('SHA-256', encoder.encode(`freelancer-portal-invite:${secret}`));
+  return crypto.subtle.importKey('raw', material, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+export const createInviteNonce = () => toBase64Url(crypto.getRandomValues(new Uint8Array(16)));
+
+export async function signPortalInvite(
+  secret: string,
+  invite: Omit<PortalInvite, 'expiresAt'>,
+  now = Date.now()
+): Promise<string> {
+  const payload: PortalInvite = { ...invite, expiresAt: now + PORTAL_INVITE_TTL_MS };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(secret), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Returns null for tampered, malformed or expired tokens
+export async function verifyPortalInvite(secret: string, token: string, now = Date.now()): Promise<PortalInvite | null> {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await signingKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as PortalInvite;
+    return payload.expiresAt > now ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+export const portalInviteUrl = (origin: string, token: string) =>
+  `${origin}${PORTAL_PATH}?invite=${encodeURIComponent(token)}`;
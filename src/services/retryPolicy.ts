@@ -0,0 +1,60 @@
+import type { PlatformRetryPolicy } from '../types/platform.types';
+
+export const DEFAULT_RETRY_POLICY: PlatformRetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 2000,
+  maxDelayMs: 60000,
+  backoffMultiplier: 2,
+  // Phrases only; bare numbers would match ids or wrapped text, so statuses are matched separately
+  retryableErrors: [
+    'timeout',
+    'timed out',
+    'network',
+    'failed to fetch',
+    'econnreset',
+    'econnrefused',
+    'etimedout',
+    'rate limit',
+    'too many requests',
+  ],
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+};
+
+// A platform's retryable errors and statuses add to the defaults rather than replacing them
+export function resolveRetryPolicy(policy?: Partial<PlatformRetryPolicy>): PlatformRetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...policy,
+    maxAttempts: Math.max(1, policy?.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts),
+    retryableErrors: Array.from(new Set([...DEFAULT_RETRY_POLICY.retryableErrors, ...(policy?.retryableErrors || [])])),
+    retryableStatusCodes: Array.from(new Set([
+      ...DEFAULT_RETRY_POLICY.retryableStatusCodes,
+      ...(policy?.retryableStatusCodes || []),
+    ])),
+  };
+}
+
+// "Parsec API error 503: ...", "Monday.com API error: 429 - ...", "status 502"
+const STATUS_PATTERN = /\b(?:error|status)\b:?\s*(\d{3})\b/gi;
+
+export function errorStatusCodes(message: string): number[] {
+  return Array.from(message.matchAll(STATUS_PATTERN), match => Number(match[1]));
+}
+
+export function isRetryableError(message: string, policy: PlatformRetryPolicy): boolean {
+  const statuses = errorStatusCodes(message);
+  if (statuses.length > 0) {
+    // The innermost (last) status is the vendor's answer; wrappers come first
+    return policy.retryableStatusCodes.includes(statuses[statuses.length - 1]);
+  }
+
+  const normalized = message.toLowerCase();
+  return policy.retryableErrors.some(pattern => normalized.includes(pattern.toLowerCase()));
+}
+
+// Delay before the given attempt number (attempt 2 is the first retry)
+export function getRetryDelay(attempt: number, policy: PlatformRetryPolicy): number {
+  const exponent = Math.max(0, attempt - 2);
+  const delay = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, exponent);
+  return Math.min(delay, policy.maxDelayMs);
+}
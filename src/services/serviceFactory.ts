@@ -1,6 +1,5 @@
 import { config, debugLog } from '../config/environment';
 import { mockSupabase } from '../mock/supabase';
-import { mockPlatforms } from '../mock/platforms';
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '../types/database.types';
 
@@ -29,9 +28,6 @@ if (!config.USE_MOCK_DATA) {
   }
 }
 
-// Real platforms will be loaded here when available
-let realPlatforms: any = null;
-
 // Service factory that returns appropriate service based on configuration
 export const getSupabaseClient = () => {
   const useMock = config.USE_MOCK_DATA || (window as any).__FORCE_MOCK_DATA === true;
@@ -54,21 +50,8 @@ export const getSupabaseClient = () => {
   return realSupabase;
 };
 
-export const getPlatformServices = () => {
-  const useMock = config.USE_MOCK_DATA || (window as any).__FORCE_MOCK_DATA === true;
-  
-  if (useMock || !realPlatforms) {
-    debugLog('Using mock platform services');
-    return mockPlatforms;
-  }
-  
-  debugLog('Using real platform services');
-  return realPlatforms;
-};
-
 // Export the chosen services
 export const supabase = getSupabaseClient();
-export const platforms = getPlatformServices();
 
 // Export a function to check if we're using real services
 export const isUsingRealSupabase = () => {
@@ -163,6 +163,23 @@ export interface Database {
           created_by: string
           status: 'active' | 'inactive' | 'pending'
           metadata?: Json
+          expires_at?: string | null
+          expiry_reminder_sent_at?: string | null
+          portal_invite_nonce?: string | null
+          portal_invited_at?: string | null
+          portal_completed_at?: string | null
+          terms_accepted_at?: string | null
+          phone?: string | null
+          skills?: string[]
+          rate_amount?: number | null
+          rate_unit?: 'hour' | 'day' | null
+          rate_currency?: string | null
+          timezone?: string | null
+          location?: string | null
+          contract_start?: string | null
+          contract_end?: string | null
+          manager_id?: string | null
+          custom_fields?: Json
         }
         Insert: {
           id?: string
@@ -176,6 +193,23 @@ export interface Database {
           created_by: string
           status?: 'active' | 'inactive' | 'pending'
           metadata?: Json
+          expires_at?: string | null
+          expiry_reminder_sent_at?: string | null
+          portal_invite_nonce?: string | null
+          portal_invited_at?: string | null
+          portal_completed_at?: string | null
+          terms_accepted_at?: string | null
+          phone?: string | null
+          skills?: string[]
+          rate_amount?: number | null
+          rate_unit?: 'hour' | 'day' | null
+          rate_currency?: string | null
+          timezone?: string | null
+          location?: string | null
+          contract_start?: string | null
+          contract_end?: string | null
+          manager_id?: string | null
+          custom_fields?: Json
         }
         Update: {
           id?: string
@@ -189,6 +223,23 @@ export interface Database {
           created_by?: string
           status?: 'active' | 'inactive' | 'pending'
           metadata?: Json
+          expires_at?: string | null
+          expiry_reminder_sent_at?: string | null
+          portal_invite_nonce?: string | null
+          portal_invited_at?: string | null
+          portal_completed_at?: string | null
+          terms_accepted_at?: string | null
+          phone?: string | null
+          skills?: string[]
+          rate_amount?: number | null
+          rate_unit?: 'hour' | 'day' | null
+          rate_currency?: string | null
+          timezone?: string | null
+          location?: string | null
+          contract_start?: string | null
+          contract_end?: string | null
+          manager_id?: string | null
+          custom_fields?: Json
         }
       }
       freelancer_platforms: {
@@ -203,7 +254,10 @@ export interface Database {
           sync_status?: Json
           platform_metadata?: Json
           provisioned_at?: string | null
+          deprovisioned_at?: string | null
           last_sync_at?: string | null
+          expires_at?: string | null
+          expiry_reminder_sent_at?: string | null
         }
         Insert: {
           id?: string
@@ -216,7 +270,10 @@ export interface Database {
           sync_status?: Json
           platform_metadata?: Json
           provisioned_at?: string | null
+          deprovisioned_at?: string | null
           last_sync_at?: string | null
+          expires_at?: string | null
+          expiry_reminder_sent_at?: string | null
         }
         Update: {
           id?: string
@@ -229,7 +286,10 @@ export interface Database {
           sync_status?: Json
           platform_metadata?: Json
           provisioned_at?: string | null
+          deprovisioned_at?: string | null
           last_sync_at?: string | null
+          expires_at?: string | null
+          expiry_reminder_sent_at?: string | null
         }
       }
       audit_logs: {
@@ -270,6 +330,446 @@ export interface Database {
           created_at?: string
         }
       }
+      onboarding_templates: {
+        Row: {
+          id: string
+          organization_id: string
+          name: string
+          description?: string | null
+          platforms: Json
+          created_by: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          name: string
+          description?: string | null
+          platforms?: Json
+          created_by: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          name?: string
+          description?: string | null
+          platforms?: Json
+          created_by?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      notifications: {
+        Row: {
+          id: string
+          organization_id: string
+          type: string
+          recipient_email: string
+          recipient_user_id?: string | null
+          subject: string
+          body: string
+          entity_type?: string | null
+          entity_id?: string | null
+          status: 'pending' | 'sending' | 'sent' | 'failed'
+          attempts?: number
+          last_error?: string | null
+          sent_at?: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          type: string
+          recipient_email: string
+          recipient_user_id?: string | null
+          subject: string
+          body: string
+          entity_type?: string | null
+          entity_id?: string | null
+          status?: 'pending' | 'sending' | 'sent' | 'failed'
+          attempts?: number
+          last_error?: string | null
+          sent_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          type?: string
+          recipient_email?: string
+          recipient_user_id?: string | null
+          subject?: string
+          body?: string
+          entity_type?: string | null
+          entity_id?: string | null
+          status?: 'pending' | 'sending' | 'sent' | 'failed'
+          attempts?: number
+          last_error?: string | null
+          sent_at?: string | null
+          created_at?: string
+        }
+      }
+      onboarding_jobs: {
+        Row: {
+          id: string
+          organization_id: string
+          freelancer_id: string
+          created_by: string
+          status: 'queued' | 'running' | 'held' | 'completed' | 'failed' | 'cancelled'
+          total_steps: number
+          lease_expires_at?: string | null
+          last_error?: string | null
+          started_at?: string | null
+          completed_at?: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          freelancer_id: string
+          created_by: string
+          status?: 'queued' | 'running' | 'held' | 'completed' | 'failed' | 'cancelled'
+          total_steps?: number
+          lease_expires_at?: string | null
+          last_error?: string | null
+          started_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          freelancer_id?: string
+          created_by?: string
+          status?: 'queued' | 'running' | 'held' | 'completed' | 'failed' | 'cancelled'
+          total_steps?: number
+          lease_expires_at?: string | null
+          last_error?: string | null
+          started_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      onboarding_job_steps: {
+        Row: {
+          id: string
+          job_id: string
+          platform_id: string
+          position: number
+          status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'dead_letter'
+          attempts: number
+          options?: Json
+          result?: Json
+          last_error?: string | null
+          error_history?: Json
+          next_attempt_at?: string | null
+          freelancer_platform_id?: string | null
+          started_at?: string | null
+          completed_at?: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          platform_id: string
+          position?: number
+          status?: 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'dead_letter'
+          attempts?: number
+          options?: Json
+          result?: Json
+          last_error?: string | null
+          error_history?: Json
+          next_attempt_at?: string | null
+          freelancer_platform_id?: string | null
+          started_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          platform_id?: string
+          position?: number
+          status?: 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'dead_letter'
+          attempts?: number
+          options?: Json
+          result?: Json
+          last_error?: string | null
+          error_history?: Json
+          next_attempt_at?: string | null
+          freelancer_platform_id?: string | null
+          started_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      platform_activity: {
+        Row: {
+          id: string
+          organization_id: string
+          freelancer_id: string
+          freelancer_platform_id?: string | null
+          platform_id: string
+          external_id: string
+          action: string
+          details?: Json
+          occurred_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          freelancer_id: string
+          freelancer_platform_id?: string | null
+          platform_id: string
+          external_id: string
+          action: string
+          details?: Json
+          occurred_at: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          freelancer_id?: string
+          freelancer_platform_id?: string | null
+          platform_id?: string
+          external_id?: string
+          action?: string
+          details?: Json
+          occurred_at?: string
+          created_at?: string
+        }
+      }
+      document_requirements: {
+        Row: {
+          id: string
+          organization_id: string
+          name: string
+          description?: string | null
+          kind: string
+          is_required: boolean
+          blocks_provisioning: boolean
+          valid_for_days?: number | null
+          created_by: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          name: string
+          description?: string | null
+          kind?: string
+          is_required?: boolean
+          blocks_provisioning?: boolean
+          valid_for_days?: number | null
+          created_by: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          name?: string
+          description?: string | null
+          kind?: string
+          is_required?: boolean
+          blocks_provisioning?: boolean
+          valid_for_days?: number | null
+          created_by?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      freelancer_documents: {
+        Row: {
+          id: string
+          organization_id: string
+          freelancer_id: string
+          requirement_id: string
+          status: 'requested' | 'submitted' | 'approved' | 'expired'
+          file_path?: string | null
+          file_name?: string | null
+          requested_at: string
+          submitted_at?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          review_notes?: string | null
+          expires_at?: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          freelancer_id: string
+          requirement_id: string
+          status?: 'requested' | 'submitted' | 'approved' | 'expired'
+          file_path?: string | null
+          file_name?: string | null
+          requested_at?: string
+          submitted_at?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          review_notes?: string | null
+          expires_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          freelancer_id?: string
+          requirement_id?: string
+          status?: 'requested' | 'submitted' | 'approved' | 'expired'
+          file_path?: string | null
+          file_name?: string | null
+          requested_at?: string
+          submitted_at?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          review_notes?: string | null
+          expires_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      custom_field_definitions: {
+        Row: {
+          id: string
+          organization_id: string
+          key: string
+          label: string
+          field_type: 'text' | 'number' | 'date' | 'select' | 'boolean' | 'url' | 'email'
+          options: string[]
+          is_required: boolean
+          pattern?: string | null
+          min_value?: number | null
+          max_value?: number | null
+          position: number
+          created_by: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          key: string
+          label: string
+          field_type?: 'text' | 'number' | 'date' | 'select' | 'boolean' | 'url' | 'email'
+          options?: string[]
+          is_required?: boolean
+          pattern?: string | null
+          min_value?: number | null
+          max_value?: number | null
+          position?: number
+          created_by: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          key?: string
+          label?: string
+          field_type?: 'text' | 'number' | 'date' | 'select' | 'boolean' | 'url' | 'email'
+          options?: string[]
+          is_required?: boolean
+          pattern?: string | null
+          min_value?: number | null
+          max_value?: number | null
+          position?: number
+          created_by?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      approval_requests: {
+        Row: {
+          id: string
+          organization_id: string
+          freelancer_id: string
+          platform_id: string
+          step_options: Json
+          status: 'pending' | 'approved' | 'rejected'
+          requested_by: string
+          decided_by?: string | null
+          decided_at?: string | null
+          decision_comment?: string | null
+          job_id?: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          freelancer_id: string
+          platform_id: string
+          step_options?: Json
+          status?: 'pending' | 'approved' | 'rejected'
+          requested_by: string
+          decided_by?: string | null
+          decided_at?: string | null
+          decision_comment?: string | null
+          job_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          freelancer_id?: string
+          platform_id?: string
+          step_options?: Json
+          status?: 'pending' | 'approved' | 'rejected'
+          requested_by?: string
+          decided_by?: string | null
+          decided_at?: string | null
+          decision_comment?: string | null
+          job_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      saved_freelancer_views: {
+        Row: {
+          id: string
+          organization_id: string
+          user_id: string
+          name: string
+          query: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          user_id: string
+          name: string
+          query?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          user_id?: string
+          name?: string
+          query?: Json
+          created_at?: string
+          updated_at?: string
+        }
+      }
     }
     Views: {
       freelancer_platform_overview: {
@@ -301,15 +801,34 @@ export interface Database {
       search_freelancers: {
         Args: {
           org_id: string
-          search_term: string
+          search_term?: string | null
+          status_filter?: 'active' | 'inactive' | 'pending' | 'error' | null
+          platform_filter?: string | null
+          grant_status_filter?: 'active' | 'inactive' | 'pending' | 'error' | null
+          tag_filter?: string | null
+          created_by_filter?: string | null
+          manager_filter?: string | null
+          without_manager?: boolean
+          created_from?: string | null
+          created_to?: string | null
+          custom_field_key?: string | null
+          custom_field_value?: string | null
+          sort_by?: string
+          sort_dir?: string
+          page_limit?: number
+          page_offset?: number
         }
         Returns: {
-          id: string
-          email: string
-          first_name: string
-          last_name: string
-          status: string
-          created_at: string
+          freelancer: Database['public']['Tables']['freelancers']['Row']
+          total_count: number
+        }[]
+      }
+      freelancer_skills: {
+        Args: {
+          org_id: string
+        }
+        Returns: {
+          skill: string
         }[]
       }
     }
@@ -318,6 +837,12 @@ export interface Database {
       platform_category: 'screen-sharing' | 'file-sharing' | 'collaboration' | 'communication'
       subscription_tier: 'free' | 'starter' | 'pro' | 'enterprise'
       status: 'active' | 'inactive' | 'pending' | 'error'
+      onboarding_job_status: 'queued' | 'running' | 'held' | 'completed' | 'failed' | 'cancelled'
+      onboarding_step_status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'dead_letter'
+      document_status: 'requested' | 'submitted' | 'approved' | 'expired'
+      approval_status: 'pending' | 'approved' | 'rejected'
+      rate_unit: 'hour' | 'day'
+      custom_field_type: 'text' | 'number' | 'date' | 'select' | 'boolean' | 'url' | 'email'
     }
   }
 }
@@ -334,6 +859,22 @@ export type Platform = Database['public']['Tables']['platforms']['Row']
 export type Freelancer = Database['public']['Tables']['freelancers']['Row']
 export type FreelancerPlatform = Database['public']['Tables']['freelancer_platforms']['Row']
 export type AuditLog = Database['public']['Tables']['audit_logs']['Row']
+export type OnboardingTemplate = Database['public']['Tables']['onboarding_templates']['Row']
+export type Notification = Database['public']['Tables']['notifications']['Row']
+export type OnboardingJob = Database['public']['Tables']['onboarding_jobs']['Row']
+export type OnboardingJobStep = Database['public']['Tables']['onboarding_job_steps']['Row']
+export type OnboardingJobStatus = Database['public']['Enums']['onboarding_job_status']
+export type OnboardingStepStatus = Database['public']['Enums']['onboarding_step_status']
+export type PlatformActivity = Database['public']['Tables']['platform_activity']['Row']
+export type DocumentRequirement = Database['public']['Tables']['document_requirements']['Row']
+export type FreelancerDocument = Database['public']['Tables']['freelancer_documents']['Row']
+export type DocumentStatus = Database['public']['Enums']['document_status']
+export type ApprovalRequest = Database['public']['Tables']['approval_requests']['Row']
+export type ApprovalStatus = Database['public']['Enums']['approval_status']
+export type CustomFieldDefinition = Database['public']['Tables']['custom_field_definitions']['Row']
+export type CustomFieldType = Database['public']['Enums']['custom_field_type']
+export type RateUnit = Database['public']['Enums']['rate_unit']
+export type SavedFreelancerView = Database['public']['Tables']['saved_freelancer_views']['Row']
 
 // Insert types
 export type OrganizationInsert = Database['public']['Tables']['organizations']['Insert']
@@ -342,6 +883,16 @@ export type PlatformInsert = Database['public']['Tables']['platforms']['Insert']
 export type FreelancerInsert = Database['public']['Tables']['freelancers']['Insert']
 export type FreelancerPlatformInsert = Database['public']['Tables']['freelancer_platforms']['Insert']
 export type AuditLogInsert = Database['public']['Tables']['audit_logs']['Insert']
+export type OnboardingTemplateInsert = Database['public']['Tables']['onboarding_templates']['Insert']
+export type NotificationInsert = Database['public']['Tables']['notifications']['Insert']
+export type OnboardingJobInsert = Database['public']['Tables']['onboarding_jobs']['Insert']
+export type OnboardingJobStepInsert = Database['public']['Tables']['onboarding_job_steps']['Insert']
+export type PlatformActivityInsert = Database['public']['Tables']['platform_activity']['Insert']
+export type DocumentRequirementInsert = Database['public']['Tables']['document_requirements']['Insert']
+export type FreelancerDocumentInsert = Database['public']['Tables']['freelancer_documents']['Insert']
+export type ApprovalRequestInsert = Database['public']['Tables']['approval_requests']['Insert']
+export type CustomFieldDefinitionInsert = Database['public']['Tables']['custom_field_definitions']['Insert']
+export type SavedFreelancerViewInsert = Database['public']['Tables']['saved_freelancer_views']['Insert']
 
 // Update types
 export type OrganizationUpdate = Database['public']['Tables']['organizations']['Update']
@@ -349,4 +900,13 @@ export type UserUpdate = Database['public']['Tables']['users']['Update']
 export type PlatformUpdate = Database['public']['Tables']['platforms']['Update']
 export type FreelancerUpdate = Database['public']['Tables']['freelancers']['Update']
 export type FreelancerPlatformUpdate = Database['public']['Tables']['freelancer_platforms']['Update']
-export type AuditLogUpdate = Database['public']['Tables']['audit_logs']['Update']
\ No newline at end of file
+export type AuditLogUpdate = Database['public']['Tables']['audit_logs']['Update']
+export type OnboardingTemplateUpdate = Database['public']['Tables']['onboarding_templates']['Update']
+export type NotificationUpdate = Database['public']['Tables']['notifications']['Update']
+export type OnboardingJobUpdate = Database['public']['Tables']['onboarding_jobs']['Update']
+export type OnboardingJobStepUpdate = Database['public']['Tables']['onboarding_job_steps']['Update']
+export type DocumentRequirementUpdate = Database['public']['Tables']['document_requirements']['Update']
+export type FreelancerDocumentUpdate = Database['public']['Tables']['freelancer_documents']['Update']
+export type ApprovalRequestUpdate = Database['public']['Tables']['approval_requests']['Update']
+export type CustomFieldDefinitionUpdate = Database['public']['Tables']['custom_field_definitions']['Update']
+export type SavedFreelancerViewUpdate = Database['public']['Tables']['saved_freelancer_views']['Update']
\ No newline at end of file
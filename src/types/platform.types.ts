@@ -21,6 +21,8 @@ export interface PlatformUser {
   metadata?: Record<string, any>;
   requiresManualInvitation?: boolean;
   invitationInstructions?: string;
+  // Password the platform generated for a new account; returned once, never stored
+  initialPassword?: string;
 }
 
 export interface PlatformConfig {
@@ -28,6 +30,7 @@ export interface PlatformConfig {
   apiSecret?: string;
   apiToken?: string;
   workspaceId?: string;
+  teamId?: string;
   baseUrl?: string;
   organizationId?: string;
   accountId?: string;
@@ -48,6 +51,8 @@ export interface PlatformCredentials {
   fullName?: string;
   role?: string;
   permissions?: string[];
+  // Platform group IDs the new user is added to after provisioning
+  groups?: string[];
   metadata?: Record<string, any>;
 }
 
@@ -81,6 +86,23 @@ export enum PlatformCapability {
   TEAM_COLLABORATION = 'team_collaboration',
   ACCESS_CONTROL = 'access_control',
   AUDIT_LOGGING = 'audit_logging',
+  PROJECT_MANAGEMENT = 'project_management',
+  // Backed by optional IPlatformModule methods; see services/platformCapabilities
+  ROLE_MANAGEMENT = 'role_management',
+  PASSWORD_RESET = 'password_reset',
+  USER_SYNC = 'user_sync',
+}
+
+// Retry behaviour for provisioning calls, applied by the onboarding job engine
+export interface PlatformRetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+  // Case-insensitive phrases that mark an error message as transient
+  retryableErrors: string[];
+  // HTTP statuses that mark an error as transient, read from "error 503" / "status: 429"
+  retryableStatusCodes: number[];
 }
 
 export interface PlatformMetadata {
@@ -95,10 +117,56 @@ export interface PlatformMetadata {
   documentation?: string;
   documentationUrl?: string;
   features: string[];
-  capabilities?: string[];
+  capabilities?: PlatformCapability[];
   requiredFields: string[];
   optionalFields?: string[];
   configSchema?: any; // Zod schema for configuration validation
+  retryPolicy?: Partial<PlatformRetryPolicy>;
+  supportsOAuth?: boolean; // Can connect through the vendor's OAuth consent flow
+  version?: string;
+}
+
+// Describes a platform module without loading it. The registry discovers
+// manifests (src/modules/**/*.manifest.ts) at build time and only imports the
+// module itself when it is first needed.
+export interface PlatformModuleManifest {
+  id: string;
+  displayName: string;
+  version: string;
+  category: PlatformCategory;
+  capabilities: PlatformCapability[];
+  configSchema?: PlatformMetadata['configSchema'];
+  load(): Promise<IPlatformModule>;
+}
+
+export interface PlatformGroup {
+  id: string;
+  name: string;
+  description?: string;
+  memberCount?: number;
+}
+
+// Groups or teams on the platform, exposed as IPlatformModule.groups by
+// modules that declare GROUP_MANAGEMENT
+export interface PlatformGroupManager {
+  listGroups(): Promise<PlatformResponse<PlatformGroup[]>>;
+  createGroup(name: string, description?: string): Promise<PlatformResponse<PlatformGroup>>;
+  addMember(userId: string, groupId: string): Promise<PlatformResponse>;
+  removeMember(userId: string, groupId: string): Promise<PlatformResponse>;
+}
+
+// One thing a user did on a platform, as reported by getActivity
+export interface PlatformActivityEvent {
+  id: string; // Stable platform-side ID, used to de-duplicate repeated syncs
+  userId: string;
+  action: string;
+  occurredAt: Date;
+  details?: Record<string, unknown>;
+}
+
+export interface PlatformActivityRange {
+  from: Date;
+  to: Date;
 }
 
 // Main platform module interface that all platforms must implement
@@ -121,6 +189,9 @@ export interface IPlatformModule {
   resetPassword?(userId: string): Promise<PlatformResponse>;
   assignRole?(userId: string, role: string): Promise<PlatformResponse>;
   assignPermissions?(userId: string, permissions: string[]): Promise<PlatformResponse>;
+  suspendUser?(userId: string): Promise<PlatformResponse>;
+  getActivity?(userId: string, range: PlatformActivityRange): Promise<PlatformResponse<PlatformActivityEvent[]>>;
+  groups?: PlatformGroupManager;
   
   // Configuration
   validateConfig(config: PlatformConfig): boolean;
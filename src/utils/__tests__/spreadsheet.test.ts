@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv } from '../spreadsheet';
+
+describe('parseCsv', () => {
+  it('numbers rows by the line they start on, past blank lines and quoted newlines', () => {
+    const text = 'email,notes\r\n\r\nann@example.com,"two\r\nlines"\r\n,\r\nbo@example.com,ok\r\n';
+
+    expect(parseCsv(text)).toEqual([
+      { rowNumber: 1, cells: ['email', 'notes'] },
+      { rowNumber: 3, cells: ['ann@example.com', 'two\r\nlines'] },
+      { rowNumber: 6, cells: ['bo@example.com', 'ok'] }
+    ]);
+  });
+});
@@ -0,0 +1,12 @@
+// Helpers for <input type="date">, which works in local calendar days
+
+export function toDateInputValue(iso: string): string {
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+// End dates are inclusive, so store the last moment of the chosen day
+export function fromDateInputValue(value: string): string {
+  return new Date(`${value}T23:59:59`).toISOString();
+}
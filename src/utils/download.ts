@@ -0,0 +1,44 @@
+/**
+ * File export helpers shared by reports and evidence exports
+ */
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  // Numbers are left alone so negative amounts stay numeric
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: Array<Record<string, CsvValue>>, columns?: string[]): string {
+  const headers = columns || Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const lines = [
+    headers.map(escapeCsvValue).join(','),
+    ...rows.map(row => headers.map(header => escapeCsvValue(row[header])).join(','))
+  ];
+  return lines.join('\n');
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string = 'text/plain'): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function downloadCsv(filename: string, rows: Array<Record<string, CsvValue>>, columns?: string[]): void {
+  downloadFile(filename, toCsv(rows, columns), 'text/csv');
+}
+
+export function downloadJson(filename: string, data: unknown): void {
+  downloadFile(filename, JSON.stringify(data, null, 2), 'application/json');
+}
@@ -0,0 +1,239 @@
+// Minimal CSV and XLSX readers for import wizards. XLSX files are zip
+// archives of XML, so they are unpacked with the browser's
+// DecompressionStream and parsed with DOMParser rather than a library.
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+  // Row each data row came from as the spreadsheet numbers it, so messages
+  // still point at the right place when blank rows were skipped
+  rowNumbers: number[];
+}
+
+// A non-blank row and the 1-based line or sheet row it starts on
+export interface SpreadsheetRow {
+  rowNumber: number;
+  cells: string[];
+}
+
+const withoutBlankRows = (rows: SpreadsheetRow[]) =>
+  rows.filter(row => row.cells.some(cell => cell.trim() !== ''));
+
+// RFC 4180 parsing: quoted fields, escaped quotes and newlines inside quotes
+export function parseCsv(text: string): SpreadsheetRow[] {
+  const rows: SpreadsheetRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ rowNumber: rowStart, cells: row });
+      row = [];
+      field = '';
+      rowStart = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push({ rowNumber: rowStart, cells: row });
+  }
+
+  return withoutBlankRows(rows);
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipEntries(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer);
+
+  // The end of central directory record sits in the last 64KB + 22 bytes
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a valid XLSX file');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+
+    entries.push({
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      name: decoder.decode(new Uint8Array(buffer, offset + 46, nameLength))
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipEntry(buffer: ArrayBuffer, entry: ZipEntry): Promise<string> {
+  const view = new DataView(buffer);
+  const nameLength = view.getUint16(entry.localHeaderOffset + 26, true);
+  const extraLength = view.getUint16(entry.localHeaderOffset + 28, true);
+  const start = entry.localHeaderOffset + 30 + nameLength + extraLength;
+  const data = new Uint8Array(buffer, start, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new Error(`Unsupported compression in ${entry.name}`);
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+// "BC12" -> 54 (zero-based column index)
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// Reads the first worksheet of an XLSX file as rows of strings
+export async function parseXlsx(buffer: ArrayBuffer): Promise<SpreadsheetRow[]> {
+  const entries = readZipEntries(buffer);
+  const find = (name: string) => entries.find(entry => entry.name === name);
+  const parser = new DOMParser();
+  const parseXml = async (entry: ZipEntry) => parser.parseFromString(await readZipEntry(buffer, entry), 'application/xml');
+
+  // Resolve the first sheet through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbookEntry = find('xl/workbook.xml');
+  const relsEntry = find('xl/_rels/workbook.xml.rels');
+  if (workbookEntry && relsEntry) {
+    const firstSheet = (await parseXml(workbookEntry)).getElementsByTagName('sheet')[0];
+    const relId = firstSheet?.getAttribute('r:id');
+    const rel = Array.from((await parseXml(relsEntry)).getElementsByTagName('Relationship'))
+      .find(r => r.getAttribute('Id') === relId);
+    const target = rel?.getAttribute('Target');
+    if (target) {
+      sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  const sheetEntry = find(sheetPath);
+  if (!sheetEntry) {
+    throw new Error('The workbook does not contain a worksheet');
+  }
+
+  const sharedStrings: string[] = [];
+  const sharedEntry = find('xl/sharedStrings.xml');
+  if (sharedEntry) {
+    for (const item of Array.from((await parseXml(sharedEntry)).getElementsByTagName('si'))) {
+      sharedStrings.push(Array.from(item.getElementsByTagName('t')).map(t => t.textContent || '').join(''));
+    }
+  }
+
+  const rows: SpreadsheetRow[] = [];
+  Array.from((await parseXml(sheetEntry)).getElementsByTagName('row')).forEach((rowElement, rowPosition) => {
+    const row: string[] = [];
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent || '';
+
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] || '';
+      } else if (type === 'inlineStr') {
+        text = Array.from(cell.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        text = value;
+      }
+
+      while (row.length < index) row.push('');
+      row[index] = text;
+    });
+    // Empty rows are usually left out of the sheet, so trust r over position
+    const rowNumber = Number(rowElement.getAttribute('r'));
+    rows.push({ rowNumber: Number.isInteger(rowNumber) && rowNumber > 0 ? rowNumber : rowPosition + 1, cells: row });
+  });
+
+  return withoutBlankRows(rows);
+}
+
+// Excel stores dates as days since 1899-12-30
+export function excelSerialToDate(serial: number): Date {
+  return new Date(Math.round((serial - 25569) * 86400 * 1000));
+}
+
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetData> {
+  const isXlsx = /\.xlsx$/i.test(file.name) ||
+    file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+  const rows = isXlsx ? await parseXlsx(await file.arrayBuffer()) : parseCsv(await file.text());
+  if (rows.length === 0) {
+    throw new Error('The file is empty');
+  }
+
+  const [headerRow, ...dataRows] = rows;
+  const headers = headerRow.cells.map((header, index) => header.trim() || `Column ${index + 1}`);
+  return {
+    headers,
+    rows: dataRows.map(row => headers.map((_, index) => (row.cells[index] ?? '').trim())),
+    rowNumbers: dataRows.map(row => row.rowNumber)
+  };
+}
@@ -9,6 +9,12 @@ CREATE TYPE user_role AS ENUM ('owner', 'admin', 'member');
 CREATE TYPE platform_category AS ENUM ('screen-sharing', 'file-sharing', 'collaboration', 'communication');
 CREATE TYPE subscription_tier AS ENUM ('free', 'starter', 'pro', 'enterprise');
 CREATE TYPE status AS ENUM ('active', 'inactive', 'pending', 'error');
+CREATE TYPE onboarding_job_status AS ENUM ('queued', 'running', 'held', 'completed', 'failed', 'cancelled');
+CREATE TYPE onboarding_step_status AS ENUM ('pending', 'running', 'completed', 'failed', 'skipped', 'dead_letter');
+CREATE TYPE document_status AS ENUM ('requested', 'submitted', 'approved', 'expired');
+CREATE TYPE approval_status AS ENUM ('pending', 'approved', 'rejected');
+CREATE TYPE rate_unit AS ENUM ('hour', 'day');
+CREATE TYPE custom_field_type AS ENUM ('text', 'number', 'date', 'select', 'boolean', 'url', 'email');
 
 -- Organizations table
 CREATE TABLE organizations (
@@ -68,11 +74,31 @@ CREATE TABLE freelancers (
     first_name VARCHAR(255) NOT NULL,
     last_name VARCHAR(255) NOT NULL,
     username VARCHAR(100),
+    phone VARCHAR(50),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
     created_by UUID NOT NULL REFERENCES users(id),
     status status DEFAULT 'active',
     metadata JSONB DEFAULT '{}',
+    -- Profile
+    skills TEXT[] DEFAULT '{}',
+    rate_amount NUMERIC(10, 2) CHECK (rate_amount >= 0),
+    rate_unit rate_unit,
+    rate_currency CHAR(3),
+    timezone VARCHAR(64),
+    location VARCHAR(255),
+    contract_start DATE,
+    contract_end DATE CHECK (contract_end IS NULL OR contract_start IS NULL OR contract_end >= contract_start),
+    manager_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    -- Values for the organization's custom_field_definitions, keyed by field key
+    custom_fields JSONB DEFAULT '{}',
+    expires_at TIMESTAMP WITH TIME ZONE,
+    expiry_reminder_sent_at TIMESTAMP WITH TIME ZONE,
+    -- Self-service portal: only the link carrying the latest nonce is accepted
+    portal_invite_nonce VARCHAR(64),
+    portal_invited_at TIMESTAMP WITH TIME ZONE,
+    portal_completed_at TIMESTAMP WITH TIME ZONE,
+    terms_accepted_at TIMESTAMP WITH TIME ZONE,
     UNIQUE(organization_id, email)
 );
 
@@ -87,6 +113,10 @@ CREATE TABLE freelancer_platforms (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
     sync_status JSONB DEFAULT '{}',
     platform_metadata JSONB DEFAULT '{}',
+    expires_at TIMESTAMP WITH TIME ZONE,
+    expiry_reminder_sent_at TIMESTAMP WITH TIME ZONE,
+    provisioned_at TIMESTAMP WITH TIME ZONE,
+    deprovisioned_at TIMESTAMP WITH TIME ZONE,
     UNIQUE(freelancer_id, platform_id)
 );
 
@@ -104,6 +134,203 @@ CREATE TABLE audit_logs (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
 );
 
+-- Onboarding jobs table (one row per onboarding request, survives page reloads)
+CREATE TABLE onboarding_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    freelancer_id UUID NOT NULL REFERENCES freelancers(id) ON DELETE CASCADE,
+    created_by UUID NOT NULL REFERENCES users(id),
+    status onboarding_job_status DEFAULT 'queued',
+    total_steps INTEGER NOT NULL DEFAULT 0,
+    lease_expires_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- Onboarding job steps table (one row per platform within a job)
+CREATE TABLE onboarding_job_steps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    job_id UUID NOT NULL REFERENCES onboarding_jobs(id) ON DELETE CASCADE,
+    platform_id VARCHAR(100) NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    status onboarding_step_status DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    options JSONB DEFAULT '{}',
+    result JSONB DEFAULT '{}',
+    last_error TEXT,
+    error_history JSONB DEFAULT '[]',
+    next_attempt_at TIMESTAMP WITH TIME ZONE,
+    freelancer_platform_id UUID REFERENCES freelancer_platforms(id) ON DELETE SET NULL,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    UNIQUE(job_id, platform_id)
+);
+
+-- Onboarding templates (named platform bundles with per-platform createUser defaults)
+CREATE TABLE onboarding_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    platforms JSONB NOT NULL DEFAULT '[]',
+    created_by UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    UNIQUE(organization_id, name)
+);
+
+-- Notifications outbox (delivered by the mailer, e.g. access expiry reminders)
+CREATE TABLE notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    type VARCHAR(100) NOT NULL,
+    recipient_email VARCHAR(255) NOT NULL,
+    recipient_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    subject VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL,
+    entity_type VARCHAR(100),
+    entity_id UUID,
+    -- pending, sending (claimed by the notification-outbox function), sent or failed
+    status VARCHAR(20) DEFAULT 'pending',
+    attempts INTEGER DEFAULT 0,
+    last_error TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- Per-organization data keys, wrapped with the server-held master key
+-- (CREDENTIAL_MASTER_KEY). Only the service role reads or writes this table.
+CREATE TABLE organization_keys (
+    organization_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+    wrapped_key TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- Encrypted platform credentials. platforms.config only holds a reference
+-- ({ "$secret": true, "setAt", "rotatedAt" }) for each secret field.
+CREATE TABLE platform_secrets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    platform_id VARCHAR(100) NOT NULL,
+    field VARCHAR(100) NOT NULL,
+    ciphertext TEXT NOT NULL,
+    iv TEXT NOT NULL,
+    created_by UUID NOT NULL REFERENCES users(id),
+    rotated_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    rotated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    UNIQUE(organization_id, platform_id, field)
+);
+
+-- Activity ingested from platforms that support activity monitoring, one row
+-- per platform event so repeated syncs are idempotent
+CREATE TABLE platform_activity (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    freelancer_id UUID NOT NULL REFERENCES freelancers(id) ON DELETE CASCADE,
+    freelancer_platform_id UUID REFERENCES freelancer_platforms(id) ON DELETE SET NULL,
+    platform_id VARCHAR(100) NOT NULL,
+    external_id VARCHAR(255) NOT NULL,
+    action VARCHAR(100) NOT NULL,
+    details JSONB DEFAULT '{}',
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    UNIQUE(organization_id, platform_id, external_id)
+);
+
+-- Paperwork an organization collects from freelancers (NDA, W-9/W-8, contracts).
+-- Requirements that block provisioning hold onboarding jobs until approved.
+CREATE TABLE document_requirements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    kind VARCHAR(50) NOT NULL DEFAULT 'other',
+    is_required BOOLEAN DEFAULT true,
+    blocks_provisioning BOOLEAN DEFAULT false,
+    valid_for_days INTEGER,
+    created_by UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    UNIQUE(organization_id, name)
+);
+
+-- One row per freelancer and requirement; files live in the private
+-- freelancer-documents storage bucket under <organization>/<freelancer>/
+CREATE TABLE freelancer_documents (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    freelancer_id UUID NOT NULL REFERENCES freelancers(id) ON DELETE CASCADE,
+    requirement_id UUID NOT NULL REFERENCES document_requirements(id) ON DELETE CASCADE,
+    status document_status DEFAULT 'requested',
+    file_path TEXT,
+    file_name VARCHAR(255),
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    reviewed_by UUID REFERENCES users(id),
+    review_notes TEXT,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    UNIQUE(freelancer_id, requirement_id)
+);
+
+-- Extra freelancer profile fields an organization defines for itself
+CREATE TABLE custom_field_definitions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    key VARCHAR(64) NOT NULL,
+    label VARCHAR(255) NOT NULL,
+    field_type custom_field_type NOT NULL DEFAULT 'text',
+    options TEXT[] DEFAULT '{}',
+    is_required BOOLEAN DEFAULT false,
+    pattern TEXT,
+    min_value NUMERIC,
+    max_value NUMERIC,
+    position INTEGER DEFAULT 0,
+    created_by UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    UNIQUE(organization_id, key)
+);
+
+-- Onboarding to a platform whose config sets requiresApproval waits here for
+-- an admin. Approving starts an onboarding job with the stored step options.
+CREATE TABLE approval_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    freelancer_id UUID NOT NULL REFERENCES freelancers(id) ON DELETE CASCADE,
+    platform_id VARCHAR(100) NOT NULL,
+    step_options JSONB DEFAULT '{}',
+    status approval_status DEFAULT 'pending',
+    requested_by UUID NOT NULL REFERENCES users(id),
+    decided_by UUID REFERENCES users(id),
+    decided_at TIMESTAMP WITH TIME ZONE,
+    decision_comment TEXT,
+    job_id UUID REFERENCES onboarding_jobs(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- Named filter and sort combinations for the freelancer list. Each belongs to
+-- one user; sharing happens through the list URL, which carries the same query.
+CREATE TABLE saved_freelancer_views (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    query JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    UNIQUE(user_id, name)
+);
+
 -- Create indexes for better performance
 CREATE INDEX idx_users_organization ON users(organization_id);
 CREATE INDEX idx_platforms_organization ON platforms(organization_id);
@@ -111,9 +338,30 @@ CREATE INDEX idx_freelancers_organization ON freelancers(organization_id);
 CREATE INDEX idx_freelancers_email ON freelancers(email);
 CREATE INDEX idx_freelancer_platforms_freelancer ON freelancer_platforms(freelancer_id);
 CREATE INDEX idx_freelancer_platforms_platform ON freelancer_platforms(platform_id);
+CREATE INDEX idx_freelancers_expires ON freelancers(expires_at) WHERE expires_at IS NOT NULL;
+CREATE INDEX idx_freelancer_platforms_expires ON freelancer_platforms(expires_at) WHERE expires_at IS NOT NULL;
 CREATE INDEX idx_audit_logs_organization ON audit_logs(organization_id);
 CREATE INDEX idx_audit_logs_entity ON audit_logs(entity_type, entity_id);
 CREATE INDEX idx_audit_logs_created ON audit_logs(created_at DESC);
+CREATE INDEX idx_onboarding_jobs_organization ON onboarding_jobs(organization_id, status);
+CREATE INDEX idx_onboarding_jobs_freelancer ON onboarding_jobs(freelancer_id);
+CREATE INDEX idx_onboarding_job_steps_job ON onboarding_job_steps(job_id, position);
+CREATE INDEX idx_onboarding_templates_organization ON onboarding_templates(organization_id);
+CREATE INDEX idx_notifications_pending ON notifications(status, created_at);
+CREATE INDEX idx_platform_activity_freelancer ON platform_activity(freelancer_id, occurred_at DESC);
+CREATE INDEX idx_platform_activity_grant ON platform_activity(freelancer_platform_id, occurred_at DESC);
+CREATE INDEX idx_document_requirements_organization ON document_requirements(organization_id);
+CREATE INDEX idx_freelancer_documents_freelancer ON freelancer_documents(freelancer_id);
+CREATE INDEX idx_freelancers_skills ON freelancers USING GIN (skills);
+CREATE INDEX idx_freelancers_manager ON freelancers(manager_id) WHERE manager_id IS NOT NULL;
+CREATE INDEX idx_freelancers_organization_created ON freelancers(organization_id, created_at DESC);
+CREATE INDEX idx_freelancers_created_by ON freelancers(created_by);
+CREATE INDEX idx_freelancer_platforms_status ON freelancer_platforms(platform_id, status);
+CREATE INDEX idx_custom_field_definitions_organization ON custom_field_definitions(organization_id, position);
+CREATE INDEX idx_approval_requests_organization ON approval_requests(organization_id, status);
+-- At most one open request per freelancer and platform
+CREATE UNIQUE INDEX idx_approval_requests_pending ON approval_requests(freelancer_id, platform_id) WHERE status = 'pending';
+CREATE INDEX idx_saved_freelancer_views_user ON saved_freelancer_views(user_id, organization_id);
 
 -- Create views
 CREATE OR REPLACE VIEW freelancer_platform_overview AS
@@ -151,35 +399,94 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
-CREATE OR REPLACE FUNCTION search_freelancers(org_id UUID, search_term TEXT)
+-- Paged search behind the freelancer list. Every filter is optional and
+-- total_count is the number of matches before LIMIT/OFFSET, so the list can
+-- show "x of y" without loading every row. Runs as the caller, so RLS applies.
+DROP FUNCTION IF EXISTS search_freelancers(UUID, TEXT);
+CREATE OR REPLACE FUNCTION search_freelancers(
+    org_id UUID,
+    search_term TEXT DEFAULT NULL,
+    status_filter status DEFAULT NULL,
+    platform_filter TEXT DEFAULT NULL,
+    grant_status_filter status DEFAULT NULL,
+    tag_filter TEXT DEFAULT NULL,
+    created_by_filter UUID DEFAULT NULL,
+    manager_filter UUID DEFAULT NULL,
+    without_manager BOOLEAN DEFAULT FALSE,
+    created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    created_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    custom_field_key TEXT DEFAULT NULL,
+    custom_field_value TEXT DEFAULT NULL,
+    sort_by TEXT DEFAULT 'created_at',
+    sort_dir TEXT DEFAULT 'desc',
+    page_limit INTEGER DEFAULT 50,
+    page_offset INTEGER DEFAULT 0
+)
 RETURNS TABLE (
-    id UUID,
-    email VARCHAR,
-    first_name VARCHAR,
-    last_name VARCHAR,
-    status status,
-    created_at TIMESTAMP WITH TIME ZONE
+    freelancer freelancers,
+    total_count BIGINT
 ) AS $$
 BEGIN
     RETURN QUERY
-    SELECT 
-        f.id,
-        f.email,
-        f.first_name,
-        f.last_name,
-        f.status,
-        f.created_at
+    SELECT
+        f,
+        COUNT(*) OVER ()
     FROM freelancers f
     WHERE f.organization_id = org_id
     AND (
+        COALESCE(search_term, '') = '' OR
         f.email ILIKE '%' || search_term || '%' OR
-        f.first_name ILIKE '%' || search_term || '%' OR
-        f.last_name ILIKE '%' || search_term || '%' OR
-        f.username ILIKE '%' || search_term || '%'
+        (f.first_name || ' ' || f.last_name) ILIKE '%' || search_term || '%' OR
+        f.username ILIKE '%' || search_term || '%' OR
+        f.location ILIKE '%' || search_term || '%' OR
+        EXISTS (SELECT 1 FROM unnest(f.skills) AS skill WHERE skill ILIKE '%' || search_term || '%')
+    )
+    AND (status_filter IS NULL OR f.status = status_filter)
+    AND (tag_filter IS NULL OR f.skills @> ARRAY[tag_filter])
+    AND (created_by_filter IS NULL OR f.created_by = created_by_filter)
+    AND (manager_filter IS NULL OR f.manager_id = manager_filter)
+    AND (NOT without_manager OR f.manager_id IS NULL)
+    AND (created_from IS NULL OR f.created_at >= created_from)
+    AND (created_to IS NULL OR f.created_at <= created_to)
+    AND (
+        custom_field_key IS NULL OR
+        f.custom_fields ->> custom_field_key ILIKE '%' || COALESCE(custom_field_value, '') || '%'
     )
-    ORDER BY f.created_at DESC;
+    -- Platform and grant status filters match the same grant
+    AND (
+        (platform_filter IS NULL AND grant_status_filter IS NULL) OR
+        EXISTS (
+            SELECT 1 FROM freelancer_platforms fp
+            WHERE fp.freelancer_id = f.id
+            AND (platform_filter IS NULL OR fp.platform_id::TEXT = platform_filter)
+            AND (grant_status_filter IS NULL OR fp.status = grant_status_filter)
+        )
+    )
+    ORDER BY
+        CASE WHEN sort_by = 'name' AND sort_dir = 'asc' THEN lower(f.first_name || ' ' || f.last_name) END ASC,
+        CASE WHEN sort_by = 'name' AND sort_dir = 'desc' THEN lower(f.first_name || ' ' || f.last_name) END DESC,
+        CASE WHEN sort_by = 'status' AND sort_dir = 'asc' THEN f.status END ASC,
+        CASE WHEN sort_by = 'status' AND sort_dir = 'desc' THEN f.status END DESC,
+        CASE WHEN sort_by = 'created_at' AND sort_dir = 'asc' THEN f.created_at END ASC,
+        f.created_at DESC,
+        f.id
+    LIMIT LEAST(GREATEST(page_limit, 1), 500)
+    OFFSET GREATEST(page_offset, 0);
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Distinct skills across an organization's freelancers, for the list's tag
+-- filter. Runs as the caller, so RLS applies.
+CREATE OR REPLACE FUNCTION freelancer_skills(org_id UUID)
+RETURNS TABLE (skill TEXT) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT DISTINCT s.skill
+    FROM freelancers f, unnest(f.skills) AS s(skill)
+    WHERE f.organization_id = org_id
+    ORDER BY s.skill;
+END;
+$$ LANGUAGE plpgsql STABLE;
 
 -- Row Level Security (RLS) Policies
 ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
@@ -188,6 +495,19 @@ ALTER TABLE platforms ENABLE ROW LEVEL SECURITY;
 ALTER TABLE freelancers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE freelancer_platforms ENABLE ROW LEVEL SECURITY;
 ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE onboarding_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE onboarding_job_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE onboarding_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE platform_activity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_requirements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE freelancer_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE approval_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE custom_field_definitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_freelancer_views ENABLE ROW LEVEL SECURITY;
+-- No policies: only the service role (platform functions) can reach these
+ALTER TABLE organization_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE platform_secrets ENABLE ROW LEVEL SECURITY;
 
 -- Organizations policies
 CREATE POLICY "Users can view their organization" ON organizations
@@ -306,6 +626,259 @@ CREATE POLICY "System can insert audit logs" ON audit_logs
         )
     );
 
+-- Onboarding jobs policies. Whether a job may skip platform approval depends
+-- on the role of its creator, so members only create jobs as themselves and
+-- only run or change their own; admins can resume anyone's.
+CREATE POLICY "Users can view onboarding jobs in their organization" ON onboarding_jobs
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can create onboarding jobs as themselves" ON onboarding_jobs
+    FOR INSERT WITH CHECK (
+        created_by = auth.uid() AND
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Creators and admins can change onboarding jobs" ON onboarding_jobs
+    FOR UPDATE USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        ) AND (
+            created_by = auth.uid() OR
+            organization_id IN (
+                SELECT organization_id FROM users
+                WHERE id = auth.uid() AND role IN ('owner', 'admin')
+            )
+        )
+    );
+
+CREATE POLICY "Admins can delete onboarding jobs in their organization" ON onboarding_jobs
+    FOR DELETE USING (
+        organization_id IN (
+            SELECT organization_id FROM users
+            WHERE id = auth.uid() AND role IN ('owner', 'admin')
+        )
+    );
+
+CREATE POLICY "Users can view onboarding job steps in their organization" ON onboarding_job_steps
+    FOR SELECT USING (
+        job_id IN (
+            SELECT id FROM onboarding_jobs 
+            WHERE organization_id IN (
+                SELECT organization_id FROM users WHERE id = auth.uid()
+            )
+        )
+    );
+
+-- Steps follow their job, so nobody adds a platform to a job they may not change
+CREATE POLICY "Creators and admins can manage onboarding job steps" ON onboarding_job_steps
+    FOR ALL USING (
+        job_id IN (
+            SELECT j.id FROM onboarding_jobs j
+            JOIN users u ON u.id = auth.uid() AND u.organization_id = j.organization_id
+            WHERE j.created_by = auth.uid() OR u.role IN ('owner', 'admin')
+        )
+    );
+
+-- Onboarding templates policies
+CREATE POLICY "Users can view onboarding templates in their organization" ON onboarding_templates
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can manage onboarding templates in their organization" ON onboarding_templates
+    FOR ALL USING (
+        organization_id IN (
+            SELECT organization_id FROM users 
+            WHERE id = auth.uid() AND role IN ('owner', 'admin')
+        )
+    );
+
+-- Notifications policies
+-- Queued emails are sent as the organization, so only the Netlify functions
+-- insert them with the service role; members can read the outbox
+CREATE POLICY "Users can view notifications for their organization" ON notifications
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+-- Platform activity policies
+CREATE POLICY "Users can view platform activity in their organization" ON platform_activity
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can record platform activity in their organization" ON platform_activity
+    FOR INSERT WITH CHECK (
+        organization_id IN (
+            SELECT organization_id FROM users 
+            WHERE id = auth.uid() AND role IN ('owner', 'admin')
+        )
+    );
+
+-- Document policies
+CREATE POLICY "Users can view document requirements in their organization" ON document_requirements
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can manage document requirements in their organization" ON document_requirements
+    FOR ALL USING (
+        organization_id IN (
+            SELECT organization_id FROM users 
+            WHERE id = auth.uid() AND role IN ('owner', 'admin')
+        )
+    );
+
+CREATE POLICY "Users can view freelancer documents in their organization" ON freelancer_documents
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+-- Anyone in the organization may request or upload a document; approving or
+-- sending one back (which sets reviewed_by) is left to approvers
+CREATE POLICY "Users can request and submit freelancer documents in their organization" ON freelancer_documents
+    FOR INSERT WITH CHECK (
+        status IN ('requested', 'submitted') AND
+        reviewed_by IS NULL AND
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can re-request and resubmit freelancer documents in their organization" ON freelancer_documents
+    FOR UPDATE USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        status IN ('requested', 'submitted') AND
+        reviewed_by IS NULL AND
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can review freelancer documents in their organization" ON freelancer_documents
+    FOR ALL USING (
+        organization_id IN (
+            SELECT organization_id FROM users 
+            WHERE id = auth.uid() AND role IN ('owner', 'admin')
+        )
+    );
+
+-- Custom field policies
+CREATE POLICY "Users can view custom fields in their organization" ON custom_field_definitions
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can manage custom fields in their organization" ON custom_field_definitions
+    FOR ALL USING (
+        organization_id IN (
+            SELECT organization_id FROM users 
+            WHERE id = auth.uid() AND role IN ('owner', 'admin')
+        )
+    );
+
+-- Approval policies
+CREATE POLICY "Users can view approval requests in their organization" ON approval_requests
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can request approval in their organization" ON approval_requests
+    FOR INSERT WITH CHECK (
+        status = 'pending' AND
+        requested_by = auth.uid() AND
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can decide approval requests in their organization" ON approval_requests
+    FOR UPDATE USING (
+        organization_id IN (
+            SELECT organization_id FROM users 
+            WHERE id = auth.uid() AND role IN ('owner', 'admin')
+        )
+    );
+
+-- Saved view policies
+CREATE POLICY "Users can manage their own saved views" ON saved_freelancer_views
+    FOR ALL USING (user_id = auth.uid())
+    WITH CHECK (
+        user_id = auth.uid() AND
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+-- Private bucket for uploaded documents; the first path segment is the organization
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('freelancer-documents', 'freelancer-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Anyone in the organization may upload and read files. Members may only
+-- delete a file no approved document points at, such as the upload a
+-- resubmission replaced; the file behind an approval is left to approvers
+CREATE POLICY "Users can view document files in their organization" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'freelancer-documents' AND
+        (storage.foldername(name))[1] IN (
+            SELECT organization_id::text FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can upload document files in their organization" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'freelancer-documents' AND
+        (storage.foldername(name))[1] IN (
+            SELECT organization_id::text FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can remove unapproved document files in their organization" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'freelancer-documents' AND
+        (storage.foldername(name))[1] IN (
+            SELECT organization_id::text FROM users WHERE id = auth.uid()
+        ) AND
+        NOT EXISTS (
+            SELECT 1 FROM freelancer_documents
+            WHERE freelancer_documents.file_path = objects.name AND freelancer_documents.status = 'approved'
+        )
+    );
+
+CREATE POLICY "Admins can manage document files in their organization" ON storage.objects
+    FOR ALL USING (
+        bucket_id = 'freelancer-documents' AND
+        (storage.foldername(name))[1] IN (
+            SELECT organization_id::text FROM users
+            WHERE id = auth.uid() AND role IN ('owner', 'admin')
+        )
+    );
+
 -- Create triggers for updated_at timestamps
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -328,4 +901,42 @@ CREATE TRIGGER update_freelancers_updated_at BEFORE UPDATE ON freelancers
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_freelancer_platforms_updated_at BEFORE UPDATE ON freelancer_platforms
-    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_onboarding_jobs_updated_at BEFORE UPDATE ON onboarding_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- A job's creator decides whether it may skip platform approval, so it never changes
+CREATE OR REPLACE FUNCTION keep_onboarding_job_creator()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.created_by IS DISTINCT FROM OLD.created_by THEN
+        RAISE EXCEPTION 'The creator of an onboarding job cannot be changed';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER keep_onboarding_jobs_creator BEFORE UPDATE ON onboarding_jobs
+    FOR EACH ROW EXECUTE FUNCTION keep_onboarding_job_creator();
+
+CREATE TRIGGER update_onboarding_job_steps_updated_at BEFORE UPDATE ON onboarding_job_steps
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_onboarding_templates_updated_at BEFORE UPDATE ON onboarding_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_document_requirements_updated_at BEFORE UPDATE ON document_requirements
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_freelancer_documents_updated_at BEFORE UPDATE ON freelancer_documents
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_custom_field_definitions_updated_at BEFORE UPDATE ON custom_field_definitions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_approval_requests_updated_at BEFORE UPDATE ON approval_requests
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_saved_freelancer_views_updated_at BEFORE UPDATE ON saved_freelancer_views
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();